@@ -18,13 +18,17 @@ export default [
       '@typescript-eslint': tseslint,
     },
     rules: {
+      // Règles recommandées du plugin : remplace les règles ESLint que TypeScript couvre
+      // (no-undef, no-unused-vars...) par leurs équivalents typés
+      ...tseslint.configs['eslint-recommended'].overrides[0].rules,
+      ...tseslint.configs.recommended.rules,
+
       // TypeScript specific rules
-      '@typescript-eslint/no-unused-vars': 'error',
+      '@typescript-eslint/no-unused-vars': ['error', { argsIgnorePattern: '^_' }],
       '@typescript-eslint/no-explicit-any': 'warn',
       '@typescript-eslint/explicit-function-return-type': 'off',
       '@typescript-eslint/explicit-module-boundary-types': 'off',
       '@typescript-eslint/no-non-null-assertion': 'warn',
-      '@typescript-eslint/prefer-const': 'error',
       '@typescript-eslint/no-var-requires': 'error',
       
       // General rules
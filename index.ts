@@ -0,0 +1,25 @@
+/**
+ * Point d'entrée du package next-cli-templates (API programmatique)
+ * La CLI est exposée séparément par le binaire next-cli (src/index.ts)
+ */
+
+export { addTemplate, createProject, listTemplates } from './src/api.js';
+export type {
+  AddTemplateOptions,
+  CreateProjectOptions,
+  ProjectGeneration,
+  TemplateGeneration,
+  TemplateInfo,
+  TemplateSpec,
+  WriteOptions,
+} from './src/api.js';
+export type { ConflictResolution, ConflictResolver, FileChange } from './src/core/file-writer.js';
+export { DiskFileSystem, MemoryFileSystem } from './src/core/file-system.js';
+export type {
+  FileSystem,
+  FileTemplate,
+  GenerationResult,
+  Logger,
+  ProjectConfig,
+} from './templates/types.js';
+export type { BaseProjectConfig } from './templates/base-project-structure/index.js';
@@ -0,0 +1,254 @@
+/**
+ * Génère schema/next-cli.schema.json à partir des interfaces de configuration des templates
+ * Usage : pnpm schema
+ */
+
+import { writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+import { findTemplate } from '../src/cli/templates.js';
+import type { JsonSchema } from '../src/core/json-schema.js';
+
+export const CONFIG_SCHEMA_FILE = 'schema/next-cli.schema.json';
+
+// Configuration de chaque section du fichier : module et interface TypeScript
+const SECTIONS: Record<string, [string, string]> = {
+  project: ['templates/base-project-structure/index.ts', 'BaseProjectConfig'],
+  auth: ['templates/authentication/index.ts', 'AuthConfig'],
+  database: ['templates/database/index.ts', 'DatabaseConfig'],
+  crud: ['templates/crud/index.ts', 'CRUDConfig'],
+  forms: ['templates/forms/index.ts', 'FormConfig'],
+  navigation: ['templates/navigation/index.ts', 'NavigationConfig'],
+  security: ['templates/security/index.ts', 'SecurityConfig'],
+  'error-handling': ['templates/error-handling/index.ts', 'ErrorHandlingConfig'],
+  'cache-optimization': ['templates/cache-optimization/index.ts', 'CacheOptimizationConfig'],
+  testing: ['templates/testing/index.ts', 'TestingConfig'],
+};
+
+// Champs communs renseignés une seule fois dans la section project
+const PROJECT_KEYS = ['projectName', 'useTypeScript', 'packageManager'];
+
+/**
+ * Commentaire JSDoc ou // précédant la déclaration d'une propriété
+ */
+function describe(symbol: ts.Symbol, checker: ts.TypeChecker): string | undefined {
+  const documentation = ts.displayPartsToString(symbol.getDocumentationComment(checker));
+  if (documentation) {
+    return documentation;
+  }
+
+  const declaration = symbol.declarations?.[0];
+  if (!declaration) {
+    return undefined;
+  }
+  const text = declaration.getSourceFile().getFullText();
+  const comments = ts.getLeadingCommentRanges(text, declaration.getFullStart()) ?? [];
+  const lines = comments
+    .filter(comment => comment.kind === ts.SyntaxKind.SingleLineCommentTrivia)
+    .map(comment => text.slice(comment.pos + 2, comment.end).trim());
+  return lines.length > 0 ? lines.join(' ') : undefined;
+}
+
+/**
+ * Convertit les types du compilateur en JSON Schema
+ * Hors tableaux, les objets sont partiels : le fichier surcharge les valeurs par défaut.
+ * Les éléments de tableau remplacent ceux par défaut et sont donc complets
+ */
+class SchemaBuilder {
+  readonly definitions: Record<string, JsonSchema> = {};
+  private readonly names = new Map<ts.Type, string>();
+  private readonly visiting = new Set<ts.Type>();
+  // Préfixe des noms en collision (Permission de crud et de security…)
+  scope = '';
+
+  constructor(private readonly checker: ts.TypeChecker) {}
+
+  convert(type: ts.Type, partial: boolean): JsonSchema | undefined {
+    const { checker } = this;
+
+    if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+      return {};
+    }
+    if (type.flags & ts.TypeFlags.StringLiteral) {
+      return { type: 'string', enum: [(type as ts.StringLiteralType).value] };
+    }
+    if (type.flags & ts.TypeFlags.NumberLiteral) {
+      return { type: 'number', enum: [(type as ts.NumberLiteralType).value] };
+    }
+    if (type.flags & (ts.TypeFlags.String | ts.TypeFlags.TemplateLiteral)) {
+      return { type: 'string' };
+    }
+    if (type.flags & ts.TypeFlags.Number) {
+      return { type: 'number' };
+    }
+    if (type.flags & (ts.TypeFlags.Boolean | ts.TypeFlags.BooleanLiteral)) {
+      return { type: 'boolean' };
+    }
+    if (type.flags & ts.TypeFlags.Null) {
+      return { type: 'null' };
+    }
+    if (type.isUnion()) {
+      return this.convertUnion(type, partial);
+    }
+    if (checker.isArrayType(type) || checker.isTupleType(type)) {
+      const [element] = checker.getTypeArguments(type as ts.TypeReference);
+      return { type: 'array', items: (element && this.convert(element, false)) ?? {} };
+    }
+    if (type.getCallSignatures().length > 0) {
+      return undefined;
+    }
+    if (type.symbol?.name === 'Date') {
+      return { type: 'string', format: 'date-time' };
+    }
+    return partial ? this.convertObject(type, true) : this.reference(type);
+  }
+
+  private convertUnion(type: ts.UnionType, partial: boolean): JsonSchema | undefined {
+    const members = type.types.filter(member => !(member.flags & ts.TypeFlags.Undefined));
+    if (members.length > 0 && members.every(member => member.isStringLiteral())) {
+      return { type: 'string', enum: members.map(member => (member as ts.StringLiteralType).value) };
+    }
+
+    // true | false forment boolean
+    const booleans = members.filter(member => member.flags & ts.TypeFlags.BooleanLiteral);
+    const others = members.filter(member => !(member.flags & ts.TypeFlags.BooleanLiteral));
+    const schemas = [
+      ...(booleans.length > 0 ? [{ type: 'boolean' } as JsonSchema] : []),
+      ...others.flatMap(member => this.convert(member, partial) ?? []),
+    ];
+    return schemas.length === 1 ? schemas[0] : { anyOf: schemas };
+  }
+
+  private convertObject(type: ts.Type, partial: boolean, omit: string[] = []): JsonSchema {
+    const { checker } = this;
+    if (this.visiting.has(type)) {
+      return { type: 'object' };
+    }
+    this.visiting.add(type);
+
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const property of checker.getPropertiesOfType(type)) {
+      if (omit.includes(property.name)) {
+        continue;
+      }
+      const schema = this.convert(checker.getTypeOfSymbol(property), partial);
+      if (!schema) {
+        continue;
+      }
+      const description = describe(property, checker);
+      properties[property.name] = description ? { description, ...schema } : schema;
+      if (!partial && !(property.flags & ts.SymbolFlags.Optional)) {
+        required.push(property.name);
+      }
+    }
+
+    const index = checker.getIndexTypeOfType(type, ts.IndexKind.String);
+    this.visiting.delete(type);
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+      additionalProperties: index ? (this.convert(index, partial) ?? {}) : false,
+    };
+  }
+
+  /**
+   * Objet complet nommé dans $defs, ce qui autorise les types récursifs (menus imbriqués…)
+   */
+  private reference(type: ts.Type): JsonSchema {
+    const existing = this.names.get(type);
+    if (existing) {
+      return { $ref: `#/$defs/${existing}` };
+    }
+
+    // Les types anonymes et génériques instanciés (Record<string, string>) restent en ligne
+    const symbolName = type.aliasSymbol?.name ?? type.symbol?.name;
+    if (!symbolName || symbolName.startsWith('__') || type.aliasTypeArguments) {
+      return this.convertObject(type, false);
+    }
+    const name = symbolName in this.definitions ? `${this.scope}${symbolName}` : symbolName;
+    this.names.set(type, name);
+    this.definitions[name] = {};
+    this.definitions[name] = this.convertObject(type, false);
+    return { $ref: `#/$defs/${name}` };
+  }
+
+  section(type: ts.Type, omit: string[]): JsonSchema {
+    return this.convertObject(type, true, omit);
+  }
+}
+
+/**
+ * Construit le JSON Schema du fichier passé à `next-cli create --config`
+ */
+export function generateConfigSchema(root: string = process.cwd()): JsonSchema {
+  const files = [...new Set(Object.values(SECTIONS).map(([file]) => join(root, file)))];
+  const program = ts.createProgram(files, {
+    strict: true,
+    exactOptionalPropertyTypes: true,
+    skipLibCheck: true,
+    noEmit: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    resolveJsonModule: true,
+  });
+  const checker = program.getTypeChecker();
+  const builder = new SchemaBuilder(checker);
+
+  const sections = Object.fromEntries(Object.entries(SECTIONS).map(([name, [file, typeName]]) => {
+    const source = program.getSourceFile(join(root, file));
+    const symbol = source && checker.getSymbolAtLocation(source)?.exports?.get(typeName as ts.__String);
+    if (!symbol) {
+      throw new Error(`${typeName} introuvable dans ${file}`);
+    }
+
+    const type = checker.getDeclaredTypeOfSymbol(symbol);
+    builder.scope = typeName.replace(/Config$/, '');
+    const schema = builder.section(type, name === 'project' ? [] : PROJECT_KEYS);
+    const template = findTemplate(name);
+    if (template && template.presets.length > 0) {
+      schema.properties = {
+        preset: {
+          description: 'Preset servant de point de départ, surchargé par les autres champs',
+          type: 'string',
+          enum: template.presets,
+        },
+        ...schema.properties,
+      };
+    }
+    return [name, template ? { description: template.description, ...schema } : schema];
+  }));
+
+  const { project, ...templates } = sections;
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: 'Configuration de projet next-cli',
+    description: 'Fichier passé à next-cli create --config : projet de base et une section par template',
+    type: 'object',
+    properties: {
+      $schema: { type: 'string' },
+      project: { description: 'Structure du projet de base', ...project },
+      templates: {
+        description: 'Templates à générer, configurés section par section',
+        type: 'object',
+        properties: templates,
+        additionalProperties: false,
+      },
+    },
+    additionalProperties: false,
+    $defs: builder.definitions,
+  };
+}
+
+export function renderConfigSchema(schema: JsonSchema): string {
+  return `${JSON.stringify(schema, null, 2)}\n`;
+}
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const target = join(process.cwd(), CONFIG_SCHEMA_FILE);
+  await writeFile(target, renderConfigSchema(generateConfigSchema()), 'utf-8');
+  console.log(`✓ ${CONFIG_SCHEMA_FILE} généré`);
+}
@@ -0,0 +1,214 @@
+/**
+ * API programmatique : génération sans passer par la ligne de commande
+ * Sans cible, tout reste en mémoire ; sinon les fichiers sont écrits comme par la CLI,
+ * sur disque ou dans un système de fichiers fourni (MemoryFileSystem)
+ */
+
+import { resolve } from 'path';
+import type {
+  FileSystem,
+  FileTemplate,
+  GenerationResult,
+  Logger,
+  ProjectConfig,
+} from '../templates/types.js';
+import type { BaseProjectConfig } from '../templates/base-project-structure/index.js';
+import { validateProjectConfig } from '../templates/base-project-structure/generator.js';
+import { composeProject, generateProject } from './cli/commands/create.js';
+import { addProjectTemplate } from './cli/commands/add.js';
+import { configureTemplate } from './cli/config-file.js';
+import { createLogger } from './cli/logger.js';
+import { createPreviewContext, findTemplate, getTemplateNames } from './cli/templates.js';
+import type { TemplateEntry } from './cli/templates.js';
+import type { ProjectPlan } from './cli/wizard.js';
+import { createGenerationContext } from './core/file-writer.js';
+import type { ConflictResolution, ConflictResolver, FileChange } from './core/file-writer.js';
+
+export interface TemplateSpec {
+  name: string;
+  preset?: string;
+  // Valeurs appliquées sur la configuration du preset (objets fusionnés, tableaux remplacés)
+  config?: Record<string, unknown>;
+}
+
+export interface WriteOptions {
+  dryRun?: boolean;
+  skipExisting?: boolean;
+  // Fichiers existants modifiés : stratégie ou résolveur ('sidecar' par défaut)
+  onConflict?: ConflictResolution | ConflictResolver;
+  // Messages de génération (aucun par défaut)
+  logger?: Logger;
+  // Système de fichiers du projet (ex. MemoryFileSystem), à la place du disque
+  fs?: FileSystem;
+}
+
+export interface CreateProjectOptions extends WriteOptions {
+  projectName: string;
+  packageManager?: ProjectConfig['packageManager'];
+  base?: Partial<BaseProjectConfig>;
+  // Noms ("auth", "database:postgresql") ou templates configurés
+  templates?: (string | TemplateSpec)[];
+  // Dossier parent : le projet est écrit dans directory/projectName
+  directory?: string;
+}
+
+export interface ProjectGeneration {
+  files: FileTemplate[];
+  instructions: string[];
+  // Dossier et fichiers écrits, uniquement avec directory ou fs
+  projectRoot?: string;
+  changes: FileChange[];
+}
+
+export interface AddTemplateOptions extends TemplateSpec, WriteOptions {
+  // Racine d'un projet existant ; sans elle ni fs, le template est généré en mémoire
+  projectRoot?: string;
+  // Projet utilisé pour la génération en mémoire
+  project?: Partial<ProjectConfig>;
+  entity?: string;
+}
+
+export interface TemplateGeneration {
+  result: GenerationResult;
+  changes: FileChange[];
+}
+
+export interface TemplateInfo {
+  name: string;
+  description: string;
+  version: string;
+  presets: string[];
+  defaultPreset?: string;
+  // Templates ou capacités requis et incompatibles
+  dependencies: string[];
+  conflicts: string[];
+  tags: string[];
+}
+
+function toSpec(spec: string | TemplateSpec): TemplateSpec {
+  if (typeof spec !== 'string') {
+    return spec;
+  }
+  const [name = '', preset] = spec.split(':');
+  return preset ? { name, preset } : { name };
+}
+
+function requireTemplate(name: string): TemplateEntry {
+  const template = findTemplate(name);
+  if (!template) {
+    throw new Error(`Template inconnu "${name}". Templates disponibles: ${getTemplateNames().join(', ')}`);
+  }
+  return template;
+}
+
+function toResolver(onConflict: WriteOptions['onConflict']): ConflictResolver {
+  if (typeof onConflict === 'function') {
+    return onConflict;
+  }
+  const resolution = onConflict ?? 'sidecar';
+  return async () => resolution;
+}
+
+/**
+ * Construit et valide le plan d'un projet
+ */
+function planProject(options: CreateProjectOptions): ProjectPlan {
+  const project: ProjectConfig = {
+    projectName: options.projectName,
+    useTypeScript: true,
+    packageManager: options.packageManager ?? 'pnpm',
+  };
+  const base = { useSrcDirectory: true, useAppRouter: true, ...options.base, ...project };
+
+  const errors = validateProjectConfig(base);
+  const templates = (options.templates ?? []).map(spec => {
+    const { name, preset, config: overrides } = toSpec(spec);
+    const template = requireTemplate(name);
+    const config = configureTemplate(template, project, { preset }, overrides);
+    errors.push(...template.validate(config).map(error => `${name} : ${error}`));
+    return { template, config };
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Configuration invalide :\n${errors.join('\n')}`);
+  }
+  return { project, base, templates };
+}
+
+/**
+ * Génère un projet complet (projet de base, templates et fichiers composés)
+ */
+export async function createProject(options: CreateProjectOptions): Promise<ProjectGeneration> {
+  const plan = planProject(options);
+  const logger = options.logger ?? createLogger({ silent: true });
+
+  if (!options.directory && !options.fs) {
+    const context = createPreviewContext(plan.project);
+    const { files, instructions } = await composeProject(context, plan, logger);
+    return { files, instructions, changes: [] };
+  }
+
+  const projectRoot = options.fs?.root
+    ?? resolve(options.directory ?? '.', plan.project.projectName);
+  const context = await createGenerationContext(projectRoot, plan.project, options);
+  const { changes, instructions } = await generateProject(context, plan, logger, {
+    resolveConflict: toResolver(options.onConflict),
+  });
+  return { files: changes.map(change => change.file), instructions, projectRoot, changes };
+}
+
+/**
+ * Génère un template en mémoire, ou l'ajoute à un projet existant avec projectRoot
+ */
+export async function addTemplate(options: AddTemplateOptions): Promise<TemplateGeneration> {
+  const template = requireTemplate(options.name);
+  const logger = options.logger ?? createLogger({ silent: true });
+
+  if (options.projectRoot || options.fs) {
+    const projectRoot = options.fs?.root ?? resolve(options.projectRoot ?? '.');
+    return addProjectTemplate(projectRoot, template, {
+      preset: options.preset,
+      entity: options.entity,
+      config: options.config,
+      dryRun: options.dryRun ?? false,
+      skipExisting: options.skipExisting ?? false,
+      resolveConflict: toResolver(options.onConflict),
+      fs: options.fs,
+    }, logger);
+  }
+
+  const project: ProjectConfig = {
+    projectName: 'my-app',
+    useTypeScript: true,
+    packageManager: 'pnpm',
+    ...options.project,
+  };
+  const { preset, entity } = options;
+  const config = configureTemplate(template, project, { preset, entity }, options.config);
+  const errors = template.validate(config);
+  if (errors.length > 0) {
+    throw new Error(`Configuration de ${template.name} invalide :\n${errors.join('\n')}`);
+  }
+
+  const result = await template.generate(config, createPreviewContext(project));
+  return { result, changes: [] };
+}
+
+/**
+ * Templates disponibles : catalogue et générateurs enregistrés par des plugins
+ */
+export function listTemplates(): TemplateInfo[] {
+  return getTemplateNames().map(name => {
+    const { description, presets, defaultPreset, generator } = requireTemplate(name);
+    return {
+      name,
+      description,
+      version: generator.metadata.version,
+      presets,
+      ...(defaultPreset ? { defaultPreset } : {}),
+      dependencies: generator.dependencies ?? [],
+      conflicts: generator.conflicts ?? [],
+      tags: generator.metadata.tags,
+    };
+  });
+}
@@ -0,0 +1,197 @@
+/**
+ * Commande add : ajoute un template à un projet existant
+ */
+
+import { resolve } from 'path';
+import chalk from 'chalk';
+import type { CLICommand, GenerationResult, Logger } from '../../../templates/types.js';
+import { BASE_TEMPLATE } from '../../../templates/registry.js';
+import { createContext } from '../context.js';
+import { findTemplate, getTemplateNames } from '../templates.js';
+import type { TemplateEntry } from '../templates.js';
+import { mergeConfig } from '../prompts.js';
+import { readProjectConfig } from '../project.js';
+import {
+  createGenerationContext,
+  summarizeChanges,
+  writeGeneratedFiles,
+} from '../../core/file-writer.js';
+import type { ConflictResolver, ContextOptions, FileChange } from '../../core/file-writer.js';
+import { DiskFileSystem } from '../../core/file-system.js';
+import { applyModifications } from '../../core/codemods/index.js';
+import { ENV_EXAMPLE_FILE, composeProjectEnv } from '../../core/env.js';
+import {
+  MIDDLEWARE_FILE,
+  composeProjectMiddleware,
+  readMiddlewareSegments,
+} from '../../core/middleware.js';
+import { PACKAGE_FILE, composeProjectPackageJson } from '../../core/package-json.js';
+import { PRISMA_SCHEMA_FILE, composeProjectPrismaSchema } from '../../core/prisma-schema.js';
+import { OPENAPI_FILE, composeProjectOpenAPI } from '../../core/openapi.js';
+import { resolveTemplateGraph } from '../../core/template-graph.js';
+import {
+  MANIFEST_FILE,
+  createManifest,
+  getInstalledTemplates,
+  readManifest,
+  saveGeneration,
+  withPristineOverwrite,
+} from '../../core/manifest.js';
+import { createConflictResolver } from '../conflicts.js';
+import { generationOptions } from '../options.js';
+
+export interface AddTemplateOptions extends ContextOptions {
+  preset?: string | undefined;
+  entity?: string | undefined;
+  // Valeurs appliquées sur la configuration du preset (objets fusionnés, tableaux remplacés)
+  config?: Record<string, unknown> | undefined;
+  resolveConflict?: ConflictResolver | undefined;
+}
+
+export interface AddedTemplate {
+  result: GenerationResult;
+  changes: FileChange[];
+}
+
+/**
+ * Ajoute un template à un projet existant : génération, composition et écriture
+ */
+export async function addProjectTemplate(
+  projectRoot: string,
+  template: TemplateEntry,
+  options: AddTemplateOptions,
+  logger: Logger,
+): Promise<AddedTemplate> {
+  const { name } = template;
+  const fs = options.fs ?? new DiskFileSystem(projectRoot);
+  const project = await readProjectConfig(fs);
+
+  const manifest = await readManifest(fs);
+
+  // Sans nouvelles options, un template déjà appliqué est régénéré avec sa configuration
+  const applied = manifest?.templates.find(entry => entry.name === template.name);
+  const reuseConfig = applied && !options.preset && !options.entity && !options.config;
+  if (reuseConfig) {
+    logger.info(`${name} déjà appliqué : configuration de ${MANIFEST_FILE} réutilisée`);
+  }
+  const defaultConfig = reuseConfig ? applied.config : template.createConfig({
+    project,
+    ...(options.preset ? { preset: options.preset } : {}),
+    ...(options.entity ? { entity: options.entity } : {}),
+  });
+  const config = options.config ? mergeConfig(defaultConfig, options.config) : defaultConfig;
+  if (options.config) {
+    const errors = template.validate(config);
+    if (errors.length > 0) {
+      throw new Error(`Configuration de ${name} invalide :\n${errors.join('\n')}`);
+    }
+  }
+
+  // Sans manifeste, les templates installés ne sont pas connus :
+  // les dépendances manquantes sont signalées, pas ajoutées
+  const installed = manifest
+    ? getInstalledTemplates(manifest).filter(entry => entry.name !== template.name)
+    : [{ name: BASE_TEMPLATE, config: project }];
+  const { missing } = resolveTemplateGraph([{ name: template.name, config }], {
+    installed,
+    autoInclude: false,
+  });
+  const hint = manifest ? '' : ' s\'il n\'est pas installé';
+  missing.forEach(({ dependency }) => logger.warn(
+    findTemplate(dependency)
+      ? `${name} requiert ${dependency} (next-cli add ${dependency}${hint})`
+      : `${name} requiert "${dependency}"`,
+  ));
+
+  const generationContext = await createGenerationContext(projectRoot, project, { ...options, fs });
+  const result = await template.generate(config, generationContext);
+  if (!result.success) {
+    throw new Error(`Échec de la génération de ${name}:\n${(result.errors ?? []).join('\n')}`);
+  }
+
+  const segments = await readMiddlewareSegments(generationContext);
+  const hasMiddleware = generationContext.existingFiles.includes(MIDDLEWARE_FILE);
+  if (result.middleware?.length && hasMiddleware && segments.length === 0) {
+    logger.warn(`${MIDDLEWARE_FILE} existant sans segments : remplacé par la composition`);
+  }
+
+  const composed = composeProjectOpenAPI(
+    composeProjectPrismaSchema(
+      composeProjectEnv(
+        composeProjectPackageJson(
+          composeProjectMiddleware([result], project, segments),
+          [{ source: name, ...result.packageJson }],
+          logger,
+          await fs.readFile(PACKAGE_FILE),
+        ),
+        result.env ?? [],
+        logger,
+        await fs.readFile(ENV_EXAMPLE_FILE),
+      ),
+      logger,
+      await fs.readFile(PRISMA_SCHEMA_FILE),
+    ),
+    logger,
+    await fs.readFile(OPENAPI_FILE),
+  );
+  const { files, modified } = await applyModifications(
+    composed,
+    result.modifications ?? [],
+    fs,
+    logger,
+  );
+  // Les fichiers non modifiés depuis la dernière génération sont mis à jour sans question
+  const changes = await writeGeneratedFiles(files, generationContext, logger, {
+    ...(options.resolveConflict
+      ? { resolveConflict: withPristineOverwrite(manifest, options.resolveConflict) }
+      : {}),
+    merged: [PACKAGE_FILE, ENV_EXAMPLE_FILE, PRISMA_SCHEMA_FILE, OPENAPI_FILE, ...modified],
+  });
+  if (!generationContext.dryRun) {
+    await saveGeneration(fs, manifest ?? createManifest(), [{
+      name: template.name,
+      version: template.generator.metadata.version,
+      config,
+      files: result.files.map(file => file.path),
+    }], changes);
+  }
+  return { result, changes };
+}
+
+export const addCommand: CLICommand = {
+  name: 'add <template>',
+  description: 'Ajoute un template au projet courant',
+  options: [
+    { name: 'preset', description: 'Preset de configuration du template', type: 'string' },
+    { name: 'entity', description: 'Nom de l\'entité (template crud)', type: 'string' },
+    { name: 'directory', description: 'Racine du projet', type: 'string' },
+    ...generationOptions,
+  ],
+  action: async (args, options) => {
+    const context = createContext(args, options);
+    const { logger } = context;
+    const [name = ''] = args as string[];
+    const template = findTemplate(name);
+
+    if (!template) {
+      throw new Error(`Template inconnu "${name}". Templates disponibles: ${getTemplateNames().join(', ')}`);
+    }
+
+    const { result, changes } = await addProjectTemplate(
+      resolve(options.directory ?? context.cwd),
+      template,
+      { ...options, resolveConflict: createConflictResolver(options.onConflict, logger) },
+      logger,
+    );
+    if (options.dryRun) {
+      logger.info(`\nAucun fichier écrit (--dry-run) : ${summarizeChanges(changes)}`);
+      return;
+    }
+    logger.success(`Template ${chalk.cyan(name)} ajouté (${summarizeChanges(changes)})`);
+
+    if (result.instructions.length > 0) {
+      logger.info(chalk.bold('\nProchaines étapes :'));
+      result.instructions.forEach(instruction => logger.info(instruction));
+    }
+  },
+};
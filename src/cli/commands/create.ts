@@ -0,0 +1,285 @@
+/**
+ * Commande create : génère un nouveau projet Next.js
+ */
+
+import { resolve } from 'path';
+import chalk from 'chalk';
+import type {
+  CLICommand,
+  CodeModification,
+  EnvVariable,
+  FileTemplate,
+  GenerationContext,
+  Logger,
+  ProjectConfig,
+} from '../../../templates/types.js';
+import { BASE_TEMPLATE, templateRegistry } from '../../../templates/registry.js';
+import { defaultBaseProjectConfig } from '../../../templates/base-project-structure/index.js';
+import { createContext } from '../context.js';
+import { findTemplate, getTemplateNames } from '../templates.js';
+import { loadProjectFile } from '../config-file.js';
+import type { ProjectPlan } from '../wizard.js';
+import { PACKAGE_MANAGERS } from '../project.js';
+import { runWizard } from '../wizard.js';
+import type { FileChange, WriterOptions } from '../../core/file-writer.js';
+import {
+  createGenerationContext,
+  summarizeChanges,
+  writeGeneratedFiles,
+} from '../../core/file-writer.js';
+import { getFileSystem } from '../../core/file-system.js';
+import { applyModifications } from '../../core/codemods/index.js';
+import { composeProjectEnv } from '../../core/env.js';
+import { composeProjectMiddleware } from '../../core/middleware.js';
+import type { MiddlewareSource } from '../../core/middleware.js';
+import { composeProjectPackageJson } from '../../core/package-json.js';
+import type { PackageSource } from '../../core/package-json.js';
+import { composeProjectPrismaSchema } from '../../core/prisma-schema.js';
+import { composeProjectOpenAPI } from '../../core/openapi.js';
+import { resolveTemplateGraph } from '../../core/template-graph.js';
+import { createManifest, readManifest, saveGeneration } from '../../core/manifest.js';
+import type { AppliedTemplate } from '../../core/manifest.js';
+import { createConflictResolver } from '../conflicts.js';
+import { generationOptions } from '../options.js';
+
+/**
+ * Découpe une spécification "template[:preset]"
+ */
+export function parseTemplateSpec(spec: string): { name: string; preset?: string } {
+  const [name = '', preset] = spec.split(':');
+  return preset ? { name, preset } : { name };
+}
+
+/**
+ * Construit le plan du projet à partir des options de la ligne de commande
+ */
+export function planFromOptions(
+  projectName: string,
+  options: { packageManager: ProjectConfig['packageManager']; templates: string[] },
+): ProjectPlan {
+  const project: ProjectConfig = {
+    projectName,
+    useTypeScript: true,
+    packageManager: options.packageManager,
+  };
+
+  const templates = options.templates.map(spec => {
+    const { name, preset } = parseTemplateSpec(spec);
+    const template = findTemplate(name);
+    if (!template) {
+      throw new Error(`Template inconnu "${name}". Templates disponibles: ${getTemplateNames().join(', ')}`);
+    }
+    return { template, config: template.createConfig(preset ? { project, preset } : { project }) };
+  });
+
+  return { project, base: { ...project, useSrcDirectory: true, useAppRouter: true }, templates };
+}
+
+export interface ComposedProject {
+  files: FileTemplate[];
+  applied: AppliedTemplate[];
+  instructions: string[];
+}
+
+/**
+ * Génère en mémoire le projet de base et les templates sélectionnés
+ * middleware.ts, package.json et .env.example sont composés à partir de tous les templates
+ */
+export async function composeProject(
+  context: GenerationContext,
+  plan: ProjectPlan,
+  logger: Logger,
+): Promise<ComposedProject> {
+  const baseGenerator = templateRegistry.resolve(BASE_TEMPLATE);
+  const baseConfig = { ...defaultBaseProjectConfig, ...plan.base };
+  const base = await baseGenerator.generate(baseConfig, context);
+  if (!base.success) {
+    throw new Error((base.errors ?? []).join('\n'));
+  }
+
+  const sources: MiddlewareSource[] = [base];
+  const packages: PackageSource[] = [];
+  const env: EnvVariable[] = [...(base.env ?? [])];
+  const modifications: CodeModification[] = [...(base.modifications ?? [])];
+  const instructions: string[] = [...base.instructions];
+  const applied: AppliedTemplate[] = [{
+    name: BASE_TEMPLATE,
+    version: baseGenerator.metadata.version,
+    config: baseConfig,
+    files: base.files.map(file => file.path),
+  }];
+
+  // Dépendances ajoutées automatiquement et générées avant les templates qui les requièrent
+  const { project } = plan;
+  const { templates } = resolveTemplateGraph(
+    plan.templates.map(({ template, config }) => ({ name: template.name, config })),
+    {
+      installed: [{ name: BASE_TEMPLATE, config: plan.base }],
+      createConfig: name => findTemplate(name)?.createConfig({ project }) ?? project,
+    },
+  );
+
+  for (const { generator, config, requiredBy } of templates) {
+    if (requiredBy) {
+      logger.info(`Template ${chalk.cyan(generator.name)} ajouté (requis par ${requiredBy})`);
+    }
+    const result = await generator.generate(config, context);
+    if (!result.success) {
+      const errors = (result.errors ?? []).join('\n');
+      throw new Error(`Échec de la génération de ${generator.name}:\n${errors}`);
+    }
+
+    sources.push(result);
+    packages.push({ source: generator.name, ...result.packageJson });
+    env.push(...(result.env ?? []));
+    modifications.push(...(result.modifications ?? []));
+    instructions.push(...result.instructions);
+    applied.push({
+      name: generator.name,
+      version: generator.metadata.version,
+      config,
+      files: result.files.map(file => file.path),
+    });
+    logger.success(`Template ${generator.name} généré (${result.files.length} fichiers)`);
+  }
+
+  // Un seul middleware.ts composé des segments de tous les templates,
+  // un seul package.json regroupant leurs dépendances et scripts,
+  // un seul .env.example regroupant leurs variables d'environnement,
+  // un seul schema.prisma regroupant leurs modèles,
+  // et un seul openapi.json regroupant leurs routes documentées
+  const composed = composeProjectOpenAPI(
+    composeProjectPrismaSchema(
+      composeProjectEnv(
+        composeProjectPackageJson(
+          composeProjectMiddleware(sources, project),
+          packages,
+          logger,
+          undefined,
+          'base-project-structure',
+        ),
+        env,
+        logger,
+      ),
+      logger,
+    ),
+    logger,
+  );
+  // Modifications ciblées des fichiers générés (providers du layout, imports...)
+  const { files } = await applyModifications(
+    composed,
+    modifications,
+    getFileSystem(context),
+    logger,
+  );
+  return { files, applied, instructions };
+}
+
+/**
+ * Génère le projet de base et les templates sélectionnés
+ */
+export async function generateProject(
+  context: GenerationContext,
+  plan: ProjectPlan,
+  logger: Logger,
+  writerOptions: WriterOptions = {},
+): Promise<{ changes: FileChange[]; instructions: string[] }> {
+  const { existingFiles, dryRun, skipExisting, projectRoot } = context;
+  if (existingFiles.length > 0 && !dryRun && !skipExisting) {
+    throw new Error(
+      `Le dossier ${projectRoot} existe déjà et n'est pas vide (utilisez --skip-existing)`,
+    );
+  }
+
+  const { files, applied, instructions } = await composeProject(context, plan, logger);
+  const changes = await writeGeneratedFiles(files, context, logger, writerOptions);
+
+  // next-cli.json : templates appliqués et empreintes des fichiers générés
+  if (!dryRun) {
+    const fs = getFileSystem(context);
+    const manifest = (await readManifest(fs)) ?? createManifest();
+    await saveGeneration(fs, manifest, applied, changes);
+  }
+  return { changes, instructions };
+}
+
+export const createCommand: CLICommand = {
+  name: 'create [name]',
+  description: 'Crée un nouveau projet Next.js (assistant interactif si aucun nom n\'est donné)',
+  options: [
+    {
+      name: 'package-manager',
+      description: 'Gestionnaire de packages',
+      type: 'string',
+      default: 'pnpm',
+      choices: PACKAGE_MANAGERS,
+    },
+    {
+      name: 'templates',
+      description: 'Templates à ajouter (format: nom[:preset])',
+      type: 'array',
+      default: [],
+    },
+    {
+      name: 'config',
+      description: 'Fichier de configuration JSON ou YAML (voir schema/next-cli.schema.json)',
+      type: 'string',
+    },
+    {
+      name: 'directory',
+      description: 'Dossier parent du projet',
+      type: 'string',
+    },
+    {
+      name: 'interactive',
+      description: 'Lance l\'assistant interactif',
+      type: 'boolean',
+    },
+    ...generationOptions,
+  ],
+  action: async (args, options) => {
+    const context = createContext(args, options);
+    const { logger } = context;
+    const [projectName] = args as (string | undefined)[];
+
+    let plan: ProjectPlan;
+    if (options.config) {
+      if (options.templates.length > 0) {
+        throw new Error('--templates et --config ne peuvent pas être combinés');
+      }
+      plan = await loadProjectFile(resolve(context.cwd, options.config), {
+        projectName,
+        packageManager: options.packageManager,
+      });
+    } else if (!projectName || options.interactive) {
+      if (!process.stdin.isTTY) {
+        throw new Error('Nom de projet requis en mode non interactif');
+      }
+      plan = await runWizard(logger, {
+        ...(projectName ? { projectName } : {}),
+        packageManager: options.packageManager,
+      });
+    } else {
+      plan = planFromOptions(projectName, options);
+    }
+
+    const { projectName: name } = plan.project;
+    const projectRoot = resolve(options.directory ?? context.cwd, name);
+    const generationContext = await createGenerationContext(projectRoot, plan.project, options);
+    const { changes, instructions } = await generateProject(generationContext, plan, logger, {
+      resolveConflict: createConflictResolver(options.onConflict, logger),
+    });
+
+    if (generationContext.dryRun) {
+      logger.info(`\nAucun fichier écrit (--dry-run) : ${summarizeChanges(changes)}`);
+      return;
+    }
+    const summary = summarizeChanges(changes);
+    logger.success(`Projet ${chalk.cyan(name)} créé dans ${projectRoot} (${summary})`);
+
+    if (instructions.length > 0) {
+      logger.info(chalk.bold('\nProchaines étapes :'));
+      instructions.forEach(instruction => logger.info(instruction));
+    }
+  },
+};
@@ -0,0 +1,95 @@
+/**
+ * Commande doctor : diagnostic d'un projet Next.js existant
+ */
+
+import { resolve } from 'path';
+import chalk from 'chalk';
+import type { CLICommand, Logger } from '../../../templates/types.js';
+import { createContext } from '../context.js';
+import { diagnoseProject } from '../../core/doctor.js';
+import type { DoctorReport } from '../../core/doctor.js';
+import { MANIFEST_FILE } from '../../core/manifest.js';
+
+function section(logger: Logger, title: string, lines: string[], empty: string): number {
+  logger.info(chalk.bold(`\n${title}`));
+  if (lines.length === 0) {
+    logger.success(empty);
+    return 0;
+  }
+  lines.forEach(line => logger.warn(line));
+  return lines.length;
+}
+
+/**
+ * Affiche le rapport et retourne le nombre de problèmes
+ */
+export function printDoctorReport(report: DoctorReport, logger: Logger): number {
+  const { drift, tailwind } = report;
+
+  logger.info(chalk.bold('Projet'));
+  logger.info(`  Next.js : ${report.nextVersion ?? chalk.red('absent')}`);
+  logger.info(`  App Router : ${report.appDirectory ? `${report.appDirectory}/` : chalk.red('absent')}`);
+  logger.info(`  middleware.ts : ${report.middleware ? 'présent' : 'absent'}`);
+  logger.info(`  Tailwind : ${tailwind.version ? `v${tailwind.version}` : 'absent'}`);
+
+  logger.info(chalk.bold('\nTemplates détectés'));
+  report.templates.forEach(({ name, evidence, recorded }) => {
+    const origin = recorded ? '' : chalk.dim(` (absent de ${MANIFEST_FILE})`);
+    const more = evidence.length > 3 ? ` (+${evidence.length - 3})` : '';
+    logger.info(`  ${chalk.cyan(name)}${origin} : ${evidence.slice(0, 3).join(', ')}${more}`);
+  });
+  if (report.templates.length === 0) {
+    logger.info('  aucun');
+  }
+
+  let problems = 0;
+  problems += section(logger, 'Manifeste', [
+    ...report.unconfirmed.map(name => `${name} enregistré mais aucun de ses fichiers n'existe`),
+    ...(drift?.missing ?? []).map(path => `${path} supprimé depuis sa génération`),
+  ], drift ? `${MANIFEST_FILE} cohérent` : `Pas de ${MANIFEST_FILE}`);
+  problems += section(logger, 'Alias de chemins (tsconfig.json)', report.aliases.map(issue => (
+    issue.actual
+      ? `${issue.alias} pointe vers ${issue.actual} au lieu de ${issue.expected}`
+      : `${issue.alias} manquant (${issue.expected})`
+  )), 'Tous les alias sont déclarés');
+  problems += section(logger, 'Variables d\'environnement', report.missingEnv.map(name => (
+    `${name} requise mais non définie dans .env ou .env.local`
+  )), 'Variables requises définies');
+  problems += section(logger, 'Tailwind', tailwind.issues, 'Configuration cohérente');
+  problems += section(logger, 'Dépendances', report.outdated.map(({ name, current, expected }) => (
+    `${name} ${current} → ${expected}`
+  )), 'Dépendances à jour');
+
+  if (drift && drift.modified.length > 0) {
+    logger.info(chalk.bold('\nFichiers modifiés depuis leur génération'));
+    drift.modified.forEach(path => logger.info(`  ${path}`));
+  }
+  return problems;
+}
+
+export const doctorCommand: CLICommand = {
+  name: 'doctor',
+  description: 'Diagnostique le projet courant (templates, alias, variables, Tailwind, dépendances)',
+  options: [
+    { name: 'directory', description: 'Racine du projet', type: 'string' },
+    { name: 'json', description: 'Affiche le rapport au format JSON', type: 'boolean', default: false },
+  ],
+  action: async (args, options) => {
+    const context = createContext(args, options);
+    const { logger } = context;
+    const report = await diagnoseProject(resolve(options.directory ?? context.cwd));
+
+    if (options.json) {
+      logger.info(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    const problems = printDoctorReport(report, logger);
+    logger.info(chalk.bold('\nRésultat'));
+    if (problems === 0) {
+      logger.success('Aucun problème détecté');
+    } else {
+      logger.warn(`${problems} problème(s) détecté(s)`);
+    }
+  },
+};
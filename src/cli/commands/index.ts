@@ -0,0 +1,22 @@
+/**
+ * Commandes disponibles dans la CLI
+ */
+
+import type { CLICommand } from '../../../templates/types.js';
+import { addCommand } from './add.js';
+import { createCommand } from './create.js';
+import { doctorCommand } from './doctor.js';
+import { infoCommand } from './info.js';
+import { listCommand } from './list.js';
+import { removeCommand } from './remove.js';
+import { upgradeCommand } from './upgrade.js';
+
+export const commands: CLICommand[] = [
+  createCommand,
+  addCommand,
+  removeCommand,
+  upgradeCommand,
+  doctorCommand,
+  listCommand,
+  infoCommand,
+];
@@ -0,0 +1,59 @@
+/**
+ * Commande info : détaille un template
+ */
+
+import chalk from 'chalk';
+import type { CLICommand } from '../../../templates/types.js';
+import { createContext } from '../context.js';
+import { findTemplate, getTemplateNames } from '../templates.js';
+import { getTemplateConstraints } from '../../core/template-graph.js';
+
+export const infoCommand: CLICommand = {
+  name: 'info <template>',
+  description: 'Affiche les détails d\'un template',
+  options: [
+    { name: 'preset', description: 'Preset à utiliser pour l\'aperçu', type: 'string' },
+  ],
+  action: async (args, options) => {
+    const { logger } = createContext(args, options);
+    const [name] = args as string[];
+    const template = findTemplate(name ?? '');
+
+    if (!template) {
+      throw new Error(`Template inconnu "${name}". Templates disponibles: ${getTemplateNames().join(', ')}`);
+    }
+
+    const config = template.createConfig({
+      project: { projectName: 'my-app', useTypeScript: true, packageManager: 'pnpm' },
+      preset: options.preset ?? template.defaultPreset,
+    });
+    const result = await template.generate(config);
+    const { dependencies, conflicts, provides } =
+      getTemplateConstraints(template.generator, config);
+
+    logger.info(`${chalk.bold.cyan(template.name)} - ${template.description}\n`);
+    if (template.presets.length > 0) {
+      logger.info(`${chalk.bold('Presets :')} ${template.presets.join(', ')}`);
+      logger.info(`${chalk.bold('Preset par défaut :')} ${template.defaultPreset ?? 'aucun'}\n`);
+    }
+
+    logger.info(`${chalk.bold('Dépendances :')} ${dependencies.join(', ') || 'aucune'}`);
+    if (conflicts.length > 0) {
+      logger.info(`${chalk.bold('Incompatible avec :')} ${conflicts.join(', ')}`);
+    }
+    logger.info(`${chalk.bold('Fournit :')} ${provides.join(', ')}\n`);
+
+    if (!result.success) {
+      (result.errors ?? []).forEach(error => logger.error(error));
+      return;
+    }
+
+    logger.info(chalk.bold(`Fichiers générés (${result.files.length}) :`));
+    result.files.forEach(file => logger.info(`  ${file.path}`));
+
+    if (result.instructions.length > 0) {
+      logger.info(chalk.bold('\nInstructions :'));
+      result.instructions.forEach(instruction => logger.info(`  ${instruction}`));
+    }
+  },
+};
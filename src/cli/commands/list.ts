@@ -0,0 +1,25 @@
+/**
+ * Commande list : affiche les templates disponibles
+ */
+
+import chalk from 'chalk';
+import type { CLICommand } from '../../../templates/types.js';
+import { createContext } from '../context.js';
+import { listTemplates } from '../templates.js';
+
+export const listCommand: CLICommand = {
+  name: 'list',
+  description: 'Liste les templates disponibles',
+  options: [],
+  action: async (args, options) => {
+    const { logger } = createContext(args, options);
+
+    logger.info(chalk.bold('Templates disponibles :\n'));
+    for (const template of listTemplates()) {
+      const presets = template.presets.length > 0
+        ? chalk.gray(` [${template.presets.join(', ')}]`)
+        : '';
+      logger.info(`  ${chalk.cyan(template.name.padEnd(20))}${template.description}${presets}`);
+    }
+  },
+};
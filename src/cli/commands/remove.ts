@@ -0,0 +1,197 @@
+/**
+ * Commande remove : retire un template du projet courant
+ */
+
+import { resolve } from 'path';
+import chalk from 'chalk';
+import type {
+  CLICommand,
+  FileTemplate,
+  GenerationContext,
+  GenerationResult,
+} from '../../../templates/types.js';
+import { BASE_TEMPLATE, templateRegistry } from '../../../templates/registry.js';
+import { createContext } from '../context.js';
+import { readProjectConfig } from '../project.js';
+import {
+  createGenerationContext,
+  summarizeChanges,
+  writeGeneratedFiles,
+} from '../../core/file-writer.js';
+import { getFileSystem } from '../../core/file-system.js';
+import { ENV_EXAMPLE_FILE, stripProjectEnv } from '../../core/env.js';
+import {
+  MIDDLEWARE_DIRECTORY,
+  MIDDLEWARE_FILE,
+  composeMiddleware,
+  createMiddlewareConfig,
+  readMiddlewareSegments,
+  renderSegment,
+} from '../../core/middleware.js';
+import {
+  PACKAGE_FILE,
+  stripProjectPackageJson,
+  toPackageContributions,
+} from '../../core/package-json.js';
+import { PRISMA_SCHEMA_FILE, stripProjectPrismaSchema } from '../../core/prisma-schema.js';
+import { OPENAPI_FILE, stripProjectOpenAPI } from '../../core/openapi.js';
+import { getTemplateConstraints, resolveTemplateGraph } from '../../core/template-graph.js';
+import type { ManifestTemplate } from '../../core/manifest.js';
+import {
+  MANIFEST_FILE,
+  getInstalledTemplates,
+  readManifest,
+  saveRemoval,
+  withPristineOverwrite,
+} from '../../core/manifest.js';
+import { getOwnedFiles, planRemoval, removeFiles } from '../../core/remove.js';
+import { createConflictResolver } from '../conflicts.js';
+import { generationOptions } from '../options.js';
+
+// Fichiers composés à partir de tous les templates : réécrits plutôt que supprimés
+const COMPOSED_FILES = [PACKAGE_FILE, ENV_EXAMPLE_FILE, MIDDLEWARE_FILE, PRISMA_SCHEMA_FILE];
+
+async function regenerate(
+  entry: ManifestTemplate,
+  context: GenerationContext,
+): Promise<GenerationResult> {
+  const result = await templateRegistry.resolve(entry.name).generate(entry.config, context);
+  if (!result.success) {
+    throw new Error(`Échec de la génération de ${entry.name}:\n${(result.errors ?? []).join('\n')}`);
+  }
+  return result;
+}
+
+export const removeCommand: CLICommand = {
+  name: 'remove <template>',
+  description: 'Retire un template du projet courant',
+  options: [
+    { name: 'directory', description: 'Racine du projet', type: 'string' },
+    {
+      name: 'force',
+      description: 'Retire le template même si d\'autres templates en dépendent',
+      type: 'boolean',
+      default: false,
+    },
+    ...generationOptions.filter(option => option.name !== 'skip-existing'),
+  ],
+  action: async (args, options) => {
+    const context = createContext(args, options);
+    const { logger } = context;
+    const [name = ''] = args as string[];
+
+    const projectRoot = resolve(options.directory ?? context.cwd);
+    const manifest = await readManifest(projectRoot);
+    if (!manifest) {
+      throw new Error(`${MANIFEST_FILE} introuvable dans ${projectRoot}`);
+    }
+    const entry = manifest.templates.find(template => template.name === name);
+    if (!entry) {
+      const installed = manifest.templates.map(template => template.name).join(', ');
+      throw new Error(`${name} n'est pas appliqué à ce projet (templates appliqués: ${installed})`);
+    }
+    if (name === BASE_TEMPLATE) {
+      throw new Error('Le projet de base ne peut pas être retiré');
+    }
+
+    // Les templates restants ne doivent pas dépendre de ce que fournit le template retiré
+    const remaining = manifest.templates.filter(template => template.name !== name);
+    const { provides } = getTemplateConstraints(templateRegistry.resolve(name), entry.config);
+    const { missing } = resolveTemplateGraph(
+      getInstalledTemplates({ ...manifest, templates: remaining }),
+      { autoInclude: false },
+    );
+    const dependents = missing
+      .filter(({ dependency }) => provides.includes(dependency))
+      .map(({ template, dependency }) => `${template} (${dependency})`);
+    if (dependents.length > 0 && !options.force) {
+      throw new Error(`${name} est requis par ${dependents.join(', ')} (--force pour le retirer)`);
+    }
+    dependents.forEach(dependent => logger.warn(`${dependent} perd une dépendance requise`));
+
+    const project = await readProjectConfig(projectRoot);
+    const generationContext = await createGenerationContext(projectRoot, project, options);
+    const removed = await regenerate(entry, generationContext);
+    const kept: GenerationResult[] = [];
+    for (const template of remaining) {
+      kept.push(await regenerate(template, generationContext));
+    }
+
+    const readCurrent = (path: string) => getFileSystem(generationContext).readFile(path);
+    const files: FileTemplate[] = [];
+    const currentPackage = await readCurrent(PACKAGE_FILE);
+    if (currentPackage !== undefined) {
+      files.push(stripProjectPackageJson(
+        currentPackage,
+        toPackageContributions(removed.files, removed.packageJson),
+        kept.flatMap(result => toPackageContributions(result.files, result.packageJson)),
+      ));
+    }
+    const currentEnv = await readCurrent(ENV_EXAMPLE_FILE);
+    if (currentEnv !== undefined && removed.env?.length) {
+      const declared = kept.flatMap(result => result.env ?? []);
+      files.push(...stripProjectEnv(currentEnv, removed.env, declared));
+    }
+
+    // Modèles Prisma et chemins OpenAPI du template retirés des fichiers partagés ;
+    // une spécification produite par ce seul template est supprimée avec ses fichiers
+    const keptFiles = kept.flatMap(result => result.files);
+    const currentSchema = await readCurrent(PRISMA_SCHEMA_FILE);
+    if (currentSchema !== undefined) {
+      files.push(...stripProjectPrismaSchema(currentSchema, removed.files, keptFiles, logger));
+    }
+    const currentOpenAPI = await readCurrent(OPENAPI_FILE);
+    if (currentOpenAPI !== undefined && keptFiles.some(file => file.path === OPENAPI_FILE)) {
+      files.push(...stripProjectOpenAPI(currentOpenAPI, removed.files, keptFiles, logger));
+    }
+
+    // Middleware recomposé sans les segments du template ; les segments des autres templates
+    // présents sur disque sont conservés tels quels
+    const candidates = getOwnedFiles(manifest, name).filter(path => !COMPOSED_FILES.includes(path));
+    const segments = await readMiddlewareSegments(generationContext);
+    if (segments.some(segment => segment.template === name)) {
+      const onDisk = segments.filter(segment => segment.template !== name);
+      const regenerated = kept
+        .flatMap(result => result.middleware ?? [])
+        .filter(segment => !onDisk.some(existing => existing.name === segment.name))
+        .map(renderSegment);
+      const all = [...regenerated, ...onDisk];
+      const middleware = composeMiddleware(all, createMiddlewareConfig(project, all));
+      files.push(...middleware);
+
+      const composed = new Set(middleware.map(file => file.path));
+      candidates.push(...[MIDDLEWARE_FILE, ...generationContext.existingFiles]
+        .filter(path => path === MIDDLEWARE_FILE || path.startsWith(`${MIDDLEWARE_DIRECTORY}/`))
+        .filter(path => !composed.has(path) && path in manifest.files));
+    }
+
+    const rewritten = new Set(files.map(file => file.path));
+    const plan = await planRemoval(
+      projectRoot,
+      manifest,
+      candidates.filter(path => !rewritten.has(path)),
+    );
+    const changes = await writeGeneratedFiles(files, generationContext, logger, {
+      resolveConflict: withPristineOverwrite(
+        manifest,
+        createConflictResolver(options.onConflict, logger),
+      ),
+      merged: [PACKAGE_FILE, ENV_EXAMPLE_FILE, PRISMA_SCHEMA_FILE, OPENAPI_FILE],
+    });
+
+    if (plan.kept.length > 0) {
+      logger.warn(`Fichiers modifiés depuis leur génération, non supprimés :\n${
+        plan.kept.map(path => `  - ${path}`).join('\n')}`);
+    }
+    if (generationContext.dryRun) {
+      plan.deleted.forEach(path => logger.info(`  ${path} ${chalk.red('supprimé')}`));
+      logger.info(`\nAucun fichier écrit (--dry-run) : ${summarizeChanges(changes)}`);
+      return;
+    }
+
+    await removeFiles(projectRoot, plan.deleted);
+    await saveRemoval(projectRoot, manifest, name, candidates, changes);
+    logger.success(`Template ${chalk.cyan(name)} retiré (${plan.deleted.length} supprimé(s), ${
+      summarizeChanges(changes)})`);
+  },
+};
@@ -0,0 +1,143 @@
+/**
+ * Commande upgrade : régénère les templates appliqués avec leur version actuelle
+ * Les modifications de l'utilisateur sont fusionnées avec la nouvelle version générée
+ */
+
+import { resolve } from 'path';
+import chalk from 'chalk';
+import type { CLICommand, CodeModification, EnvVariable } from '../../../templates/types.js';
+import { templateRegistry } from '../../../templates/registry.js';
+import { createContext } from '../context.js';
+import { readProjectConfig } from '../project.js';
+import {
+  collapseDuplicates,
+  createGenerationContext,
+  summarizeChanges,
+  writeGeneratedFiles,
+} from '../../core/file-writer.js';
+import { getFileSystem } from '../../core/file-system.js';
+import { applyModifications } from '../../core/codemods/index.js';
+import { ENV_EXAMPLE_FILE, composeProjectEnv } from '../../core/env.js';
+import { composeProjectMiddleware, readMiddlewareSegments } from '../../core/middleware.js';
+import type { MiddlewareSource } from '../../core/middleware.js';
+import { PACKAGE_FILE, composeProjectPackageJson } from '../../core/package-json.js';
+import type { PackageSource } from '../../core/package-json.js';
+import { PRISMA_SCHEMA_FILE, composeProjectPrismaSchema } from '../../core/prisma-schema.js';
+import { OPENAPI_FILE, composeProjectOpenAPI } from '../../core/openapi.js';
+import { MANIFEST_FILE, readManifest, saveGeneration } from '../../core/manifest.js';
+import type { AppliedTemplate } from '../../core/manifest.js';
+import { planUpgrade } from '../../core/upgrade.js';
+import { generationOptions } from '../options.js';
+
+export const upgradeCommand: CLICommand = {
+  name: 'upgrade [templates...]',
+  description: 'Met à jour les templates appliqués en conservant les modifications du projet',
+  options: [
+    { name: 'directory', description: 'Racine du projet', type: 'string' },
+    ...generationOptions.filter(option => option.name !== 'skip-existing'),
+  ],
+  action: async (args, options) => {
+    const context = createContext(args, options);
+    const { logger } = context;
+    const [names = []] = args as string[][];
+
+    const projectRoot = resolve(options.directory ?? context.cwd);
+    const manifest = await readManifest(projectRoot);
+    if (!manifest) {
+      throw new Error(`${MANIFEST_FILE} introuvable dans ${projectRoot}`);
+    }
+
+    const unknown = names.filter(name => !manifest.templates.some(entry => entry.name === name));
+    if (unknown.length > 0) {
+      const installed = manifest.templates.map(({ name }) => name).join(', ');
+      throw new Error(`Non appliqué(s) : ${unknown.join(', ')} (templates appliqués: ${installed})`);
+    }
+
+    const project = await readProjectConfig(projectRoot);
+    const generationContext = await createGenerationContext(projectRoot, project, options);
+
+    // Templates régénérés avec leur configuration enregistrée, dans l'ordre d'application
+    const selected = manifest.templates.filter(({ name }) => (
+      names.length === 0 || names.includes(name)
+    ));
+    const sources: MiddlewareSource[] = [];
+    const packages: PackageSource[] = [];
+    const env: EnvVariable[] = [];
+    const modifications: CodeModification[] = [];
+    const applied: AppliedTemplate[] = [];
+
+    for (const entry of selected) {
+      const generator = templateRegistry.resolve(entry.name);
+      const { version } = generator.metadata;
+      const result = await generator.generate(entry.config, generationContext);
+      if (!result.success) {
+        const errors = (result.errors ?? []).join('\n');
+        throw new Error(`Échec de la génération de ${entry.name}:\n${errors}`);
+      }
+
+      sources.push(result);
+      packages.push({ source: entry.name, ...result.packageJson });
+      env.push(...(result.env ?? []));
+      modifications.push(...(result.modifications ?? []));
+      applied.push({ ...entry, version, files: result.files.map(file => file.path) });
+      logger.info(entry.version === version
+        ? `${entry.name} ${chalk.dim(version)}`
+        : `${entry.name} ${entry.version} → ${chalk.cyan(version)}`);
+    }
+
+    const readCurrent = (path: string) => getFileSystem(generationContext).readFile(path);
+    const segments = await readMiddlewareSegments(generationContext);
+    const collapsed = collapseDuplicates(
+      composeProjectOpenAPI(
+        composeProjectPrismaSchema(
+          composeProjectEnv(
+            composeProjectPackageJson(
+              composeProjectMiddleware(sources, project, segments),
+              packages,
+              logger,
+              await readCurrent(PACKAGE_FILE),
+            ),
+            env,
+            logger,
+            await readCurrent(ENV_EXAMPLE_FILE),
+          ),
+          logger,
+          await readCurrent(PRISMA_SCHEMA_FILE),
+        ),
+        logger,
+        await readCurrent(OPENAPI_FILE),
+      ),
+      logger,
+    );
+    const { files: generated, modified } = await applyModifications(
+      collapsed,
+      modifications,
+      getFileSystem(generationContext),
+      logger,
+    );
+
+    // Fusion à trois voies des fichiers modifiés depuis la dernière génération
+    const merged = [PACKAGE_FILE, ENV_EXAMPLE_FILE, PRISMA_SCHEMA_FILE, OPENAPI_FILE, ...modified];
+    const plan = await planUpgrade(generated, projectRoot, manifest, merged);
+    const changes = await writeGeneratedFiles(plan.files, generationContext, logger, {
+      merged: plan.merged,
+    });
+
+    plan.deleted.forEach(path => logger.warn(`${path} supprimé du projet : non recréé`));
+    plan.sidecars.forEach(path => logger.warn(
+      `${path} modifié sans version d'origine : nouvelle version écrite dans ${path}.new`,
+    ));
+    plan.conflicts.forEach(path => logger.warn(`${path} : conflits à résoudre (<<<<<<< actuel)`));
+
+    if (generationContext.dryRun) {
+      logger.info(`\nAucun fichier écrit (--dry-run) : ${summarizeChanges(changes)}`);
+      return;
+    }
+
+    await saveGeneration(projectRoot, manifest, applied, generated.map(file => ({
+      path: file.path,
+      file,
+    })));
+    logger.success(`Projet mis à jour (${summarizeChanges(changes)})`);
+  },
+};
@@ -0,0 +1,137 @@
+/**
+ * Fichier de configuration de projet (next-cli create --config project.json)
+ * Projet de base et une section par template, validés par schema/next-cli.schema.json
+ */
+
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { BaseProjectConfig } from '../../templates/base-project-structure/index.js';
+import { validateProjectConfig } from '../../templates/base-project-structure/generator.js';
+import type { ProjectConfig } from '../../templates/types.js';
+import schema from '../../schema/next-cli.schema.json' with { type: 'json' };
+import { validateJsonSchema } from '../core/json-schema.js';
+import type { JsonSchema, SchemaError } from '../core/json-schema.js';
+import { findTemplate } from './templates.js';
+import type { TemplateEntry } from './templates.js';
+import { mergeConfig } from './prompts.js';
+import type { ProjectPlan } from './wizard.js';
+
+export const CONFIG_SCHEMA = schema as JsonSchema;
+
+export interface ProjectFile {
+  $schema?: string;
+  project?: Partial<BaseProjectConfig>;
+  templates?: Record<string, Record<string, unknown> & { preset?: string }>;
+}
+
+export interface ProjectFileDefaults {
+  projectName?: string | undefined;
+  packageManager?: ProjectConfig['packageManager'];
+}
+
+/**
+ * Configuration d'un template : preset (ou configuration par défaut) puis valeurs du fichier
+ * Les objets sont fusionnés, les tableaux remplacés
+ */
+export function configureTemplate(
+  template: TemplateEntry,
+  project: ProjectConfig,
+  options: { preset?: string | undefined; entity?: string | undefined } = {},
+  overrides: Record<string, unknown> = {},
+): object {
+  const { preset } = options;
+  const entity = options.entity ?? (overrides.entity as { name?: string } | undefined)?.name;
+  const config = template.createConfig({
+    project,
+    ...(preset ? { preset } : {}),
+    ...(entity ? { entity } : {}),
+  });
+  return mergeConfig(config, overrides);
+}
+
+function formatErrors(source: string, errors: SchemaError[]): Error {
+  const lines = errors.map(({ path, message }) => `  - ${path} : ${message}`);
+  return new Error(`Configuration invalide (${source}) :\n${lines.join('\n')}`);
+}
+
+/**
+ * Lit un fichier JSON ou YAML (.yaml, .yml)
+ */
+export function parseProjectFile(content: string, source: string): unknown {
+  try {
+    return ['.yaml', '.yml'].includes(extname(source)) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Impossible de lire ${source} : ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Construit le plan du projet à partir du contenu d'un fichier de configuration
+ * Le nom passé en argument remplace celui du fichier. Rien n'est généré si le fichier est invalide
+ */
+export function planFromProjectFile(
+  data: unknown,
+  source: string,
+  defaults: ProjectFileDefaults = {},
+): ProjectPlan {
+  const schemaErrors = validateJsonSchema(CONFIG_SCHEMA, data);
+  if (schemaErrors.length > 0) {
+    throw formatErrors(source, schemaErrors);
+  }
+
+  const file = data as ProjectFile;
+  const projectName = defaults.projectName ?? file.project?.projectName;
+  if (!projectName) {
+    throw formatErrors(source, [{ path: 'project.projectName', message: 'champ requis manquant' }]);
+  }
+
+  const project: ProjectConfig = {
+    projectName,
+    useTypeScript: file.project?.useTypeScript ?? true,
+    packageManager: file.project?.packageManager ?? defaults.packageManager ?? 'pnpm',
+  };
+  const base: Partial<BaseProjectConfig> = {
+    useSrcDirectory: true,
+    useAppRouter: true,
+    ...file.project,
+    ...project,
+  };
+
+  const errors: SchemaError[] = validateProjectConfig(base).map(message => ({
+    path: 'project',
+    message,
+  }));
+  const templates = Object.entries(file.templates ?? {}).map(([name, section]) => {
+    const template = findTemplate(name);
+    if (!template) {
+      throw new Error(`Template inconnu "${name}"`);
+    }
+
+    const { preset, ...overrides } = section;
+    const config = configureTemplate(template, project, { preset }, overrides);
+    errors.push(...template.validate(config).map(message => ({
+      path: `templates.${name}`,
+      message,
+    })));
+    return { template, config };
+  });
+
+  if (errors.length > 0) {
+    throw formatErrors(source, errors);
+  }
+  return { project, base, templates };
+}
+
+/**
+ * Charge et valide un fichier de configuration de projet
+ */
+export async function loadProjectFile(
+  path: string,
+  defaults: ProjectFileDefaults = {},
+): Promise<ProjectPlan> {
+  const content = await readFile(path, 'utf-8').catch(() => {
+    throw new Error(`Fichier de configuration introuvable : ${path}`);
+  });
+  return planFromProjectFile(parseProjectFile(content, path), path, defaults);
+}
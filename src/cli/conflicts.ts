@@ -0,0 +1,67 @@
+/**
+ * Résolution interactive des conflits de fichiers
+ */
+
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import type { CLIOption, Logger } from '../../templates/types.js';
+import type { ConflictResolution, ConflictResolver } from '../core/file-writer.js';
+import { SIDECAR_EXTENSION } from '../core/file-writer.js';
+import { formatUnifiedDiff } from '../core/diff.js';
+import type { PromptFunction } from './wizard.js';
+
+export const CONFLICT_STRATEGIES: Record<string, ConflictResolution | 'ask'> = {
+  ask: 'ask',
+  keep: 'keep',
+  overwrite: 'overwrite',
+  new: 'sidecar',
+  merge: 'merge',
+};
+
+export const conflictOption: CLIOption = {
+  name: 'on-conflict',
+  description: 'Résolution des fichiers existants (ask par défaut en terminal interactif, sinon new)',
+  type: 'string',
+  choices: Object.keys(CONFLICT_STRATEGIES),
+};
+
+/**
+ * Crée le résolveur correspondant à la stratégie choisie
+ */
+export function createConflictResolver(
+  strategy: string | undefined,
+  logger: Logger,
+  prompt: PromptFunction = inquirer.prompt as PromptFunction,
+): ConflictResolver {
+  const resolved = CONFLICT_STRATEGIES[strategy ?? (process.stdin.isTTY ? 'ask' : 'new')];
+  if (!resolved) {
+    throw new Error(`Stratégie de conflit inconnue "${strategy}"`);
+  }
+
+  if (resolved !== 'ask') {
+    return async () => resolved;
+  }
+
+  return async conflict => {
+    logger.info(`\n${chalk.bold.yellow(conflict.path)} existe déjà dans le projet`);
+    const { path, current, incoming } = conflict;
+    logger.info(formatUnifiedDiff(path, current, incoming, { color: true }));
+
+    const answers = await prompt([{
+      type: 'list',
+      name: 'value',
+      message: `Que faire de ${conflict.path} ?`,
+      choices: [
+        { name: 'Conserver la version actuelle', value: 'keep' },
+        { name: 'Écraser avec la version générée', value: 'overwrite' },
+        {
+          name: `Écrire la version générée dans ${conflict.path}${SIDECAR_EXTENSION}`,
+          value: 'sidecar',
+        },
+        { name: 'Fusionner les deux versions', value: 'merge' },
+      ],
+      default: 'keep',
+    }]);
+    return answers.value as ConflictResolution;
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * Contexte d'exécution transmis aux commandes
+ */
+
+import type { CLIContext } from '../../templates/types.js';
+import { createLogger } from './logger.js';
+
+export function createContext(
+  args: string[],
+  options: Record<string, unknown>,
+  cwd: string = process.cwd(),
+): CLIContext {
+  return {
+    cwd,
+    args,
+    options,
+    logger: createLogger({ verbose: Boolean(options.verbose) }),
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Logger coloré de la CLI
+ */
+
+import chalk from 'chalk';
+import type { Logger } from '../../templates/types.js';
+
+export interface LoggerOptions {
+  verbose?: boolean;
+  // Aucun message affiché (utilisation programmatique)
+  silent?: boolean;
+}
+
+export function createLogger(options: LoggerOptions = {}): Logger {
+  if (options.silent) {
+    const ignore = () => {};
+    return { info: ignore, warn: ignore, error: ignore, success: ignore, debug: ignore };
+  }
+
+  return {
+    info: message => console.log(message),
+    warn: message => console.warn(chalk.yellow(`⚠ ${message}`)),
+    error: message => console.error(chalk.red(`✗ ${message}`)),
+    success: message => console.log(chalk.green(`✓ ${message}`)),
+    debug: message => {
+      if (options.verbose) {
+        console.log(chalk.gray(message));
+      }
+    },
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * Options partagées par les commandes qui écrivent des fichiers
+ */
+
+import type { CLIOption } from '../../templates/types.js';
+import { conflictOption } from './conflicts.js';
+
+export const generationOptions: CLIOption[] = [
+  {
+    name: 'dry-run',
+    description: 'Affiche les fichiers qui seraient écrits sans rien modifier',
+    type: 'boolean',
+    default: false,
+  },
+  {
+    name: 'skip-existing',
+    description: 'Conserve les fichiers déjà présents',
+    type: 'boolean',
+    default: false,
+  },
+  conflictOption,
+];
@@ -0,0 +1,96 @@
+/**
+ * Construction du programme commander à partir des CLICommand
+ */
+
+import { Command, InvalidArgumentError, Option } from 'commander';
+import type { CLICommand, CLIOption } from '../../templates/types.js';
+import { createLogger } from './logger.js';
+
+function toFlags(option: CLIOption): string {
+  const flag = `--${option.name}`;
+
+  switch (option.type) {
+  case 'boolean':
+    return flag;
+  case 'array':
+    return `${flag} <values...>`;
+  default:
+    return `${flag} <value>`;
+  }
+}
+
+function parseNumber(value: string): number {
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    throw new InvalidArgumentError('Un nombre est attendu.');
+  }
+  return parsed;
+}
+
+/**
+ * Convertit une CLIOption en Option commander
+ */
+export function toCommanderOption(option: CLIOption): Option {
+  const commanderOption = new Option(toFlags(option), option.description);
+
+  if (option.choices) {
+    commanderOption.choices(option.choices);
+  }
+  if (option.type === 'number') {
+    commanderOption.argParser(parseNumber);
+  }
+  if (option.default !== undefined) {
+    commanderOption.default(option.default);
+  }
+  if (option.required) {
+    commanderOption.makeOptionMandatory();
+  }
+
+  return commanderOption;
+}
+
+/**
+ * Enregistre une CLICommand sur le programme
+ */
+export function registerCommand(program: Command, definition: CLICommand): Command {
+  const command = program
+    .command(definition.name)
+    .description(definition.description);
+
+  for (const option of definition.options) {
+    command.addOption(toCommanderOption(option));
+  }
+
+  command.action(async () => {
+    await definition.action(command.processedArgs, command.optsWithGlobals());
+  });
+
+  return command;
+}
+
+export function createProgram(commands: CLICommand[], version: string = '1.0.0'): Command {
+  const program = new Command('next-cli')
+    .description('Génère des projets Next.js et y ajoute des templates')
+    .version(version)
+    .option('--verbose', 'Affiche les messages de debug');
+
+  for (const definition of commands) {
+    registerCommand(program, definition);
+  }
+
+  return program;
+}
+
+/**
+ * Exécute la CLI et transforme les erreurs en code de sortie
+ */
+export async function run(commands: CLICommand[], argv: string[] = process.argv): Promise<void> {
+  const program = createProgram(commands);
+
+  try {
+    await program.parseAsync(argv);
+  } catch (error) {
+    createLogger().error(error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Lecture de la configuration d'un projet existant
+ */
+
+import type { ProjectConfig } from '../../templates/types.js';
+import { toFileSystem } from '../core/file-system.js';
+import type { ProjectLocation } from '../core/file-system.js';
+
+export const PACKAGE_MANAGERS: ProjectConfig['packageManager'][] = ['npm', 'yarn', 'pnpm', 'bun'];
+
+const LOCKFILES: Record<string, ProjectConfig['packageManager']> = {
+  'pnpm-lock.yaml': 'pnpm',
+  'yarn.lock': 'yarn',
+  'bun.lockb': 'bun',
+  'package-lock.json': 'npm',
+};
+
+export async function detectPackageManager(
+  project: ProjectLocation,
+): Promise<ProjectConfig['packageManager']> {
+  const fs = toFileSystem(project);
+  for (const [lockfile, packageManager] of Object.entries(LOCKFILES)) {
+    if (await fs.exists(lockfile)) {
+      return packageManager;
+    }
+  }
+  return 'npm';
+}
+
+/**
+ * Déduit la ProjectConfig d'un projet à partir de son package.json
+ */
+export async function readProjectConfig(project: ProjectLocation): Promise<ProjectConfig> {
+  const fs = toFileSystem(project);
+  const content = await fs.readFile('package.json');
+  if (content === undefined) {
+    throw new Error(`Aucun package.json trouvé dans ${fs.root}`);
+  }
+
+  const packageJson = JSON.parse(content);
+
+  return {
+    projectName: packageJson.name ?? 'nextjs-app',
+    useTypeScript: await fs.exists('tsconfig.json'),
+    packageManager: await detectPackageManager(fs),
+  };
+}
@@ -0,0 +1,269 @@
+/**
+ * Dérivation des questions inquirer à partir d'une configuration
+ * Les types de questions sont déduits des valeurs par défaut et du schéma Zod
+ */
+
+import type { DistinctQuestion } from 'inquirer';
+import {
+  ZodArray,
+  ZodBoolean,
+  ZodDefault,
+  ZodEffects,
+  ZodEnum,
+  ZodLiteral,
+  ZodNativeEnum,
+  ZodNullable,
+  ZodNumber,
+  ZodObject,
+  ZodOptional,
+  ZodRecord,
+  ZodString,
+  ZodUnion,
+} from 'zod';
+import type { ZodTypeAny } from 'zod';
+
+export interface ConfigQuestion {
+  path: string[];
+  question: DistinctQuestion;
+}
+
+export interface ConfigSection {
+  // Clé de premier niveau, vide pour les options générales
+  name: string;
+  questions: ConfigQuestion[];
+}
+
+export interface DeriveOptions {
+  schema?: ZodTypeAny | undefined;
+  choices?: Record<string, readonly string[]> | undefined;
+  exclude?: string[];
+}
+
+type Primitive = string | number | boolean;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Retire les enveloppes optional/default/nullable/effects d'un schéma
+ */
+export function unwrapSchema(schema: ZodTypeAny | undefined): ZodTypeAny | undefined {
+  let current = schema;
+
+  while (current) {
+    if (current instanceof ZodOptional || current instanceof ZodNullable) {
+      current = current.unwrap();
+    } else if (current instanceof ZodDefault) {
+      current = current.removeDefault();
+    } else if (current instanceof ZodEffects) {
+      current = current.innerType();
+    } else {
+      return current;
+    }
+  }
+
+  return current;
+}
+
+function childSchema(schema: ZodTypeAny | undefined, key: string): ZodTypeAny | undefined {
+  const unwrapped = unwrapSchema(schema);
+
+  if (unwrapped instanceof ZodObject) {
+    return unwrapped.shape[key];
+  }
+  if (unwrapped instanceof ZodRecord) {
+    return unwrapped.valueSchema;
+  }
+  return undefined;
+}
+
+/**
+ * Valeurs autorisées par un schéma d'énumération
+ */
+export function enumValues(schema: ZodTypeAny | undefined): string[] | undefined {
+  const unwrapped = unwrapSchema(schema);
+
+  if (unwrapped instanceof ZodEnum) {
+    return [...unwrapped.options];
+  }
+  if (unwrapped instanceof ZodNativeEnum) {
+    return Object.values(unwrapped.enum).filter((value): value is string => typeof value === 'string');
+  }
+  if (unwrapped instanceof ZodLiteral && typeof unwrapped.value === 'string') {
+    return [unwrapped.value];
+  }
+  if (unwrapped instanceof ZodUnion) {
+    const values = (unwrapped.options as ZodTypeAny[]).map(option => enumValues(option));
+    return values.every(Boolean) ? values.flat() as string[] : undefined;
+  }
+  return undefined;
+}
+
+function parseList(input: unknown, numeric: boolean): Primitive[] {
+  const items = Array.isArray(input) ? input : String(input ?? '').split(',');
+
+  return items
+    .map(item => String(item).trim())
+    .filter(item => item.length > 0)
+    .map(item => (numeric ? Number(item) : item));
+}
+
+function deriveLeaf(
+  path: string[],
+  value: unknown,
+  schema: ZodTypeAny | undefined,
+  options: DeriveOptions,
+): DistinctQuestion | undefined {
+  const unwrapped = unwrapSchema(schema);
+  const message = path.join(' › ');
+  const choices = options.choices?.[path.join('.')];
+
+  if (Array.isArray(value) || unwrapped instanceof ZodArray) {
+    const items = Array.isArray(value) ? value : [];
+    const elementSchema = unwrapped instanceof ZodArray ? unwrapped.element : undefined;
+    const elementChoices = choices ?? enumValues(elementSchema);
+
+    if (elementChoices) {
+      return { type: 'checkbox', message, choices: [...elementChoices], default: items };
+    }
+
+    const element = unwrapSchema(elementSchema);
+    const primitives = items.every(item => ['string', 'number'].includes(typeof item));
+    if (!primitives || (items.length === 0 && element && !(element instanceof ZodString))) {
+      return undefined;
+    }
+
+    const numeric = typeof items[0] === 'number' || element instanceof ZodNumber;
+    return {
+      type: 'input',
+      message: `${message} (séparés par des virgules)`,
+      default: items.join(', '),
+      filter: (input: unknown) => parseList(input, numeric),
+    };
+  }
+
+  const values = choices ?? enumValues(unwrapped);
+  if (values && (typeof value === 'string' || value === undefined)) {
+    return { type: 'list', message, choices: [...values], default: value ?? values[0] };
+  }
+  if (typeof value === 'boolean' || (value === undefined && unwrapped instanceof ZodBoolean)) {
+    return { type: 'confirm', message, default: value ?? false };
+  }
+  if (typeof value === 'number' || (value === undefined && unwrapped instanceof ZodNumber)) {
+    return { type: 'number', message, default: value };
+  }
+  if (typeof value === 'string' || (value === undefined && unwrapped instanceof ZodString)) {
+    return { type: 'input', message, default: value };
+  }
+  return undefined;
+}
+
+function deriveNode(
+  path: string[],
+  value: unknown,
+  schema: ZodTypeAny | undefined,
+  options: DeriveOptions,
+): ConfigQuestion[] {
+  const unwrapped = unwrapSchema(schema);
+
+  // Les sous-sections optionnelles absentes de la configuration ne sont pas proposées
+  if (value === undefined && unwrapped instanceof ZodObject) {
+    return [];
+  }
+
+  if (!isPlainObject(value)) {
+    const question = deriveLeaf(path, value, schema, options);
+    return question ? [{ path, question: { ...question, name: 'value' } }] : [];
+  }
+
+  const shapeKeys = unwrapped instanceof ZodObject ? Object.keys(unwrapped.shape) : [];
+  const keys = [...new Set([...Object.keys(value), ...shapeKeys])];
+
+  return keys.flatMap(key => (
+    deriveNode([...path, key], value[key], childSchema(schema, key), options)
+  ));
+}
+
+/**
+ * Dérive les questions d'une configuration, regroupées par clé de premier niveau
+ */
+export function deriveConfigSections(
+  config: Record<string, unknown>,
+  options: DeriveOptions = {},
+): ConfigSection[] {
+  const exclude = new Set(options.exclude ?? []);
+  const general: ConfigQuestion[] = [];
+  const sections: ConfigSection[] = [];
+  const schema = unwrapSchema(options.schema);
+  const shapeKeys = schema instanceof ZodObject ? Object.keys(schema.shape) : [];
+
+  for (const key of new Set([...Object.keys(config), ...shapeKeys])) {
+    if (exclude.has(key) || typeof config[key] === 'function') {
+      continue;
+    }
+
+    const questions = deriveNode([key], config[key], childSchema(options.schema, key), options);
+    if (questions.length === 0) {
+      continue;
+    }
+
+    if (questions.length === 1 && questions[0]?.path.length === 1) {
+      general.push(...questions);
+    } else {
+      sections.push({ name: key, questions });
+    }
+  }
+
+  return general.length > 0 ? [{ name: '', questions: general }, ...sections] : sections;
+}
+
+/**
+ * Copie profonde d'une configuration (objets et tableaux uniquement)
+ */
+export function cloneConfig<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => cloneConfig(item)) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, cloneConfig(item)]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Applique des valeurs sur une configuration : les objets sont fusionnés, les tableaux remplacés
+ */
+export function mergeConfig<T extends object>(config: T, overrides: Record<string, unknown>): T {
+  const merged = cloneConfig(config) as Record<string, unknown>;
+
+  Object.entries(overrides).forEach(([key, value]) => {
+    const current = merged[key];
+    merged[key] = isPlainObject(current) && isPlainObject(value)
+      ? mergeConfig(current, value)
+      : cloneConfig(value);
+  });
+  return merged as T;
+}
+
+/**
+ * Affecte une valeur à un chemin en créant les objets intermédiaires
+ */
+export function setConfigValue<T extends object>(config: T, path: string[], value: unknown): T {
+  let target = config as Record<string, unknown>;
+
+  path.slice(0, -1).forEach(key => {
+    if (!isPlainObject(target[key])) {
+      target[key] = {};
+    }
+    target = target[key] as Record<string, unknown>;
+  });
+
+  const last = path[path.length - 1];
+  if (last !== undefined) {
+    target[last] = value;
+  }
+  return config;
+}
@@ -0,0 +1,301 @@
+/**
+ * Catalogue des templates disponibles depuis la CLI
+ * Adapte chaque module de templates/ à une interface commune
+ */
+
+import type {
+  CLIOption,
+  GenerationContext,
+  GenerationResult,
+  ProjectConfig,
+} from '../../templates/types.js';
+import type { ZodTypeAny } from 'zod';
+import { createCRUDConfig } from '../../templates/crud/index.js';
+import type { CRUDConfig, EntityDefinition } from '../../templates/crud/index.js';
+import { NAVIGATION_PRESETS } from '../../templates/navigation/index.js';
+import type { NavigationConfig } from '../../templates/navigation/index.js';
+import {
+  CACHE_STRATEGIES,
+  defaultCacheOptimizationConfig,
+} from '../../templates/cache-optimization/index.js';
+import type { CacheOptimizationConfig } from '../../templates/cache-optimization/index.js';
+import { defaultDatabaseConfig } from '../../templates/database/index.js';
+import type { DatabaseConfig } from '../../templates/database/index.js';
+import { DATABASE_PROVIDERS } from '../../templates/database/generator.js';
+import {
+  E2E_FRAMEWORKS,
+  TEST_FRAMEWORKS,
+  defaultTestingConfig,
+} from '../../templates/testing/index.js';
+import type { TestingConfig } from '../../templates/testing/index.js';
+import {
+  defaultErrorHandlingConfig,
+  errorHandlingConfigSchema,
+  errorHandlingPresets,
+} from '../../templates/error-handling/index.js';
+import type { ErrorHandlingConfig } from '../../templates/error-handling/index.js';
+import { defaultFormConfig, formPresets } from '../../templates/forms/index.js';
+import type { FormConfig } from '../../templates/forms/index.js';
+import {
+  defaultSecurityConfig,
+  securityConfigSchema,
+  securityPresets,
+} from '../../templates/security/index.js';
+import type { SecurityConfig } from '../../templates/security/index.js';
+import { defaultAuthConfig } from '../../templates/authentication/index.js';
+import type { AuthConfig } from '../../templates/authentication/index.js';
+import { getRecommendedConfig } from '../../templates/cache-optimization/schemas.js';
+import { BASE_TEMPLATE, templateRegistry } from '../../templates/registry.js';
+import type { AnyTemplateGenerator } from '../../templates/registry.js';
+
+export interface TemplateOptions {
+  project: ProjectConfig;
+  preset?: string;
+  entity?: string;
+}
+
+/**
+ * Adaptation CLI d'un générateur du registre (presets, options, questions de l'assistant)
+ */
+export interface TemplateEntry<T extends object = object> {
+  name: string;
+  description: string;
+  generator: AnyTemplateGenerator;
+  presets: string[];
+  defaultPreset?: string;
+  // Options propres au template (ex: entité du CRUD)
+  options?: CLIOption[];
+  // Schéma Zod de la configuration, utilisé pour dériver les questions
+  schema?: ZodTypeAny;
+  // Valeurs possibles pour les champs sans schéma, indexées par chemin
+  choices?: Record<string, readonly string[]>;
+  createConfig: (options: TemplateOptions) => T;
+  // Méthodes (paramètres bivariants) : une entrée typée reste une TemplateEntry du catalogue
+  validate(config: T): string[];
+  generate(config: T, context?: GenerationContext): Promise<GenerationResult>;
+}
+
+type CatalogOptions<T extends object> = Omit<
+  TemplateEntry<T>,
+  'name' | 'description' | 'generator' | 'validate' | 'generate'
+>;
+
+/**
+ * Cas d'usage passés à getRecommendedConfig pour chaque preset de cache
+ */
+const CACHE_USE_CASES: Record<string, string> = {
+  ecommerce: 'product',
+  blog: 'blog',
+  saas: 'dashboard',
+  prototype: 'development',
+};
+
+/**
+ * Contexte utilisé hors écriture (aperçu, tests) : aucun fichier existant, rien n'est écrit
+ */
+export function createPreviewContext(config: ProjectConfig): GenerationContext {
+  return { projectRoot: '.', config, existingFiles: [], skipExisting: false, dryRun: true };
+}
+
+function toProjectConfig(config: ProjectConfig): ProjectConfig {
+  const { projectName, useTypeScript, packageManager } = config;
+  return { projectName, useTypeScript, packageManager };
+}
+
+/**
+ * Expose un générateur du registre dans le catalogue de la CLI
+ */
+export function fromGenerator<T extends object>(
+  name: string,
+  options: CatalogOptions<T>,
+): TemplateEntry<T> {
+  const generator = templateRegistry.resolve(name);
+  return {
+    name: generator.name,
+    description: generator.description,
+    generator,
+    ...options,
+    validate: config => generator.validate(config).errors,
+    generate: (config, context) => generator.generate(
+      config,
+      context ?? createPreviewContext(toProjectConfig(config as unknown as ProjectConfig)),
+    ),
+  };
+}
+
+function pickPreset<T>(presets: Record<string, T>, name: string | undefined, fallback: string): T {
+  const key = name ?? fallback;
+  const preset = presets[key];
+  if (!preset) {
+    throw new Error(`Preset inconnu "${key}". Presets disponibles: ${Object.keys(presets).join(', ')}`);
+  }
+  return preset;
+}
+
+/**
+ * Construit une entité CRUD minimale à partir de son nom
+ */
+export function createDefaultEntity(name: string): EntityDefinition {
+  const entityName = name.charAt(0).toUpperCase() + name.slice(1);
+
+  return {
+    name: entityName,
+    displayName: entityName,
+    fields: [
+      {
+        name: 'name',
+        type: 'string',
+        displayName: 'Nom',
+        required: true,
+        validation: { minLength: 1, maxLength: 255 },
+        display: {
+          showInTable: true,
+          showInForm: true,
+          showInDetail: true,
+          formType: 'input',
+        },
+        searchable: true,
+        sortable: true,
+      },
+    ],
+    relations: [],
+    indexes: [],
+    constraints: [],
+  };
+}
+
+export const templateCatalog: TemplateEntry[] = [
+  fromGenerator<AuthConfig>('auth', {
+    presets: [],
+    choices: { database: ['postgresql', 'mysql', 'sqlite'] },
+    createConfig: ({ project }): AuthConfig => ({ ...defaultAuthConfig, ...project }),
+  }),
+  fromGenerator<DatabaseConfig>('database', {
+    presets: [...DATABASE_PROVIDERS],
+    defaultPreset: 'postgresql',
+    choices: { database: DATABASE_PROVIDERS, orm: ['prisma'] },
+    createConfig: ({ project, preset }): DatabaseConfig => {
+      const database = preset ?? defaultDatabaseConfig.database;
+      if (!DATABASE_PROVIDERS.includes(database as typeof DATABASE_PROVIDERS[number])) {
+        throw new Error(`Base de données inconnue "${database}". Choix: ${DATABASE_PROVIDERS.join(', ')}`);
+      }
+      // Sans relations SQL, MongoDB ne peut pas activer la fonctionnalité "relations"
+      const features = database === 'mongodb'
+        ? defaultDatabaseConfig.features.filter(feature => feature !== 'relations')
+        : defaultDatabaseConfig.features;
+      return {
+        ...defaultDatabaseConfig,
+        ...project,
+        database: database as typeof DATABASE_PROVIDERS[number],
+        features,
+      };
+    },
+  }),
+  fromGenerator<CRUDConfig>('crud', {
+    presets: [],
+    options: [
+      { name: 'entity', description: 'Nom de l\'entité', type: 'string', default: 'Item' },
+    ],
+    createConfig: ({ project, entity }): CRUDConfig => ({
+      ...createCRUDConfig(createDefaultEntity(entity ?? 'Item')),
+      ...project,
+    }),
+  }),
+  fromGenerator<FormConfig>('forms', {
+    presets: Object.keys(formPresets),
+    defaultPreset: 'contact',
+    createConfig: ({ project, preset }): FormConfig => ({
+      ...defaultFormConfig,
+      ...pickPreset(formPresets, preset, 'contact'),
+      ...project,
+    } as FormConfig),
+  }),
+  fromGenerator<NavigationConfig>('navigation', {
+    presets: Object.keys(NAVIGATION_PRESETS),
+    defaultPreset: 'dashboard',
+    choices: {
+      'layout.type': ['sidebar', 'header', 'hybrid', 'dashboard'],
+      'layout.padding': ['none', 'sm', 'md', 'lg'],
+      'styling.theme': ['light', 'dark', 'system'],
+      'styling.variant': ['default', 'minimal', 'modern', 'classic'],
+    },
+    createConfig: ({ project, preset }): NavigationConfig => ({
+      ...pickPreset(NAVIGATION_PRESETS, preset, 'dashboard'),
+      ...project,
+    }),
+  }),
+  fromGenerator<SecurityConfig>('security', {
+    presets: Object.keys(securityPresets),
+    defaultPreset: 'standard',
+    schema: securityConfigSchema,
+    createConfig: ({ project, preset }): SecurityConfig => ({
+      ...defaultSecurityConfig,
+      ...pickPreset(securityPresets, preset, 'standard'),
+      ...project,
+    } as SecurityConfig),
+  }),
+  fromGenerator<ErrorHandlingConfig>('error-handling', {
+    presets: Object.keys(errorHandlingPresets),
+    defaultPreset: 'standard',
+    schema: errorHandlingConfigSchema,
+    createConfig: ({ project, preset }): ErrorHandlingConfig => ({
+      ...defaultErrorHandlingConfig,
+      ...pickPreset(errorHandlingPresets, preset, 'standard'),
+      ...project,
+    } as ErrorHandlingConfig),
+  }),
+  fromGenerator<CacheOptimizationConfig>('cache-optimization', {
+    presets: Object.keys(CACHE_USE_CASES),
+    choices: { 'caching.strategy': Object.keys(CACHE_STRATEGIES) },
+    createConfig: ({ project, preset }): CacheOptimizationConfig => {
+      const recommended = preset
+        ? getRecommendedConfig(pickPreset(CACHE_USE_CASES, preset, preset))
+        : null;
+      return { ...(recommended ?? defaultCacheOptimizationConfig), ...project };
+    },
+  }),
+  fromGenerator<TestingConfig>('testing', {
+    presets: [],
+    choices: {
+      framework: Object.keys(TEST_FRAMEWORKS).filter(name => !(name in E2E_FRAMEWORKS)),
+      e2eFramework: Object.keys(E2E_FRAMEWORKS),
+    },
+    createConfig: ({ project }): TestingConfig => ({ ...defaultTestingConfig, ...project }),
+  }),
+];
+
+/**
+ * Génère un template à partir des options de la ligne de commande
+ * Sans contexte, la génération se fait en aperçu (aucun fichier existant)
+ */
+export function generateTemplate(
+  template: TemplateEntry,
+  options: TemplateOptions,
+  context: GenerationContext = createPreviewContext(options.project),
+): Promise<GenerationResult> {
+  return template.generate(template.createConfig(options), context);
+}
+
+/**
+ * Templates proposés par la CLI : le catalogue puis les générateurs enregistrés par des plugins
+ */
+export function listTemplates(): TemplateEntry[] {
+  const plugins = templateRegistry
+    .list()
+    .filter(generator => generator.name !== BASE_TEMPLATE)
+    .filter(generator => !templateCatalog.some(template => template.name === generator.name))
+    .map(generator => fromGenerator<ProjectConfig>(generator.name, {
+      presets: [],
+      createConfig: ({ project }) => project,
+    }));
+
+  return [...templateCatalog, ...plugins];
+}
+
+export function findTemplate(name: string): TemplateEntry | undefined {
+  return listTemplates().find(template => template.name === name);
+}
+
+export function getTemplateNames(): string[] {
+  return listTemplates().map(template => template.name);
+}
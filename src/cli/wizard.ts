@@ -0,0 +1,208 @@
+/**
+ * Assistant interactif de création de projet
+ * Les questions sont dérivées des configurations et validées par chaque template
+ */
+
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import type { Answers, DistinctQuestion } from 'inquirer';
+import type { CLIOption, Logger, ProjectConfig } from '../../templates/types.js';
+import { defaultBaseProjectConfig } from '../../templates/base-project-structure/index.js';
+import type { BaseProjectConfig } from '../../templates/base-project-structure/index.js';
+import { validateProjectConfig } from '../../templates/base-project-structure/generator.js';
+import type { ConfigQuestion, DeriveOptions } from './prompts.js';
+import { cloneConfig, deriveConfigSections, setConfigValue } from './prompts.js';
+import type { TemplateEntry, TemplateOptions } from './templates.js';
+import { listTemplates } from './templates.js';
+import { PACKAGE_MANAGERS } from './project.js';
+
+export type PromptFunction = (questions: DistinctQuestion[]) => Promise<Answers>;
+
+export interface TemplateSelection {
+  template: TemplateEntry;
+  config: object;
+}
+
+export interface ProjectPlan {
+  project: ProjectConfig;
+  base: Partial<BaseProjectConfig>;
+  templates: TemplateSelection[];
+}
+
+interface ConfigureOptions<T extends object> extends DeriveOptions {
+  validate?: ((config: T) => string[]) | undefined;
+}
+
+const PROJECT_KEYS = ['projectName', 'useTypeScript', 'packageManager'];
+
+const NO_PRESET = '(configuration par défaut)';
+
+async function ask<T = unknown>(prompt: PromptFunction, question: DistinctQuestion): Promise<T> {
+  const answers = await prompt([{ ...question, name: 'value' }]);
+  return answers.value as T;
+}
+
+/**
+ * Convertit une CLIOption en question inquirer
+ */
+export function toQuestion(option: CLIOption): DistinctQuestion {
+  const base = { name: 'value', message: option.description, default: option.default };
+
+  if (option.choices) {
+    return { ...base, type: 'list', choices: option.choices };
+  }
+
+  switch (option.type) {
+  case 'boolean':
+    return { ...base, type: 'confirm' };
+  case 'number':
+    return { ...base, type: 'number' };
+  default:
+    return { ...base, type: 'input' };
+  }
+}
+
+/**
+ * Ajoute la validation du template à une question dérivée
+ */
+function withValidation<T extends object>(
+  config: T,
+  { path, question }: ConfigQuestion,
+  validate?: (config: T) => string[],
+): DistinctQuestion {
+  if (!validate) {
+    return question;
+  }
+
+  const knownErrors = new Set(validate(config));
+
+  return {
+    ...question,
+    // inquirer applique `filter` avant `validate`
+    validate: (value: unknown) => {
+      const candidate = setConfigValue(cloneConfig(config), path, value);
+      const error = validate(candidate).find(message => !knownErrors.has(message));
+      return error ?? true;
+    },
+  } as DistinctQuestion;
+}
+
+/**
+ * Pose les questions dérivées d'une configuration, section par section
+ */
+export async function configure<T extends object>(
+  prompt: PromptFunction,
+  initial: T,
+  options: ConfigureOptions<T> = {},
+): Promise<T> {
+  const config = cloneConfig(initial);
+  const sections = deriveConfigSections(config as Record<string, unknown>, options);
+
+  for (const section of sections) {
+    if (section.name) {
+      const customize = await ask<boolean>(prompt, {
+        type: 'confirm',
+        message: `Personnaliser « ${section.name} » ?`,
+        default: false,
+      });
+      if (!customize) {
+        continue;
+      }
+    }
+
+    for (const entry of section.questions) {
+      const value = await ask(prompt, withValidation(config, entry, options.validate));
+      // Un champ optionnel laissé vide reste absent de la configuration
+      const empty = value === '' || Number.isNaN(value);
+      if (value !== undefined && !(empty && entry.question.default === undefined)) {
+        setConfigValue(config, entry.path, value);
+      }
+    }
+  }
+
+  const errors = options.validate?.(config) ?? [];
+  if (errors.length > 0) {
+    throw new Error(`Configuration invalide:\n${errors.join('\n')}`);
+  }
+
+  return config;
+}
+
+async function configureTemplate(
+  prompt: PromptFunction,
+  template: TemplateEntry,
+  project: ProjectConfig,
+): Promise<object> {
+  const options: TemplateOptions = { project };
+
+  if (template.presets.length > 0) {
+    const preset = await ask<string>(prompt, {
+      type: 'list',
+      message: 'Point de départ',
+      choices: template.defaultPreset ? template.presets : [NO_PRESET, ...template.presets],
+      default: template.defaultPreset ?? NO_PRESET,
+    });
+    if (preset !== NO_PRESET) {
+      options.preset = preset;
+    }
+  }
+
+  for (const option of template.options ?? []) {
+    const value = await ask(prompt, toQuestion(option));
+    Object.assign(options, { [option.name]: value });
+  }
+
+  return configure(prompt, template.createConfig(options), {
+    schema: template.schema,
+    choices: template.choices,
+    validate: template.validate,
+    exclude: PROJECT_KEYS,
+  });
+}
+
+/**
+ * Déroule l'assistant et retourne le plan du projet à générer
+ */
+export async function runWizard(
+  logger: Logger,
+  defaults: Partial<ProjectConfig> = {},
+  prompt: PromptFunction = inquirer.prompt as PromptFunction,
+): Promise<ProjectPlan> {
+  const projectName = await ask<string>(prompt, {
+    type: 'input',
+    message: 'Nom du projet',
+    default: defaults.projectName ?? defaultBaseProjectConfig.projectName,
+    validate: (input: string) => validateProjectConfig({ projectName: input })[0] ?? true,
+  });
+  const packageManager = await ask<ProjectConfig['packageManager']>(prompt, {
+    type: 'list',
+    message: 'Gestionnaire de packages',
+    choices: PACKAGE_MANAGERS,
+    default: defaults.packageManager ?? 'pnpm',
+  });
+  const project: ProjectConfig = { projectName, useTypeScript: true, packageManager };
+
+  logger.info(chalk.bold('\nStructure de base'));
+  const base = await configure(prompt, { ...defaultBaseProjectConfig, ...project }, {
+    validate: validateProjectConfig,
+    exclude: PROJECT_KEYS,
+  });
+
+  const available = listTemplates();
+  const names = await ask<string[]>(prompt, {
+    type: 'checkbox',
+    message: 'Templates à inclure',
+    choices: available.map(template => ({
+      name: `${template.name} - ${template.description}`,
+      value: template.name,
+    })),
+  });
+
+  const templates: TemplateSelection[] = [];
+  for (const template of available.filter(entry => names.includes(entry.name))) {
+    logger.info(chalk.bold(`\n${template.name}`));
+    templates.push({ template, config: await configureTemplate(prompt, template, project) });
+  }
+
+  return { project, base, templates };
+}
@@ -0,0 +1,125 @@
+/**
+ * Codemods : modifications ciblées de fichiers existants
+ * Les templates décrivent des opérations (import, provider, entrée de tableau, bloc Prisma,
+ * clés JSON) au lieu de réécrire le fichier : le code de l'utilisateur est conservé
+ * et une opération déjà appliquée ne change rien
+ */
+
+import type {
+  CodeModification,
+  CodemodOperation,
+  FileSystem,
+  FileTemplate,
+  Logger,
+} from '../../../templates/types.js';
+import { mergeJson } from './json.js';
+import { addPrismaBlock } from './prisma.js';
+import { addImport, appendArrayEntry, appendJsxChild, wrapJsxChildren } from './typescript.js';
+import type { CodemodOutcome } from './types.js';
+
+export type { CodemodOutcome, CodemodStatus } from './types.js';
+export { listPrismaBlocks } from './prisma.js';
+
+export interface CodemodReport {
+  content: string;
+  // Opérations dont la cible est introuvable dans le fichier
+  missing: CodemodOperation[];
+}
+
+export interface ModificationResult {
+  files: FileTemplate[];
+  // Chemins réellement modifiés, à écrire comme fichiers fusionnés
+  modified: string[];
+}
+
+const SCRIPT_FILE = /\.(?:[cm]?[jt]sx?)$/;
+
+function applyOperation(
+  path: string,
+  content: string,
+  operation: CodemodOperation,
+): CodemodOutcome {
+  const expected = {
+    'add-import': SCRIPT_FILE,
+    'wrap-jsx-children': SCRIPT_FILE,
+    'append-jsx-child': SCRIPT_FILE,
+    'append-array-entry': SCRIPT_FILE,
+    'add-prisma-block': /\.prisma$/,
+    'merge-json': /\.json$/,
+  }[operation.type];
+  if (!expected.test(path)) {
+    throw new Error(`L'opération ${operation.type} ne s'applique pas à ${path}`);
+  }
+
+  switch (operation.type) {
+  case 'add-import':
+    return addImport(path, content, operation);
+  case 'wrap-jsx-children':
+    return wrapJsxChildren(path, content, operation);
+  case 'append-jsx-child':
+    return appendJsxChild(path, content, operation);
+  case 'append-array-entry':
+    return appendArrayEntry(path, content, operation);
+  case 'add-prisma-block':
+    return addPrismaBlock(content, operation.block);
+  case 'merge-json':
+    return mergeJson(content, operation.value);
+  }
+}
+
+/**
+ * Applique des opérations, dans l'ordre, au contenu d'un fichier
+ */
+export function applyCodemods(
+  path: string,
+  content: string,
+  operations: CodemodOperation[],
+): CodemodReport {
+  const missing: CodemodOperation[] = [];
+  const updated = operations.reduce((current, operation) => {
+    const outcome = applyOperation(path, current, operation);
+    if (outcome.status === 'not-found') {
+      missing.push(operation);
+    }
+    return outcome.content;
+  }, content);
+  return { content: updated, missing };
+}
+
+/**
+ * Applique les modifications des templates aux fichiers générés ou, à défaut, à ceux du projet
+ * Les fichiers absents des deux sont ignorés avec un avertissement
+ */
+export async function applyModifications(
+  files: FileTemplate[],
+  modifications: CodeModification[],
+  fs: FileSystem,
+  logger: Logger,
+): Promise<ModificationResult> {
+  const result = [...files];
+  const modified = new Set<string>();
+
+  for (const { path, operations } of modifications) {
+    const index = result.findIndex(file => file.path === path);
+    const generated = result[index];
+    const current = generated?.content ?? await fs.readFile(path);
+    if (current === undefined) {
+      logger.warn(`${path} introuvable : modifications ignorées`);
+      continue;
+    }
+
+    const { content, missing } = applyCodemods(path, current, operations);
+    missing.forEach(operation => logger.warn(`${path} : cible de ${operation.type} introuvable`));
+    if (content === current) {
+      continue;
+    }
+    if (generated) {
+      result[index] = { ...generated, content };
+    } else {
+      result.push({ path, content });
+      modified.add(path);
+    }
+  }
+
+  return { files: result, modified: [...modified] };
+}
@@ -0,0 +1,49 @@
+/**
+ * Codemods JSON (package.json, tsconfig.json, components.json...)
+ * La fusion n'ajoute que ce qui manque : les valeurs existantes sont conservées
+ */
+
+import { stripJsonComments } from '../doctor.js';
+import type { CodemodOutcome } from './types.js';
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function merge(target: JsonObject, value: JsonObject): JsonObject {
+  const merged: JsonObject = { ...target };
+  for (const [key, incoming] of Object.entries(value)) {
+    const current = merged[key];
+    if (current === undefined) {
+      merged[key] = incoming;
+    } else if (isObject(current) && isObject(incoming)) {
+      merged[key] = merge(current, incoming);
+    } else if (Array.isArray(current) && Array.isArray(incoming)) {
+      const present = new Set(current.map(entry => JSON.stringify(entry)));
+      merged[key] = [
+        ...current,
+        ...incoming.filter(entry => !present.has(JSON.stringify(entry))),
+      ];
+    }
+  }
+  return merged;
+}
+
+/**
+ * Fusionne des clés dans un fichier JSON en conservant son indentation
+ */
+export function mergeJson(content: string, value: JsonObject): CodemodOutcome {
+  const parsed: unknown = content.trim() ? JSON.parse(stripJsonComments(content)) : {};
+  if (!isObject(parsed)) {
+    throw new Error('Le fichier JSON doit contenir un objet');
+  }
+
+  const merged = merge(parsed, value);
+  if (JSON.stringify(merged) === JSON.stringify(parsed)) {
+    return { content, status: 'skipped' };
+  }
+  const indent = /^([ \t]+)"/m.exec(content)?.[1] ?? 2;
+  return { content: `${JSON.stringify(merged, null, indent)}\n`, status: 'applied' };
+}
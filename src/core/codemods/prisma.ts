@@ -0,0 +1,41 @@
+/**
+ * Codemods du schéma Prisma
+ * Le schéma est découpé en blocs (model, enum, datasource...) : un bloc n'est ajouté
+ * que si aucun bloc du même type et du même nom n'existe
+ */
+
+import type { CodemodOutcome } from './types.js';
+
+export interface PrismaBlockHeader {
+  kind: string;
+  name: string;
+}
+
+const BLOCK_HEADER = /^[ \t]*(model|enum|type|view|datasource|generator)\s+(\w+)\s*\{/gm;
+
+/**
+ * En-têtes des blocs déclarés dans un schéma
+ */
+export function listPrismaBlocks(content: string): PrismaBlockHeader[] {
+  return [...content.matchAll(BLOCK_HEADER)].map(([, kind = '', name = '']) => ({ kind, name }));
+}
+
+/**
+ * Ajoute un bloc à la fin du schéma s'il n'y est pas déjà déclaré
+ */
+export function addPrismaBlock(content: string, block: string): CodemodOutcome {
+  const [header] = listPrismaBlocks(block);
+  if (!header) {
+    throw new Error(`Bloc Prisma invalide : ${block.trim().split('\n')[0] ?? ''}`);
+  }
+  const exists = listPrismaBlocks(content).some(({ kind, name }) => (
+    kind === header.kind && name === header.name
+  ));
+  if (exists) {
+    return { content, status: 'skipped' };
+  }
+
+  const base = content.trimEnd();
+  const separator = base ? '\n\n' : '';
+  return { content: `${base}${separator}${block.trim()}\n`, status: 'applied' };
+}
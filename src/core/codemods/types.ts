@@ -0,0 +1,11 @@
+/**
+ * Résultat d'une opération de codemod
+ * skipped : la modification est déjà présente ; not-found : la cible est absente du fichier
+ */
+
+export type CodemodStatus = 'applied' | 'skipped' | 'not-found';
+
+export interface CodemodOutcome {
+  content: string;
+  status: CodemodStatus;
+}
@@ -0,0 +1,278 @@
+/**
+ * Codemods TypeScript et JSX
+ * Le fichier est analysé avec le compilateur TypeScript puis modifié par insertions de texte :
+ * la mise en forme et les commentaires existants sont conservés
+ */
+
+import ts from 'typescript';
+import type { CodemodOperation } from '../../../templates/types.js';
+import type { CodemodOutcome } from './types.js';
+
+type Operation<K extends CodemodOperation['type']> = Extract<CodemodOperation, { type: K }>;
+
+function parse(path: string, content: string): ts.SourceFile {
+  const kind = /\.[jt]sx$/.test(path) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  return ts.createSourceFile(path, content, ts.ScriptTarget.Latest, true, kind);
+}
+
+function splice(content: string, start: number, end: number, text: string): string {
+  return `${content.slice(0, start)}${text}${content.slice(end)}`;
+}
+
+/**
+ * Indentation de la ligne contenant la position
+ */
+function indentationAt(content: string, position: number): string {
+  const lineStart = content.lastIndexOf('\n', position - 1) + 1;
+  return /^[ \t]*/.exec(content.slice(lineStart))?.[0] ?? '';
+}
+
+function findNode<T extends ts.Node>(
+  root: ts.Node,
+  predicate: (node: ts.Node) => node is T,
+): T | undefined {
+  let found: T | undefined;
+  const visit = (node: ts.Node): void => {
+    if (found) {
+      return;
+    }
+    if (predicate(node)) {
+      found = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(root);
+  return found;
+}
+
+function tagName(node: ts.JsxElement | ts.JsxSelfClosingElement): string {
+  return ts.isJsxElement(node)
+    ? node.openingElement.tagName.getText()
+    : node.tagName.getText();
+}
+
+function findJsxElement(source: ts.Node, name: string): ts.JsxElement | undefined {
+  return findNode(source, (node): node is ts.JsxElement => (
+    ts.isJsxElement(node) && tagName(node) === name
+  ));
+}
+
+function containsJsxElement(root: ts.Node, name: string): boolean {
+  return findNode(root, (node): node is ts.JsxElement | ts.JsxSelfClosingElement => (
+    (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) && tagName(node) === name
+  )) !== undefined;
+}
+
+/**
+ * Ajoute un import, ou complète l'import existant du même module
+ */
+export function addImport(
+  path: string,
+  content: string,
+  operation: Operation<'add-import'>,
+): CodemodOutcome {
+  const source = parse(path, content);
+  const imports = source.statements.filter(ts.isImportDeclaration);
+  const typeOnly = operation.typeOnly ?? false;
+  const named = operation.named ?? [];
+
+  const existing = imports.find(declaration => (
+    (declaration.moduleSpecifier as ts.StringLiteral).text === operation.module
+    && (declaration.importClause?.isTypeOnly ?? false) === typeOnly
+  ));
+  const clause = existing?.importClause;
+  if (existing && (clause || (named.length === 0 && !operation.default))) {
+    const bindings = clause?.namedBindings;
+    const present = bindings && ts.isNamedImports(bindings)
+      ? bindings.elements.map(element => element.name.text)
+      : [];
+    const missing = named.filter(name => !present.includes(name));
+    const needsDefault = operation.default !== undefined && !clause?.name;
+    if (!clause || (missing.length === 0 && !needsDefault)) {
+      return { content, status: 'skipped' };
+    }
+
+    let updated = content;
+    if (missing.length > 0) {
+      if (bindings && ts.isNamedImports(bindings)) {
+        const last = bindings.elements[bindings.elements.length - 1];
+        updated = last
+          ? splice(updated, last.end, last.end, `, ${missing.join(', ')}`)
+          : splice(updated, bindings.getStart(), bindings.end, `{ ${missing.join(', ')} }`);
+      } else if (clause.name) {
+        const position = clause.name.end;
+        updated = splice(updated, position, position, `, { ${missing.join(', ')} }`);
+      }
+    }
+    if (needsDefault) {
+      updated = splice(updated, clause.getStart(), clause.getStart(), `${operation.default}, `);
+    }
+    return { content: updated, status: 'applied' };
+  }
+
+  // Style des imports existants : guillemets et point-virgule
+  const reference = imports[0]?.getText();
+  const quote = reference?.includes('\'') && !reference.includes('"') ? '\'' : '"';
+  const semicolon = reference === undefined || reference.endsWith(';') ? ';' : '';
+  const clauses = [
+    ...(operation.default ? [operation.default] : []),
+    ...(named.length > 0 ? [`{ ${named.join(', ')} }`] : []),
+  ];
+  const specifier = `${quote}${operation.module}${quote}`;
+  const line = clauses.length > 0
+    ? `import ${typeOnly ? 'type ' : ''}${clauses.join(', ')} from ${specifier}${semicolon}`
+    : `import ${specifier}${semicolon}`;
+
+  const last = imports[imports.length - 1];
+  if (last) {
+    return { content: splice(content, last.end, last.end, `\n${line}`), status: 'applied' };
+  }
+  // Après les directives ('use client') s'il y en a
+  const directives = source.statements.filter(statement => (
+    ts.isExpressionStatement(statement) && ts.isStringLiteral(statement.expression)
+  ));
+  const anchor = directives[directives.length - 1];
+  const updated = anchor
+    ? splice(content, anchor.end, anchor.end, `\n\n${line}`)
+    : `${line}\n\n${content}`;
+  return { content: updated, status: 'applied' };
+}
+
+/**
+ * Enveloppe les enfants d'un élément JSX dans un composant (provider)
+ */
+export function wrapJsxChildren(
+  path: string,
+  content: string,
+  operation: Operation<'wrap-jsx-children'>,
+): CodemodOutcome {
+  const parent = findJsxElement(parse(path, content), operation.parent);
+  if (!parent) {
+    return { content, status: 'not-found' };
+  }
+  if (containsJsxElement(parent, operation.component)) {
+    return { content, status: 'skipped' };
+  }
+
+  const start = parent.openingElement.end;
+  const end = parent.closingElement.getStart();
+  const parentIndent = indentationAt(content, parent.getStart());
+  const indent = `${parentIndent}  `;
+  const children = content.slice(start, end).trim()
+    .split('\n')
+    .map((line, index) => (index === 0 ? `${indent}  ${line}` : line && `  ${line}`))
+    .join('\n');
+  const props = operation.props ? ` ${operation.props}` : '';
+  const wrapped = [
+    '',
+    `${indent}<${operation.component}${props}>`,
+    ...(children.trim() ? [children] : []),
+    `${indent}</${operation.component}>`,
+    parentIndent,
+  ].join('\n');
+  return { content: splice(content, start, end, wrapped), status: 'applied' };
+}
+
+/**
+ * Ajoute un élément JSX à la fin des enfants d'un élément
+ */
+export function appendJsxChild(
+  path: string,
+  content: string,
+  operation: Operation<'append-jsx-child'>,
+): CodemodOutcome {
+  const parent = findJsxElement(parse(path, content), operation.parent);
+  if (!parent) {
+    return { content, status: 'not-found' };
+  }
+  const name = /^<\s*([\w.]+)/.exec(operation.element.trim())?.[1];
+  if (name && containsJsxElement(parent, name)) {
+    return { content, status: 'skipped' };
+  }
+
+  const closing = parent.closingElement.getStart();
+  const inner = content.slice(parent.openingElement.end, closing);
+  const newline = inner.lastIndexOf('\n');
+  if (newline === -1) {
+    return { content: splice(content, closing, closing, operation.element), status: 'applied' };
+  }
+  const position = parent.openingElement.end + newline;
+  const indent = `${indentationAt(content, parent.getStart())}  `;
+  return {
+    content: splice(content, position, position, `\n${indent}${operation.element}`),
+    status: 'applied',
+  };
+}
+
+/**
+ * Ajoute une entrée au tableau d'une propriété, en créant la propriété si besoin
+ * La recherche se limite à l'initialisation de la variable indiquée
+ */
+export function appendArrayEntry(
+  path: string,
+  content: string,
+  operation: Operation<'append-array-entry'>,
+): CodemodOutcome {
+  const source = parse(path, content);
+  const scope = operation.variable
+    ? findNode(source, (node): node is ts.VariableDeclaration => (
+      ts.isVariableDeclaration(node) && node.name.getText() === operation.variable
+    ))?.initializer
+    : source;
+  if (!scope) {
+    return { content, status: 'not-found' };
+  }
+
+  const property = findNode(scope, (node): node is ts.PropertyAssignment => (
+    ts.isPropertyAssignment(node)
+    && node.name.getText().replace(/['"]/g, '') === operation.property
+    && ts.isArrayLiteralExpression(node.initializer)
+  ));
+  const normalize = (text: string) => text.replace(/\s+/g, '');
+
+  if (property) {
+    const array = property.initializer as ts.ArrayLiteralExpression;
+    const entry = normalize(operation.entry);
+    if (array.elements.some(element => normalize(element.getText()) === entry)) {
+      return { content, status: 'skipped' };
+    }
+    return {
+      content: appendToList(content, array, array.elements, operation.entry),
+      status: 'applied',
+    };
+  }
+
+  const object = findNode(scope, ts.isObjectLiteralExpression);
+  if (!object) {
+    return { content, status: 'not-found' };
+  }
+  const entry = `${operation.property}: [${operation.entry}]`;
+  return { content: appendToList(content, object, object.properties, entry), status: 'applied' };
+}
+
+/**
+ * Insère un élément après le dernier élément d'un tableau ou d'un objet littéral
+ * en respectant sa mise en forme (une ligne ou un élément par ligne)
+ */
+function appendToList(
+  content: string,
+  container: ts.Node,
+  elements: ts.NodeArray<ts.Node>,
+  entry: string,
+): string {
+  const last = elements[elements.length - 1];
+  if (!last) {
+    const open = container.getStart();
+    const [opening, closing] = content.charAt(open) === '[' ? ['[', ']'] : ['{ ', ' }'];
+    return splice(content, open, container.end, `${opening}${entry}${closing}`);
+  }
+
+  const source = container.getSourceFile();
+  const line = (position: number) => source.getLineAndCharacterOfPosition(position).line;
+  if (line(container.getStart()) === line(last.getStart())) {
+    return splice(content, last.end, last.end, `, ${entry}`);
+  }
+  const indent = indentationAt(content, last.getStart());
+  return splice(content, last.end, last.end, `,\n${indent}${entry}`);
+}
@@ -0,0 +1,165 @@
+/**
+ * Diff ligne à ligne et affichage au format unifié
+ */
+
+import chalk from 'chalk';
+
+export interface DiffOp {
+  type: 'equal' | 'add' | 'remove';
+  line: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  ops: DiffOp[];
+}
+
+export interface UnifiedDiffOptions {
+  context?: number;
+  color?: boolean;
+}
+
+export function splitLines(content: string): string[] {
+  if (content === '') {
+    return [];
+  }
+  return content.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
+
+/**
+ * Calcule la plus longue sous-séquence commune entre deux listes de lignes
+ */
+export function diffLines(current: string, incoming: string): DiffOp[] {
+  const a = splitLines(current);
+  const b = splitLines(incoming);
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  const lcs = (i: number, j: number) => table[i * width + j] ?? 0;
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? lcs(i + 1, j + 1) + 1
+        : Math.max(lcs(i + 1, j), lcs(i, j + 1));
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    const left = a[i];
+    const right = b[j];
+
+    if (left !== undefined && left === right) {
+      ops.push({ type: 'equal', line: left });
+      i++;
+      j++;
+    } else if (right === undefined || (left !== undefined && lcs(i + 1, j) >= lcs(i, j + 1))) {
+      ops.push({ type: 'remove', line: left ?? '' });
+      i++;
+    } else {
+      ops.push({ type: 'add', line: right });
+      j++;
+    }
+  }
+
+  return ops;
+}
+
+/**
+ * Regroupe les opérations en hunks entourés de lignes de contexte
+ */
+export function computeHunks(ops: DiffOp[], context: number = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  const changed = ops
+    .map((op, index) => (op.type === 'equal' ? -1 : index))
+    .filter(index => index >= 0);
+  if (changed.length === 0) {
+    return hunks;
+  }
+
+  // Bornes [début, fin[ des hunks en indices d'opérations
+  const ranges: [number, number][] = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  let oldLine = 1;
+  let newLine = 1;
+  let cursor = 0;
+  const advanceTo = (target: number) => {
+    for (; cursor < target; cursor++) {
+      const type = ops[cursor]?.type;
+      if (type !== 'add') {
+        oldLine++;
+      }
+      if (type !== 'remove') {
+        newLine++;
+      }
+    }
+  };
+
+  for (const [start, end] of ranges) {
+    advanceTo(start);
+
+    const hunkOps = ops.slice(start, end);
+    const oldLines = hunkOps.filter(op => op.type !== 'add').length;
+    const newLines = hunkOps.filter(op => op.type !== 'remove').length;
+    hunks.push({ oldStart: oldLine, oldLines, newStart: newLine, newLines, ops: hunkOps });
+    advanceTo(end);
+  }
+
+  return hunks;
+}
+
+/**
+ * Produit un diff unifié entre le fichier sur disque et le fichier généré
+ */
+export function formatUnifiedDiff(
+  path: string,
+  current: string,
+  incoming: string,
+  options: UnifiedDiffOptions = {},
+): string {
+  const paint = (style: (text: string) => string, text: string) => (
+    options.color ? style(text) : text
+  );
+  const hunks = computeHunks(diffLines(current, incoming), options.context ?? 3);
+  if (hunks.length === 0) {
+    return '';
+  }
+
+  const lines = [
+    paint(chalk.bold, `--- a/${path}`),
+    paint(chalk.bold, `+++ b/${path}`),
+  ];
+
+  for (const hunk of hunks) {
+    lines.push(paint(
+      chalk.cyan,
+      `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+    ));
+    for (const op of hunk.ops) {
+      if (op.type === 'add') {
+        lines.push(paint(chalk.green, `+${op.line}`));
+      } else if (op.type === 'remove') {
+        lines.push(paint(chalk.red, `-${op.line}`));
+      } else {
+        lines.push(` ${op.line}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
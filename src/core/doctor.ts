@@ -0,0 +1,349 @@
+/**
+ * Diagnostic d'un projet Next.js existant
+ * Détecte les templates présents et signale alias, variables d'environnement,
+ * configuration Tailwind et dépendances à corriger
+ */
+
+import semver from 'semver';
+import { defaultBaseProjectConfig } from '../../templates/base-project-structure/index.js';
+import type { BaseProjectConfig } from '../../templates/base-project-structure/index.js';
+import { parseDependencySpecs } from '../../templates/generation.js';
+import { ENV_EXAMPLE_FILE, parseEnvExample } from './env.js';
+import { scanExistingFiles } from './file-writer.js';
+import { toFileSystem } from './file-system.js';
+import type { ProjectLocation } from './file-system.js';
+import type { ManifestDrift } from './manifest.js';
+import { detectDrift, readManifest } from './manifest.js';
+import { MIDDLEWARE_DIRECTORY, MIDDLEWARE_FILE, parseSegmentFile } from './middleware.js';
+import type { PackageJson } from './package-json.js';
+import { PACKAGE_FILE, parsePackageJson } from './package-json.js';
+import { PRISMA_SCHEMA_FILE } from './prisma-schema.js';
+
+export const TSCONFIG_FILE = 'tsconfig.json';
+export const COMPONENTS_FILE = 'components.json';
+const ENV_FILES = ['.env', '.env.local'];
+const STYLESHEETS = ['app/globals.css', 'src/app/globals.css', 'src/styles/globals.css'];
+const TAILWIND_CONFIGS = ['tailwind.config.ts', 'tailwind.config.js', 'tailwind.config.mjs'];
+
+// Indice de présence d'un template : fichier, motif de chemin ou dépendance
+export interface TemplateSignal {
+  file?: string | RegExp;
+  dependency?: string;
+}
+
+export const TEMPLATE_SIGNALS: Record<string, TemplateSignal[]> = {
+  'base-project-structure': [{ file: COMPONENTS_FILE }, { file: 'src/lib/utils.ts' }],
+  auth: [{ dependency: 'better-auth' }, { file: 'src/lib/auth.ts' }],
+  database: [{ dependency: '@prisma/client' }, { file: PRISMA_SCHEMA_FILE }],
+  crud: [
+    { dependency: '@tanstack/react-table' },
+    { file: /^src\/components\/[^/]+\/[^/]+-table\.tsx$/ },
+  ],
+  forms: [{ file: /^src\/components\/forms\/[^/]+-form\.tsx$/ }],
+  navigation: [{ file: 'src/components/navigation/app-sidebar.tsx' }],
+  security: [{ file: 'src/lib/rate-limit.ts' }, { file: 'src/config/security.ts' }],
+  'error-handling': [
+    { file: 'src/lib/error-logger.ts' },
+    { file: /^src\/components\/error-boundary\// },
+  ],
+  'cache-optimization': [{ file: 'src/lib/cache/index.ts' }],
+  testing: [
+    { dependency: 'jest' },
+    { dependency: 'vitest' },
+    { dependency: '@playwright/test' },
+    { file: /^(jest|vitest|playwright)\.config\.[cm]?[jt]s$/ },
+  ],
+};
+
+// Fichiers du projet lus pour le diagnostic
+export interface ProjectSnapshot {
+  files: string[];
+  contents: Record<string, string>;
+  packageJson?: PackageJson;
+}
+
+export interface DetectedTemplate {
+  name: string;
+  // Indices trouvés : chemins ou dépendances
+  evidence: string[];
+  // Enregistré dans next-cli.json
+  recorded: boolean;
+}
+
+export interface AliasIssue {
+  alias: string;
+  expected: string;
+  // Cible actuelle, absente si l'alias n'est pas déclaré
+  actual?: string;
+}
+
+export interface TailwindReport {
+  version?: 3 | 4;
+  issues: string[];
+}
+
+export interface OutdatedDependency {
+  name: string;
+  current: string;
+  expected: string;
+}
+
+export interface DoctorReport {
+  nextVersion?: string;
+  // Routeur détecté : app/, src/app/ ou aucun
+  appDirectory?: string;
+  middleware: boolean;
+  templates: DetectedTemplate[];
+  // Templates enregistrés dans next-cli.json dont aucun indice n'a été trouvé
+  unconfirmed: string[];
+  aliases: AliasIssue[];
+  missingEnv: string[];
+  tailwind: TailwindReport;
+  outdated: OutdatedDependency[];
+  drift?: ManifestDrift;
+}
+
+/**
+ * Retire commentaires et virgules finales d'un fichier JSONC (tsconfig.json)
+ * Les chaînes sont recopiées telles quelles : "./src/*" n'ouvre pas de commentaire
+ */
+export function stripJsonComments(content: string): string {
+  let output = '';
+  let index = 0;
+
+  while (index < content.length) {
+    const char = content[index] ?? '';
+    const next = content[index + 1];
+
+    if (char === '"') {
+      let end = index + 1;
+      while (end < content.length && content[end] !== '"') {
+        end += content[end] === '\\' ? 2 : 1;
+      }
+      output += content.slice(index, end + 1);
+      index = end + 1;
+    } else if (char === '/' && next === '/') {
+      const end = content.indexOf('\n', index);
+      index = end === -1 ? content.length : end;
+    } else if (char === '/' && next === '*') {
+      const end = content.indexOf('*/', index + 2);
+      index = end === -1 ? content.length : end + 2;
+    } else {
+      output += char;
+      index += 1;
+    }
+  }
+  return output.replace(/,(\s*[}\]])/g, '$1');
+}
+
+function dependencies(packageJson: PackageJson | undefined): Record<string, string> {
+  return { ...packageJson?.devDependencies, ...packageJson?.dependencies };
+}
+
+/**
+ * Templates dont au moins un indice est présent, confrontés à ceux du manifeste
+ */
+export function detectTemplates(
+  snapshot: ProjectSnapshot,
+  recorded: string[] = [],
+): DetectedTemplate[] {
+  const installed = dependencies(snapshot.packageJson);
+  const segments = Object.entries(snapshot.contents)
+    .filter(([path]) => path.startsWith(`${MIDDLEWARE_DIRECTORY}/`))
+    .map(([path, content]) => ({ path, template: parseSegmentFile(content)?.template }));
+
+  return Object.entries(TEMPLATE_SIGNALS).flatMap(([name, signals]) => {
+    const evidence = signals.flatMap(({ file, dependency }) => {
+      if (dependency) {
+        return dependency in installed ? [dependency] : [];
+      }
+      if (typeof file === 'string') {
+        return snapshot.files.includes(file) ? [file] : [];
+      }
+      const match = file && snapshot.files.find(path => file.test(path));
+      return match ? [match] : [];
+    });
+    // Segments de middleware signés par le template (en-tête « template x »)
+    evidence.push(...segments.filter(({ template }) => template === name).map(({ path }) => path));
+    return evidence.length > 0 ? [{ name, evidence, recorded: recorded.includes(name) }] : [];
+  });
+}
+
+/**
+ * Alias de BaseProjectConfig.pathAliases absents de tsconfig.json ou pointant ailleurs
+ */
+export function checkPathAliases(
+  tsconfig: string | undefined,
+  expected: BaseProjectConfig['pathAliases'] = defaultBaseProjectConfig.pathAliases,
+): AliasIssue[] {
+  let paths: Record<string, string[]> = {};
+  if (tsconfig !== undefined) {
+    try {
+      const parsed = JSON.parse(stripJsonComments(tsconfig)) as {
+        compilerOptions?: { paths?: Record<string, string[]> };
+      };
+      paths = parsed.compilerOptions?.paths ?? {};
+    } catch (error) {
+      throw new Error(`${TSCONFIG_FILE} invalide : ${(error as Error).message}`);
+    }
+  }
+
+  const normalize = (target: string) => target.replace(/^\.\//, '');
+  return Object.entries(expected).flatMap(([alias, target]) => {
+    const actual = paths[alias]?.[0];
+    if (actual !== undefined && normalize(actual) === normalize(target)) {
+      return [];
+    }
+    return [{ alias, expected: target, ...(actual !== undefined ? { actual } : {}) }];
+  });
+}
+
+/**
+ * Variables requises par .env.example sans valeur dans .env ou .env.local
+ */
+export function checkEnv(envExample: string | undefined, envFiles: string[]): string[] {
+  if (envExample === undefined) {
+    return [];
+  }
+  const defined = new Set(envFiles
+    .flatMap(content => parseEnvExample(content))
+    .filter(variable => variable.example !== '')
+    .map(variable => variable.name));
+
+  return parseEnvExample(envExample)
+    .filter(variable => variable.required && !defined.has(variable.name))
+    .map(variable => variable.name);
+}
+
+function majorVersion(range: string | undefined): number | undefined {
+  if (range === undefined) {
+    return undefined;
+  }
+  const minimum = semver.validRange(range) ? semver.minVersion(range) : null;
+  return minimum?.major;
+}
+
+/**
+ * Version de Tailwind (v3 : tailwind.config + directives @tailwind, v4 : @tailwindcss/postcss
+ * + @import "tailwindcss") et incohérences de configuration
+ */
+export function checkTailwind(snapshot: ProjectSnapshot): TailwindReport {
+  const installed = dependencies(snapshot.packageJson);
+  const stylesheet = STYLESHEETS.map(path => snapshot.contents[path]).find(Boolean) ?? '';
+  const config = TAILWIND_CONFIGS.find(path => snapshot.files.includes(path));
+  const postcss = '@tailwindcss/postcss' in installed;
+  const v3Directives = /@tailwind\s+(base|components|utilities)/.test(stylesheet);
+  const v4Import = /@import\s+["']tailwindcss["']/.test(stylesheet);
+
+  if (!('tailwindcss' in installed)) {
+    const styled = v3Directives || v4Import;
+    return { issues: styled ? ['Styles Tailwind présents sans dépendance tailwindcss'] : [] };
+  }
+
+  const major = majorVersion(installed.tailwindcss);
+  // Plage non semver (latest) : version déduite de la configuration
+  const legacy = major === undefined
+    ? !postcss && (config !== undefined || v3Directives)
+    : major < 4;
+  const version = legacy ? 3 : 4;
+  const issues: string[] = [];
+
+  if (version === 4) {
+    if (!postcss) {
+      issues.push('Tailwind v4 sans @tailwindcss/postcss');
+    }
+    if (v3Directives) {
+      issues.push('Directives @tailwind (v3) : remplacer par @import "tailwindcss"');
+    }
+    if (config && !/@config\s/.test(stylesheet)) {
+      issues.push(`${config} ignoré par Tailwind v4 sans directive @config`);
+    }
+  } else {
+    if (!config) {
+      issues.push('Tailwind v3 sans tailwind.config');
+    }
+    if (v4Import) {
+      issues.push('@import "tailwindcss" requiert Tailwind v4');
+    }
+  }
+  return { version, issues };
+}
+
+/**
+ * Dépendances dont la plage est antérieure à celle de defaultBaseProjectConfig.dependencies
+ */
+export function checkDependencies(
+  packageJson: PackageJson | undefined,
+  expected: BaseProjectConfig['dependencies'] = defaultBaseProjectConfig.dependencies,
+): OutdatedDependency[] {
+  const installed = dependencies(packageJson);
+  const pinned = parseDependencySpecs(Object.values(expected).flat());
+
+  return Object.entries(pinned).flatMap(([name, range]) => {
+    const current = installed[name];
+    const minimum = semver.validRange(range) ? semver.minVersion(range) : null;
+    const actual = current && semver.validRange(current) ? semver.minVersion(current) : null;
+    return current && minimum && actual && semver.lt(actual, minimum)
+      ? [{ name, current, expected: range }]
+      : [];
+  });
+}
+
+/**
+ * Lit les fichiers utiles au diagnostic
+ */
+export async function readProjectSnapshot(project: ProjectLocation): Promise<ProjectSnapshot> {
+  const fs = toFileSystem(project);
+  const files = await scanExistingFiles(fs);
+  const wanted = [
+    PACKAGE_FILE,
+    TSCONFIG_FILE,
+    ENV_EXAMPLE_FILE,
+    ...ENV_FILES,
+    ...STYLESHEETS,
+    ...files.filter(path => path.startsWith(`${MIDDLEWARE_DIRECTORY}/`) && path.endsWith('.ts')),
+  ];
+
+  const contents: Record<string, string> = {};
+  for (const path of wanted.filter(candidate => files.includes(candidate))) {
+    contents[path] = await fs.readFile(path) ?? '';
+  }
+
+  const packageJson = contents[PACKAGE_FILE];
+  return packageJson === undefined
+    ? { files, contents }
+    : { files, contents, packageJson: parsePackageJson(packageJson) };
+}
+
+/**
+ * Diagnostic complet du projet
+ */
+export async function diagnoseProject(project: ProjectLocation): Promise<DoctorReport> {
+  const fs = toFileSystem(project);
+  const snapshot = await readProjectSnapshot(fs);
+  const manifest = await readManifest(fs);
+  const recorded = manifest?.templates.map(template => template.name) ?? [];
+  const templates = detectTemplates(snapshot, recorded);
+  const appDirectory = ['app', 'src/app'].find(directory => (
+    snapshot.files.some(path => path.startsWith(`${directory}/`))
+  ));
+  const nextVersion = dependencies(snapshot.packageJson).next;
+
+  return {
+    ...(nextVersion ? { nextVersion } : {}),
+    ...(appDirectory ? { appDirectory } : {}),
+    middleware: snapshot.files.includes(MIDDLEWARE_FILE),
+    templates,
+    unconfirmed: recorded.filter(name => (
+      name in TEMPLATE_SIGNALS && !templates.some(template => template.name === name)
+    )),
+    aliases: checkPathAliases(snapshot.contents[TSCONFIG_FILE]),
+    missingEnv: checkEnv(
+      snapshot.contents[ENV_EXAMPLE_FILE],
+      ENV_FILES.flatMap(path => snapshot.contents[path] ?? []),
+    ),
+    tailwind: checkTailwind(snapshot),
+    outdated: checkDependencies(snapshot.packageJson),
+    ...(manifest ? { drift: await detectDrift(fs, manifest) } : {}),
+  };
+}
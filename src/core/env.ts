@@ -0,0 +1,273 @@
+/**
+ * Registre des variables d'environnement déclarées par les templates
+ * Produit un .env.example unique, découpé par template, et un module env.ts validé par Zod
+ */
+
+import type { EnvVariable, FileTemplate, Logger } from '../../templates/types.js';
+
+export const ENV_EXAMPLE_FILE = '.env.example';
+export const ENV_MODULE_FILE = 'src/lib/env.ts';
+export const INSTRUMENTATION_FILE = 'src/instrumentation.ts';
+
+const PUBLIC_PREFIX = 'NEXT_PUBLIC_';
+const VARIABLE_NAME = /^[A-Z_][A-Z0-9_]*$/;
+const SECTION_LINE = /^# ==== (.+) ====$/;
+const DESCRIPTION_LINE = /^# (.*) \[(requise|optionnelle)(, secrète)?\]$/;
+const ASSIGNMENT_LINE = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/;
+
+export interface EnvMergeResult {
+  variables: EnvVariable[];
+  warnings: string[];
+}
+
+export function isPublicVariable(name: string): boolean {
+  return name.startsWith(PUBLIC_PREFIX);
+}
+
+/**
+ * Fusionne les déclarations par nom
+ * Le premier template déclarant une variable en reste propriétaire (section du .env.example),
+ * la dernière description et le dernier exemple non vides l'emportent (template plus spécifique),
+ * et la variable devient requise ou secrète dès qu'un template la déclare ainsi
+ */
+export function mergeEnvVariables(declarations: EnvVariable[]): EnvMergeResult {
+  const byName = new Map<string, EnvVariable>();
+  const warnings: string[] = [];
+
+  for (const declaration of declarations) {
+    if (!VARIABLE_NAME.test(declaration.name)) {
+      const { name, template } = declaration;
+      warnings.push(`Variable « ${name} » ignorée (${template}) : nom invalide`);
+      continue;
+    }
+
+    const previous = byName.get(declaration.name);
+    byName.set(declaration.name, previous
+      ? {
+        ...previous,
+        description: declaration.description || previous.description,
+        example: declaration.example || previous.example,
+        required: previous.required || declaration.required,
+        secret: previous.secret || declaration.secret,
+      }
+      : declaration);
+  }
+
+  const variables = [...byName.values()];
+  variables
+    .filter(variable => variable.secret && isPublicVariable(variable.name))
+    .forEach(variable => warnings.push(
+      `Variable secrète « ${variable.name} » exposée au navigateur (préfixe ${PUBLIC_PREFIX})`,
+    ));
+
+  return { variables, warnings };
+}
+
+function groupByTemplate(variables: EnvVariable[]): Map<string, EnvVariable[]> {
+  const sections = new Map<string, EnvVariable[]>();
+  for (const variable of variables) {
+    sections.set(variable.template, [...(sections.get(variable.template) ?? []), variable]);
+  }
+  return sections;
+}
+
+function describe(variable: EnvVariable): string {
+  const flags = [variable.required ? 'requise' : 'optionnelle', ...(variable.secret ? ['secrète'] : [])];
+  return `# ${variable.description || variable.name} [${flags.join(', ')}]`;
+}
+
+/**
+ * Génère le .env.example avec une section par template
+ */
+export function renderEnvExample(variables: EnvVariable[]): string {
+  const lines = [
+    '# Variables d\'environnement du projet',
+    '# Copier ce fichier vers .env.local puis renseigner les variables requises',
+  ];
+
+  for (const [template, section] of groupByTemplate(variables)) {
+    lines.push('', `# ==== ${template} ====`);
+    for (const variable of section) {
+      lines.push('', describe(variable), `${variable.name}=${JSON.stringify(variable.example)}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && /^(["']).*\1$/.test(trimmed)) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+/**
+ * Relit un .env.example existant
+ * Les variables sans description générée sont conservées comme optionnelles
+ */
+export function parseEnvExample(
+  content: string,
+  fallbackTemplate: string = ENV_EXAMPLE_FILE,
+): EnvVariable[] {
+  const variables: EnvVariable[] = [];
+  let template = fallbackTemplate;
+  let pending: { description: string; required: boolean; secret: boolean } | undefined;
+
+  for (const line of content.split(/\r?\n/).map(raw => raw.trim())) {
+    const section = SECTION_LINE.exec(line);
+    const description = DESCRIPTION_LINE.exec(line);
+    const assignment = ASSIGNMENT_LINE.exec(line);
+
+    if (section?.[1]) {
+      template = section[1];
+      pending = undefined;
+    } else if (description) {
+      pending = {
+        description: description[1] ?? '',
+        required: description[2] === 'requise',
+        secret: description[3] !== undefined,
+      };
+    } else if (assignment?.[1]) {
+      variables.push({
+        name: assignment[1],
+        description: pending?.description ?? '',
+        required: pending?.required ?? false,
+        secret: pending?.secret ?? false,
+        example: unquote(assignment[2] ?? ''),
+        template,
+      });
+      pending = undefined;
+    }
+  }
+
+  return variables;
+}
+
+function toSchema(variables: EnvVariable[]): string {
+  if (variables.length === 0) {
+    return 'z.object({})';
+  }
+  const entries = variables.map(variable => {
+    const type = variable.required ? 'z.string().min(1)' : 'z.string().optional()';
+    return `  // ${variable.description || variable.name}\n  ${variable.name}: ${type},`;
+  });
+  return `z.object({\n${entries.join('\n')}\n})`;
+}
+
+/**
+ * Génère src/lib/env.ts : le schéma Zod échoue au démarrage si une variable requise manque
+ * Côté navigateur, seules les variables NEXT_PUBLIC_ sont validées
+ */
+export function renderEnvModule(variables: EnvVariable[]): string {
+  const server = variables.filter(variable => !isPublicVariable(variable.name));
+  const client = variables.filter(variable => isPublicVariable(variable.name));
+  const runtime = variables
+    .map(variable => `  ${variable.name}: process.env.${variable.name},`)
+    .join('\n');
+
+  return `/**
+ * Variables d'environnement validées au démarrage
+ * Généré à partir des déclarations des templates : ajouter les variables dans .env.example
+ */
+import { z } from 'zod';
+
+const server = ${toSchema(server)};
+
+const client = ${toSchema(client)};
+
+// Références explicites : Next.js n'intègre au bundle client que les NEXT_PUBLIC_ nommées
+const runtimeEnv = {
+${runtime}
+};
+
+const isServer = typeof window === 'undefined';
+const parsed = (isServer ? server.merge(client) : client).safeParse(runtimeEnv);
+
+if (!parsed.success) {
+  const issues = parsed.error.issues
+    .map(issue => \`  - \${issue.path.join('.')} : \${issue.message}\`);
+  throw new Error(\`Variables d'environnement invalides :\\n\${issues.join('\\n')}\`);
+}
+
+export type Env = z.infer<typeof server> & z.infer<typeof client>;
+
+export const env = parsed.data as Env;
+`;
+}
+
+function generateInstrumentationFile(): FileTemplate {
+  return {
+    path: INSTRUMENTATION_FILE,
+    content: `/**
+ * Valide les variables d'environnement au démarrage du serveur
+ */
+export async function register() {
+  await import('./lib/env');
+}
+`,
+  };
+}
+
+/**
+ * Remplace les .env.example générés par les templates par celui du registre
+ * current : .env.example présent sur disque lors d'un ajout de template
+ */
+export function composeProjectEnv(
+  files: FileTemplate[],
+  declarations: EnvVariable[],
+  logger: Logger,
+  current?: string,
+): FileTemplate[] {
+  if (declarations.length === 0) {
+    return files;
+  }
+
+  const existing = current !== undefined ? parseEnvExample(current) : [];
+  const { variables, warnings } = mergeEnvVariables([...existing, ...declarations]);
+  warnings.forEach(warning => logger.warn(warning));
+
+  return [
+    ...files.filter(file => file.path !== ENV_EXAMPLE_FILE),
+    { path: ENV_EXAMPLE_FILE, content: renderEnvExample(variables) },
+    { path: ENV_MODULE_FILE, content: renderEnvModule(variables) },
+    generateInstrumentationFile(),
+  ];
+}
+
+/**
+ * Retire du .env.example les variables déclarées par un template
+ * Une variable encore déclarée par un autre template est conservée et change de section
+ */
+export function stripEnvVariables(
+  current: EnvVariable[],
+  removed: EnvVariable[],
+  kept: EnvVariable[],
+): EnvVariable[] {
+  const owners = new Map(kept.map(variable => [variable.name, variable.template]));
+  const removedNames = new Set(removed.map(variable => variable.name));
+  const template = removed[0]?.template;
+
+  return current
+    .filter(variable => owners.has(variable.name) || !removedNames.has(variable.name))
+    .map(variable => {
+      const owner = owners.get(variable.name);
+      return owner && variable.template === template ? { ...variable, template: owner } : variable;
+    });
+}
+
+/**
+ * Réécrit .env.example et src/lib/env.ts sans les variables d'un template retiré
+ */
+export function stripProjectEnv(
+  current: string,
+  removed: EnvVariable[],
+  kept: EnvVariable[],
+): FileTemplate[] {
+  const variables = stripEnvVariables(parseEnvExample(current), removed, kept);
+  return [
+    { path: ENV_EXAMPLE_FILE, content: renderEnvExample(variables) },
+    { path: ENV_MODULE_FILE, content: renderEnvModule(variables) },
+  ];
+}
@@ -0,0 +1,226 @@
+/**
+ * Système de fichiers du projet
+ * La génération lit et écrit au travers de cette interface : sur disque pour la CLI,
+ * en mémoire pour les tests, les aperçus et l'API programmatique
+ */
+
+import { existsSync } from 'fs';
+import { chmod, mkdir, readFile, rename, rmdir, unlink, writeFile } from 'fs/promises';
+import { dirname, join, sep } from 'path';
+import { glob } from 'glob';
+import type { FileSystem, FileTemplate, GenerationContext } from '../../templates/types.js';
+
+// Racine d'un projet : chemin sur disque ou système de fichiers
+export type ProjectLocation = string | FileSystem;
+
+export const IGNORED_DIRECTORIES = [
+  'node_modules/**',
+  '.git/**',
+  '.next/**',
+  'dist/**',
+  '.next-cli/**',
+];
+
+export function normalizePath(path: string): string {
+  return path.split(sep).join('/').replace(/^\.\//, '');
+}
+
+/**
+ * Convertit un motif glob (*, **, ?, {a,b}) en expression régulière
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern.charAt(index);
+    if (char === '*' && pattern[index + 1] === '*') {
+      // **/ correspond à zéro ou plusieurs dossiers
+      const slash = pattern[index + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      index += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', index);
+      const options = pattern.slice(index + 1, end).split(',');
+      source += `(?:${options.map(option => option.replace(/[.+^$()|[\]\\]/g, '\\$&')).join('|')})`;
+      index = end;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Fichiers du projet sur disque
+ */
+export class DiskFileSystem implements FileSystem {
+  constructor(readonly root: string) {}
+
+  async readFile(path: string): Promise<string | undefined> {
+    return readFile(join(this.root, path), 'utf-8').catch(() => undefined);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return existsSync(join(this.root, path));
+  }
+
+  async writeFile(path: string, content: string, options: { executable?: boolean } = {}) {
+    const target = join(this.root, path);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, content, 'utf-8');
+    if (options.executable) {
+      await chmod(target, 0o755);
+    }
+  }
+
+  /**
+   * Écrit via des fichiers temporaires renommés une fois tous écrits
+   */
+  async writeFiles(files: FileTemplate[]): Promise<void> {
+    const staged: { temp: string; target: string }[] = [];
+
+    try {
+      for (const file of files) {
+        const target = join(this.root, file.path);
+        const temp = `${target}.${process.pid}.tmp`;
+
+        await mkdir(dirname(target), { recursive: true });
+        staged.push({ temp, target });
+        await writeFile(temp, file.content, 'utf-8');
+        if (file.executable) {
+          await chmod(temp, 0o755);
+        }
+      }
+    } catch (error) {
+      await Promise.all(staged.map(({ temp }) => unlink(temp).catch(() => undefined)));
+      throw error;
+    }
+
+    for (const { temp, target } of staged) {
+      await rename(temp, target);
+    }
+  }
+
+  /**
+   * Supprime le fichier puis les dossiers laissés vides
+   */
+  async remove(path: string): Promise<void> {
+    await unlink(join(this.root, path)).catch(() => undefined);
+
+    let directory = dirname(path);
+    while (directory !== '.') {
+      const removed = await rmdir(join(this.root, directory)).then(() => true, () => false);
+      if (!removed) {
+        break;
+      }
+      directory = dirname(directory);
+    }
+  }
+
+  async glob(patterns: string | string[], ignore: string[] = []): Promise<string[]> {
+    if (!existsSync(this.root)) {
+      return [];
+    }
+    const files = await glob(patterns, { cwd: this.root, nodir: true, dot: true, ignore });
+    return files.map(normalizePath).sort();
+  }
+}
+
+/**
+ * Fichiers du projet en mémoire : tests rapides, dry-run et aperçus
+ */
+export class MemoryFileSystem implements FileSystem {
+  private readonly files = new Map<string, FileTemplate>();
+
+  constructor(readonly root: string = '.', initial: Record<string, string> = {}) {
+    Object.entries(initial).forEach(([path, content]) => {
+      this.files.set(normalizePath(path), { path: normalizePath(path), content });
+    });
+  }
+
+  async readFile(path: string): Promise<string | undefined> {
+    return this.files.get(normalizePath(path))?.content;
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(normalizePath(path));
+  }
+
+  async writeFile(path: string, content: string, options: { executable?: boolean } = {}) {
+    const normalized = normalizePath(path);
+    this.files.set(normalized, {
+      path: normalized,
+      content,
+      ...(options.executable ? { executable: true } : {}),
+    });
+  }
+
+  async writeFiles(files: FileTemplate[]): Promise<void> {
+    for (const file of files) {
+      await this.writeFile(file.path, file.content, { executable: file.executable ?? false });
+    }
+  }
+
+  async remove(path: string): Promise<void> {
+    this.files.delete(normalizePath(path));
+  }
+
+  async glob(patterns: string | string[], ignore: string[] = []): Promise<string[]> {
+    const included = [patterns].flat().map(globToRegExp);
+    const excluded = ignore.map(globToRegExp);
+    return this.paths().filter(path => (
+      included.some(pattern => pattern.test(path)) && !excluded.some(pattern => pattern.test(path))
+    ));
+  }
+
+  paths(): string[] {
+    return [...this.files.keys()].sort();
+  }
+
+  /**
+   * Contenu de tous les fichiers, indexé par chemin
+   */
+  snapshot(): Record<string, string> {
+    return Object.fromEntries(this.paths().map(path => [path, this.files.get(path)?.content ?? '']));
+  }
+
+  /**
+   * Arborescence des fichiers, un fichier ou dossier par ligne
+   */
+  tree(): string {
+    const lines = [`${this.root}/`];
+    const walk = (prefix: string, indent: string) => {
+      const children = new Map<string, boolean>();
+      this.paths()
+        .filter(path => path.startsWith(prefix))
+        .forEach(path => {
+          const [name = '', ...rest] = path.slice(prefix.length).split('/');
+          children.set(name, children.get(name) || rest.length > 0);
+        });
+
+      [...children.entries()].forEach(([name, directory], index) => {
+        const last = index === children.size - 1;
+        lines.push(`${indent}${last ? '└── ' : '├── '}${name}${directory ? '/' : ''}`);
+        if (directory) {
+          walk(`${prefix}${name}/`, `${indent}${last ? '    ' : '│   '}`);
+        }
+      });
+    };
+    walk('', '');
+    return lines.join('\n');
+  }
+}
+
+export function toFileSystem(location: ProjectLocation): FileSystem {
+  return typeof location === 'string' ? new DiskFileSystem(location) : location;
+}
+
+/**
+ * Système de fichiers d'une génération : celui du contexte, sinon le disque
+ */
+export function getFileSystem(context: GenerationContext): FileSystem {
+  return context.fs ?? new DiskFileSystem(context.projectRoot);
+}
@@ -0,0 +1,322 @@
+/**
+ * Écriture partagée des fichiers générés
+ * Applique le GenerationContext (dryRun, skipExisting, existingFiles) pour tous les templates
+ */
+
+import chalk from 'chalk';
+import type {
+  FileSystem,
+  FileTemplate,
+  GenerationContext,
+  Logger,
+  ProjectConfig,
+} from '../../templates/types.js';
+import { mergeFileContents } from './merge.js';
+import { IGNORED_DIRECTORIES, getFileSystem, normalizePath, toFileSystem } from './file-system.js';
+import type { ProjectLocation } from './file-system.js';
+
+export type FileStatus = 'created' | 'modified' | 'merged' | 'unchanged' | 'skipped';
+
+export interface FileChange {
+  path: string;
+  status: FileStatus;
+  size: number;
+  file: FileTemplate;
+  // Contenu actuel sur disque pour les fichiers existants
+  current?: string;
+}
+
+export type ConflictResolution = 'keep' | 'overwrite' | 'sidecar' | 'merge';
+
+// Fichier déjà présent dans le projet que la génération modifierait
+export interface FileConflict {
+  path: string;
+  current: string;
+  incoming: string;
+}
+
+export type ConflictResolver = (conflict: FileConflict) => Promise<ConflictResolution>;
+
+export interface WriterOptions {
+  resolveConflict?: ConflictResolver;
+  // Fichiers déjà fusionnés avec leur version sur disque, écrits sans résolution de conflit
+  merged?: string[];
+}
+
+export interface ContextOptions {
+  dryRun?: boolean;
+  skipExisting?: boolean;
+  // Système de fichiers du projet, le disque par défaut
+  fs?: FileSystem | undefined;
+}
+
+const STATUS_LABELS: Record<FileStatus, string> = {
+  created: chalk.green('créé'),
+  modified: chalk.yellow('modifié'),
+  merged: chalk.magenta('fusionné'),
+  unchanged: chalk.gray('inchangé'),
+  skipped: chalk.gray('ignoré'),
+};
+
+/**
+ * Liste les fichiers déjà présents dans le projet
+ */
+export async function scanExistingFiles(project: ProjectLocation): Promise<string[]> {
+  return toFileSystem(project).glob('**/*', IGNORED_DIRECTORIES);
+}
+
+export async function createGenerationContext(
+  projectRoot: string,
+  config: ProjectConfig,
+  options: ContextOptions = {},
+): Promise<GenerationContext> {
+  return {
+    projectRoot,
+    config,
+    existingFiles: await scanExistingFiles(options.fs ?? projectRoot),
+    skipExisting: options.skipExisting ?? false,
+    dryRun: options.dryRun ?? false,
+    ...(options.fs ? { fs: options.fs } : {}),
+  };
+}
+
+export const SIDECAR_EXTENSION = '.new';
+
+interface AppliedResolution {
+  kept: FileTemplate;
+  sidecar?: FileTemplate;
+  merged: boolean;
+}
+
+/**
+ * Applique une résolution de conflit et retourne les fichiers à conserver
+ */
+function applyResolution(
+  resolution: ConflictResolution,
+  conflict: FileConflict,
+  file: FileTemplate,
+  logger?: Logger,
+): AppliedResolution {
+  switch (resolution) {
+  case 'keep':
+    return { kept: { ...file, content: conflict.current }, merged: false };
+  case 'sidecar':
+    return {
+      kept: { ...file, content: conflict.current },
+      sidecar: { ...file, path: `${file.path}${SIDECAR_EXTENSION}` },
+      merged: false,
+    };
+  case 'merge': {
+    const { current, incoming } = conflict;
+    const { content, conflicts } = mergeFileContents(file.path, current, incoming);
+    if (conflicts > 0) {
+      logger?.warn(`${file.path} : ${conflicts} conflit(s) à résoudre manuellement`);
+    }
+    return { kept: { ...file, content }, merged: true };
+  }
+  default:
+    return { kept: file, merged: false };
+  }
+}
+
+/**
+ * Regroupe les fichiers générés plusieurs fois au même chemin
+ * Les templates suivent l'ordre des dépendances : le dernier, le plus spécifique, l'emporte
+ * La résolution de conflit ne concerne que les fichiers déjà présents sur disque
+ */
+export function collapseDuplicates(files: FileTemplate[], logger?: Logger): FileTemplate[] {
+  const byPath = new Map<string, FileTemplate>();
+
+  for (const generated of files) {
+    const file = { ...generated, path: normalizePath(generated.path) };
+    const previous = byPath.get(file.path);
+    if (previous && previous.content !== file.content) {
+      logger?.debug(`${file.path} est généré plusieurs fois, la dernière version est conservée`);
+    }
+    byPath.set(file.path, file);
+  }
+
+  return [...byPath.values()];
+}
+
+/**
+ * Détermine l'action à effectuer pour chaque fichier
+ */
+export async function planChanges(
+  files: FileTemplate[],
+  context: GenerationContext,
+): Promise<FileChange[]> {
+  const existing = new Set(context.existingFiles.map(normalizePath));
+  const fs = getFileSystem(context);
+
+  return Promise.all(files.map(async file => {
+    const path = normalizePath(file.path);
+    const size = Buffer.byteLength(file.content, 'utf-8');
+
+    if (!existing.has(path)) {
+      return { path, status: 'created' as const, size, file };
+    }
+    if (context.skipExisting) {
+      return { path, status: 'skipped' as const, size, file };
+    }
+
+    const current = await fs.readFile(path);
+    if (current === undefined) {
+      return { path, status: 'modified' as const, size, file };
+    }
+    const status: FileStatus = current === file.content ? 'unchanged' : 'modified';
+    return { path, status, size, file, current };
+  }));
+}
+
+/**
+ * Demande une résolution pour chaque fichier existant modifié
+ */
+async function resolveDiskConflicts(
+  changes: FileChange[],
+  context: GenerationContext,
+  resolveConflict: ConflictResolver,
+  logger: Logger,
+): Promise<FileChange[]> {
+  const resolved: FileChange[] = [];
+  const existing = new Set(context.existingFiles.map(normalizePath));
+
+  for (const change of changes) {
+    if (change.status !== 'modified' || change.current === undefined) {
+      resolved.push(change);
+      continue;
+    }
+
+    const conflict: FileConflict = {
+      path: change.path,
+      current: change.current,
+      incoming: change.file.content,
+    };
+    const resolution = await resolveConflict(conflict);
+    const { kept, sidecar, merged } = applyResolution(resolution, conflict, change.file, logger);
+
+    if (resolution === 'keep' || resolution === 'sidecar') {
+      resolved.push({ ...change, status: 'skipped' });
+    } else {
+      const size = Buffer.byteLength(kept.content, 'utf-8');
+      resolved.push({ ...change, file: kept, status: merged ? 'merged' : 'modified', size });
+    }
+
+    if (sidecar) {
+      resolved.push({
+        path: sidecar.path,
+        status: existing.has(sidecar.path) ? 'modified' : 'created',
+        size: Buffer.byteLength(sidecar.content, 'utf-8'),
+        file: sidecar,
+      });
+    }
+  }
+
+  return resolved;
+}
+
+export function formatBytes(size: number): string {
+  if (size < 1024) {
+    return `${size} B`;
+  }
+  return `${(size / 1024).toFixed(1)} KB`;
+}
+
+interface TreeNode {
+  children: Map<string, TreeNode>;
+  change?: FileChange;
+}
+
+/**
+ * Affiche les changements sous forme d'arborescence
+ */
+export function renderChangeTree(changes: FileChange[], rootLabel: string): string {
+  const root: TreeNode = { children: new Map() };
+
+  for (const change of [...changes].sort((a, b) => a.path.localeCompare(b.path))) {
+    let node = root;
+    for (const segment of change.path.split('/')) {
+      const child = node.children.get(segment) ?? { children: new Map() };
+      node.children.set(segment, child);
+      node = child;
+    }
+    node.change = change;
+  }
+
+  const lines = [chalk.bold(`${rootLabel}/`)];
+  const walk = (node: TreeNode, prefix: string) => {
+    const entries = [...node.children.entries()];
+    entries.forEach(([name, child], index) => {
+      const last = index === entries.length - 1;
+      const branch = `${prefix}${last ? '└── ' : '├── '}`;
+
+      if (child.change) {
+        const { size, status } = child.change;
+        const details = `${chalk.gray(`(${formatBytes(size)})`)} ${STATUS_LABELS[status]}`;
+        lines.push(`${branch}${name} ${details}`);
+      } else {
+        lines.push(`${branch}${name}/`);
+      }
+      walk(child, `${prefix}${last ? '    ' : '│   '}`);
+    });
+  };
+  walk(root, '');
+
+  return lines.join('\n');
+}
+
+/**
+ * Écrit les fichiers générés en respectant le contexte de génération
+ */
+export async function writeGeneratedFiles(
+  files: FileTemplate[],
+  context: GenerationContext,
+  logger: Logger,
+  options: WriterOptions = {},
+): Promise<FileChange[]> {
+  const collapsed = collapseDuplicates(files, logger);
+  const merged = new Set(options.merged ?? []);
+  const planned = (await planChanges(collapsed, context)).map(change => (
+    change.status === 'modified' && merged.has(change.path)
+      ? { ...change, status: 'merged' as const }
+      : change
+  ));
+
+  // Aucune question n'est posée en dry-run : les conflits apparaissent comme modifiés
+  if (context.dryRun) {
+    logger.info(renderChangeTree(planned, context.config.projectName));
+    return planned;
+  }
+
+  const changes = options.resolveConflict
+    ? await resolveDiskConflicts(planned, context, options.resolveConflict, logger)
+    : planned;
+
+  const writable = changes.filter(({ status }) => ['created', 'modified', 'merged'].includes(status));
+  await getFileSystem(context).writeFiles(writable.map(({ path, file }) => ({ ...file, path })));
+
+  changes.forEach(({ path, status }) => logger.debug(`  ${path} (${status})`));
+  return changes;
+}
+
+/**
+ * Résumé des changements, ex: "3 créés, 1 modifié, 2 ignorés"
+ */
+export function summarizeChanges(changes: FileChange[]): string {
+  const count = (status: FileStatus) => changes.filter(change => change.status === status).length;
+  const parts = [
+    `${count('created')} créé(s)`,
+    `${count('modified')} modifié(s)`,
+  ];
+
+  if (count('merged') > 0) {
+    parts.push(`${count('merged')} fusionné(s)`);
+  }
+  if (count('unchanged') > 0) {
+    parts.push(`${count('unchanged')} inchangé(s)`);
+  }
+  if (count('skipped') > 0) {
+    parts.push(`${count('skipped')} ignoré(s)`);
+  }
+  return parts.join(', ');
+}
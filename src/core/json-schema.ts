@@ -0,0 +1,126 @@
+/**
+ * Validation JSON Schema minimale
+ * Couvre le sous-ensemble émis par scripts/generate-config-schema.ts
+ */
+
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+  format?: string;
+  enum?: (string | number)[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema | boolean;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+}
+
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+function resolveRef(root: JsonSchema, schema: JsonSchema): JsonSchema {
+  if (!schema.$ref) {
+    return schema;
+  }
+  const name = schema.$ref.replace(/^#\/\$defs\//, '');
+  const target = root.$defs?.[name];
+  if (!target) {
+    throw new Error(`Référence de schéma introuvable : ${schema.$ref}`);
+  }
+  return target;
+}
+
+function check(root: JsonSchema, schema: JsonSchema, value: unknown, path: string): SchemaError[] {
+  const resolved = resolveRef(root, schema);
+  const at = path || '(racine)';
+
+  if (resolved.anyOf) {
+    const attempts = resolved.anyOf.map(option => check(root, option, value, path));
+    if (attempts.some(errors => errors.length === 0)) {
+      return [];
+    }
+    // L'option dont le type correspond donne l'erreur la plus précise
+    const matching = attempts.filter(errors => !errors.some(error => error.path === at));
+    if (matching.length === 1 && matching[0]) {
+      return matching[0];
+    }
+    const types = resolved.anyOf.map(option => resolveRef(root, option).type ?? 'valeur');
+    return [{ path: at, message: `type attendu : ${[...new Set(types)].join(' ou ')}` }];
+  }
+
+  const actual = typeOf(value);
+  if (resolved.type && actual !== resolved.type) {
+    return [{ path: at, message: `type attendu : ${resolved.type} (reçu : ${actual})` }];
+  }
+
+  if (resolved.enum && !resolved.enum.includes(value as string | number)) {
+    const allowed = resolved.enum.map(item => JSON.stringify(item)).join(', ');
+    const message = `valeur ${JSON.stringify(value)} invalide (attendu : ${allowed})`;
+    return [{ path: at, message }];
+  }
+
+  if (resolved.format === 'date-time' && Number.isNaN(Date.parse(value as string))) {
+    return [{ path: at, message: 'date ISO 8601 attendue' }];
+  }
+
+  if (actual === 'array' && resolved.items) {
+    const { items } = resolved;
+    return (value as unknown[]).flatMap((item, index) => (
+      check(root, items, item, join(path, index))
+    ));
+  }
+
+  if (actual !== 'object') {
+    return [];
+  }
+
+  const record = value as Record<string, unknown>;
+  const properties = resolved.properties ?? {};
+  const errors: SchemaError[] = (resolved.required ?? [])
+    .filter(key => record[key] === undefined)
+    .map(key => ({ path: join(path, key), message: 'champ requis manquant' }));
+
+  for (const [key, item] of Object.entries(record)) {
+    const property = properties[key];
+    if (item === undefined) {
+      continue;
+    } else if (property) {
+      errors.push(...check(root, property, item, join(path, key)));
+    } else if (resolved.additionalProperties === false) {
+      const known = Object.keys(properties);
+      const hint = known.length > 0 ? ` (attendu : ${known.join(', ')})` : '';
+      errors.push({ path: join(path, key), message: `propriété inconnue${hint}` });
+    } else if (typeof resolved.additionalProperties === 'object') {
+      errors.push(...check(root, resolved.additionalProperties, item, join(path, key)));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Valide une valeur et retourne les erreurs avec leur chemin
+ * (ex. templates.crud.entity.fields[0].type)
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown): SchemaError[] {
+  return check(schema, schema, value, '');
+}
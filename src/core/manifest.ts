@@ -0,0 +1,248 @@
+/**
+ * Manifeste du projet (next-cli.json)
+ * Enregistre les templates appliqués, leur configuration et l'empreinte des fichiers générés
+ * Le contenu généré est conservé dans .next-cli/generated/ comme base des fusions à trois voies
+ */
+
+import { createHash } from 'crypto';
+import { join } from 'path';
+import type { ConflictResolver, FileChange } from './file-writer.js';
+import { SIDECAR_EXTENSION } from './file-writer.js';
+import { toFileSystem } from './file-system.js';
+import type { ProjectLocation } from './file-system.js';
+import type { TemplateRequest } from './template-graph.js';
+
+export const MANIFEST_FILE = 'next-cli.json';
+export const MANIFEST_VERSION = 1;
+export const SNAPSHOT_DIRECTORY = '.next-cli/generated';
+
+export interface ManifestTemplate {
+  name: string;
+  version: string;
+  // Configuration résolue utilisée pour la génération
+  config: object;
+  appliedAt: string;
+  // Fichiers produits par le template, hors fichiers composés (package.json, middleware.ts…)
+  files: string[];
+}
+
+export interface ProjectManifest {
+  version: number;
+  templates: ManifestTemplate[];
+  // Empreinte SHA-256 du contenu généré, indexée par chemin
+  files: Record<string, string>;
+}
+
+export type AppliedTemplate = Omit<ManifestTemplate, 'appliedAt'>;
+
+// Fichier généré tel qu'enregistré : contenu produit par les templates pour ce chemin
+export type GeneratedFile = Pick<FileChange, 'path' | 'file'>;
+
+export interface ManifestDrift {
+  // Fichiers modifiés depuis leur génération
+  modified: string[];
+  missing: string[];
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+export function createManifest(): ProjectManifest {
+  return { version: MANIFEST_VERSION, templates: [], files: {} };
+}
+
+function isManifest(value: unknown): value is ProjectManifest {
+  const manifest = value as ProjectManifest;
+  return typeof manifest === 'object' && manifest !== null
+    && typeof manifest.version === 'number'
+    && Array.isArray(manifest.templates)
+    && manifest.templates.every(template => typeof template.name === 'string')
+    && typeof manifest.files === 'object' && manifest.files !== null;
+}
+
+/**
+ * Lit le manifeste du projet, undefined si le projet n'en a pas
+ */
+export async function readManifest(project: ProjectLocation): Promise<ProjectManifest | undefined> {
+  const content = await toFileSystem(project).readFile(MANIFEST_FILE);
+  if (content === undefined) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${MANIFEST_FILE} invalide : ${(error as Error).message}`);
+  }
+  if (!isManifest(parsed)) {
+    throw new Error(`${MANIFEST_FILE} invalide : templates ou empreintes manquants`);
+  }
+  if (parsed.version > MANIFEST_VERSION) {
+    throw new Error(
+      `${MANIFEST_FILE} (version ${parsed.version}) requiert une version plus récente de next-cli`,
+    );
+  }
+  return parsed;
+}
+
+export function renderManifest(manifest: ProjectManifest): string {
+  return `${JSON.stringify(manifest, null, 2)}\n`;
+}
+
+export async function writeManifest(
+  project: ProjectLocation,
+  manifest: ProjectManifest,
+): Promise<void> {
+  await toFileSystem(project).writeFile(MANIFEST_FILE, renderManifest(manifest));
+}
+
+/**
+ * Fichiers à enregistrer : les versions écrites à côté (.new) ne font pas partie du projet
+ */
+function recordedFiles(generated: GeneratedFile[]): GeneratedFile[] {
+  const paths = new Set(generated.map(({ path }) => path));
+  return generated.filter(({ path }) => (
+    !path.endsWith(SIDECAR_EXTENSION) || !paths.has(path.slice(0, -SIDECAR_EXTENSION.length))
+  ));
+}
+
+/**
+ * Enregistre une génération : templates appliqués (remplacés s'ils l'étaient déjà)
+ * et empreinte du contenu généré pour chaque fichier, y compris ceux conservés par l'utilisateur
+ */
+export function recordGeneration(
+  manifest: ProjectManifest,
+  applied: AppliedTemplate[],
+  generated: GeneratedFile[],
+  date: Date = new Date(),
+): ProjectManifest {
+  const templates = [...manifest.templates];
+  for (const template of applied) {
+    const entry = { ...template, appliedAt: date.toISOString() };
+    const index = templates.findIndex(({ name }) => name === template.name);
+    if (index >= 0) {
+      templates[index] = entry;
+    } else {
+      templates.push(entry);
+    }
+  }
+
+  const files = { ...manifest.files };
+  for (const { path, file } of recordedFiles(generated)) {
+    files[path] = hashContent(file.content);
+  }
+
+  const sorted = Object.fromEntries(
+    Object.entries(files).sort(([a], [b]) => a.localeCompare(b)),
+  );
+  return { version: MANIFEST_VERSION, templates, files: sorted };
+}
+
+/**
+ * Enregistre la génération dans next-cli.json et conserve le contenu généré
+ */
+export async function saveGeneration(
+  project: ProjectLocation,
+  manifest: ProjectManifest,
+  applied: AppliedTemplate[],
+  generated: GeneratedFile[],
+): Promise<ProjectManifest> {
+  const fs = toFileSystem(project);
+  const recorded = recordGeneration(manifest, applied, generated);
+  await writeManifest(fs, recorded);
+
+  for (const { path, file } of recordedFiles(generated)) {
+    await fs.writeFile(join(SNAPSHOT_DIRECTORY, path), file.content);
+  }
+  return recorded;
+}
+
+/**
+ * Retire un template du manifeste avec l'empreinte et le contenu conservé de ses fichiers,
+ * puis enregistre les fichiers régénérés sans lui (package.json, .env.example, middleware…)
+ */
+export async function saveRemoval(
+  project: ProjectLocation,
+  manifest: ProjectManifest,
+  name: string,
+  forgotten: string[],
+  generated: GeneratedFile[],
+): Promise<ProjectManifest> {
+  const remaining: ProjectManifest = {
+    ...manifest,
+    templates: manifest.templates.filter(template => template.name !== name),
+    files: Object.fromEntries(
+      Object.entries(manifest.files).filter(([path]) => !forgotten.includes(path)),
+    ),
+  };
+
+  const fs = toFileSystem(project);
+  for (const path of forgotten) {
+    await fs.remove(join(SNAPSHOT_DIRECTORY, path));
+  }
+  return saveGeneration(fs, remaining, [], generated);
+}
+
+/**
+ * Contenu généré lors de la dernière génération, undefined s'il n'a pas été conservé
+ */
+export async function readSnapshot(
+  project: ProjectLocation,
+  manifest: ProjectManifest,
+  path: string,
+): Promise<string | undefined> {
+  const content = await toFileSystem(project).readFile(join(SNAPSHOT_DIRECTORY, path));
+  return content !== undefined && isPristine(manifest, path, content) ? content : undefined;
+}
+
+/**
+ * Vrai si le contenu correspond exactement à la dernière génération
+ */
+export function isPristine(manifest: ProjectManifest, path: string, content: string): boolean {
+  return manifest.files[path] === hashContent(content);
+}
+
+/**
+ * Compare les fichiers du projet aux empreintes enregistrées
+ */
+export async function detectDrift(
+  project: ProjectLocation,
+  manifest: ProjectManifest,
+): Promise<ManifestDrift> {
+  const fs = toFileSystem(project);
+  const drift: ManifestDrift = { modified: [], missing: [] };
+
+  for (const path of Object.keys(manifest.files)) {
+    const content = await fs.readFile(path);
+    if (content === undefined) {
+      drift.missing.push(path);
+    } else if (!isPristine(manifest, path, content)) {
+      drift.modified.push(path);
+    }
+  }
+  return drift;
+}
+
+/**
+ * Templates déjà appliqués, avec leur configuration enregistrée
+ */
+export function getInstalledTemplates(manifest: ProjectManifest): TemplateRequest[] {
+  return manifest.templates.map(({ name, config }) => ({ name, config }));
+}
+
+/**
+ * Les fichiers que l'utilisateur n'a pas modifiés depuis la génération sont remplacés
+ * sans solliciter le résolveur de conflits
+ */
+export function withPristineOverwrite(
+  manifest: ProjectManifest | undefined,
+  resolveConflict: ConflictResolver,
+): ConflictResolver {
+  return async conflict => (
+    manifest && isPristine(manifest, conflict.path, conflict.current)
+      ? 'overwrite'
+      : resolveConflict(conflict)
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * Fusion d'un fichier existant avec sa version générée
+ */
+
+import { basename } from 'path';
+import { diffLines, splitLines } from './diff.js';
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+export const CONFLICT_MARKERS = {
+  start: '<<<<<<< actuel',
+  separator: '=======',
+  end: '>>>>>>> généré',
+};
+
+const ENV_KEY = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=/;
+
+function joinLines(lines: string[]): string {
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Fusionne deux fichiers .env en ajoutant les variables manquantes
+ */
+export function mergeEnvFiles(current: string, incoming: string): MergeResult {
+  const existingKeys = new Set(
+    current.split('\n').map(line => ENV_KEY.exec(line)?.[1]).filter(Boolean),
+  );
+
+  const additions: string[] = [];
+  let pendingComments: string[] = [];
+  for (const line of incoming.split('\n')) {
+    const key = ENV_KEY.exec(line)?.[1];
+    if (!key) {
+      pendingComments = line.trim().startsWith('#') ? [...pendingComments, line] : [];
+      continue;
+    }
+    if (!existingKeys.has(key)) {
+      additions.push(...pendingComments, line);
+      existingKeys.add(key);
+    }
+    pendingComments = [];
+  }
+
+  if (additions.length === 0) {
+    return { content: current, conflicts: 0 };
+  }
+
+  const base = current.endsWith('\n') || current === '' ? current : `${current}\n`;
+  return { content: `${base}\n${joinLines(additions)}`, conflicts: 0 };
+}
+
+/**
+ * Fusion ligne à ligne : les ajouts de chaque côté sont conservés,
+ * les blocs modifiés des deux côtés sont entourés de marqueurs de conflit
+ */
+export function mergeLines(current: string, incoming: string): MergeResult {
+  const output: string[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  let conflicts = 0;
+
+  const flush = () => {
+    if (removed.length > 0 && added.length > 0) {
+      output.push(
+        CONFLICT_MARKERS.start,
+        ...removed,
+        CONFLICT_MARKERS.separator,
+        ...added,
+        CONFLICT_MARKERS.end,
+      );
+      conflicts++;
+    } else {
+      output.push(...removed, ...added);
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of diffLines(current, incoming)) {
+    if (op.type === 'equal') {
+      flush();
+      output.push(op.line);
+    } else if (op.type === 'remove') {
+      removed.push(op.line);
+    } else {
+      added.push(op.line);
+    }
+  }
+  flush();
+
+  return { content: joinLines(output), conflicts };
+}
+
+/**
+ * Choisit la stratégie de fusion selon le type de fichier
+ */
+export function mergeFileContents(path: string, current: string, incoming: string): MergeResult {
+  if (basename(path).startsWith('.env')) {
+    return mergeEnvFiles(current, incoming);
+  }
+  return mergeLines(current, incoming);
+}
+
+/**
+ * Associe chaque ligne de l'ancienne version à son indice dans la nouvelle (-1 si supprimée)
+ */
+function matchLines(previous: string, next: string): number[] {
+  const matches: number[] = [];
+  let j = 0;
+  for (const op of diffLines(previous, next)) {
+    if (op.type === 'equal') {
+      matches.push(j++);
+    } else if (op.type === 'remove') {
+      matches.push(-1);
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+const sameLines = (a: string[], b: string[]) => (
+  a.length === b.length && a.every((line, index) => line === b[index])
+);
+
+/**
+ * Fusion à trois voies à partir de la version générée d'origine (base) :
+ * chaque côté conserve ses modifications, les marqueurs n'apparaissent
+ * que lorsque les deux côtés ont modifié la même région
+ */
+export function mergeThreeWay(base: string, current: string, incoming: string): MergeResult {
+  const origin = splitLines(base);
+  const ours = splitLines(current);
+  const theirs = splitLines(incoming);
+  const oursMatches = matchLines(base, current);
+  const theirsMatches = matchLines(base, incoming);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let a = 0;
+  let b = 0;
+
+  while (i < origin.length || a < ours.length || b < theirs.length) {
+    // Ligne inchangée des deux côtés
+    if (i < origin.length && oursMatches[i] === a && theirsMatches[i] === b) {
+      output.push(origin[i] ?? '');
+      i++;
+      a++;
+      b++;
+      continue;
+    }
+
+    // Région modifiée jusqu'à la prochaine ligne commune aux trois versions
+    let next = i;
+    while (next < origin.length && (oursMatches[next] === -1 || theirsMatches[next] === -1)) {
+      next++;
+    }
+    const aEnd = oursMatches[next] ?? ours.length;
+    const bEnd = theirsMatches[next] ?? theirs.length;
+
+    const baseChunk = origin.slice(i, next);
+    const oursChunk = ours.slice(a, aEnd);
+    const theirsChunk = theirs.slice(b, bEnd);
+
+    if (sameLines(oursChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) {
+      output.push(...theirsChunk);
+    } else if (sameLines(theirsChunk, baseChunk)) {
+      output.push(...oursChunk);
+    } else {
+      output.push(
+        CONFLICT_MARKERS.start,
+        ...oursChunk,
+        CONFLICT_MARKERS.separator,
+        ...theirsChunk,
+        CONFLICT_MARKERS.end,
+      );
+      conflicts++;
+    }
+
+    i = next;
+    a = aEnd;
+    b = bEnd;
+  }
+
+  return { content: joinLines(output), conflicts };
+}
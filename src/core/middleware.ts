@@ -0,0 +1,461 @@
+/**
+ * Composition des segments de middleware fournis par les templates
+ * Produit un middleware.ts unique (matcher fusionné) et un fichier par segment
+ * dans src/lib/middleware
+ */
+
+import type {
+  FileTemplate,
+  GenerationContext,
+  MiddlewareConfig,
+  MiddlewareFeature,
+  MiddlewareSegment,
+  ProjectConfig,
+} from '../../templates/types.js';
+import { getFileSystem } from './file-system.js';
+
+export const MIDDLEWARE_FILE = 'middleware.ts';
+export const MIDDLEWARE_DIRECTORY = 'src/lib/middleware';
+const CONTEXT_FILE = `${MIDDLEWARE_DIRECTORY}/context.ts`;
+
+// Segment déjà rendu, tel qu'écrit dans src/lib/middleware/<name>.ts
+export interface ComposedSegment {
+  name: string;
+  template: string;
+  order: number;
+  priority: number;
+  feature?: MiddlewareFeature;
+  matcher: string[];
+  content: string;
+}
+
+export interface MiddlewareSource {
+  files: FileTemplate[];
+  middleware?: MiddlewareSegment[];
+}
+
+// Portée d'un matcher : exclusions du motif catch-all et motifs ciblés
+interface MatcherScope {
+  exclude?: string[];
+  include: string[];
+}
+
+const CATCH_ALL = /^\/\(\(\?!(.*)\)\.\*\)$/;
+const MATCH_EVERYTHING = '/:path*';
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+function toArrayLiteral(values: string[]): string {
+  return `[${values.map(value => `'${value}'`).join(', ')}]`;
+}
+
+function toFunctionName(name: string): string {
+  return name.replace(/-([a-z0-9])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Partie statique d'un motif Next.js, ex: '/api/:path*' → '/api/'
+ */
+function staticPrefix(pattern: string): string {
+  return pattern.split(/[:(]/)[0] ?? '';
+}
+
+/**
+ * Un chemin exclu par deux matchers l'est aussi par leur union
+ * si l'un des préfixes contient l'autre
+ */
+function intersectExclusions(left: string[], right: string[]): string[] {
+  return unique([
+    ...left.filter(prefix => right.some(other => prefix.startsWith(other))),
+    ...right.filter(prefix => left.some(other => prefix.startsWith(other))),
+  ]);
+}
+
+function toScope(matcher: string[]): MatcherScope {
+  if (matcher.length === 0) {
+    return { exclude: [], include: [] };
+  }
+
+  const scope: MatcherScope = { include: [] };
+  for (const pattern of matcher) {
+    const exclusions = pattern === MATCH_EVERYTHING ? [] : CATCH_ALL.exec(pattern)?.[1]?.split('|');
+    if (exclusions) {
+      scope.exclude = scope.exclude ? intersectExclusions(scope.exclude, exclusions) : exclusions;
+    } else {
+      scope.include.push(pattern);
+    }
+  }
+  return scope;
+}
+
+function isCovered(pattern: string, exclude: string[] | undefined): boolean {
+  if (!exclude) {
+    return false;
+  }
+  const prefix = staticPrefix(pattern).slice(1);
+  return !exclude.some(excluded => excluded.startsWith(prefix) || prefix.startsWith(excluded));
+}
+
+function toMatcher(scope: MatcherScope): string[] {
+  const catchAll = scope.exclude && (
+    scope.exclude.length > 0 ? `/((?!${scope.exclude.join('|')}).*)` : MATCH_EVERYTHING
+  );
+  return [...(catchAll ? [catchAll] : []), ...scope.include];
+}
+
+/**
+ * Fusionne les matchers des segments : le middleware s'exécute dès qu'un segment est concerné
+ */
+export function mergeMatchers(matchers: string[][]): string[] {
+  const scopes = matchers.map(toScope);
+  const exclusions = scopes.flatMap(scope => (scope.exclude ? [scope.exclude] : []));
+  const [first, ...rest] = exclusions;
+  const exclude = first && rest.reduce(intersectExclusions, first);
+
+  const include = unique(scopes.flatMap(scope => scope.include))
+    .filter(pattern => !isCovered(pattern, exclude));
+  return toMatcher(exclude ? { exclude, include } : { include });
+}
+
+/**
+ * Configuration par défaut : toutes les fonctionnalités fournies par les segments
+ */
+export function createMiddlewareConfig(
+  project: ProjectConfig,
+  segments: { feature?: MiddlewareFeature }[],
+): MiddlewareConfig {
+  const features = segments.flatMap(({ feature }) => (
+    feature && feature !== 'csp' && feature !== 'csrf' ? [feature] : []
+  ));
+  return {
+    ...project,
+    features: [...new Set(features)],
+    security: { csp: true, csrf: true },
+  };
+}
+
+function isEnabled(segment: ComposedSegment, config: MiddlewareConfig): boolean {
+  const { feature } = segment;
+  if (feature === 'csp' || feature === 'csrf') {
+    return config.security[feature] !== false;
+  }
+  return !feature || config.features.includes(feature);
+}
+
+/**
+ * Retient un segment par nom (priorité la plus haute, puis le dernier fourni), trié par ordre
+ */
+export function selectSegments(
+  segments: ComposedSegment[],
+  config: MiddlewareConfig,
+): ComposedSegment[] {
+  const byName = new Map<string, ComposedSegment>();
+
+  for (const segment of segments.filter(candidate => isEnabled(candidate, config))) {
+    const previous = byName.get(segment.name);
+    if (!previous || segment.priority >= previous.priority) {
+      byName.set(segment.name, segment);
+    }
+  }
+
+  return [...byName.values()].sort((a, b) => a.order - b.order || a.name.localeCompare(b.name));
+}
+
+/**
+ * Rend le fichier d'un segment ; l'en-tête permet de le relire lors d'un ajout ultérieur
+ */
+export function renderSegment(segment: MiddlewareSegment): ComposedSegment {
+  const priority = segment.priority ?? 0;
+  const header = [
+    '/**',
+    ` * Segment de middleware « ${segment.name} » (template ${segment.template})`,
+    ` * @order ${segment.order}`,
+    ` * @priority ${priority}`,
+    ...(segment.feature ? [` * @feature ${segment.feature}`] : []),
+    ` * @matcher ${JSON.stringify(segment.matcher)}`,
+    ' */',
+  ];
+  const imports = [
+    'import type { NextRequest } from \'next/server\';',
+    ...(segment.imports ?? []),
+    'import type { MiddlewareContext } from \'./context\';',
+  ];
+  const helpers = segment.helpers?.trim() ? [segment.helpers.trim(), ''] : [];
+
+  const content = [
+    ...header,
+    ...imports,
+    '',
+    ...helpers,
+    `export async function ${toFunctionName(segment.name)}(`,
+    '  request: NextRequest,',
+    '  context: MiddlewareContext,',
+    '): Promise<Response | void> {',
+    segment.body.replace(/\s+$/, ''),
+    '}',
+    '',
+  ].join('\n');
+
+  return {
+    name: segment.name,
+    template: segment.template,
+    order: segment.order,
+    priority,
+    ...(segment.feature ? { feature: segment.feature } : {}),
+    matcher: segment.matcher,
+    content,
+  };
+}
+
+/**
+ * Relit l'en-tête d'un fichier de segment, undefined si le fichier n'en est pas un
+ */
+export function parseSegmentFile(content: string): ComposedSegment | undefined {
+  const title = /Segment de middleware « ([a-z0-9-]+) » \(template ([^)]+)\)/.exec(content);
+  const tag = (name: string) => new RegExp(`^ \\* @${name} (.+)$`, 'm').exec(content)?.[1];
+  const order = Number(tag('order'));
+  const matcher = tag('matcher');
+  if (!title?.[1] || !title[2] || Number.isNaN(order) || !matcher) {
+    return undefined;
+  }
+
+  try {
+    const feature = tag('feature') as MiddlewareFeature | undefined;
+    return {
+      name: title[1],
+      template: title[2],
+      order,
+      priority: Number(tag('priority') ?? 0),
+      ...(feature ? { feature } : {}),
+      matcher: JSON.parse(matcher) as string[],
+      content,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Segments déjà présents dans le projet
+ */
+export async function readMiddlewareSegments(
+  context: GenerationContext,
+): Promise<ComposedSegment[]> {
+  const paths = context.existingFiles.filter(path => (
+    path.startsWith(`${MIDDLEWARE_DIRECTORY}/`) && path.endsWith('.ts') && path !== CONTEXT_FILE
+  ));
+
+  const fs = getFileSystem(context);
+  const segments = await Promise.all(paths.map(async path => {
+    const content = await fs.readFile(path) ?? '';
+    return parseSegmentFile(content);
+  }));
+  return segments.filter((segment): segment is ComposedSegment => segment !== undefined);
+}
+
+function generateContextFile(): FileTemplate {
+  return {
+    path: CONTEXT_FILE,
+    content: `/**
+ * Contexte partagé entre les segments du middleware
+ */
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export interface MiddlewareSession {
+  user: { id: string; roles?: string[]; permissions?: string[] };
+  sessionId?: string;
+}
+
+export interface MiddlewareContext {
+  pathname: string;
+  ip: string;
+  userAgent: string;
+  startTime: number;
+  // Réponse transmise à la suite de la requête, enrichie par les segments
+  response: NextResponse;
+  // Renseignée par le segment auth-guard
+  session: MiddlewareSession | null;
+}
+
+export type MiddlewareHandler = (
+  request: NextRequest,
+  context: MiddlewareContext,
+) => Promise<Response | void>;
+
+export interface MiddlewareStep {
+  name: string;
+  handler: MiddlewareHandler;
+  // Portée propre au segment lorsqu'elle est plus étroite que le matcher fusionné
+  exclude?: string[];
+  include?: string[];
+}
+
+function getClientIP(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  const realIP = request.headers.get('x-real-ip');
+  const cfConnectingIP = request.headers.get('cf-connecting-ip');
+
+  return cfConnectingIP || realIP || forwarded?.split(',')[0]?.trim() || 'unknown';
+}
+
+export function createMiddlewareContext(request: NextRequest): MiddlewareContext {
+  return {
+    pathname: request.nextUrl.pathname,
+    ip: getClientIP(request),
+    userAgent: request.headers.get('user-agent') || 'unknown',
+    startTime: Date.now(),
+    response: NextResponse.next(),
+    session: null,
+  };
+}
+
+export function appliesTo(step: MiddlewareStep, pathname: string): boolean {
+  if (!step.exclude && !step.include) {
+    return true;
+  }
+
+  const path = pathname.slice(1);
+  const inCatchAll = step.exclude !== undefined
+    && !step.exclude.some(prefix => path.startsWith(prefix));
+  return inCatchAll || (step.include ?? []).some(prefix => pathname.startsWith(prefix));
+}
+`,
+  };
+}
+
+function generateMiddlewareFile(segments: ComposedSegment[], matcher: string[]): FileTemplate {
+  const merged = JSON.stringify(matcher);
+  const steps = segments.map(segment => {
+    const fields = [`name: '${segment.name}'`, `handler: ${toFunctionName(segment.name)}`];
+    const scope = toScope(segment.matcher);
+
+    // Garde à l'exécution pour les segments plus restreints que le matcher fusionné
+    if (JSON.stringify(mergeMatchers([segment.matcher])) !== merged) {
+      if (scope.exclude) {
+        fields.push(`exclude: ${toArrayLiteral(scope.exclude)}`);
+      }
+      if (scope.include.length > 0) {
+        fields.push(`include: ${toArrayLiteral(scope.include.map(staticPrefix))}`);
+      }
+    }
+    return `  { ${fields.join(', ')} },`;
+  });
+
+  const imports = segments.map(segment => (
+    `import { ${toFunctionName(segment.name)} } from '@/lib/middleware/${segment.name}';`
+  ));
+  const summary = segments.map(segment => ` * - ${segment.name} (${segment.template})`);
+
+  return {
+    path: MIDDLEWARE_FILE,
+    content: `/**
+ * Middleware composé à partir des segments de src/lib/middleware
+ * Régénéré à chaque ajout de template : modifier les segments plutôt que ce fichier
+${summary.join('\n')}
+ */
+import type { NextRequest } from 'next/server';
+import { appliesTo, createMiddlewareContext } from '@/lib/middleware/context';
+import type { MiddlewareStep } from '@/lib/middleware/context';
+${imports.join('\n')}
+
+const steps: MiddlewareStep[] = [
+${steps.join('\n')}
+];
+
+export async function middleware(request: NextRequest) {
+  const context = createMiddlewareContext(request);
+
+  for (const step of steps) {
+    if (!appliesTo(step, context.pathname)) {
+      continue;
+    }
+
+    const response = await step.handler(request, context);
+    if (response) {
+      return response;
+    }
+  }
+
+  return context.response;
+}
+
+export const config = {
+  matcher: [
+${matcher.map(pattern => `    '${pattern}',`).join('\n')}
+  ],
+};
+`,
+  };
+}
+
+function customHeadersSegment(
+  headers: Record<string, string>,
+  matcher: string[],
+): MiddlewareSegment {
+  const lines = Object.entries(headers).map(([name, value]) => (
+    `  context.response.headers.set(${JSON.stringify(name)}, ${JSON.stringify(value)});`
+  ));
+  return {
+    name: 'custom-headers',
+    template: 'middleware',
+    order: 12,
+    matcher,
+    body: lines.join('\n'),
+  };
+}
+
+/**
+ * Compose les segments en middleware.ts, src/lib/middleware/context.ts et un fichier par segment
+ */
+export function composeMiddleware(
+  segments: (MiddlewareSegment | ComposedSegment)[],
+  config: MiddlewareConfig,
+): FileTemplate[] {
+  const composed = segments.map(segment => ('content' in segment ? segment : renderSegment(segment)));
+  let selected = selectSegments(composed, config);
+  if (selected.length === 0) {
+    return [];
+  }
+
+  // Les headers personnalisés s'appliquent sur le matcher des autres segments
+  const headers = config.security.headers ?? {};
+  if (Object.keys(headers).length > 0) {
+    const matcher = mergeMatchers(selected.map(segment => segment.matcher));
+    const custom = customHeadersSegment(headers, matcher);
+    selected = selectSegments([...selected, renderSegment(custom)], config);
+  }
+
+  const matcher = mergeMatchers(selected.map(segment => segment.matcher));
+  return [
+    generateMiddlewareFile(selected, matcher),
+    generateContextFile(),
+    ...selected.map(segment => ({
+      path: `${MIDDLEWARE_DIRECTORY}/${segment.name}.ts`,
+      content: segment.content,
+    })),
+  ];
+}
+
+/**
+ * Remplace les middleware.ts autonomes des templates par la composition de leurs segments
+ * Les segments déjà présents dans le projet sont conservés, sauf s'ils sont remplacés
+ */
+export function composeProjectMiddleware(
+  sources: MiddlewareSource[],
+  project: ProjectConfig,
+  existing: ComposedSegment[] = [],
+): FileTemplate[] {
+  const files = sources.flatMap(source => (
+    source.middleware ? source.files.filter(file => file.path !== MIDDLEWARE_FILE) : source.files
+  ));
+  const segments = sources.flatMap(source => source.middleware ?? []);
+  if (segments.length === 0) {
+    return files;
+  }
+
+  const all = [...existing, ...segments.map(renderSegment)];
+  return [...files, ...composeMiddleware(all, createMiddlewareConfig(project, all))];
+}
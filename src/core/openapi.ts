@@ -0,0 +1,174 @@
+/**
+ * Spécification OpenAPI du projet
+ * Chaque entité CRUD génère son document public/openapi.json ; les documents sont fusionnés
+ * en une seule spécification, chemin par chemin et schéma par schéma
+ */
+
+import type { FileTemplate, Logger } from '../../templates/types.js';
+
+export const OPENAPI_FILE = 'public/openapi.json';
+
+type OpenAPIMap = Record<string, unknown>;
+
+export interface OpenAPITag {
+  name: string;
+  description?: string;
+}
+
+export interface OpenAPIDocument {
+  openapi: string;
+  info: OpenAPIMap;
+  tags?: OpenAPITag[];
+  paths?: OpenAPIMap;
+  components?: Record<string, OpenAPIMap>;
+  [key: string]: unknown;
+}
+
+export function parseOpenAPIDocument(
+  content: string,
+  path: string = OPENAPI_FILE,
+): OpenAPIDocument {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${path} invalide : ${(error as Error).message}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)
+    || typeof (parsed as OpenAPIDocument).openapi !== 'string') {
+    throw new Error(`${path} invalide : champ "openapi" manquant`);
+  }
+  return parsed as OpenAPIDocument;
+}
+
+/**
+ * Fusionne deux documents : les chemins, composants et tags du document ajouté
+ * remplacent ceux de même nom, l'en-tête (openapi, info) du document de base est conservé
+ */
+export function mergeOpenAPIDocuments(
+  base: OpenAPIDocument,
+  incoming: OpenAPIDocument,
+): OpenAPIDocument {
+  const components: Record<string, OpenAPIMap> = { ...base.components };
+  Object.entries(incoming.components ?? {}).forEach(([section, entries]) => {
+    components[section] = { ...components[section], ...entries };
+  });
+
+  const tags = new Map((base.tags ?? []).map(tag => [tag.name, tag]));
+  (incoming.tags ?? []).forEach(tag => tags.set(tag.name, tag));
+
+  return {
+    ...incoming,
+    ...base,
+    tags: [...tags.values()],
+    paths: { ...base.paths, ...incoming.paths },
+    components,
+  };
+}
+
+export function printOpenAPIDocument(document: OpenAPIDocument): string {
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/**
+ * Remplace les documents OpenAPI générés par une spécification unique
+ * current : spécification présente sur disque lors d'un ajout de template, complétée
+ */
+export function composeProjectOpenAPI(
+  files: FileTemplate[],
+  logger: Logger,
+  current?: string,
+): FileTemplate[] {
+  const generated = files.filter(file => file.path === OPENAPI_FILE);
+  if (generated.length === 0 || (generated.length === 1 && current === undefined)) {
+    return files;
+  }
+
+  let document: OpenAPIDocument;
+  try {
+    const base = parseOpenAPIDocument(current ?? generated[0]?.content ?? '');
+    const fragments = current === undefined ? generated.slice(1) : generated;
+    document = fragments.reduce(
+      (merged, file) => mergeOpenAPIDocuments(merged, parseOpenAPIDocument(file.content)),
+      base,
+    );
+  } catch (error) {
+    // Spécification du projet illisible : elle est laissée telle quelle
+    logger.warn(`${OPENAPI_FILE} non mis à jour : ${(error as Error).message}`);
+    return files.filter(file => file.path !== OPENAPI_FILE);
+  }
+
+  // Spécification du projet déjà complète : sa mise en forme est conservée
+  const unchanged = current !== undefined
+    && JSON.stringify(document) === JSON.stringify(parseOpenAPIDocument(current));
+  const content = unchanged ? current : printOpenAPIDocument(document);
+  const others = files.filter(file => file.path !== OPENAPI_FILE);
+  return [...others, { path: OPENAPI_FILE, content }];
+}
+
+/**
+ * Retire d'un document les chemins, composants et tags apportés par un template
+ * Ceux qu'un document restant déclare encore sont conservés
+ */
+export function stripOpenAPIDocument(
+  current: OpenAPIDocument,
+  removed: OpenAPIDocument[],
+  kept: OpenAPIDocument[],
+): OpenAPIDocument {
+  type Select = (document: OpenAPIDocument) => OpenAPIMap | undefined;
+  const keysOf = (documents: OpenAPIDocument[], select: Select) => (
+    new Set(documents.flatMap(document => Object.keys(select(document) ?? {})))
+  );
+  const strip = (record: OpenAPIMap, select: Select) => {
+    const removedKeys = keysOf(removed, select);
+    const keptKeys = keysOf(kept, select);
+    return Object.fromEntries(Object.entries(record).filter(([key]) => (
+      !removedKeys.has(key) || keptKeys.has(key)
+    )));
+  };
+
+  const tagsOf = (documents: OpenAPIDocument[]) => (
+    new Set(documents.flatMap(document => document.tags ?? []).map(tag => tag.name))
+  );
+  const removedTags = tagsOf(removed);
+  const keptTags = tagsOf(kept);
+  const components = Object.fromEntries(Object.entries(current.components ?? {}).map(
+    ([section, entries]) => [section, strip(entries, document => document.components?.[section])],
+  ));
+
+  return {
+    ...current,
+    ...(current.tags
+      ? { tags: current.tags.filter(tag => !removedTags.has(tag.name) || keptTags.has(tag.name)) }
+      : {}),
+    ...(current.paths ? { paths: strip(current.paths, document => document.paths) } : {}),
+    ...(current.components ? { components } : {}),
+  };
+}
+
+/**
+ * Réécrit public/openapi.json sans les chemins et schémas d'un template retiré
+ * Une spécification illisible est laissée telle quelle et signalée
+ */
+export function stripProjectOpenAPI(
+  current: string,
+  removed: FileTemplate[],
+  kept: FileTemplate[],
+  logger: Logger,
+): FileTemplate[] {
+  const documents = (files: FileTemplate[]) => files
+    .filter(file => file.path === OPENAPI_FILE)
+    .map(file => parseOpenAPIDocument(file.content));
+
+  try {
+    const base = parseOpenAPIDocument(current);
+    const document = stripOpenAPIDocument(base, documents(removed), documents(kept));
+    return JSON.stringify(document) === JSON.stringify(base)
+      ? []
+      : [{ path: OPENAPI_FILE, content: printOpenAPIDocument(document) }];
+  } catch (error) {
+    logger.warn(`${OPENAPI_FILE} non nettoyé : ${(error as Error).message}`);
+    return [];
+  }
+}
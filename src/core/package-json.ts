@@ -0,0 +1,280 @@
+/**
+ * Fusion structurelle du package.json du projet
+ * Regroupe les dépendances et scripts fournis par les templates
+ */
+
+import semver from 'semver';
+import type { FileTemplate, Logger, PackageContribution } from '../../templates/types.js';
+
+export { parseDependencySpecs } from '../../templates/generation.js';
+
+export const PACKAGE_FILE = 'package.json';
+
+export interface PackageJson {
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+// Contribution accompagnée du template qui la fournit
+export interface PackageSource extends PackageContribution {
+  source: string;
+}
+
+export interface RangeRequest {
+  range: string;
+  source: string;
+}
+
+export interface DependencyConflict {
+  name: string;
+  requests: RangeRequest[];
+  // Plage retenue malgré l'incompatibilité
+  range: string;
+}
+
+export interface PackageMergeOptions {
+  // true : le dernier script l'emporte (création), false : le script existant est conservé (ajout)
+  overrideScripts?: boolean;
+  // Nom affiché pour le package.json de départ dans les avertissements
+  currentSource?: string;
+}
+
+export interface PackageMergeResult {
+  packageJson: PackageJson;
+  conflicts: DependencyConflict[];
+  warnings: string[];
+}
+
+/**
+ * Retient la plage la plus haute compatible avec toutes les autres
+ * Les plages non semver (latest, tags, URLs) ne sont utilisées qu'en dernier recours
+ */
+export function resolveVersionRange(ranges: string[]): { range: string; compatible: boolean } {
+  const unique = [...new Set(ranges)];
+  const valid = unique.filter(range => semver.validRange(range) !== null);
+  if (valid.length === 0) {
+    return { range: unique[unique.length - 1] ?? 'latest', compatible: unique.length <= 1 };
+  }
+
+  const minimum = (range: string) => semver.minVersion(range)?.version ?? '0.0.0';
+  const sorted = [...valid].sort((a, b) => semver.rcompare(minimum(a), minimum(b)));
+  const compatible = sorted.find(range => valid.every(other => semver.intersects(range, other)));
+
+  return { range: compatible ?? sorted[0] ?? 'latest', compatible: compatible !== undefined };
+}
+
+function sortRecord(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Fusionne les contributions des templates dans un package.json existant
+ */
+export function mergePackageJson(
+  current: PackageJson,
+  sources: PackageSource[],
+  options: PackageMergeOptions = {},
+): PackageMergeResult {
+  const warnings: string[] = [];
+  const conflicts: DependencyConflict[] = [];
+  const all: PackageSource[] = [
+    { ...current, source: options.currentSource ?? PACKAGE_FILE },
+    ...sources,
+  ];
+
+  // Une dépendance de production l'emporte sur une dépendance de développement
+  const requests = new Map<string, RangeRequest[]>();
+  const production = new Set<string>();
+  for (const source of all) {
+    for (const [field, record] of [
+      ['dependencies', source.dependencies],
+      ['devDependencies', source.devDependencies],
+    ] as const) {
+      Object.entries(record ?? {}).forEach(([name, range]) => {
+        requests.set(name, [...(requests.get(name) ?? []), { range, source: source.source }]);
+        if (field === 'dependencies') {
+          production.add(name);
+        }
+      });
+    }
+  }
+
+  const dependencies: Record<string, string> = {};
+  const devDependencies: Record<string, string> = {};
+  for (const [name, list] of requests) {
+    const { range, compatible } = resolveVersionRange(list.map(request => request.range));
+    if (!compatible) {
+      conflicts.push({ name, requests: list, range });
+    }
+    (production.has(name) ? dependencies : devDependencies)[name] = range;
+  }
+
+  const scripts: Record<string, string> = {};
+  const owners: Record<string, string> = {};
+  for (const source of all) {
+    Object.entries(source.scripts ?? {}).forEach(([name, command]) => {
+      const existing = scripts[name];
+      if (existing === undefined || existing === command) {
+        scripts[name] = command;
+        owners[name] = source.source;
+        return;
+      }
+
+      const override = options.overrideScripts ?? false;
+      const [kept, dropped] = override
+        ? [`« ${command} » (${source.source})`, `« ${existing} » (${owners[name]})`]
+        : [`« ${existing} » (${owners[name]})`, `« ${command} » (${source.source})`];
+      warnings.push(`Script « ${name} » en conflit : ${kept} conservé, ${dropped} ignoré`);
+      if (override) {
+        scripts[name] = command;
+        owners[name] = source.source;
+      }
+    });
+  }
+
+  const packageJson: PackageJson = { ...current };
+  const fields = {
+    scripts,
+    dependencies: sortRecord(dependencies),
+    devDependencies: sortRecord(devDependencies),
+  };
+  for (const [field, record] of Object.entries(fields)) {
+    if (Object.keys(record).length > 0) {
+      packageJson[field] = record;
+    } else {
+      delete packageJson[field];
+    }
+  }
+
+  return { packageJson, conflicts, warnings };
+}
+
+export function parsePackageJson(content: string, path: string = PACKAGE_FILE): PackageJson {
+  try {
+    return JSON.parse(content) as PackageJson;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`${path} invalide : ${reason}`);
+  }
+}
+
+export function describeConflict(conflict: DependencyConflict): string {
+  // Une même source peut déclarer la même plage plusieurs fois (package.json du projet et généré)
+  const requested = [...new Set(conflict.requests
+    .map(request => `${request.range} (${request.source})`))]
+    .join(', ');
+  return `Versions incompatibles pour ${conflict.name} : ${requested}, ${conflict.range} retenue`;
+}
+
+/**
+ * Remplace les package.json générés par un package.json unique incluant les contributions
+ * current : package.json présent sur disque lors d'un ajout de template
+ */
+export function composeProjectPackageJson(
+  files: FileTemplate[],
+  sources: PackageSource[],
+  logger: Logger,
+  current?: string,
+  baseSource: string = PACKAGE_FILE,
+): FileTemplate[] {
+  const generated = files.filter(file => file.path === PACKAGE_FILE);
+  const others = files.filter(file => file.path !== PACKAGE_FILE);
+  const contributions = sources.filter(source => (
+    Object.keys({ ...source.dependencies, ...source.devDependencies, ...source.scripts }).length > 0
+  ));
+
+  const [base, ...rest] = generated;
+  const start = current ?? base?.content;
+  const unchanged = current !== undefined && generated.length + contributions.length === 0;
+  if (start === undefined || unchanged) {
+    return files;
+  }
+
+  // Les package.json générés en plus du premier sont traités comme des contributions
+  const extra = (current !== undefined ? generated : rest).map(file => ({
+    ...parsePackageJson(file.content),
+    source: PACKAGE_FILE,
+  }));
+
+  const { packageJson, conflicts, warnings } = mergePackageJson(
+    parsePackageJson(start),
+    [...extra, ...contributions],
+    { overrideScripts: current === undefined, currentSource: baseSource },
+  );
+  conflicts.forEach(conflict => logger.warn(describeConflict(conflict)));
+  warnings.forEach(warning => logger.warn(warning));
+
+  return [...others, { path: PACKAGE_FILE, content: `${JSON.stringify(packageJson, null, 2)}\n` }];
+}
+
+function requestedDependencies(contributions: PackageContribution[]): Set<string> {
+  return new Set(contributions.flatMap(contribution => Object.keys({
+    ...contribution.dependencies,
+    ...contribution.devDependencies,
+  })));
+}
+
+/**
+ * Retire les dépendances et scripts apportés par un template
+ * Les dépendances encore requises par un autre template et les scripts modifiés sont conservés
+ */
+export function stripPackageJson(
+  current: PackageJson,
+  removed: PackageContribution[],
+  kept: PackageContribution[],
+): PackageJson {
+  const required = requestedDependencies(kept);
+  const removable = [...requestedDependencies(removed)].filter(name => !required.has(name));
+  const keptScripts = new Set(kept.flatMap(({ scripts }) => Object.keys(scripts ?? {})));
+  const isRemovable = ([name, command]: [string, string]) => (
+    !keptScripts.has(name) && removed.some(contribution => contribution.scripts?.[name] === command)
+  );
+
+  const packageJson: PackageJson = { ...current };
+  const fields = {
+    scripts: Object.fromEntries(Object.entries(current.scripts ?? {}).filter(
+      entry => !isRemovable(entry),
+    )),
+    dependencies: Object.fromEntries(Object.entries(current.dependencies ?? {}).filter(
+      ([name]) => !removable.includes(name),
+    )),
+    devDependencies: Object.fromEntries(Object.entries(current.devDependencies ?? {}).filter(
+      ([name]) => !removable.includes(name),
+    )),
+  };
+  for (const [field, record] of Object.entries(fields)) {
+    if (Object.keys(record).length > 0) {
+      packageJson[field] = record;
+    } else {
+      delete packageJson[field];
+    }
+  }
+  return packageJson;
+}
+
+/**
+ * Contributions d'un résultat de génération : package.json générés et dépendances déclarées
+ */
+export function toPackageContributions(
+  files: FileTemplate[],
+  contribution?: PackageContribution,
+): PackageContribution[] {
+  return [
+    ...files.filter(file => file.path === PACKAGE_FILE).map(file => parsePackageJson(file.content)),
+    ...(contribution ? [contribution] : []),
+  ];
+}
+
+/**
+ * Réécrit le package.json du projet sans les contributions d'un template retiré
+ */
+export function stripProjectPackageJson(
+  current: string,
+  removed: PackageContribution[],
+  kept: PackageContribution[],
+): FileTemplate {
+  const packageJson = stripPackageJson(parsePackageJson(current), removed, kept);
+  return { path: PACKAGE_FILE, content: `${JSON.stringify(packageJson, null, 2)}\n` };
+}
@@ -0,0 +1,754 @@
+/**
+ * Schéma Prisma : analyse, fusion et écriture
+ * Chaque template génère son fragment de prisma/schema.prisma (datasource, modèles, enums) ;
+ * les fragments sont fusionnés en un seul schéma, modèle par modèle et champ par champ
+ */
+
+import type { FileTemplate, Logger } from '../../templates/types.js';
+import { PRISMA_EXTEND_COMMENT } from '../../templates/generation.js';
+
+export const PRISMA_SCHEMA_FILE = 'prisma/schema.prisma';
+
+// @id, @default(cuid()), @db.VarChar(255) : nom sans @ et arguments sans parenthèses
+export interface PrismaAttribute {
+  name: string;
+  args?: string;
+}
+
+export interface PrismaField {
+  name: string;
+  type: string;
+  optional: boolean;
+  list: boolean;
+  attributes: PrismaAttribute[];
+  // Commentaires placés avant le champ (// ou ///)
+  comments: string[];
+  // Commentaire en fin de ligne
+  comment?: string;
+}
+
+export interface PrismaModel {
+  kind: 'model' | 'type' | 'view';
+  name: string;
+  fields: PrismaField[];
+  // Attributs de bloc : @@map, @@index, @@unique...
+  attributes: PrismaAttribute[];
+  comments: string[];
+}
+
+export interface PrismaEnumValue {
+  name: string;
+  attributes: PrismaAttribute[];
+  comments: string[];
+  comment?: string;
+}
+
+export interface PrismaEnum {
+  name: string;
+  values: PrismaEnumValue[];
+  attributes: PrismaAttribute[];
+  comments: string[];
+}
+
+export interface PrismaProperty {
+  key: string;
+  value: string;
+}
+
+// Blocs datasource et generator
+export interface PrismaConfigBlock {
+  name: string;
+  properties: PrismaProperty[];
+  comments: string[];
+}
+
+export interface PrismaSchema {
+  // Commentaires d'en-tête du fichier
+  comments: string[];
+  generators: PrismaConfigBlock[];
+  datasources: PrismaConfigBlock[];
+  enums: PrismaEnum[];
+  models: PrismaModel[];
+  // Ordre des blocs dans le fichier : 'generator client', 'enum Role', 'model User'...
+  order: string[];
+}
+
+// Champ déclaré avec deux types différents
+export interface PrismaConflict {
+  model: string;
+  field: string;
+  current: string;
+  incoming: string;
+}
+
+export interface PrismaMergeOptions {
+  // Le fragment ajouté l'emporte en cas de conflit (vrai par défaut) ;
+  // faux pour conserver le schéma existant d'un projet
+  override?: boolean;
+  // Un modèle marqué PRISMA_EXTEND_COMMENT exige le modèle qu'il complète (vrai par défaut) ;
+  // faux pour le créer, lorsque les fragments sont seulement comparés
+  requireExtended?: boolean;
+}
+
+const BLOCK_HEADER = /^(model|type|view|enum|datasource|generator)\s+(\w+)\s*\{$/;
+const FIELD = /^(\w+)\s+(Unsupported\("[^"]*"\)|[\w.]+)(\[\])?(\?)?(?:\s+(.*))?$/;
+const PROPERTY = /^(\w+)\s*=\s*(.+)$/;
+
+// Attributs de bloc présents une seule fois : remplacés plutôt qu'ajoutés
+const SINGLE_BLOCK_ATTRIBUTES = ['map', 'id', 'schema', 'ignore'];
+
+export function createPrismaSchema(): PrismaSchema {
+  return { comments: [], generators: [], datasources: [], enums: [], models: [], order: [] };
+}
+
+function blockKey(kind: string, name: string): string {
+  return `${kind} ${name}`;
+}
+
+/**
+ * Sépare une ligne de son commentaire final (// ou ///), hors chaînes
+ */
+function splitTrailingComment(text: string): { code: string; comment?: string } {
+  let quoted = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text.charAt(index);
+    if (quoted) {
+      if (char === '\\') {
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (text.startsWith('//', index)) {
+      return { code: text.slice(0, index).trimEnd(), comment: text.slice(index) };
+    }
+  }
+  return { code: text };
+}
+
+/**
+ * Lit les attributs d'une ligne (@id @default("a(b)") @@index([a, b]))
+ * Les parenthèses et chaînes sont équilibrées ; un commentaire final est ignoré
+ */
+function parseAttributes(text: string, line: number): PrismaAttribute[] {
+  const attributes: PrismaAttribute[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text.charAt(index);
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if (text.startsWith('//', index)) {
+      break;
+    }
+    const match = /^@@?([\w.]+)/.exec(text.slice(index));
+    if (!match?.[1]) {
+      const rest = text.slice(index);
+      throw new Error(`Schéma Prisma invalide (ligne ${line}) : attribut attendu "${rest}"`);
+    }
+    index += match[0].length;
+
+    if (text.charAt(index) !== '(') {
+      attributes.push({ name: match[1] });
+      continue;
+    }
+    let depth = 0;
+    let quoted = false;
+    const start = index;
+    for (; index < text.length; index += 1) {
+      const current = text.charAt(index);
+      if (quoted) {
+        if (current === '\\') {
+          index += 1;
+        } else if (current === '"') {
+          quoted = false;
+        }
+      } else if (current === '"') {
+        quoted = true;
+      } else if (current === '(') {
+        depth += 1;
+      } else if (current === ')') {
+        depth -= 1;
+        if (depth === 0) {
+          break;
+        }
+      }
+    }
+    if (depth !== 0) {
+      throw new Error(`Schéma Prisma invalide (ligne ${line}) : parenthèse non fermée`);
+    }
+    attributes.push({ name: match[1], args: text.slice(start + 1, index) });
+    index += 1;
+  }
+
+  return attributes;
+}
+
+/**
+ * Analyse un schéma Prisma
+ */
+export function parsePrismaSchema(content: string): PrismaSchema {
+  const schema = createPrismaSchema();
+  const lines = content.split(/\r?\n/);
+  let pending: string[] = [];
+  let parsedBlock = false;
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const text = lines[index]?.trim() ?? '';
+    if (text.startsWith('//')) {
+      pending.push(text);
+      continue;
+    }
+    if (!text) {
+      // Les commentaires séparés du premier bloc forment l'en-tête du fichier
+      if (!parsedBlock && pending.length > 0) {
+        schema.comments.push(...pending);
+        pending = [];
+      }
+      continue;
+    }
+
+    const header = BLOCK_HEADER.exec(text);
+    if (!header) {
+      throw new Error(`Schéma Prisma invalide (ligne ${index + 1}) : "${text}"`);
+    }
+    const [, kind = '', name = ''] = header;
+    const comments = pending;
+    pending = [];
+    parsedBlock = true;
+    schema.order.push(blockKey(kind, name));
+
+    // Corps du bloc jusqu'à l'accolade fermante
+    const body: { text: string; line: number }[] = [];
+    for (index += 1; index < lines.length && lines[index]?.trim() !== '}'; index += 1) {
+      body.push({ text: lines[index]?.trim() ?? '', line: index + 1 });
+    }
+    if (index >= lines.length) {
+      throw new Error(`Schéma Prisma invalide : bloc ${kind} ${name} non fermé`);
+    }
+
+    if (kind === 'datasource' || kind === 'generator') {
+      const block: PrismaConfigBlock = { name, properties: [], comments };
+      body.filter(entry => entry.text && !entry.text.startsWith('//')).forEach(entry => {
+        const property = PROPERTY.exec(entry.text);
+        if (!property) {
+          throw new Error(`Schéma Prisma invalide (ligne ${entry.line}) : "${entry.text}"`);
+        }
+        block.properties.push({ key: property[1] ?? '', value: property[2] ?? '' });
+      });
+      (kind === 'datasource' ? schema.datasources : schema.generators).push(block);
+    } else if (kind === 'enum') {
+      schema.enums.push(parseEnum(name, comments, body));
+    } else {
+      schema.models.push(parseModel(kind as PrismaModel['kind'], name, comments, body));
+    }
+  }
+
+  return schema;
+}
+
+function parseEnum(
+  name: string,
+  comments: string[],
+  body: { text: string; line: number }[],
+): PrismaEnum {
+  const block: PrismaEnum = { name, values: [], attributes: [], comments };
+  let pending: string[] = [];
+
+  for (const { text, line } of body) {
+    if (text.startsWith('//')) {
+      pending.push(text);
+    } else if (text.startsWith('@@')) {
+      block.attributes.push(...parseAttributes(text, line));
+    } else if (text) {
+      const { code, comment } = splitTrailingComment(text);
+      const [value = '', ...rest] = code.split(/\s+/);
+      block.values.push({
+        name: value,
+        attributes: parseAttributes(rest.join(' '), line),
+        comments: pending,
+        ...(comment ? { comment } : {}),
+      });
+      pending = [];
+    }
+  }
+  return block;
+}
+
+function parseModel(
+  kind: PrismaModel['kind'],
+  name: string,
+  comments: string[],
+  body: { text: string; line: number }[],
+): PrismaModel {
+  const model: PrismaModel = { kind, name, fields: [], attributes: [], comments };
+  let pending: string[] = [];
+
+  for (const { text, line } of body) {
+    if (text.startsWith('//')) {
+      pending.push(text);
+    } else if (text.startsWith('@@')) {
+      model.attributes.push(...parseAttributes(text, line));
+      pending = [];
+    } else if (text) {
+      const { code, comment } = splitTrailingComment(text);
+      const field = FIELD.exec(code);
+      if (!field) {
+        throw new Error(`Schéma Prisma invalide (ligne ${line}) : champ "${text}"`);
+      }
+      model.fields.push({
+        name: field[1] ?? '',
+        type: field[2] ?? '',
+        list: field[3] !== undefined,
+        optional: field[4] !== undefined,
+        attributes: parseAttributes(field[5] ?? '', line),
+        comments: pending,
+        ...(comment ? { comment } : {}),
+      });
+      pending = [];
+    }
+  }
+  return model;
+}
+
+function printAttribute(attribute: PrismaAttribute, prefix: '@' | '@@'): string {
+  return `${prefix}${attribute.name}${attribute.args !== undefined ? `(${attribute.args})` : ''}`;
+}
+
+function printFieldAttributes(attributes: PrismaAttribute[]): string {
+  return attributes.map(attribute => printAttribute(attribute, '@')).join(' ');
+}
+
+/**
+ * Type d'un champ tel qu'écrit dans le schéma : String, Post[], DateTime?
+ */
+export function formatFieldType(field: Pick<PrismaField, 'type' | 'list' | 'optional'>): string {
+  return `${field.type}${field.list ? '[]' : ''}${field.optional ? '?' : ''}`;
+}
+
+/**
+ * Aligne les colonnes d'un bloc comme prisma format
+ */
+function alignRows(rows: string[][]): string[] {
+  const widths = rows.reduce<number[]>((max, row) => (
+    row.map((cell, column) => Math.max(max[column] ?? 0, cell.length))
+  ), []);
+  return rows.map(row => row
+    .map((cell, column) => (column < row.length - 1 ? cell.padEnd(widths[column] ?? 0) : cell))
+    .join(' ')
+    .trimEnd());
+}
+
+function printBlock(header: string, comments: string[], lines: string[]): string {
+  return [...comments, `${header} {`, ...lines.map(line => (line ? `  ${line}` : '')), '}'].join('\n');
+}
+
+function printConfigBlock(kind: string, block: PrismaConfigBlock): string {
+  const rows = alignRows(block.properties.map(({ key, value }) => [key, `= ${value}`]));
+  return printBlock(`${kind} ${block.name}`, block.comments, rows);
+}
+
+/**
+ * Lignes des membres d'un bloc, alignées ; une ligne vide précède un groupe commenté
+ * (// Relations) et les attributs de bloc, un commentaire final suit la dernière colonne
+ */
+function printMembers(
+  members: { comments: string[]; comment?: string; cells: string[] }[],
+  attributes: PrismaAttribute[],
+): string[] {
+  const rows = alignRows(members.map(({ cells, comment }) => (
+    comment
+      ? [...cells.slice(0, -1), [cells[cells.length - 1], comment].filter(Boolean).join(' ')]
+      : cells
+  )));
+  const lines = members.flatMap((member, index) => {
+    const grouped = index > 0 && member.comments.some(comment => !comment.startsWith('///'));
+    return [...(grouped ? [''] : []), ...member.comments, rows[index] ?? ''];
+  });
+  if (attributes.length > 0) {
+    lines.push(...(lines.length > 0 ? [''] : []), ...attributes.map(attr => printAttribute(attr, '@@')));
+  }
+  return lines;
+}
+
+/**
+ * Écrit un schéma dans l'ordre de ses blocs ; les blocs absents de cet ordre suivent :
+ * generators, datasources, enums puis modèles
+ */
+export function printPrismaSchema(schema: PrismaSchema): string {
+  const blocks = new Map<string, string>([
+    ...schema.generators.map(block => [
+      blockKey('generator', block.name),
+      printConfigBlock('generator', block),
+    ] as const),
+    ...schema.datasources.map(block => [
+      blockKey('datasource', block.name),
+      printConfigBlock('datasource', block),
+    ] as const),
+    ...schema.enums.map(block => [
+      blockKey('enum', block.name),
+      printBlock(`enum ${block.name}`, block.comments, printMembers(
+        block.values.map(value => ({
+          comments: value.comments,
+          ...(value.comment ? { comment: value.comment } : {}),
+          cells: [value.name, printFieldAttributes(value.attributes)],
+        })),
+        block.attributes,
+      )),
+    ] as const),
+    ...schema.models.map(model => [
+      blockKey(model.kind, model.name),
+      printBlock(`${model.kind} ${model.name}`, model.comments, printMembers(
+        model.fields.map(field => ({
+          comments: field.comments,
+          ...(field.comment ? { comment: field.comment } : {}),
+          cells: [field.name, formatFieldType(field), printFieldAttributes(field.attributes)],
+        })),
+        model.attributes,
+      )),
+    ] as const),
+  ]);
+  const keys = [
+    ...schema.order.filter(key => blocks.has(key)),
+    ...[...blocks.keys()].filter(key => !schema.order.includes(key)),
+  ];
+  const header = schema.comments.length > 0 ? [schema.comments.join('\n')] : [];
+  return `${[...header, ...keys.map(key => blocks.get(key))].join('\n\n')}\n`;
+}
+
+/**
+ * Ajoute les attributs absents ; un attribut présent avec d'autres arguments
+ * n'est remplacé qu'avec override
+ */
+function mergeAttributes(
+  current: PrismaAttribute[],
+  incoming: PrismaAttribute[],
+  override: boolean,
+  sameAttribute: (a: PrismaAttribute, b: PrismaAttribute) => boolean,
+): PrismaAttribute[] {
+  const merged = [...current];
+  for (const attribute of incoming) {
+    const index = merged.findIndex(existing => sameAttribute(existing, attribute));
+    if (index === -1) {
+      merged.push(attribute);
+    } else if (override) {
+      merged[index] = attribute;
+    }
+  }
+  return merged;
+}
+
+const sameName = (a: PrismaAttribute, b: PrismaAttribute) => a.name === b.name;
+
+// @@index et @@unique peuvent être multiples : identiques seulement à arguments égaux
+const sameBlockAttribute = (a: PrismaAttribute, b: PrismaAttribute) => (
+  a.name === b.name && (SINGLE_BLOCK_ATTRIBUTES.includes(a.name) || a.args === b.args)
+);
+
+function mergeConfigBlocks(
+  current: PrismaConfigBlock[],
+  incoming: PrismaConfigBlock[],
+  override: boolean,
+): PrismaConfigBlock[] {
+  const merged = current.map(block => ({ ...block, properties: [...block.properties] }));
+  for (const block of incoming) {
+    const existing = merged.find(entry => entry.name === block.name);
+    if (!existing) {
+      merged.push(block);
+      continue;
+    }
+    for (const property of block.properties) {
+      const index = existing.properties.findIndex(entry => entry.key === property.key);
+      if (index === -1) {
+        existing.properties.push(property);
+      } else if (override) {
+        existing.properties[index] = property;
+      }
+    }
+  }
+  return merged;
+}
+
+function mergeModel(
+  current: PrismaModel,
+  incoming: PrismaModel,
+  override: boolean,
+  conflicts: PrismaConflict[],
+): PrismaModel {
+  const fields = [...current.fields];
+  for (const field of incoming.fields) {
+    const index = fields.findIndex(entry => entry.name === field.name);
+    const existing = fields[index];
+    if (!existing) {
+      fields.push(field);
+      continue;
+    }
+
+    const currentType = formatFieldType(existing);
+    const incomingType = formatFieldType(field);
+    if (currentType !== incomingType) {
+      conflicts.push({
+        model: current.name,
+        field: field.name,
+        current: currentType,
+        incoming: incomingType,
+      });
+      if (override) {
+        const comments = field.comments.length > 0 ? field.comments : existing.comments;
+        const comment = field.comment ?? existing.comment;
+        fields[index] = { ...field, comments, ...(comment ? { comment } : {}) };
+      }
+      continue;
+    }
+    const comment = existing.comment ?? field.comment;
+    fields[index] = {
+      ...existing,
+      attributes: mergeAttributes(existing.attributes, field.attributes, override, sameName),
+      comments: existing.comments.length > 0 ? existing.comments : field.comments,
+      ...(comment ? { comment } : {}),
+    };
+  }
+
+  return {
+    ...current,
+    fields,
+    attributes: mergeAttributes(
+      current.attributes,
+      incoming.attributes,
+      override,
+      sameBlockAttribute,
+    ),
+  };
+}
+
+/**
+ * Fusionne un fragment dans un schéma
+ * Blocs, champs, valeurs d'enum et attributs absents sont ajoutés ; un champ déclaré avec un
+ * autre type est signalé comme conflit
+ */
+export function mergePrismaSchemas(
+  current: PrismaSchema,
+  incoming: PrismaSchema,
+  options: PrismaMergeOptions = {},
+): { schema: PrismaSchema; conflicts: PrismaConflict[] } {
+  const override = options.override ?? true;
+  const requireExtended = options.requireExtended ?? true;
+  const conflicts: PrismaConflict[] = [];
+
+  const enums = [...current.enums];
+  for (const block of incoming.enums) {
+    const index = enums.findIndex(entry => entry.name === block.name);
+    const existing = enums[index];
+    if (!existing) {
+      enums.push(block);
+      continue;
+    }
+    enums[index] = {
+      ...existing,
+      values: [
+        ...existing.values,
+        ...block.values.filter(value => !existing.values.some(entry => entry.name === value.name)),
+      ],
+      attributes: mergeAttributes(
+        existing.attributes,
+        block.attributes,
+        override,
+        sameBlockAttribute,
+      ),
+    };
+  }
+
+  const models = [...current.models];
+  for (const model of incoming.models) {
+    const index = models.findIndex(entry => entry.name === model.name);
+    const existing = models[index];
+    const extension = model.comments.includes(PRISMA_EXTEND_COMMENT);
+    if (existing) {
+      models[index] = mergeModel(existing, model, override, conflicts);
+    } else if (extension && requireExtended) {
+      const fields = model.fields.map(field => field.name).join(', ');
+      throw new Error(`Modèle ${model.name} absent du schéma Prisma : `
+        + `impossible d'y ajouter ${fields} (relation vers un modèle non défini)`);
+    } else {
+      const comments = model.comments.filter(comment => comment !== PRISMA_EXTEND_COMMENT);
+      models.push({ ...model, comments });
+    }
+  }
+
+  return {
+    schema: {
+      comments: current.comments.length > 0 ? current.comments : incoming.comments,
+      generators: mergeConfigBlocks(current.generators, incoming.generators, override),
+      datasources: mergeConfigBlocks(current.datasources, incoming.datasources, override),
+      enums,
+      models,
+      // Les nouveaux blocs suivent ceux du schéma courant, dans l'ordre du fragment
+      order: [...current.order, ...incoming.order.filter(key => !current.order.includes(key))],
+    },
+    conflicts,
+  };
+}
+
+export function describePrismaConflict(conflict: PrismaConflict, override: boolean): string {
+  const { model, field, current, incoming } = conflict;
+  const kept = override ? incoming : current;
+  return `Types incompatibles pour ${model}.${field} : ${current} et ${incoming}, ${kept} retenu`;
+}
+
+/**
+ * Remplace les schémas Prisma générés par un schéma unique
+ * current : schéma présent sur disque lors d'un ajout de template, conservé en cas de conflit
+ */
+export function composeProjectPrismaSchema(
+  files: FileTemplate[],
+  logger: Logger,
+  current?: string,
+): FileTemplate[] {
+  const generated = files.filter(file => file.path === PRISMA_SCHEMA_FILE);
+  if (generated.length === 0 || (generated.length === 1 && current === undefined)) {
+    return files;
+  }
+
+  let base: PrismaSchema;
+  try {
+    base = parsePrismaSchema(current ?? generated[0]?.content ?? '');
+  } catch (error) {
+    // Schéma du projet illisible : il est laissé tel quel
+    logger.warn(`${PRISMA_SCHEMA_FILE} non mis à jour : ${(error as Error).message}`);
+    return files.filter(file => file.path !== PRISMA_SCHEMA_FILE);
+  }
+
+  const override = current === undefined;
+  const fragments = current === undefined ? generated.slice(1) : generated;
+  const schema = fragments.reduce((merged, file) => {
+    const result = mergePrismaSchemas(merged, parsePrismaSchema(file.content), { override });
+    result.conflicts.forEach(conflict => logger.warn(describePrismaConflict(conflict, override)));
+    return result.schema;
+  }, base);
+
+  // Schéma du projet déjà complet : son contenu et sa mise en forme sont conservés
+  const unchanged = current !== undefined && JSON.stringify(schema) === JSON.stringify(base);
+  const content = unchanged ? current : printPrismaSchema(schema);
+  const others = files.filter(file => file.path !== PRISMA_SCHEMA_FILE);
+  return [...others, { path: PRISMA_SCHEMA_FILE, content }];
+}
+
+// Élément apporté par le template retiré et déclaré par aucun template restant
+function isStripped(
+  name: string,
+  removed: { name: string }[] = [],
+  kept: { name: string }[] = [],
+): boolean {
+  return removed.some(entry => entry.name === name) && !kept.some(entry => entry.name === name);
+}
+
+const sameAttribute = (a: PrismaAttribute, b: PrismaAttribute) => (
+  a.name === b.name && a.args === b.args
+);
+
+/**
+ * Retire d'un schéma les blocs, champs et valeurs d'enum apportés par un template
+ * Ce qu'un template restant déclare encore est conservé ; les champs qui référencent
+ * un modèle ou un enum retiré sont supprimés avec lui
+ */
+export function stripPrismaSchema(
+  current: PrismaSchema,
+  removed: PrismaSchema,
+  kept: PrismaSchema,
+): PrismaSchema {
+  const enums = current.enums
+    .filter(block => !isStripped(block.name, removed.enums, kept.enums))
+    .map(block => {
+      const removedValues = removed.enums.find(entry => entry.name === block.name)?.values;
+      const keptValues = kept.enums.find(entry => entry.name === block.name)?.values;
+      return {
+        ...block,
+        values: block.values.filter(value => !isStripped(value.name, removedValues, keptValues)),
+      };
+    });
+
+  const remaining = current.models.filter(model => (
+    !isStripped(model.name, removed.models, kept.models)
+  ));
+  const types = new Set([...remaining, ...enums].map(block => block.name));
+  const strippedTypes = new Set([...current.models, ...current.enums]
+    .map(block => block.name)
+    .filter(name => !types.has(name)));
+
+  const models = remaining.map(model => {
+    const removedModel = removed.models.find(entry => entry.name === model.name);
+    const keptModel = kept.models.find(entry => entry.name === model.name);
+    const removedAttributes = (removedModel?.attributes ?? []).filter(attribute => (
+      !(keptModel?.attributes ?? []).some(other => sameAttribute(attribute, other))
+    ));
+    return {
+      ...model,
+      fields: model.fields.filter(field => (
+        !strippedTypes.has(field.type)
+        && !isStripped(field.name, removedModel?.fields, keptModel?.fields)
+      )),
+      attributes: model.attributes.filter(attribute => (
+        !removedAttributes.some(other => sameAttribute(attribute, other))
+      )),
+    };
+  });
+
+  const generators = current.generators.filter(block => (
+    !isStripped(block.name, removed.generators, kept.generators)
+  ));
+  const datasources = current.datasources.filter(block => (
+    !isStripped(block.name, removed.datasources, kept.datasources)
+  ));
+  const keys = new Set([
+    ...generators.map(block => blockKey('generator', block.name)),
+    ...datasources.map(block => blockKey('datasource', block.name)),
+    ...enums.map(block => blockKey('enum', block.name)),
+    ...models.map(model => blockKey(model.kind, model.name)),
+  ]);
+
+  return {
+    ...current,
+    generators,
+    datasources,
+    enums,
+    models,
+    order: current.order.filter(key => keys.has(key)),
+  };
+}
+
+// Fragments de schema.prisma d'une génération, fusionnés en un seul schéma
+function mergeFragments(files: FileTemplate[]): PrismaSchema {
+  return files
+    .filter(file => file.path === PRISMA_SCHEMA_FILE)
+    .reduce(
+      (merged, file) => mergePrismaSchemas(merged, parsePrismaSchema(file.content), {
+        requireExtended: false,
+      }).schema,
+      createPrismaSchema(),
+    );
+}
+
+/**
+ * Réécrit prisma/schema.prisma sans les blocs d'un template retiré
+ * Un schéma illisible est laissé tel quel et signalé
+ */
+export function stripProjectPrismaSchema(
+  current: string,
+  removed: FileTemplate[],
+  kept: FileTemplate[],
+  logger: Logger,
+): FileTemplate[] {
+  try {
+    const base = parsePrismaSchema(current);
+    const schema = stripPrismaSchema(base, mergeFragments(removed), mergeFragments(kept));
+    return JSON.stringify(schema) === JSON.stringify(base)
+      ? []
+      : [{ path: PRISMA_SCHEMA_FILE, content: printPrismaSchema(schema) }];
+  } catch (error) {
+    logger.warn(`${PRISMA_SCHEMA_FILE} non nettoyé : ${(error as Error).message}`);
+    return [];
+  }
+}
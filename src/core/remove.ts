@@ -0,0 +1,63 @@
+/**
+ * Retrait d'un template du projet
+ * Seuls les fichiers non modifiés depuis leur génération sont supprimés
+ */
+
+import { toFileSystem } from './file-system.js';
+import type { ProjectLocation } from './file-system.js';
+import type { ProjectManifest } from './manifest.js';
+import { isPristine } from './manifest.js';
+
+export interface RemovalPlan {
+  // Fichiers non modifiés depuis leur génération
+  deleted: string[];
+  // Fichiers modifiés par l'utilisateur ou inconnus du manifeste, conservés
+  kept: string[];
+}
+
+/**
+ * Fichiers produits par un template et par aucun des templates restants
+ */
+export function getOwnedFiles(manifest: ProjectManifest, name: string): string[] {
+  const others = new Set(manifest.templates
+    .filter(template => template.name !== name)
+    .flatMap(template => template.files));
+  const template = manifest.templates.find(entry => entry.name === name);
+  return (template?.files ?? []).filter(path => !others.has(path));
+}
+
+/**
+ * Sépare les fichiers pouvant être supprimés sans perte de ceux modifiés depuis la génération
+ * Les fichiers déjà absents sont ignorés
+ */
+export async function planRemoval(
+  project: ProjectLocation,
+  manifest: ProjectManifest,
+  paths: string[],
+): Promise<RemovalPlan> {
+  const fs = toFileSystem(project);
+  const plan: RemovalPlan = { deleted: [], kept: [] };
+
+  for (const path of [...new Set(paths)]) {
+    const content = await fs.readFile(path);
+    if (content === undefined) {
+      continue;
+    }
+    if (isPristine(manifest, path, content)) {
+      plan.deleted.push(path);
+    } else {
+      plan.kept.push(path);
+    }
+  }
+  return plan;
+}
+
+/**
+ * Supprime les fichiers puis les dossiers laissés vides
+ */
+export async function removeFiles(project: ProjectLocation, paths: string[]): Promise<void> {
+  const fs = toFileSystem(project);
+  for (const path of paths) {
+    await fs.remove(path);
+  }
+}
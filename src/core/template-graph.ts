@@ -0,0 +1,194 @@
+/**
+ * Graphe de dépendances entre templates
+ * Ordonne la génération, ajoute les templates requis et refuse les combinaisons incompatibles
+ */
+
+import type { AnyTemplateGenerator, TemplateRegistry } from '../../templates/registry.js';
+import type { TemplateConstraints } from '../../templates/types.js';
+import { templateRegistry } from '../../templates/registry.js';
+
+export interface TemplateRequest {
+  name: string;
+  config: object;
+}
+
+export interface ResolvedTemplate {
+  generator: AnyTemplateGenerator;
+  config: object;
+  // Template dont la dépendance a entraîné l'ajout automatique
+  requiredBy?: string;
+}
+
+export interface MissingDependency {
+  template: string;
+  dependency: string;
+}
+
+export interface ResolveOptions {
+  registry?: TemplateRegistry;
+  // Templates déjà présents dans le projet : satisfont les dépendances sans être générés
+  installed?: TemplateRequest[];
+  // false : les dépendances manquantes sont retournées au lieu d'être ajoutées
+  autoInclude?: boolean;
+  // Configuration des templates ajoutés automatiquement
+  createConfig?: (name: string) => object;
+}
+
+export interface TemplateResolution {
+  // Templates à générer, dépendances en premier
+  templates: ResolvedTemplate[];
+  missing: MissingDependency[];
+}
+
+interface TemplateNode extends ResolvedTemplate {
+  constraints: Required<TemplateConstraints>;
+}
+
+const unique = (values: string[]): string[] => [...new Set(values)];
+
+/**
+ * Contraintes statiques et dépendantes de la configuration d'un template
+ */
+export function getTemplateConstraints(
+  generator: AnyTemplateGenerator,
+  config: object,
+): Required<TemplateConstraints> {
+  const dynamic = generator.constraints?.(config) ?? {};
+
+  return {
+    dependencies: unique([...generator.dependencies ?? [], ...dynamic.dependencies ?? []]),
+    conflicts: unique([...generator.conflicts ?? [], ...dynamic.conflicts ?? []]),
+    provides: unique([generator.name, ...generator.provides ?? [], ...dynamic.provides ?? []]),
+  };
+}
+
+function toNode(
+  generator: AnyTemplateGenerator,
+  config: object,
+  requiredBy?: string,
+): TemplateNode {
+  return {
+    generator,
+    config,
+    ...(requiredBy ? { requiredBy } : {}),
+    constraints: getTemplateConstraints(generator, config),
+  };
+}
+
+/**
+ * Ordonne les templates de sorte que chacun soit généré après ceux dont il dépend
+ */
+function sortNodes(nodes: TemplateNode[]): TemplateNode[] {
+  const sorted: TemplateNode[] = [];
+  const visiting: TemplateNode[] = [];
+
+  const visit = (node: TemplateNode): void => {
+    if (sorted.includes(node)) {
+      return;
+    }
+    if (visiting.includes(node)) {
+      const cycle = [...visiting.slice(visiting.indexOf(node)), node];
+      throw new Error(
+        `Dépendance circulaire : ${cycle.map(entry => entry.generator.name).join(' -> ')}`,
+      );
+    }
+
+    visiting.push(node);
+    for (const dependency of node.constraints.dependencies) {
+      nodes
+        .filter(other => other !== node && other.constraints.provides.includes(dependency))
+        .forEach(visit);
+    }
+    visiting.pop();
+    sorted.push(node);
+  };
+
+  nodes.forEach(visit);
+  return sorted;
+}
+
+/**
+ * Résout les templates demandés : ajout des dépendances, détection des conflits
+ * et ordre de génération
+ */
+export function resolveTemplateGraph(
+  requests: TemplateRequest[],
+  options: ResolveOptions = {},
+): TemplateResolution {
+  const registry = options.registry ?? templateRegistry;
+  const autoInclude = options.autoInclude ?? true;
+  const createConfig = options.createConfig ?? (() => ({}));
+  const problems: string[] = [];
+
+  const installed = (options.installed ?? [])
+    .map(({ name, config }) => toNode(registry.resolve(name), config));
+  const nodes: TemplateNode[] = [];
+  for (const { name, config } of requests) {
+    if (nodes.some(node => node.generator.name === name)) {
+      problems.push(`Template "${name}" demandé plusieurs fois`);
+      continue;
+    }
+    nodes.push(toNode(registry.resolve(name), config));
+  }
+
+  const present = (): TemplateNode[] => [...installed, ...nodes];
+  const isProvided = (capability: string): boolean =>
+    present().some(node => node.constraints.provides.includes(capability));
+
+  // Les templates ajoutés en cours de parcours sont examinés à leur tour
+  const missing: MissingDependency[] = [];
+  const providerOf = (dependency: string): AnyTemplateGenerator | undefined =>
+    registry.get(dependency) ?? registry.list().find(generator => getTemplateConstraints(
+      generator,
+      createConfig(generator.name),
+    ).provides.includes(dependency));
+  for (const node of nodes) {
+    for (const dependency of node.constraints.dependencies) {
+      if (isProvided(dependency)) {
+        continue;
+      }
+
+      const candidate = providerOf(dependency);
+      const available = candidate
+        && !present().some(other => other.generator.name === candidate.name);
+
+      if (autoInclude && candidate && available) {
+        nodes.push(toNode(candidate, createConfig(candidate.name), node.generator.name));
+      } else if (candidate && !available) {
+        problems.push(
+          `${node.generator.name} requiert "${dependency}", non fourni par ${candidate.name} `
+          + 'avec cette configuration',
+        );
+      } else {
+        missing.push({ template: node.generator.name, dependency });
+      }
+    }
+  }
+
+  if (autoInclude) {
+    missing.forEach(({ template, dependency }) =>
+      problems.push(`${template} requiert "${dependency}", fourni par aucun template`));
+  }
+
+  for (const node of nodes) {
+    for (const conflict of node.constraints.conflicts) {
+      present()
+        .filter(other => other !== node && other.constraints.provides.includes(conflict))
+        .forEach(other => problems.push(
+          `${node.generator.name} est incompatible avec ${other.generator.name} ("${conflict}")`,
+        ));
+    }
+  }
+
+  if (problems.length > 0) {
+    const details = unique(problems).map(problem => `  - ${problem}`).join('\n');
+    throw new Error(`Combinaison de templates invalide :\n${details}`);
+  }
+
+  const templates = sortNodes(nodes).map(({ generator, config, requiredBy }) => ({
+    generator,
+    config,
+    ...(requiredBy ? { requiredBy } : {}),
+  }));
+  return { templates, missing: autoInclude ? [] : missing };
+}
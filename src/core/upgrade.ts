@@ -0,0 +1,81 @@
+/**
+ * Mise à jour d'un projet vers la version actuelle de ses templates
+ * Fusion à trois voies : contenu généré d'origine, nouveau contenu généré, fichier sur disque
+ */
+
+import type { FileTemplate } from '../../templates/types.js';
+import { SIDECAR_EXTENSION } from './file-writer.js';
+import { toFileSystem } from './file-system.js';
+import type { ProjectLocation } from './file-system.js';
+import type { ProjectManifest } from './manifest.js';
+import { isPristine, readSnapshot } from './manifest.js';
+import { mergeThreeWay } from './merge.js';
+
+export interface UpgradePlan {
+  // Fichiers à transmettre au writer
+  files: FileTemplate[];
+  // Fichiers déjà fusionnés avec leur version sur disque
+  merged: string[];
+  // Fichiers fusionnés contenant des marqueurs de conflit
+  conflicts: string[];
+  // Fichiers modifiés sans contenu d'origine : nouvelle version écrite à côté (.new)
+  sidecars: string[];
+  // Fichiers supprimés par l'utilisateur, non recréés
+  deleted: string[];
+}
+
+/**
+ * Détermine le contenu à écrire pour chaque fichier régénéré
+ * - fichier absent : créé, sauf s'il avait été généré puis supprimé
+ * - fichier non modifié depuis la génération : remplacé
+ * - fichier modifié : fusion à trois voies avec le contenu d'origine conservé
+ */
+export async function planUpgrade(
+  files: FileTemplate[],
+  project: ProjectLocation,
+  manifest: ProjectManifest,
+  // Fichiers déjà fusionnés avec le disque lors de la composition (package.json, .env.example)
+  premerged: string[] = [],
+): Promise<UpgradePlan> {
+  const fs = toFileSystem(project);
+  const plan: UpgradePlan = { files: [], merged: [], conflicts: [], sidecars: [], deleted: [] };
+
+  for (const file of files) {
+    if (premerged.includes(file.path)) {
+      plan.files.push(file);
+      plan.merged.push(file.path);
+      continue;
+    }
+
+    const current = await fs.readFile(file.path);
+    if (current === undefined) {
+      if (file.path in manifest.files) {
+        plan.deleted.push(file.path);
+      } else {
+        plan.files.push(file);
+      }
+      continue;
+    }
+    if (current === file.content || isPristine(manifest, file.path, current)) {
+      plan.files.push(file);
+      continue;
+    }
+
+    const base = await readSnapshot(fs, manifest, file.path);
+    if (base === undefined) {
+      plan.files.push({ ...file, content: current });
+      plan.files.push({ ...file, path: `${file.path}${SIDECAR_EXTENSION}` });
+      plan.sidecars.push(file.path);
+      continue;
+    }
+
+    const { content, conflicts } = mergeThreeWay(base, current, file.content);
+    plan.files.push({ ...file, content });
+    plan.merged.push(file.path);
+    if (conflicts > 0) {
+      plan.conflicts.push(file.path);
+    }
+  }
+
+  return plan;
+}
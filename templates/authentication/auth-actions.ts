@@ -3,8 +3,8 @@
  * Génère les actions serveur pour l'authentification avec Better Auth
  */
 
-import { AuthConfig } from './index';
-import { FileTemplate } from '../types';
+import { AuthConfig } from './index.js';
+import { FileTemplate } from '../types.js';
 
 /**
  * Génère les Server Actions de connexion
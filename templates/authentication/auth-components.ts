@@ -3,8 +3,8 @@
  * Génère les composants UI pour l'authentification avec shadcn/ui
  */
 
-import { FileTemplate } from "../types";
-import { AuthConfig } from "./index";
+import { FileTemplate } from "../types.js";
+import { AuthConfig } from "./index.js";
 
 /**
  * Génère le composant de formulaire de connexion
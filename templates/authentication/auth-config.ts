@@ -3,12 +3,13 @@
  * Génère les fichiers de configuration serveur et client
  */
 
-import { FileTemplate } from "../types";
+import { EnvVariable, FileTemplate, MiddlewareSegment } from "../types.js";
+import { getDatabaseUrl } from "../database/index.js";
 import {
   AuthConfig,
   generatePluginsConfig,
   generateProvidersConfig,
-} from "./index";
+} from "./index.js";
 
 /**
  * Génère le fichier de configuration Better Auth serveur (src/lib/auth.ts)
@@ -214,6 +215,59 @@ export const config = {
   };
 };
 
+/**
+ * Segment de protection des routes, composé avec les autres middlewares
+ */
+export const generateAuthMiddlewareSegment = (config: AuthConfig): MiddlewareSegment => {
+  return {
+    name: "auth-guard",
+    template: "auth",
+    order: 40,
+    priority: 20,
+    feature: "auth",
+    matcher: ["/((?!api/auth|_next/static|_next/image|favicon.ico).*)"],
+    imports: [
+      'import { NextResponse } from "next/server";',
+      'import { auth } from "@/lib/auth";',
+    ],
+    body: `  const { pathname } = context;
+
+  // Routes publiques
+  const publicRoutes = [
+    "/",
+    "/login",
+    "/signup",
+    "/forgot-password",
+    "/reset-password",
+    "/verify-email",
+    "/about",
+    "/contact",
+  ];
+
+  const isPublicRoute = publicRoutes.some(
+    (route) => pathname === route || pathname.startsWith("/api/auth")
+  );
+
+  // Vérifier la session
+  const session = await auth.api.getSession({
+    headers: request.headers,
+  });
+  context.session = session;
+
+  // Redirection des utilisateurs authentifiés depuis les pages d'auth
+  if (session && ["/login", "/signup"].includes(pathname)) {
+    return NextResponse.redirect(new URL("${config.ui.redirectAfterLogin}", request.url));
+  }
+
+  // Protection des routes privées
+  if (!isPublicRoute && !session) {
+    const loginUrl = new URL("/login", request.url);
+    loginUrl.searchParams.set("callbackUrl", pathname);
+    return NextResponse.redirect(loginUrl);
+  }`,
+  };
+};
+
 /**
  * Génère l'API route pour Better Auth
  */
@@ -230,71 +284,233 @@ export { handler as GET, handler as POST };`,
 };
 
 /**
- * Génère les variables d'environnement pour l'authentification
+ * Génère les permissions par rôle (src/lib/permissions.ts), utilisées par les actions serveur
+ * des autres templates (CRUD) : checkPermission et getUserRoles
  */
-export const generateAuthEnvExample = (config: AuthConfig): FileTemplate => {
-  let envVars = `# Better Auth Configuration
-BETTER_AUTH_SECRET="your-secret-key-here"
-BETTER_AUTH_URL="http://localhost:3000"
-NEXT_PUBLIC_APP_URL="http://localhost:3000"
-NEXT_PUBLIC_APP_DOMAIN="localhost"
-
-# Database
-DATABASE_URL="${
-    config.database === "mysql"
-      ? "mysql"
-      : config.database === "postgresql"
-      ? "postgresql"
-      : null
-  }//username:password@localhost:${
-    config.database === "mysql"
-      ? "3306"
-      : config.database === "postgresql"
-      ? "5432"
-      : null
-  }/database_name"
-`; // rewrite well this method to detect if db is "postgresql" | "mysql" | "sqlite" create a function get prismaDbUrl that have params config.database and based to db rovide the correct url like getDbUrl({config.database}:{"postgresql" | "mysql" | "sqlite";}) : string
-
-  if (config.providers.includes("github")) {
-    envVars += `
-# GitHub OAuth
-GITHUB_CLIENT_ID=""
-GITHUB_CLIENT_SECRET=""`;
+export const generatePermissionsLibrary = (): FileTemplate => {
+  return {
+    path: "src/lib/permissions.ts",
+    content: `import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+
+export type PermissionAction = "create" | "read" | "update" | "delete" | "export" | "import";
+
+/**
+ * Rôles autorisés par ressource et par action, ex. { product: { delete: ["admin"] } }
+ * Une action sans règle est ouverte à tout utilisateur connecté ; le rôle admin a tous les droits
+ */
+export const PERMISSIONS: Record<string, Partial<Record<PermissionAction, string[]>>> = {};
+
+export class PermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermissionError";
   }
+}
 
-  if (config.providers.includes("google")) {
-    envVars += `
-# Google OAuth
-GOOGLE_CLIENT_ID=""
-GOOGLE_CLIENT_SECRET=""`;
+/**
+ * Rôles de l'utilisateur connecté (champ role de Better Auth, séparé par des virgules)
+ * Aucun rôle sans session
+ */
+export async function getUserRoles(): Promise<string[]> {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session) {
+    return [];
   }
 
-  if (config.providers.includes("discord")) {
-    envVars += `
-# Discord OAuth
-DISCORD_CLIENT_ID=""
-DISCORD_CLIENT_SECRET=""`;
+  const { role } = session.user as { role?: string | null };
+  return (role ?? "user")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Vérifie que l'utilisateur connecté peut effectuer l'action sur la ressource
+ * Lève une PermissionError sinon
+ */
+export async function checkPermission(resource: string, action: PermissionAction): Promise<void> {
+  const roles = await getUserRoles();
+
+  if (roles.length === 0) {
+    throw new PermissionError("Authentification requise");
   }
 
-  if (config.providers.includes("microsoft")) {
-    envVars += `
-# Microsoft OAuth
-MICROSOFT_CLIENT_ID=""
-MICROSOFT_CLIENT_SECRET=""`;
+  const allowed = PERMISSIONS[resource]?.[action];
+  if (roles.includes("admin") || !allowed || roles.some((role) => allowed.includes(role))) {
+    return;
+  }
+
+  throw new PermissionError(\`Action « \${action} » non autorisée sur « \${resource} »\`);
+}
+`,
+  };
+};
+
+/**
+ * Génère les tables Better Auth (prisma/schema.prisma)
+ * Fragment fusionné avec le schéma du projet : User et Session sont complétés, pas remplacés
+ */
+export const generateAuthPrismaSchema = (config: AuthConfig): FileTemplate => {
+  const twoFactor = config.features.includes("2fa");
+  const passkey = config.features.includes("passkey");
+
+  return {
+    path: "prisma/schema.prisma",
+    content: `model User {
+  emailVerified Boolean   @default(false)${twoFactor ? `
+  twoFactorEnabled Boolean @default(false)` : ""}
+
+  // Better Auth
+  accounts Account[]${twoFactor ? `
+  twoFactors TwoFactor[]` : ""}${passkey ? `
+  passkeys Passkey[]` : ""}
+}
+
+model Session {
+  token     String   @unique
+  ipAddress String?
+  userAgent String?
+  updatedAt DateTime @updatedAt
+}
+
+model Account {
+  id                    String    @id @default(cuid())
+  userId                String
+  accountId             String
+  providerId            String
+  accessToken           String?
+  refreshToken          String?
+  idToken               String?
+  accessTokenExpiresAt  DateTime?
+  refreshTokenExpiresAt DateTime?
+  scope                 String?
+  password              String?
+  createdAt             DateTime  @default(now())
+  updatedAt             DateTime  @updatedAt
+
+  user User @relation(fields: [userId], references: [id], onDelete: Cascade)
+
+  @@map("accounts")
+}
+
+model Verification {
+  id         String   @id @default(cuid())
+  identifier String
+  value      String
+  expiresAt  DateTime
+  createdAt  DateTime @default(now())
+  updatedAt  DateTime @updatedAt
+
+  @@map("verifications")
+}${twoFactor ? `
+
+model TwoFactor {
+  id          String @id @default(cuid())
+  secret      String
+  backupCodes String
+  userId      String
+
+  user User @relation(fields: [userId], references: [id], onDelete: Cascade)
+
+  @@map("two_factors")
+}` : ""}${passkey ? `
+
+model Passkey {
+  id           String    @id @default(cuid())
+  name         String?
+  publicKey    String
+  userId       String
+  credentialID String
+  counter      Int
+  deviceType   String
+  backedUp     Boolean
+  transports   String?
+  createdAt    DateTime? @default(now())
+
+  user User @relation(fields: [userId], references: [id], onDelete: Cascade)
+
+  @@map("passkeys")
+}` : ""}
+`,
+  };
+};
+
+const OAUTH_PROVIDERS = {
+  github: "GitHub",
+  google: "Google",
+  discord: "Discord",
+  microsoft: "Microsoft",
+} as const;
+
+/**
+ * Déclare les variables d'environnement de l'authentification
+ */
+export const getAuthEnvVariables = (config: AuthConfig): EnvVariable[] => {
+  const variable = (
+    name: string,
+    description: string,
+    example: string,
+    options: { required?: boolean; secret?: boolean } = {}
+  ): EnvVariable => ({
+    name,
+    description,
+    required: options.required ?? true,
+    secret: options.secret ?? false,
+    example,
+    template: "auth",
+  });
+
+  const variables = [
+    variable("BETTER_AUTH_SECRET", "Clé de signature des sessions Better Auth", "your-secret-key-here", {
+      secret: true,
+    }),
+    variable("BETTER_AUTH_URL", "URL de base du serveur Better Auth", "http://localhost:3000"),
+    variable("NEXT_PUBLIC_APP_URL", "URL publique de l'application", "http://localhost:3000"),
+    variable("NEXT_PUBLIC_APP_DOMAIN", "Domaine utilisé pour les passkeys", "localhost", {
+      required: false,
+    }),
+    variable("DATABASE_URL", `URL de connexion ${config.database}`, getDatabaseUrl(config.database), {
+      secret: true,
+    }),
+  ];
+
+  for (const [provider, label] of Object.entries(OAUTH_PROVIDERS)) {
+    if (config.providers.includes(provider as keyof typeof OAUTH_PROVIDERS)) {
+      const prefix = provider.toUpperCase();
+      variables.push(
+        variable(`${prefix}_CLIENT_ID`, `Client ID OAuth ${label}`, ""),
+        variable(`${prefix}_CLIENT_SECRET`, `Client secret OAuth ${label}`, "", { secret: true })
+      );
+    }
   }
 
   if (config.features.includes("email-verification")) {
-    envVars += `
-# Email Configuration (for verification)
-SMTP_HOST=""
-SMTP_PORT=""
-SMTP_USER=""
-SMTP_PASSWORD=""
-SMTP_FROM=""`;
+    variables.push(
+      variable("SMTP_HOST", "Serveur SMTP des emails de vérification", "smtp.example.com"),
+      variable("SMTP_PORT", "Port du serveur SMTP", "587"),
+      variable("SMTP_USER", "Utilisateur SMTP", ""),
+      variable("SMTP_PASSWORD", "Mot de passe SMTP", "", { secret: true }),
+      variable("SMTP_FROM", "Expéditeur des emails", "noreply@example.com")
+    );
   }
 
+  return variables;
+};
+
+/**
+ * Génère les variables d'environnement pour l'authentification
+ */
+export const generateAuthEnvExample = (config: AuthConfig): FileTemplate => {
+  const content = getAuthEnvVariables(config)
+    .map(({ name, description, example }) => `# ${description}\n${name}="${example}"`)
+    .join("\n\n");
+
   return {
     path: ".env.example",
-    content: envVars,
+    content: `${content}\n`,
   };
 };
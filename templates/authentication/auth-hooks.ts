@@ -3,8 +3,8 @@
  * Génère les hooks React et utilitaires pour l'authentification
  */
 
-import { AuthConfig } from './index';
-import { FileTemplate } from '../types';
+import { AuthConfig } from './index.js';
+import { FileTemplate } from '../types.js';
 
 /**
  * Génère le hook d'authentification principal
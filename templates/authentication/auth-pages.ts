@@ -3,8 +3,8 @@
  * Génère les pages Next.js pour l'authentification
  */
 
-import { AuthConfig } from './index';
-import { FileTemplate } from '../types';
+import { AuthConfig } from './index.js';
+import { FileTemplate } from '../types.js';
 
 /**
  * Génère la page de connexion
@@ -3,46 +3,56 @@
  * Orchestre la génération de tous les fichiers d'authentification
  */
 
-import { FileTemplate, GenerationResult } from "../types";
+import { FileTemplate, GenerationResult, TemplateGenerator } from "../types.js";
+import {
+  createTemplateMetadata,
+  parseDependencySpecs,
+  toGenerationResult,
+  toValidationResult,
+} from "../generation.js";
 import {
   generateLoginAction,
   generateLogoutAction,
   generatePasswordResetActions,
   generateProfileActions,
   generateSignupAction,
-} from "./auth-actions";
+} from "./auth-actions.js";
 import {
   generateLoginForm,
   generateSignupForm,
   generateSocialLogin,
-} from "./auth-components";
+} from "./auth-components.js";
 import {
   generateAuthApiRoute,
   generateAuthClientConfig,
   generateAuthEnvExample,
   generateAuthMiddleware,
+  generateAuthMiddlewareSegment,
+  generateAuthPrismaSchema,
   generateAuthServerConfig,
-} from "./auth-config";
+  generatePermissionsLibrary,
+  getAuthEnvVariables,
+} from "./auth-config.js";
 import {
   generateAuthGuard,
   generateAuthTypes,
   generateAuthValidation,
   generateUseAuth,
   generateUserMenu,
-} from "./auth-hooks";
+} from "./auth-hooks.js";
 import {
   generateDashboardPage,
   generateForgotPasswordPage,
   generateLoginPage,
   generateSignupPage,
   generateVerifyEmailPage,
-} from "./auth-pages";
+} from "./auth-pages.js";
 import {
   AuthConfig,
   defaultAuthConfig,
   generateAuthDirectoryStructure,
   getAuthDependencies,
-} from "./index";
+} from "./index.js";
 
 /**
  * Valide la configuration d'authentification
@@ -164,6 +174,8 @@ export function generateValidatedAuthProject(
     files.push(generateAuthMiddleware(finalConfig));
     files.push(generateAuthApiRoute());
     files.push(generateAuthEnvExample(finalConfig));
+    files.push(generateAuthPrismaSchema(finalConfig));
+    files.push(generatePermissionsLibrary());
 
     // Composants d'authentification
     files.push(generateLoginForm(finalConfig));
@@ -211,6 +223,8 @@ export function generateValidatedAuthProject(
       instructions,
       structure,
       config: finalConfig,
+      middleware: [generateAuthMiddlewareSegment(finalConfig)],
+      env: getAuthEnvVariables(finalConfig),
     };
   } catch (error) {
     return {
@@ -228,7 +242,6 @@ export function generateValidatedAuthProject(
  */
 function generateAuthInstructions(config: AuthConfig): string[] {
   const instructions: string[] = [];
-  const { dependencies, devDependencies } = getAuthDependencies(config);
 
   // Instructions d'installation
   instructions.push(
@@ -236,23 +249,8 @@ function generateAuthInstructions(config: AuthConfig): string[] {
   );
   instructions.push("");
 
-  // Installation des dépendances
-  if (dependencies.length > 0) {
-    const depCommand =
-      config.packageManager === "npm"
-        ? "npm install"
-        : config.packageManager === "yarn"
-        ? "yarn add"
-        : config.packageManager === "pnpm"
-        ? "pnpm add"
-        : "bun add";
-    instructions.push(`1. **Installer les dépendances :**`);
-    instructions.push(`   \`${depCommand} ${dependencies.join(" ")}\``);
-    instructions.push("");
-  }
-
   // Configuration de la base de données
-  instructions.push("2. **Configurer la base de données :**");
+  instructions.push("1. **Configurer la base de données :**");
   switch (config.database) {
     case "postgresql":
       instructions.push("   - Créer une base de données PostgreSQL");
@@ -269,7 +267,7 @@ function generateAuthInstructions(config: AuthConfig): string[] {
   instructions.push("");
 
   // Configuration des variables d'environnement
-  instructions.push("3. **Configurer les variables d'environnement :**");
+  instructions.push("2. **Configurer les variables d'environnement :**");
   instructions.push("   - Copier .env.example vers .env");
   instructions.push(
     "   - Générer BETTER_AUTH_SECRET: `openssl rand -base64 32`"
@@ -294,7 +292,7 @@ function generateAuthInstructions(config: AuthConfig): string[] {
   instructions.push("");
 
   // Migration de la base de données
-  instructions.push("4. **Initialiser la base de données :**");
+  instructions.push("3. **Initialiser la base de données :**");
   instructions.push(
     "   - Better Auth créera automatiquement les tables nécessaires"
   );
@@ -302,7 +300,7 @@ function generateAuthInstructions(config: AuthConfig): string[] {
   instructions.push("");
 
   // Fonctionnalités activées
-  instructions.push("5. **Fonctionnalités activées :**");
+  instructions.push("4. **Fonctionnalités activées :**");
   config.features.forEach((feature) => {
     switch (feature) {
       case "email-verification":
@@ -331,7 +329,7 @@ function generateAuthInstructions(config: AuthConfig): string[] {
   instructions.push("");
 
   // Routes disponibles
-  instructions.push("6. **Routes d'authentification disponibles :**");
+  instructions.push("5. **Routes d'authentification disponibles :**");
   instructions.push("   - `/login` - Page de connexion");
   instructions.push("   - `/signup` - Page d'inscription");
   instructions.push("   - `/dashboard` - Page protégée (exemple)");
@@ -347,7 +345,7 @@ function generateAuthInstructions(config: AuthConfig): string[] {
   instructions.push("");
 
   // Configuration de sécurité
-  instructions.push("7. **Configuration de sécurité :**");
+  instructions.push("6. **Configuration de sécurité :**");
   instructions.push(
     `   - Longueur mot de passe: ${config.security.minPasswordLength}-${config.security.maxPasswordLength} caractères`
   );
@@ -365,7 +363,7 @@ function generateAuthInstructions(config: AuthConfig): string[] {
   instructions.push("");
 
   // Utilisation
-  instructions.push("8. **Utilisation dans les composants :**");
+  instructions.push("7. **Utilisation dans les composants :**");
   instructions.push("   ```tsx");
   instructions.push('   import { useAuth } from "@/hooks/use-auth";');
   instructions.push(
@@ -380,3 +378,32 @@ function generateAuthInstructions(config: AuthConfig): string[] {
 
   return instructions;
 }
+
+/**
+ * Générateur d'authentification enregistré dans le registre des templates
+ */
+export const authTemplateGenerator: TemplateGenerator<AuthConfig> = {
+  name: "auth",
+  description: "Authentification Better Auth (pages, middleware, sessions)",
+  metadata: createTemplateMetadata({
+    name: "auth",
+    description: "Authentification Better Auth (pages, middleware, sessions)",
+    ...getAuthDependencies(defaultAuthConfig),
+    tags: ["auth", "better-auth", "oauth", "sessions"],
+  }),
+  // Sessions et comptes stockés via Prisma
+  dependencies: ["database"],
+  provides: ["better-auth", "permissions"],
+  validate: (config) => toValidationResult(validateAuthConfig(config)),
+  generate: async (config) => {
+    const { dependencies, devDependencies } = getAuthDependencies({
+      ...defaultAuthConfig,
+      ...config,
+    });
+    return toGenerationResult({
+      ...generateValidatedAuthProject(config),
+      dependencies: parseDependencySpecs(dependencies),
+      devDependencies: parseDependencySpecs(devDependencies),
+    });
+  },
+};
@@ -5,7 +5,7 @@
  * Basé sur les patterns d'analyse Better Auth terminés
  */
 
-import { DirectoryStructure, ProjectConfig } from "../types";
+import { DirectoryStructure, ProjectConfig } from "../types.js";
 
 export interface AuthConfig extends ProjectConfig {
   authProvider: "better-auth";
@@ -3,7 +3,7 @@
  * Basé sur les patterns Next.js App Router et les meilleures pratiques
  */
 
-import { FileTemplate } from "../types";
+import { FileTemplate } from "../types.js";
 
 // Interface for the base project configuration
 export interface BaseProjectConfig {
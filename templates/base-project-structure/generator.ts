@@ -5,7 +5,14 @@
  * Basé sur les 17 analyses de patterns terminées et les meilleures pratiques
  */
 
-import { DirectoryStructure, FileTemplate } from "../types";
+import {
+  DirectoryStructure,
+  EnvVariable,
+  FileTemplate,
+  MiddlewareSegment,
+  TemplateGenerator,
+} from "../types.js";
+import { createTemplateMetadata, toGenerationResult, toValidationResult } from "../generation.js";
 import {
   generateComponentsJson,
   generateEnvExample,
@@ -14,7 +21,8 @@ import {
   generatePostCSSConfig,
   generateReadme,
   generateTsConfig,
-} from "./config-files";
+  getBaseEnvVariables,
+} from "./config-files.js";
 import {
   generateErrorPage,
   generateGlobalStyles,
@@ -22,13 +30,13 @@ import {
   generateLoadingPage,
   generateNotFoundPage,
   generateRootLayout,
-} from "./core-files";
+} from "./core-files.js";
 import {
   BaseProjectConfig,
   defaultBaseProjectConfig,
   generateDirectoryStructure,
   generatePackageJson,
-} from "./index";
+} from "./index.js";
 import {
   generateBaseTypes,
   generateConstants,
@@ -36,13 +44,15 @@ import {
   generateUseDebounce,
   generateUseLocalStorage,
   generateUtils,
-} from "./utility-files";
+} from "./utility-files.js";
 
 export interface GeneratedProject {
   config: BaseProjectConfig;
   structure: DirectoryStructure;
   files: FileTemplate[];
   instructions: string[];
+  middleware: MiddlewareSegment[];
+  env: EnvVariable[];
 }
 
 /**
@@ -100,9 +110,29 @@ export function generateBaseProject(
     structure,
     files,
     instructions,
+    middleware: generateBaseMiddlewareSegments(),
+    env: getBaseEnvVariables(),
   };
 }
 
+/**
+ * Segments de middleware du projet de base, composés avec ceux des templates
+ */
+export function generateBaseMiddlewareSegments(): MiddlewareSegment[] {
+  return [
+    {
+      name: "security-headers",
+      template: "base-project-structure",
+      order: 10,
+      matcher: ["/((?!api|_next/static|_next/image|favicon.ico).*)"],
+      body: `  // Headers de sécurité
+  context.response.headers.set('X-Frame-Options', 'DENY');
+  context.response.headers.set('X-Content-Type-Options', 'nosniff');
+  context.response.headers.set('Referrer-Policy', 'strict-origin-when-cross-origin');`,
+    },
+  ];
+}
+
 /**
  * Génère des fichiers additionnels selon la configuration
  */
@@ -220,6 +250,7 @@ export const config = {
     content: JSON.stringify(
       {
         extends: ["next/core-web-vitals", "next/typescript"],
+        ignorePatterns: [".next-cli/"],
         rules: {
           "@typescript-eslint/no-unused-vars": "error",
           "@typescript-eslint/no-explicit-any": "warn",
@@ -351,3 +382,26 @@ export function generateValidatedBaseProject(
 
   return generateBaseProject(customConfig);
 }
+
+/**
+ * Générateur du projet de base enregistré dans le registre des templates
+ */
+export const baseProjectTemplateGenerator: TemplateGenerator<BaseProjectConfig> = {
+  name: "base-project-structure",
+  description: "Structure de base Next.js 15 (App Router, Tailwind CSS v4, Prisma)",
+  metadata: createTemplateMetadata({
+    name: "base-project-structure",
+    description: "Structure de base Next.js 15 (App Router, Tailwind CSS v4, Prisma)",
+    dependencies: [
+      ...defaultBaseProjectConfig.dependencies.core,
+      ...defaultBaseProjectConfig.dependencies.ui,
+    ],
+    devDependencies: defaultBaseProjectConfig.dependencies.dev,
+    tags: ["nextjs", "app-router", "tailwind", "base"],
+  }),
+  validate: (config) => toValidationResult(validateProjectConfig(config)),
+  generate: async (config) => {
+    const project = generateValidatedBaseProject(config);
+    return toGenerationResult(project);
+  },
+};
@@ -5,7 +5,7 @@
  * Basé sur les 17 analyses de patterns terminées
  */
 
-import { DirectoryStructure, FileTemplate, ProjectConfig } from "../types";
+import { DirectoryStructure, FileTemplate, ProjectConfig } from "../types.js";
 
 export interface BaseProjectConfig extends ProjectConfig {
   projectName: string;
@@ -6,8 +6,8 @@
 import {
   generateValidatedBaseProject,
   validateProjectConfig,
-} from "./generator";
-import { BaseProjectConfig } from "./index";
+} from "./generator.js";
+import { BaseProjectConfig } from "./index.js";
 
 /**
  * Test de validation de configuration
@@ -3,7 +3,7 @@
  * Basé sur les patterns d'analyse et les meilleures pratiques
  */
 
-import { FileTemplate } from "../types";
+import { FileTemplate } from "../types.js";
 
 // Interface for the base project configuration
 export interface BaseProjectConfig {
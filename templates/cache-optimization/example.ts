@@ -3,8 +3,8 @@
  * Usage examples showing different configuration presets and implementation patterns
  */
 
-import { generateCompleteCacheOptimization, CacheOptimizationGenerationOptions } from "./generator";
-import { CacheOptimizationConfig } from "./index";
+import { generateCompleteCacheOptimization, CacheOptimizationGenerationOptions } from "./generator.js";
+import { CacheOptimizationConfig } from "./index.js";
 
 /**
  * Example 1: Aggressive caching for high-traffic sites
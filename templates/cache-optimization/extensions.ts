@@ -3,8 +3,8 @@
  * Advanced features and extensions for cache optimization
  */
 
-import { CacheOptimizationConfig } from "./index";
-import { FileTemplate } from "../types";
+import { CacheOptimizationConfig } from "./index.js";
+import { FileTemplate } from "../types.js";
 
 /**
  * Advanced cache warming extension
@@ -3,17 +3,26 @@
  * Main generator logic that orchestrates file creation and dependency management
  */
 
-import { FileTemplate } from "../types";
-import { CacheOptimizationConfig, CacheOptimizationTemplate, defaultCacheOptimizationConfig } from "./index";
+import { FileTemplate, TemplateGenerator } from "../types.js";
+import { createTemplateMetadata, toGenerationResult, toValidationResult } from "../generation.js";
+import {
+  CacheOptimizationConfig,
+  CacheOptimizationTemplate,
+  defaultCacheOptimizationConfig,
+  generateCacheOptimizationTemplate,
+  getCacheEnvVariables,
+} from "./index.js";
+import { CACHE_STRATEGIES } from "./types.js";
 import { 
   generateCacheFiles, 
   generateOptimizationFiles, 
   generateApiFiles, 
+  generateCacheMiddlewareSegments,
   generateConfigFiles,
   generateComponentFiles,
   generateHookFiles
-} from "./utilities";
-import { generateAllExtensions } from "./extensions";
+} from "./utilities.js";
+import { generateAllExtensions } from "./extensions.js";
 
 export interface CacheOptimizationGenerationOptions {
   includeExamples?: boolean;
@@ -94,6 +103,8 @@ export function generateCompleteCacheOptimization(
     devDependencies,
     instructions,
     directoryStructure,
+    env: getCacheEnvVariables(finalConfig),
+    middleware: generateCacheMiddlewareSegments(finalConfig),
   };
 }
 
@@ -287,3 +298,51 @@ function generateInstructions(
 
   return instructions;
 }
+
+/**
+ * Validate the cache configuration at generation time
+ * Environment variables are declared in .env.example and checked by the generated env.ts
+ */
+export function validateCacheOptimizationConfig(config: Partial<CacheOptimizationConfig>): {
+  errors: string[];
+  warnings: string[];
+} {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (config.caching && !(config.caching.strategy in CACHE_STRATEGIES)) {
+    errors.push(
+      `Unknown cache strategy "${config.caching.strategy}". Choices: ${Object.keys(CACHE_STRATEGIES).join(", ")}`
+    );
+  }
+
+  if (config.performance?.multiLevelCache && !config.performance.redis) {
+    warnings.push("Multi-level cache requires Redis to be effective");
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * Cache optimization generator registered in the template registry
+ */
+export const cacheOptimizationTemplateGenerator: TemplateGenerator<CacheOptimizationConfig> = {
+  name: "cache-optimization",
+  description: "Cache Next.js et optimisations de performance",
+  metadata: createTemplateMetadata({
+    name: "cache-optimization",
+    description: "Cache Next.js et optimisations de performance",
+    dependencies: ["@vercel/analytics@^1.3.0", "@vercel/speed-insights@^1.0.0"],
+    tags: ["cache", "performance", "isr", "revalidation"],
+  }),
+  validate: (config) => {
+    const { errors, warnings } = validateCacheOptimizationConfig(config);
+    return toValidationResult(errors, warnings);
+  },
+  generate: async (config) => {
+    const { errors, warnings } = validateCacheOptimizationConfig(config);
+    return toGenerationResult(
+      errors.length > 0 ? { errors } : { ...generateCacheOptimizationTemplate(config), warnings }
+    );
+  },
+};
@@ -3,7 +3,14 @@
  * Multi-level caching, revalidation, and performance optimizations for Next.js
  */
 
-import { DirectoryStructure, FileTemplate, ProjectConfig } from "../types";
+import { DirectoryStructure, EnvVariable, FileTemplate, MiddlewareSegment, ProjectConfig } from "../types.js";
+import {
+  generateApiFiles,
+  generateCacheFiles,
+  generateCacheMiddlewareSegments,
+  generateConfigFiles,
+  generateOptimizationFiles,
+} from "./utilities.js";
 
 export interface CacheOptimizationConfig extends ProjectConfig {
   caching: {
@@ -55,6 +62,8 @@ export interface CacheOptimizationTemplate {
   devDependencies: Record<string, string>;
   instructions: string[];
   directoryStructure: DirectoryStructure;
+  env: EnvVariable[];
+  middleware: MiddlewareSegment[];
 }
 
 /**
@@ -145,28 +154,50 @@ export function generateCacheOptimizationTemplate(
     devDependencies,
     instructions,
     directoryStructure,
+    env: getCacheEnvVariables(config),
+    middleware: generateCacheMiddlewareSegments(config),
   };
 }
 
-// Helper functions (implemented in utilities.ts)
-function generateCacheFiles(config: CacheOptimizationConfig): FileTemplate[] {
-  // Implementation moved to utilities.ts
-  return [];
-}
+/**
+ * Environment variables required by Redis and webhook revalidation
+ */
+export function getCacheEnvVariables(config: CacheOptimizationConfig): EnvVariable[] {
+  const variables: EnvVariable[] = [];
 
-function generateOptimizationFiles(config: CacheOptimizationConfig): FileTemplate[] {
-  // Implementation moved to utilities.ts
-  return [];
-}
+  if (config.performance.redis) {
+    variables.push(
+      {
+        name: "UPSTASH_REDIS_REST_URL",
+        description: "Upstash Redis REST endpoint",
+        required: true,
+        secret: false,
+        example: "https://your-instance.upstash.io",
+        template: "cache-optimization",
+      },
+      {
+        name: "UPSTASH_REDIS_REST_TOKEN",
+        description: "Upstash Redis REST token",
+        required: true,
+        secret: true,
+        example: "",
+        template: "cache-optimization",
+      }
+    );
+  }
 
-function generateApiFiles(config: CacheOptimizationConfig): FileTemplate[] {
-  // Implementation moved to utilities.ts
-  return [];
-}
+  if (config.revalidation.webhookRevalidation) {
+    variables.push({
+      name: "REVALIDATION_SECRET",
+      description: "Shared secret checked by the revalidation webhook",
+      required: true,
+      secret: true,
+      example: "your_secret_key",
+      template: "cache-optimization",
+    });
+  }
 
-function generateConfigFiles(config: CacheOptimizationConfig): FileTemplate[] {
-  // Implementation moved to utilities.ts
-  return [];
+  return variables;
 }
 
 function generatePackageScripts(config: CacheOptimizationConfig): Record<string, string> {
@@ -232,6 +263,6 @@ function generateInstructions(config: CacheOptimizationConfig): string[] {
   return instructions;
 }
 
-export * from "./types";
-export * from "./utilities";
-export * from "./extensions";
+export * from "./types.js";
+export * from "./utilities.js";
+export * from "./extensions.js";
@@ -3,8 +3,8 @@
  * Core cache configurations and optimization schemas
  */
 
-import { CacheOptimizationConfig } from "./index";
-import { CACHE_STRATEGIES, CACHE_PRESETS } from "./types";
+import { CacheOptimizationConfig } from "./index.js";
+import { CACHE_STRATEGIES, CACHE_PRESETS } from "./types.js";
 
 /**
  * Cache configuration schema
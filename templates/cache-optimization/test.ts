@@ -4,10 +4,10 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { generateCompleteCacheOptimization } from './generator';
-import { defaultCacheOptimizationConfig, CacheOptimizationConfig } from './index';
-import { validateCacheConfig, getRecommendedConfig } from './schemas';
-import { exampleAggressiveCaching, exampleBalancedOptimization, exampleMinimalCaching } from './example';
+import { generateCompleteCacheOptimization } from './generator.js';
+import { defaultCacheOptimizationConfig, CacheOptimizationConfig } from './index.js';
+import { validateCacheConfig, getRecommendedConfig } from './schemas.js';
+import { exampleAggressiveCaching, exampleBalancedOptimization, exampleMinimalCaching } from './example.js';
 
 describe('Cache Optimization Template', () => {
   describe('Template Generation', () => {
@@ -3,9 +3,9 @@
  * Helper functions and utility classes for cache optimization
  */
 
-import { FileTemplate } from "../types";
-import { CacheOptimizationConfig } from "./index";
-import { CacheStrategy, CACHE_STRATEGIES } from "./types";
+import { FileTemplate, MiddlewareSegment } from "../types.js";
+import { CacheOptimizationConfig } from "./index.js";
+import { CacheStrategy, CACHE_STRATEGIES } from "./types.js";
 
 /**
  * Generate cache-related files
@@ -144,15 +144,37 @@ export function generateConfigFiles(config: CacheOptimizationConfig): FileTempla
     content: generateNextConfig(config),
   });
 
-  // Middleware
-  files.push({
-    path: "middleware.ts",
-    content: generateMiddleware(config),
-  });
-
   return files;
 }
 
+/**
+ * Segment de middleware des en-têtes de cache, composé avec ceux des autres templates
+ */
+export function generateCacheMiddlewareSegments(config: CacheOptimizationConfig): MiddlewareSegment[] {
+  const ttl = (CACHE_STRATEGIES[config.caching.strategy] ?? CACHE_STRATEGIES["balanced"])?.ttl;
+  if (!ttl) {
+    return [];
+  }
+
+  return [
+    {
+      name: "cache-headers",
+      template: "cache-optimization",
+      order: 15,
+      matcher: ["/((?!api|_next/static|_next/image).*)"],
+      body: `  const { pathname } = context;
+
+  // Assets publics : cache long, servis périmés le temps de la revalidation
+  if (/\\.(?:avif|webp|png|jpe?g|gif|svg|ico|woff2?)$/.test(pathname)) {
+    context.response.headers.set(
+      "Cache-Control",
+      "public, max-age=${ttl.static}, stale-while-revalidate=${ttl.default}"
+    );
+  }`,
+    },
+  ];
+}
+
 /**
  * Generate React components
  */
@@ -478,7 +500,8 @@ class RedisCache {
   }
 }
 
-export const redisCache = new RedisCache();
+export const redisCache = new RedisCache();`;
+}
 
 function generateMultiLevelCache(config: CacheOptimizationConfig): string {
   return `/**
@@ -599,7 +622,8 @@ export const imageSizes = {
   tablet: '(max-width: 1024px) 50vw',
   desktop: '33vw',
   hero: '(max-width: 768px) 100vw, (max-width: 1024px) 80vw, 60vw',
-};
+};`;
+}
 
 // Placeholder implementations for remaining functions
 function generatePrefetchUtils(config: CacheOptimizationConfig): string {
@@ -630,10 +654,6 @@ function generateNextConfig(config: CacheOptimizationConfig): string {
   return `// Next.js configuration`;
 }
 
-function generateMiddleware(config: CacheOptimizationConfig): string {
-  return `// Middleware implementation`;
-}
-
 function generateOptimizedImageComponent(config: CacheOptimizationConfig): string {
   return `// Optimized Image component`;
 }
@@ -656,7 +676,4 @@ function generateUsePrefetchHook(config: CacheOptimizationConfig): string {
 
 function generateUsePerformanceHook(config: CacheOptimizationConfig): string {
   return `// usePerformance hook implementation`;
-}`;
-}
-}`;
 }
@@ -0,0 +1,609 @@
+/**
+ * Routes REST et documentation OpenAPI pour le template CRUD
+ * Les handlers réutilisent les schémas Zod de l'entité ; la spécification OpenAPI 3.1
+ * est dérivée des mêmes définitions de champs que ces schémas
+ */
+
+import { CRUDConfig, EntityField } from "./index.js";
+import { FileTemplate } from "../types.js";
+import { getEnumValues, getModelDelegateName } from "./prisma.js";
+import { getInverseRelations, hasSoftDeleteRules } from "./relations.js";
+
+const OPENAPI_FILE = 'public/openapi.json';
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Préfixe des routes de l'entité : /api/product ou /api/v1/product
+ */
+export function getAPIBasePath(config: CRUDConfig): string {
+  const version = config.api.versioning ? `/${config.api.versioning}` : '';
+  return `/api${version}/${config.entity.name.toLowerCase()}`;
+}
+
+/**
+ * Génère les routes REST, la spécification OpenAPI et la page de documentation
+ */
+export function generateCRUDAPIRoutes(config: CRUDConfig): FileTemplate[] {
+  const entityNameLower = config.entity.name.toLowerCase();
+  const basePath = `app${getAPIBasePath(config)}`;
+
+  const files: FileTemplate[] = [
+    { path: `src/lib/${entityNameLower}-api.ts`, content: generateAPIHelpers(config) },
+    { path: `${basePath}/route.ts`, content: generateCollectionRoute(config) },
+    { path: `${basePath}/[id]/route.ts`, content: generateItemRoute(config) },
+  ];
+
+  if (config.api.documentation) {
+    files.push(
+      { path: OPENAPI_FILE, content: `${JSON.stringify(generateCRUDOpenAPIDocument(config), null, 2)}\n` },
+      { path: 'app/api/docs/route.ts', content: generateDocsRoute() },
+    );
+  }
+
+  return files;
+}
+
+/**
+ * Schéma JSON d'un champ, aligné sur le schéma Zod généré par schemas.ts
+ */
+function getFieldJsonSchema(field: EntityField): JsonSchema {
+  const validation = field.validation ?? {};
+  const schema: JsonSchema = { title: field.displayName };
+
+  if (field.description) {
+    schema.description = field.description;
+  }
+
+  switch (field.type) {
+  case 'number':
+    Object.assign(schema, { type: 'number' });
+    if (validation.min !== undefined) schema.minimum = validation.min;
+    if (validation.max !== undefined) schema.maximum = validation.max;
+    break;
+  case 'boolean':
+    Object.assign(schema, { type: 'boolean' });
+    break;
+  case 'date':
+  case 'datetime':
+    Object.assign(schema, { type: 'string', format: 'date-time' });
+    break;
+  case 'json':
+    Object.assign(schema, { type: 'object', additionalProperties: true });
+    break;
+  case 'enum':
+    Object.assign(schema, { type: 'string', enum: getEnumValues(field) });
+    break;
+  case 'email':
+    Object.assign(schema, { type: 'string', format: 'email' });
+    break;
+  case 'url':
+  case 'file':
+  case 'image':
+    Object.assign(schema, { type: 'string', format: 'uri' });
+    break;
+  case 'relation':
+    Object.assign(schema, { type: 'string', format: 'uuid' });
+    break;
+  default:
+    Object.assign(schema, { type: 'string' });
+  }
+
+  if (['string', 'email', 'text'].includes(field.type)) {
+    if (validation.minLength) schema.minLength = validation.minLength;
+    if (validation.maxLength) schema.maxLength = validation.maxLength;
+    if (validation.pattern) schema.pattern = validation.pattern;
+  }
+  if (field.defaultValue !== undefined && field.defaultValue !== null) {
+    schema.default = field.defaultValue;
+  }
+
+  return schema;
+}
+
+function getSortableFields(config: CRUDConfig): string[] {
+  return config.entity.fields.filter(field => field.sortable).map(field => field.name);
+}
+
+function getQueryParameterSchema(field: EntityField): JsonSchema {
+  const { title: _title, description: _description, default: _default, ...schema } = getFieldJsonSchema(field);
+  return schema;
+}
+
+/**
+ * Spécification OpenAPI 3.1 de l'entité (chemins et schémas de composants)
+ */
+export function generateCRUDOpenAPIDocument(config: CRUDConfig): JsonSchema {
+  const { entity } = config;
+  const name = entity.name;
+  const basePath = getAPIBasePath(config);
+  const ref = (schema: string) => ({ $ref: `#/components/schemas/${schema}` });
+  const json = (schema: JsonSchema) => ({ content: { 'application/json': { schema } } });
+  const error = (description: string) => ({ description, ...json(ref('ApiError')) });
+
+  const properties = Object.fromEntries(entity.fields.map(field => [field.name, getFieldJsonSchema(field)]));
+  const required = entity.fields.filter(field => field.required).map(field => field.name);
+  const security = config.api.authentication ? { security: [{ sessionCookie: [] }] } : {};
+  const unauthorized = config.api.authentication ? { 401: error('Authentification requise') } : {};
+  const restricted = getInverseRelations(config).some(relation => relation.onDelete === 'restrict')
+    ? { 409: error('Suppression bloquée par des éléments liés') }
+    : {};
+  const idParameter = { name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } };
+
+  const sortable = [...getSortableFields(config), 'createdAt', 'updatedAt'];
+  const listParameters = [
+    { name: 'page', in: 'query', schema: { type: 'integer', minimum: 1, default: 1 } },
+    { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100, default: 10 } },
+    ...(entity.fields.some(field => field.searchable)
+      ? [{ name: 'search', in: 'query', description: 'Recherche textuelle', schema: { type: 'string' } }]
+      : []),
+    {
+      name: 'sort',
+      in: 'query',
+      description: `Tri : champ:asc|desc séparés par des virgules (${sortable.join(', ')})`,
+      schema: { type: 'string', examples: [`${sortable[0]}:asc`] },
+    },
+    ...entity.fields
+      .filter(field => field.filterable)
+      .map(field => ({ name: field.name, in: 'query', description: `Filtre : ${field.displayName}`, schema: getQueryParameterSchema(field) })),
+  ];
+
+  return {
+    openapi: '3.1.0',
+    info: { title: 'API REST', version: config.api.versioning ?? '1.0.0' },
+    tags: [{ name, description: entity.description ?? entity.displayName }],
+    paths: {
+      [basePath]: {
+        get: {
+          tags: [name],
+          operationId: `list${name}`,
+          summary: `Liste paginée de ${entity.displayName}`,
+          parameters: listParameters,
+          ...security,
+          responses: {
+            200: { description: 'Liste paginée', ...json(ref(`${name}List`)) },
+            400: error('Paramètres invalides'),
+            ...unauthorized,
+          },
+        },
+        post: {
+          tags: [name],
+          operationId: `create${name}`,
+          summary: `Crée un ${entity.displayName}`,
+          requestBody: { required: true, ...json(ref(`${name}Create`)) },
+          ...security,
+          responses: {
+            201: { description: 'Élément créé', ...json(ref(name)) },
+            400: error('Données invalides'),
+            ...unauthorized,
+            409: error('Valeur déjà utilisée'),
+          },
+        },
+      },
+      [`${basePath}/{id}`]: {
+        parameters: [idParameter],
+        get: {
+          tags: [name],
+          operationId: `get${name}`,
+          summary: `Récupère un ${entity.displayName}`,
+          ...security,
+          responses: {
+            200: { description: 'Élément', ...json(ref(name)) },
+            ...unauthorized,
+            404: error('Élément introuvable'),
+          },
+        },
+        patch: {
+          tags: [name],
+          operationId: `update${name}`,
+          summary: `Met à jour un ${entity.displayName}`,
+          requestBody: { required: true, ...json(ref(`${name}Update`)) },
+          ...security,
+          responses: {
+            200: { description: 'Élément mis à jour', ...json(ref(name)) },
+            400: error('Données invalides'),
+            ...unauthorized,
+            404: error('Élément introuvable'),
+            409: error('Valeur déjà utilisée'),
+          },
+        },
+        delete: {
+          tags: [name],
+          operationId: `delete${name}`,
+          summary: `Supprime un ${entity.displayName}`,
+          ...security,
+          responses: {
+            204: { description: 'Élément supprimé' },
+            ...unauthorized,
+            404: error('Élément introuvable'),
+            ...restricted,
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        [name]: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            ...properties,
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+          },
+          required: ['id', ...required, 'createdAt', 'updatedAt'],
+        },
+        [`${name}Create`]: { type: 'object', properties, required, additionalProperties: false },
+        [`${name}Update`]: { type: 'object', properties, additionalProperties: false },
+        [`${name}List`]: {
+          type: 'object',
+          properties: {
+            items: { type: 'array', items: ref(name) },
+            total: { type: 'integer' },
+            page: { type: 'integer' },
+            limit: { type: 'integer' },
+            totalPages: { type: 'integer' },
+          },
+          required: ['items', 'total', 'page', 'limit', 'totalPages'],
+        },
+        ApiError: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            errors: { type: 'object', additionalProperties: { type: 'array', items: { type: 'string' } } },
+          },
+          required: ['error'],
+        },
+      },
+      ...(config.api.authentication
+        ? { securitySchemes: { sessionCookie: { type: 'apiKey', in: 'cookie', name: 'better-auth.session_token' } } }
+        : {}),
+    },
+  };
+}
+
+/**
+ * Utilitaires partagés par les routes de l'entité
+ */
+function generateAPIHelpers(config: CRUDConfig): string {
+  const entityName = config.entity.name;
+  const entityNameLower = entityName.toLowerCase();
+  const dateFields = config.entity.fields
+    .filter(field => field.type === 'date' || field.type === 'datetime')
+    .map(field => `"${field.name}"`);
+  const filterFields = config.entity.fields
+    .filter(field => field.filterable)
+    .map(field => `  ${field.name}: "${field.type}",`);
+  const sortFields = [...getSortableFields(config), 'createdAt', 'updatedAt'].map(field => `"${field}"`);
+
+  return `import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+${config.api.authentication ? `import { auth } from "@/lib/auth";\n` : ''}${hasSoftDeleteRules(config) ? `import { RelationRestrictError } from "@/lib/crud-relations";\n` : ''}
+// Les dates arrivent en chaînes ISO dans le JSON : converties pour les schémas Zod
+const DATE_FIELDS: string[] = [${dateFields.join(', ')}];
+
+// Champs triables : un champ inconnu est ignoré plutôt que transmis à Prisma
+const SORT_FIELDS = new Set<string>([${sortFields.join(', ')}]);
+
+// Champs filtrables depuis les paramètres de requête, avec leur type
+const FILTER_FIELDS: Record<string, string> = {
+${filterFields.join('\n')}
+};
+
+export function apiError(status: number, error: string, errors?: Record<string, string[] | undefined>) {
+  return NextResponse.json(errors ? { error, errors } : { error }, { status });
+}
+${config.api.authentication ? `
+/**
+ * Renvoie une réponse 401 si la requête n'a pas de session valide
+ */
+export async function require${entityName}Session(request: Request): Promise<NextResponse | null> {
+  const session = await auth.api.getSession({ headers: request.headers });
+  return session ? null : apiError(401, "Authentification requise");
+}
+` : ''}
+/**
+ * Lit le corps JSON d'une requête (objet attendu)
+ */
+export async function read${entityName}Body(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json();
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return null;
+    }
+
+    DATE_FIELDS.forEach((field) => {
+      if (typeof body[field] === "string") {
+        body[field] = new Date(body[field]);
+      }
+    });
+    return body;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extrait la pagination, la recherche, le tri et les filtres des paramètres de requête
+ * ?page=2&limit=20&search=lampe&sort=price:desc,name:asc&status=active
+ */
+export function parse${entityName}ListQuery(params: URLSearchParams) {
+  const page = Number(params.get("page") ?? 1);
+  const limit = Number(params.get("limit") ?? 10);
+
+  const sort = params.get("sort")
+    ?.split(",")
+    .filter(Boolean)
+    .map((entry) => {
+      const [field = "", direction] = entry.split(":");
+      return { field, direction: direction === "desc" ? "desc" as const : "asc" as const };
+    })
+    .filter(({ field }) => SORT_FIELDS.has(field));
+
+  const filters: Record<string, unknown> = {};
+  Object.entries(FILTER_FIELDS).forEach(([field, type]) => {
+    const value = params.get(field);
+    if (value === null || value === "") return;
+
+    filters[field] = type === "number"
+      ? Number(value)
+      : type === "boolean"
+        ? value === "true"
+        : value;
+  });
+
+  return { page, limit, search: params.get("search") ?? undefined, sort, filters };
+}
+
+/**
+ * Convertit une erreur Prisma en réponse HTTP
+ */
+export function to${entityName}ApiError(error: unknown): NextResponse {${hasSoftDeleteRules(config) ? `
+  if (error instanceof RelationRestrictError) {
+    return apiError(409, error.message);
+  }
+` : ''}
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === "P2002") {
+      const target = error.meta?.target;
+      const fields = Array.isArray(target) ? target.map(String) : [];
+      return apiError(409, "Valeur déjà utilisée", Object.fromEntries(
+        fields.map((field) => [field, ["Cette valeur existe déjà"]])
+      ));
+    }
+    if (error.code === "P2025") {
+      return apiError(404, "${entityName} introuvable");
+    }
+    if (error.code === "P2003") {
+      return apiError(409, "Référence invalide");
+    }
+  }
+
+  console.error("Erreur API ${entityNameLower}:", error);
+  return apiError(500, "Erreur interne");
+}
+`;
+}
+
+function authGuard(config: CRUDConfig): string {
+  return config.api.authentication
+    ? `  const unauthorized = await require${config.entity.name}Session(request);
+  if (unauthorized) return unauthorized;
+
+`
+    : '';
+}
+
+/**
+ * GET (liste) et POST sur la collection
+ */
+function generateCollectionRoute(config: CRUDConfig): string {
+  const entityName = config.entity.name;
+  const entityNameLower = entityName.toLowerCase();
+  const model = `db.${getModelDelegateName(entityName)}`;
+  const helpers = [
+    'apiError',
+    `parse${entityName}ListQuery`,
+    `read${entityName}Body`,
+    ...(config.api.authentication ? [`require${entityName}Session`] : []),
+    `to${entityName}ApiError`,
+  ];
+
+  return `import { NextRequest, NextResponse } from "next/server";
+import { revalidateTag } from "next/cache";
+import { Prisma } from "@prisma/client";
+
+import { db } from "@/lib/db";
+import { ${helpers.join(', ')} } from "@/lib/${entityNameLower}-api";
+import { build${entityName}OrderByClause, build${entityName}WhereClause } from "@/lib/${entityNameLower}-utils";
+import { ${entityNameLower}PaginationSchema, ${entityNameLower}Schema } from "@/shared/validation/${entityNameLower}";
+import type { ${entityName}Filter } from "@/shared/types/${entityNameLower}";
+
+/**
+ * GET ${getAPIBasePath(config)} : liste paginée, triée et filtrée
+ */
+export async function GET(request: NextRequest) {
+${authGuard(config)}  const { page, limit, search, sort, filters } = parse${entityName}ListQuery(request.nextUrl.searchParams);
+  const pagination = ${entityNameLower}PaginationSchema.safeParse({ page, limit });
+
+  if (!pagination.success) {
+    return apiError(400, "Paramètres invalides", pagination.error.flatten().fieldErrors);
+  }
+
+  try {
+    const where = build${entityName}WhereClause(search, filters as ${entityName}Filter);
+    const [items, total] = await db.$transaction([
+      ${model}.findMany({
+        where,
+        orderBy: build${entityName}OrderByClause(sort),
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      ${model}.count({ where }),
+    ]);
+
+    return NextResponse.json({ items, total, page, limit, totalPages: Math.ceil(total / limit) });
+  } catch (error) {
+    return to${entityName}ApiError(error);
+  }
+}
+
+/**
+ * POST ${getAPIBasePath(config)} : création validée par le schéma Zod de l'entité
+ */
+export async function POST(request: NextRequest) {
+${authGuard(config)}  const body = await read${entityName}Body(request);
+  if (!body) {
+    return apiError(400, "Corps JSON invalide");
+  }
+
+  const validation = ${entityNameLower}Schema.safeParse(body);
+  if (!validation.success) {
+    return apiError(400, "Données invalides", validation.error.flatten().fieldErrors);
+  }
+
+  try {
+    const item = await ${model}.create({
+      data: validation.data as Prisma.${entityName}UncheckedCreateInput,
+    });
+    revalidateTag("${entityNameLower}");
+
+    return NextResponse.json(item, { status: 201 });
+  } catch (error) {
+    return to${entityName}ApiError(error);
+  }
+}
+`;
+}
+
+/**
+ * GET, PATCH et DELETE sur un élément
+ */
+function generateItemRoute(config: CRUDConfig): string {
+  const entityName = config.entity.name;
+  const entityNameLower = entityName.toLowerCase();
+  const model = `db.${getModelDelegateName(entityName)}`;
+  const softDelete = config.features.includes('soft-delete');
+  const deleteRules = hasSoftDeleteRules(config);
+  const where = `{ id${softDelete ? ', deletedAt: null' : ''} }`;
+  const path = `${getAPIBasePath(config)}/:id`;
+  const helpers = [
+    'apiError',
+    `read${entityName}Body`,
+    ...(config.api.authentication ? [`require${entityName}Session`] : []),
+    `to${entityName}ApiError`,
+  ];
+
+  return `import { NextRequest, NextResponse } from "next/server";
+import { revalidateTag } from "next/cache";
+import { Prisma } from "@prisma/client";
+
+import { db } from "@/lib/db";
+import { ${helpers.join(', ')} } from "@/lib/${entityNameLower}-api";
+import { ${entityNameLower}UpdateSchema } from "@/shared/validation/${entityNameLower}";${deleteRules ? `
+import { softDelete${entityName} } from "@/lib/${entityNameLower}-relations";` : ''}
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET ${path}
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+${authGuard(config)}  const { id } = await params;
+
+  try {
+    const item = await ${model}.findFirst({ where: ${where} });
+    return item ? NextResponse.json(item) : apiError(404, "${entityName} introuvable");
+  } catch (error) {
+    return to${entityName}ApiError(error);
+  }
+}
+
+/**
+ * PATCH ${path} : mise à jour partielle
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+${authGuard(config)}  const { id } = await params;
+  const body = await read${entityName}Body(request);
+  if (!body) {
+    return apiError(400, "Corps JSON invalide");
+  }
+
+  const validation = ${entityNameLower}UpdateSchema.safeParse(body);
+  if (!validation.success) {
+    return apiError(400, "Données invalides", validation.error.flatten().fieldErrors);
+  }
+
+  try {
+    const item = await ${model}.update({
+      where: ${where},
+      data: validation.data as Prisma.${entityName}UncheckedUpdateInput,
+    });
+    revalidateTag("${entityNameLower}");
+    revalidateTag(\`${entityNameLower}:\${id}\`);
+
+    return NextResponse.json(item);
+  } catch (error) {
+    return to${entityName}ApiError(error);
+  }
+}
+
+/**
+ * DELETE ${path}${softDelete ? ' (suppression logique)' : ''}
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+${authGuard(config)}  const { id } = await params;
+
+  try {
+    ${deleteRules
+    ? `const deleted = await db.$transaction((tx) => softDelete${entityName}(tx, [id]));
+    if (deleted === 0) {
+      return apiError(404, "${entityName} introuvable");
+    }`
+    : softDelete
+      ? `await ${model}.update({ where: ${where}, data: { deletedAt: new Date() } });`
+      : `await ${model}.delete({ where: { id } });`}
+    revalidateTag("${entityNameLower}");
+    revalidateTag(\`${entityNameLower}:\${id}\`);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return to${entityName}ApiError(error);
+  }
+}
+`;
+}
+
+/**
+ * Page Swagger UI servie par /api/docs, commune à toutes les entités
+ */
+function generateDocsRoute(): string {
+  return `const SWAGGER_UI = "https://unpkg.com/swagger-ui-dist@5";
+
+/**
+ * GET /api/docs : documentation interactive de /openapi.json
+ */
+export function GET() {
+  const html = \`<!doctype html>
+<html lang="fr">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Documentation de l'API</title>
+    <link rel="stylesheet" href="\${SWAGGER_UI}/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="\${SWAGGER_UI}/swagger-ui-bundle.js" crossorigin></script>
+    <script>
+      window.ui = SwaggerUIBundle({ url: "/openapi.json", dom_id: "#swagger-ui" });
+    </script>
+  </body>
+</html>\`;
+
+  return new Response(html, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+}
+`;
+}
@@ -0,0 +1,757 @@
+/**
+ * Export et import de données pour le template CRUD
+ * Génère la route d'export en flux (CSV, JSON, XLSX) et l'import validé avec prévisualisation
+ */
+
+import { CRUDConfig, EntityField } from "./index.js";
+import { FileTemplate } from "../types.js";
+import { getModelDelegateName } from "./prisma.js";
+
+/**
+ * Génère les fichiers d'export/import selon les fonctionnalités activées
+ */
+export function generateCRUDDataTransfer(config: CRUDConfig): FileTemplate[] {
+  const entityNameLower = config.entity.name.toLowerCase();
+  const files: FileTemplate[] = [generateDataLibrary(config)];
+
+  if (config.features.includes('export')) {
+    files.push(
+      { path: `app/api/${entityNameLower}/export/route.ts`, content: generateExportRoute(config) },
+      {
+        path: `src/components/${entityNameLower}/${entityNameLower}-export-menu.tsx`,
+        content: generateExportMenu(config),
+      },
+    );
+  }
+
+  if (config.features.includes('import')) {
+    files.push(
+      { path: `src/services/${entityNameLower}/data-actions.ts`, content: generateImportActions(config) },
+      {
+        path: `src/components/${entityNameLower}/${entityNameLower}-import-dialog.tsx`,
+        content: generateImportDialog(config),
+      },
+    );
+  }
+
+  return files;
+}
+
+/**
+ * Indique si l'export ou l'import est activé
+ */
+export function hasDataTransfer(config: CRUDConfig): boolean {
+  return config.features.includes('export') || config.features.includes('import');
+}
+
+/**
+ * Colonnes exportées : identifiant, champs affichés dans la table, dates système
+ */
+function getExportColumns(fields: EntityField[]): string[] {
+  const exportable = fields.filter(field => field.display.showInTable);
+  return [
+    `  { key: "id", label: "ID", type: "string", importable: false },`,
+    ...exportable.map(field => (
+      `  { key: "${field.name}", label: ${JSON.stringify(field.displayName)}, type: "${field.type}", importable: ${field.display.showInForm} },`
+    )),
+    // Champs du formulaire absents de la table : importables mais non exportés par défaut
+    ...fields
+      .filter(field => !field.display.showInTable && field.display.showInForm)
+      .map(field => (
+        `  { key: "${field.name}", label: ${JSON.stringify(field.displayName)}, type: "${field.type}", importable: true, exported: false },`
+      )),
+    `  { key: "createdAt", label: "Créé le", type: "datetime", importable: false },`,
+    `  { key: "updatedAt", label: "Modifié le", type: "datetime", importable: false },`,
+  ];
+}
+
+/**
+ * Bibliothèque partagée client/serveur : colonnes, CSV, conversion des lignes
+ */
+function generateDataLibrary(config: CRUDConfig): FileTemplate {
+  const entityName = config.entity.name;
+  const entityNameLower = entityName.toLowerCase();
+
+  return {
+    path: `src/lib/${entityNameLower}-data.ts`,
+    content: `/**
+ * Export et import de ${entityName}
+ * Colonnes, sérialisation CSV et conversion des lignes importées
+ */
+
+export type ${entityName}ExportFormat = "csv" | "json" | "xlsx";
+
+export interface ${entityName}DataColumn {
+  key: string;
+  label: string;
+  type: string;
+  importable: boolean;
+  exported?: boolean;
+}
+
+export const ${entityNameLower}Columns: ${entityName}DataColumn[] = [
+${getExportColumns(config.entity.fields).join('\n')}
+];
+
+export const ${entityNameLower}ExportFormats: { format: ${entityName}ExportFormat; label: string; contentType: string }[] = [
+  { format: "csv", label: "CSV", contentType: "text/csv; charset=utf-8" },
+  { format: "json", label: "JSON", contentType: "application/json; charset=utf-8" },
+  { format: "xlsx", label: "Excel (XLSX)", contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" },
+];
+
+export interface ${entityName}ExportQuery {
+  format: ${entityName}ExportFormat;
+  search?: string;
+  filters?: Record<string, unknown>;
+  sort?: { field: string; direction: "asc" | "desc" }[];
+  fields?: string[];
+}
+
+/**
+ * Construit l'URL de la route d'export pour la requête courante de la table
+ */
+export function build${entityName}ExportUrl(query: ${entityName}ExportQuery): string {
+  const params = new URLSearchParams({ format: query.format });
+
+  if (query.search) params.set("search", query.search);
+  if (query.filters && Object.keys(query.filters).length > 0) {
+    params.set("filters", JSON.stringify(query.filters));
+  }
+  if (query.sort && query.sort.length > 0) {
+    params.set("sort", query.sort.map(({ field, direction }) => \`\${field}:\${direction}\`).join(","));
+  }
+  query.fields?.forEach((field) => params.append("fields", field));
+
+  return \`/api/${entityNameLower}/export?\${params.toString()}\`;
+}
+
+/**
+ * Colonnes exportées, éventuellement restreintes à une sélection de champs
+ */
+export function get${entityName}ExportColumns(fields?: string[]): ${entityName}DataColumn[] {
+  return fields && fields.length > 0
+    ? ${entityNameLower}Columns.filter((column) => fields.includes(column.key))
+    : ${entityNameLower}Columns.filter((column) => column.exported !== false);
+}
+
+/**
+ * Convertit une valeur pour une cellule CSV
+ */
+export function format${entityName}CsvValue(value: unknown, type: string): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (type === "boolean") return value ? "Oui" : "Non";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Sérialise une ligne CSV (RFC 4180)
+ */
+export function format${entityName}CsvLine(values: string[]): string {
+  return values
+    .map((value) => (/[",\\r\\n;]/.test(value) ? \`"\${value.replace(/"/g, '""')}"\` : value))
+    .join(",") + "\\r\\n";
+}
+
+/**
+ * Analyse un fichier CSV (séparateur , ou ;, champs entre guillemets)
+ */
+export function parse${entityName}Csv(content: string): Record<string, string>[] {
+  const text = content.replace(/^\\uFEFF/, "");
+  const firstLine = text.split(/\\r?\\n/, 1)[0] ?? "";
+  const delimiter = firstLine.split(";").length > firstLine.split(",").length ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\\n" || char === "\\r") {
+      if (char === "\\r" && text[index + 1] === "\\n") index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  const [headers = [], ...lines] = rows.filter((line) => line.some((value) => value.trim() !== ""));
+  return lines.map((line) => Object.fromEntries(headers.map((header, index) => [header.trim(), line[index] ?? ""])));
+}
+
+/**
+ * Associe les en-têtes d'un fichier importé (clé ou libellé) aux champs importables
+ * et convertit les valeurs selon le type du champ
+ */
+export function to${entityName}ImportRecord(record: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  Object.entries(record).forEach(([header, value]) => {
+    const name = header.trim().toLowerCase();
+    const column = ${entityNameLower}Columns.find(
+      (entry) => entry.importable && (entry.key.toLowerCase() === name || entry.label.toLowerCase() === name)
+    );
+
+    if (column && value !== null && value !== undefined && value !== "") {
+      result[column.key] = parse${entityName}ImportValue(value, column.type);
+    }
+  });
+
+  return result;
+}
+
+function parse${entityName}ImportValue(value: unknown, type: string): unknown {
+  if (typeof value !== "string") return value;
+
+  const text = value.trim();
+  switch (type) {
+    case "number":
+      return text === "" ? undefined : Number(text.replace(",", "."));
+    case "boolean":
+      return ["oui", "true", "1", "yes", "x"].includes(text.toLowerCase());
+    case "date":
+    case "datetime":
+      return new Date(text);
+    case "json":
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    default:
+      return text;
+  }
+}
+`,
+  };
+}
+
+/**
+ * Route d'export : parcourt la requête filtrée et triée par lots et l'écrit en flux
+ */
+function generateExportRoute(config: CRUDConfig): string {
+  const entityName = config.entity.name;
+  const entityNameLower = entityName.toLowerCase();
+  const model = `db.${getModelDelegateName(entityName)}`;
+
+  return `import { NextRequest, NextResponse } from "next/server";
+import { PassThrough, Readable } from "node:stream";
+import ExcelJS from "exceljs";
+
+import { db } from "@/lib/db";
+import { build${entityName}OrderByClause, build${entityName}WhereClause } from "@/lib/${entityNameLower}-utils";
+import {
+  ${entityNameLower}ExportFormats,
+  format${entityName}CsvLine,
+  format${entityName}CsvValue,
+  get${entityName}ExportColumns,
+  type ${entityName}DataColumn,
+  type ${entityName}ExportFormat,
+} from "@/lib/${entityNameLower}-data";
+import type { ${entityName}, ${entityName}Filter } from "@/shared/types/${entityNameLower}";
+${config.permissions.enabled ? `import { checkPermission } from "@/lib/permissions";\n` : ''}
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const BATCH_SIZE = 500;
+
+/**
+ * Exporte les ${entityName} correspondant à la recherche, aux filtres et au tri de la table
+ * GET /api/${entityNameLower}/export?format=csv&search=...&filters={...}&sort=name:asc
+ */
+export async function GET(request: NextRequest) {
+${config.permissions.enabled ? `  await checkPermission('${entityNameLower}', 'export');\n\n` : ''}  const params = request.nextUrl.searchParams;
+  const format = (params.get("format") ?? "csv") as ${entityName}ExportFormat;
+  const definition = ${entityNameLower}ExportFormats.find((entry) => entry.format === format);
+
+  if (!definition) {
+    return NextResponse.json({ error: \`Format d'export inconnu : \${format}\` }, { status: 400 });
+  }
+
+  let filters: ${entityName}Filter | undefined;
+  try {
+    filters = params.get("filters") ? JSON.parse(params.get("filters") as string) : undefined;
+  } catch {
+    return NextResponse.json({ error: "Filtres invalides" }, { status: 400 });
+  }
+
+  const sort = params.get("sort")
+    ?.split(",")
+    .filter(Boolean)
+    .map((entry) => {
+      const [field = "", direction] = entry.split(":");
+      return { field, direction: direction === "desc" ? "desc" as const : "asc" as const };
+    });
+
+  const columns = get${entityName}ExportColumns(params.getAll("fields"));
+  const items = iterate${entityName}(
+    build${entityName}WhereClause(params.get("search") ?? undefined, filters),
+    build${entityName}OrderByClause(sort)
+  );
+  const filename = \`${entityNameLower}-\${new Date().toISOString().slice(0, 10)}.\${format}\`;
+
+  return new Response(stream${entityName}Export(format, columns, items), {
+    headers: {
+      "Content-Type": definition.contentType,
+      "Content-Disposition": \`attachment; filename="\${filename}"\`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+/**
+ * Parcourt les résultats par lots pour ne pas charger toute la table en mémoire
+ */
+async function* iterate${entityName}(
+  where: Record<string, any>,
+  orderBy: Record<string, any>[]
+): AsyncGenerator<${entityName}> {
+  for (let skip = 0; ; skip += BATCH_SIZE) {
+    const batch = await ${model}.findMany({ where, orderBy, skip, take: BATCH_SIZE });
+    yield* batch as ${entityName}[];
+
+    if (batch.length < BATCH_SIZE) return;
+  }
+}
+
+function stream${entityName}Export(
+  format: ${entityName}ExportFormat,
+  columns: ${entityName}DataColumn[],
+  items: AsyncGenerator<${entityName}>
+): ReadableStream<Uint8Array> {
+  if (format === "xlsx") {
+    return stream${entityName}Workbook(columns, items);
+  }
+
+  return toReadableStream(format === "json" ? json${entityName}Chunks(columns, items) : csv${entityName}Chunks(columns, items));
+}
+
+async function* csv${entityName}Chunks(columns: ${entityName}DataColumn[], items: AsyncGenerator<${entityName}>) {
+  // BOM UTF-8 pour l'ouverture correcte des accents dans Excel
+  yield "\\uFEFF" + format${entityName}CsvLine(columns.map((column) => column.label));
+
+  for await (const item of items) {
+    const record = item as unknown as Record<string, unknown>;
+    yield format${entityName}CsvLine(columns.map((column) => format${entityName}CsvValue(record[column.key], column.type)));
+  }
+}
+
+async function* json${entityName}Chunks(columns: ${entityName}DataColumn[], items: AsyncGenerator<${entityName}>) {
+  let first = true;
+  yield "[";
+
+  for await (const item of items) {
+    const record = item as unknown as Record<string, unknown>;
+    const entry = Object.fromEntries(columns.map((column) => [column.key, record[column.key] ?? null]));
+    yield (first ? "\\n  " : ",\\n  ") + JSON.stringify(entry);
+    first = false;
+  }
+
+  yield first ? "]\\n" : "\\n]\\n";
+}
+
+function stream${entityName}Workbook(
+  columns: ${entityName}DataColumn[],
+  items: AsyncGenerator<${entityName}>
+): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false });
+  const sheet = workbook.addWorksheet("${config.entity.displayName}");
+  sheet.columns = columns.map((column) => ({ header: column.label, key: column.key, width: 20 }));
+
+  (async () => {
+    for await (const item of items) {
+      const record = item as unknown as Record<string, unknown>;
+      sheet.addRow(Object.fromEntries(columns.map((column) => {
+        const value = record[column.key];
+        return [column.key, value !== null && typeof value === "object" && !(value instanceof Date) ? JSON.stringify(value) : value];
+      }))).commit();
+    }
+    sheet.commit();
+    await workbook.commit();
+  })().catch((error) => output.destroy(error));
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+}
+
+function toReadableStream(chunks: AsyncGenerator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(value));
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+`;
+}
+
+/**
+ * Server Actions d'import : prévisualisation (dryRun) puis enregistrement en transaction
+ */
+function generateImportActions(config: CRUDConfig): string {
+  const entityName = config.entity.name;
+  const entityNameLower = entityName.toLowerCase();
+  const model = `db.${getModelDelegateName(entityName)}`;
+
+  return `"use server";
+
+import ExcelJS from "exceljs";
+import { revalidatePath, revalidateTag } from "next/cache";
+import { Prisma } from "@prisma/client";
+
+import { db } from "@/lib/db";
+import { parse${entityName}Csv, to${entityName}ImportRecord } from "@/lib/${entityNameLower}-data";
+import { ${entityNameLower}Schema } from "@/shared/validation/${entityNameLower}";
+import type { ${entityName}ImportActionResult, ${entityName}ImportResult } from "@/shared/types/${entityNameLower}-actions";
+${config.permissions.enabled ? `import { checkPermission } from "@/lib/permissions";\n` : ''}
+const MAX_IMPORT_ROWS = 5000;
+const PREVIEW_ROWS = 10;
+
+/**
+ * Importe des ${entityName} depuis un fichier CSV, JSON ou XLSX
+ * Avec dryRun=true, valide chaque ligne sans rien enregistrer (prévisualisation)
+ * Sinon, enregistre toutes les lignes dans une transaction, uniquement si aucune n'est invalide
+ */
+export async function import${entityName}(formData: FormData): Promise<${entityName}ImportActionResult> {
+  try {
+${config.permissions.enabled ? `    await checkPermission('${entityNameLower}', 'import');\n\n` : ''}    const file = formData.get("file");
+    const dryRun = formData.get("dryRun") === "true";
+
+    if (!(file instanceof File) || file.size === 0) {
+      return { success: false, error: "Aucun fichier fourni" };
+    }
+
+    const records = await read${entityName}ImportFile(file);
+
+    if (records.length === 0) {
+      return { success: false, error: "Le fichier ne contient aucune ligne" };
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      return { success: false, error: \`Le fichier dépasse \${MAX_IMPORT_ROWS} lignes\` };
+    }
+
+    const errors: ${entityName}ImportResult["errors"] = [];
+    const rows: Record<string, unknown>[] = [];
+
+    records.forEach((record, index) => {
+      // Ligne 1 : en-têtes du fichier
+      const row = index + 2;
+      const validation = ${entityNameLower}Schema.safeParse(to${entityName}ImportRecord(record));
+
+      if (validation.success) {
+        rows.push(validation.data);
+      } else {
+        validation.error.issues.forEach((issue) => {
+          errors.push({
+            row,
+            ...(issue.path.length > 0 ? { field: issue.path.join(".") } : {}),
+            message: issue.message,
+          });
+        });
+      }
+    });
+
+    const result: ${entityName}ImportResult = {
+      imported: 0,
+      total: records.length,
+      dryRun,
+      errors,
+      preview: rows.slice(0, PREVIEW_ROWS) as ${entityName}ImportResult["preview"],
+    };
+
+    if (dryRun || errors.length > 0) {
+      return {
+        success: errors.length === 0,
+        data: result,
+        message: errors.length === 0
+          ? \`\${rows.length} ligne(s) prête(s) à être importée(s)\`
+          : \`\${errors.length} erreur(s) sur \${records.length} ligne(s)\`,
+      };
+    }
+
+    await db.$transaction(
+      rows.map((data) => ${model}.create({ data: data as Prisma.${entityName}UncheckedCreateInput }))
+    );
+
+    revalidateTag("${entityNameLower}");
+    revalidatePath("/${entityNameLower}");
+
+    return {
+      success: true,
+      data: { ...result, imported: rows.length },
+      message: \`\${rows.length} ${entityName} importé(s)\`,
+    };
+
+  } catch (error) {
+    console.error("Erreur lors de l'import:", error);
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return { success: false, error: "Import annulé : certaines lignes existent déjà" };
+    }
+    return { success: false, error: "Erreur lors de l'import" };
+  }
+}
+
+/**
+ * Lit les lignes d'un fichier importé selon son extension
+ */
+async function read${entityName}ImportFile(file: File): Promise<Record<string, unknown>[]> {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+
+  if (extension === "json") {
+    const content = JSON.parse(await file.text());
+    if (!Array.isArray(content)) {
+      throw new Error("Le fichier JSON doit contenir un tableau d'objets");
+    }
+    return content;
+  }
+
+  if (extension === "xlsx") {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+
+    const headers: string[] = [];
+    const records: Record<string, unknown>[] = [];
+    sheet.eachRow((row, rowNumber) => {
+      const values = (row.values as unknown[]).slice(1);
+      if (rowNumber === 1) {
+        headers.push(...values.map((value) => String(value ?? "")));
+        return;
+      }
+      records.push(Object.fromEntries(headers.map((header, index) => [header, values[index] ?? ""])));
+    });
+    return records;
+  }
+
+  return parse${entityName}Csv(await file.text());
+}
+`;
+}
+
+/**
+ * Menu d'export lié à la recherche et au tri courants de la table
+ */
+function generateExportMenu(config: CRUDConfig): string {
+  const entityName = config.entity.name;
+  const entityNameLower = entityName.toLowerCase();
+
+  return `"use client";
+
+import { Download } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { build${entityName}ExportUrl, ${entityNameLower}ExportFormats, type ${entityName}ExportQuery } from "@/lib/${entityNameLower}-data";
+
+type ${entityName}ExportMenuProps = Omit<${entityName}ExportQuery, "format">;
+
+export function ${entityName}ExportMenu(query: ${entityName}ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Download className="mr-2 h-4 w-4" />
+          Exporter
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {${entityNameLower}ExportFormats.map(({ format, label }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={build${entityName}ExportUrl({ ...query, format })} download>
+              {label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+`;
+}
+
+/**
+ * Dialogue d'import : prévisualisation des erreurs par ligne puis confirmation
+ */
+function generateImportDialog(config: CRUDConfig): string {
+  const entityName = config.entity.name;
+  const entityNameLower = entityName.toLowerCase();
+
+  return `"use client";
+
+import { useState, useTransition } from "react";
+import { Upload } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import { import${entityName} } from "@/services/${entityNameLower}/data-actions";
+import type { ${entityName}ImportResult } from "@/shared/types/${entityNameLower}-actions";
+
+const MAX_DISPLAYED_ERRORS = 50;
+
+interface ${entityName}ImportDialogProps {
+  onImported?: (result: ${entityName}ImportResult) => void;
+}
+
+export function ${entityName}ImportDialog({ onImported }: ${entityName}ImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<${entityName}ImportResult | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setMessage(null);
+  };
+
+  const submit = (dryRun: boolean) => {
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("dryRun", String(dryRun));
+
+    startTransition(async () => {
+      const result = await import${entityName}(formData);
+      setPreview(result.data ?? null);
+      setMessage(result.error ?? result.message ?? null);
+
+      if (!dryRun && result.success && result.data) {
+        onImported?.(result.data);
+        setOpen(false);
+        reset();
+      }
+    });
+  };
+
+  const canImport = preview?.dryRun === true && preview.errors.length === 0 && !isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="mr-2 h-4 w-4" />
+          Importer
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Importer des ${config.entity.displayName.toLowerCase()}s</DialogTitle>
+          <DialogDescription>
+            Fichier CSV, JSON ou XLSX. Les lignes sont vérifiées avant l'import : rien n'est enregistré si une ligne est invalide.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept=".csv,.json,.xlsx"
+          onChange={(event) => {
+            setFile(event.target.files?.[0] ?? null);
+            setPreview(null);
+            setMessage(null);
+          }}
+        />
+
+        {message && (
+          <p className={preview?.errors.length || !preview ? "text-sm text-destructive" : "text-sm text-muted-foreground"}>
+            {message}
+          </p>
+        )}
+
+        {preview && preview.errors.length > 0 && (
+          <div className="max-h-64 overflow-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ligne</TableHead>
+                  <TableHead>Champ</TableHead>
+                  <TableHead>Erreur</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.errors.slice(0, MAX_DISPLAYED_ERRORS).map((error, index) => (
+                  <TableRow key={\`\${error.row}-\${error.field ?? ""}-\${index}\`}>
+                    <TableCell>{error.row}</TableCell>
+                    <TableCell>{error.field ?? "—"}</TableCell>
+                    <TableCell>{error.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" disabled={!file || isPending} onClick={() => submit(true)}>
+            Prévisualiser
+          </Button>
+          <Button disabled={!canImport} onClick={() => submit(false)}>
+            {isPending ? "Import en cours..." : \`Importer \${preview?.total ?? ""} ligne(s)\`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+`;
+}
@@ -3,8 +3,8 @@
  * Démontre les différents cas d'usage et configurations
  */
 
-import { CRUDGenerator, createCRUDConfig } from './index';
-import type { EntityDefinition, EntityField } from './index';
+import { CRUDGenerator, createCRUDConfig } from './index.js';
+import type { EntityDefinition, EntityField } from './index.js';
 
 /**
  * Exemple 1: CRUD simple pour les utilisateurs
@@ -75,6 +75,7 @@ export function generateUserCRUD() {
         displayName: 'Rôle',
         required: true,
         defaultValue: 'user',
+        values: ['user', 'editor', 'admin'],
         display: {
           showInTable: true,
           showInForm: true,
@@ -445,6 +446,7 @@ export function generateBlogCRUD() {
         displayName: 'Statut',
         required: true,
         defaultValue: 'draft',
+        values: ['draft', 'published', 'archived'],
         display: {
           showInTable: true,
           showInForm: true,
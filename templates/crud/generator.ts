@@ -3,11 +3,23 @@
  * Orchestre la génération de tous les fichiers CRUD
  */
 
-import { FileTemplate } from "../types";
-import { CRUDConfig } from "./index";
-import { generateCRUDTypes } from "./types";
-import { generateCRUDSchemas } from "./schemas";
-import { generateCRUDUtilities } from "./utilities";
+import { FileTemplate, TemplateGenerator } from "../types.js";
+import { createTemplateMetadata, toGenerationResult, toValidationResult } from "../generation.js";
+import { CRUDConfig, EntityDefinition, getCRUDEntities } from "./index.js";
+import { generateCRUDTypes } from "./types.js";
+import { generateCRUDSchemas } from "./schemas.js";
+import {
+  generateCRUDPrismaSchema,
+  getEnumTypeName,
+  getEnumValues,
+  getModelDelegateName,
+  getUniqueConstraints,
+} from "./prisma.js";
+import { generateCRUDUtilities } from "./utilities.js";
+import { generateCRUDDataTransfer, hasDataTransfer } from "./data-transfer.js";
+import { generateCRUDAPIRoutes } from "./api.js";
+import { generateCRUDRelations, getInverseRelations, getRelationComponents, hasSoftDeleteRules } from "./relations.js";
+import { generateCRUDForm, generateCRUDPages, getFormFieldType } from "./pages.js";
 
 /**
  * Interface pour les options de génération CRUD
@@ -20,6 +32,14 @@ export interface CRUDGenerationOptions {
   includeExportImport?: boolean;
 }
 
+/**
+ * Éléments optionnels intégrés à la table
+ */
+interface CRUDTableOptions {
+  bulkActions: boolean;
+  dataTransfer: boolean;
+}
+
 /**
  * Générateur principal CRUD
  */
@@ -36,6 +56,8 @@ export class CRUDGenerator {
     instructions: string[];
   } {
     const files: FileTemplate[] = [];
+    const bulkActions = Boolean(options.includeBulkActions) && this.config.features.includes('bulk-actions');
+    const dataTransfer = Boolean(options.includeExportImport) && hasDataTransfer(this.config);
 
     // 1. Types TypeScript
     files.push(...generateCRUDTypes(this.config));
@@ -43,44 +65,53 @@ export class CRUDGenerator {
     // 2. Schémas de validation Zod
     files.push(...generateCRUDSchemas(this.config));
 
-    // 3. Server Actions principales
+    // 3. Modèle Prisma (fusionné avec le schéma du projet)
+    files.push(generateCRUDPrismaSchema(this.config));
+
+    // 4. Server Actions principales
     files.push(...this.generateServerActions());
 
-    // 4. Composant de table TanStack
-    files.push(this.generateTableComponent());
+    // 5. Composant de table TanStack
+    files.push(this.generateTableComponent({ bulkActions, dataTransfer }));
 
-    // 5. Composants de formulaires
-    if (this.config.forms.createForm || this.config.forms.editForm) {
+    // 6. Composants de formulaires
+    if (this.hasForm()) {
       files.push(...this.generateFormComponents());
     }
 
-    // 6. Actions en lot (optionnel)
-    if (options.includeBulkActions && this.config.features.includes('bulk-actions')) {
+    // 7. Pages App Router (liste, détail, création, modification)
+    files.push(...generateCRUDPages(this.config));
+
+    // 8. Actions en lot (optionnel)
+    if (bulkActions) {
       files.push(...this.generateBulkActions());
     }
 
-    // 7. Export/Import (optionnel)
-    if (options.includeExportImport && (this.config.features.includes('export') || this.config.features.includes('import'))) {
+    // 9. Export/Import (optionnel)
+    if (dataTransfer) {
       files.push(...this.generateDataActions());
     }
 
-    // 8. API Routes (optionnel)
+    // 10. API Routes (optionnel)
     if (options.includeAPI && this.config.api.generateRoutes) {
       files.push(...this.generateAPIRoutes());
     }
 
-    // 9. Hooks personnalisés
+    // 11. Relations du domaine (sélecteurs, éléments liés, règles de suppression)
+    files.push(...generateCRUDRelations(this.config));
+
+    // 12. Hooks personnalisés
     files.push(...this.generateCustomHooks());
 
-    // 10. Composants utilitaires
+    // 13. Composants utilitaires
     files.push(...this.generateUtilityComponents());
 
-    // 11. Utilitaires
+    // 14. Utilitaires
     files.push(...generateCRUDUtilities(this.config));
 
     return {
       files,
-      dependencies: this.getDependencies(),
+      dependencies: this.getDependencies(dataTransfer),
       devDependencies: this.getDevDependencies(),
       instructions: this.getInstructions(),
     };
@@ -107,15 +138,33 @@ export class CRUDGenerator {
   private generateMainActionsContent(): string {
     const entityName = this.config.entity.name;
     const entityNameLower = entityName.toLowerCase();
+    const model = `db.${getModelDelegateName(entityName)}`;
+    const softDelete = this.config.features.includes('soft-delete');
+    const deleteRules = hasSoftDeleteRules(this.config);
+    const permission = (action: string) => (
+      this.config.permissions.enabled ? `await checkPermission('${entityNameLower}', '${action}');` : ''
+    );
+    const uniqueConstraints = Object.entries(getUniqueConstraints(this.config))
+      .map(([name, fields]) => `  "${name}": [${fields.map(field => `"${field}"`).join(', ')}],`)
+      .join('\n');
 
     return `"use server";
 
-import { revalidatePath } from "next/cache";
-import { redirect } from "next/navigation";
+import { revalidatePath, revalidateTag } from "next/cache";
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { build${entityName}OrderByClause, build${entityName}WhereClause } from "@/lib/${entityNameLower}-utils";
 import { ${entityNameLower}Schema, ${entityNameLower}UpdateSchema } from "@/shared/validation/${entityNameLower}";
-import type { ${entityName}, ${entityName}Create, ${entityName}Update } from "@/shared/types/${entityNameLower}";
-import type { ActionResult, PaginatedResult } from "@/shared/types/actions";
-${this.config.permissions.enabled ? `import { checkPermission } from "@/lib/permissions";` : ''}
+import type { ${entityName}, ${entityName}Filter } from "@/shared/types/${entityNameLower}";
+import type { ActionResult, PaginatedResult } from "@/shared/types/${entityNameLower}-actions";
+${this.config.permissions.enabled ? `import { checkPermission } from "@/lib/permissions";` : ''}${deleteRules ? `
+import { RelationRestrictError } from "@/lib/crud-relations";
+import { softDelete${entityName} } from "@/lib/${entityNameLower}-relations";` : ''}
+
+// Contraintes d'unicité : nom en base → champs du formulaire
+const UNIQUE_CONSTRAINTS: Record<string, string[]> = {
+${uniqueConstraints}
+};
 
 /**
  * Récupère une liste paginée de ${entityName}
@@ -128,16 +177,23 @@ export async function get${entityName}List(
   sort?: { field: string; direction: 'asc' | 'desc' }[]
 ): Promise<PaginatedResult<${entityName}>> {
   try {
-    ${this.config.permissions.enabled ? `await checkPermission('${entityNameLower}', 'read');` : ''}
-
-    // TODO: Implémenter la récupération depuis la base de données
-    const items: ${entityName}[] = [];
-    const total = 0;
+    ${permission('read')}
+
+    const where = build${entityName}WhereClause(search, filters as ${entityName}Filter);
+    const [items, total] = await db.$transaction([
+      ${model}.findMany({
+        where,
+        orderBy: build${entityName}OrderByClause(sort),
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      ${model}.count({ where }),
+    ]);
 
     return {
       success: true,
       data: {
-        items,
+        items: items as ${entityName}[],
         total,
         page,
         limit,
@@ -156,6 +212,32 @@ export async function get${entityName}List(
   }
 }
 
+/**
+ * Récupère un ${entityName} par son identifiant
+ */
+export async function get${entityName}ById(id: string): Promise<ActionResult<${entityName}>> {
+  try {
+    ${permission('read')}
+
+    const item = await ${model}.findFirst({
+      where: { id${softDelete ? ', deletedAt: null' : ''} },
+    });
+
+    if (!item) {
+      return { success: false, error: "${entityName} introuvable" };
+    }
+
+    return { success: true, data: item as ${entityName} };
+
+  } catch (error) {
+    console.error("Erreur lors de la récupération:", error);
+    return {
+      success: false,
+      error: "Erreur lors de la récupération des données",
+    };
+  }
+}
+
 /**
  * Crée un nouveau ${entityName}
  */
@@ -164,7 +246,7 @@ export async function create${entityName}(
   formData: FormData
 ): Promise<ActionResult<${entityName}>> {
   try {
-    ${this.config.permissions.enabled ? `await checkPermission('${entityNameLower}', 'create');` : ''}
+    ${permission('create')}
 
     const rawData = Object.fromEntries(formData.entries());
     const processedData = processFormData(rawData);
@@ -179,25 +261,21 @@ export async function create${entityName}(
       };
     }
 
-    const validatedData = validationResult.data;
+    const item = await ${model}.create({
+      data: validationResult.data as Prisma.${entityName}UncheckedCreateInput,
+    });
 
-    // TODO: Implémenter la création en base de données
-    console.log("Données validées pour création:", validatedData);
-
-    revalidatePath("/${entityNameLower}");
+    revalidate${entityName}();
 
     return {
       success: true,
-      data: validatedData as ${entityName},
+      data: item as ${entityName},
       message: "${entityName} créé avec succès",
     };
 
   } catch (error) {
     console.error("Erreur lors de la création:", error);
-    return {
-      success: false,
-      error: "Erreur lors de la création",
-    };
+    return toErrorResult(error, "Erreur lors de la création");
   }
 }
 
@@ -210,7 +288,7 @@ export async function update${entityName}(
   formData: FormData
 ): Promise<ActionResult<${entityName}>> {
   try {
-    ${this.config.permissions.enabled ? `await checkPermission('${entityNameLower}', 'update');` : ''}
+    ${permission('update')}
 
     const rawData = Object.fromEntries(formData.entries());
     const processedData = processFormData(rawData);
@@ -225,40 +303,42 @@ export async function update${entityName}(
       };
     }
 
-    const validatedData = validationResult.data;
-
-    // TODO: Implémenter la mise à jour
-    console.log("Données validées pour mise à jour:", validatedData);
+    const item = await ${model}.update({
+      where: { id${softDelete ? ', deletedAt: null' : ''} },
+      data: validationResult.data as Prisma.${entityName}UncheckedUpdateInput,
+    });
 
-    revalidatePath("/${entityNameLower}");
-    revalidatePath(\`/${entityNameLower}/\${id}\`);
+    revalidate${entityName}(id);
 
     return {
       success: true,
-      data: validatedData as ${entityName},
+      data: item as ${entityName},
       message: "${entityName} mis à jour avec succès",
     };
 
   } catch (error) {
     console.error("Erreur lors de la mise à jour:", error);
-    return {
-      success: false,
-      error: "Erreur lors de la mise à jour",
-    };
+    return toErrorResult(error, "Erreur lors de la mise à jour");
   }
 }
 
 /**
- * Supprime un ${entityName}
+ * Supprime un ${entityName}${softDelete ? ' (suppression logique)' : ''}
  */
 export async function delete${entityName}(id: string): Promise<ActionResult<{ id: string }>> {
   try {
-    ${this.config.permissions.enabled ? `await checkPermission('${entityNameLower}', 'delete');` : ''}
+    ${permission('delete')}
 
-    // TODO: Implémenter la suppression
-    console.log("Suppression de l'élément:", id);
+    ${deleteRules ? `// Règles onDelete des relations appliquées à la suppression logique
+    const deleted = await db.$transaction((tx) => softDelete${entityName}(tx, [id]));
+    if (deleted === 0) {
+      return { success: false, error: "${entityName} introuvable" };
+    }` : softDelete ? `await ${model}.update({
+      where: { id, deletedAt: null },
+      data: { deletedAt: new Date() },
+    });` : `await ${model}.delete({ where: { id } });`}
 
-    revalidatePath("/${entityNameLower}");
+    revalidate${entityName}(id);
 
     return {
       success: true,
@@ -268,11 +348,56 @@ export async function delete${entityName}(id: string): Promise<ActionResult<{ id
 
   } catch (error) {
     console.error("Erreur lors de la suppression:", error);
-    return {
-      success: false,
-      error: "Erreur lors de la suppression",
-    };
+    return toErrorResult(error, "Erreur lors de la suppression");
+  }
+}
+
+/**
+ * Invalide les pages et les données en cache de ${entityName}
+ */
+function revalidate${entityName}(id?: string) {
+  revalidateTag("${entityNameLower}");
+  revalidatePath("/${entityNameLower}");
+
+  if (id) {
+    revalidateTag(\`${entityNameLower}:\${id}\`);
+    revalidatePath(\`/${entityNameLower}/\${id}\`);
+  }
+}
+
+/**
+ * Convertit une erreur Prisma en résultat d'action
+ * Les violations d'unicité sont rattachées aux champs du formulaire
+ */
+function toErrorResult<T>(error: unknown, fallback: string): ActionResult<T> {${deleteRules ? `
+  if (error instanceof RelationRestrictError) {
+    return { success: false, error: error.message };
+  }
+` : ''}
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2002') {
+      const target = error.meta?.target;
+      const fields = Array.isArray(target)
+        ? target.map(String)
+        : UNIQUE_CONSTRAINTS[String(target)] ?? [];
+
+      return {
+        success: false,
+        errors: Object.fromEntries(fields.map(field => [field, ["Cette valeur existe déjà"]])),
+        message: "Données invalides",
+      };
+    }
+
+    if (error.code === 'P2025') {
+      return { success: false, error: "${entityName} introuvable" };
+    }
+
+    if (error.code === 'P2003') {
+      return { success: false, error: "Référence invalide" };
+    }
   }
+
+  return { success: false, error: fallback };
 }
 
 /**
@@ -290,26 +415,34 @@ function processFormData(rawData: Record<string, any>): Record<string, any> {
   /**
    * Génère le composant de table TanStack
    */
-  private generateTableComponent(): FileTemplate {
+  private generateTableComponent(options: CRUDTableOptions): FileTemplate {
     const entityName = this.config.entity.name;
     const entityNameLower = entityName.toLowerCase();
 
     return {
       path: `src/components/${entityNameLower}/${entityNameLower}-table.tsx`,
-      content: this.generateTableContent(),
+      content: this.generateTableContent(options),
     };
   }
 
   /**
    * Génère le contenu du composant de table
+   * Avec les actions en lot, la barre d'outils utilise la sélection de lignes de la table ;
+   * l'export reprend la recherche et le tri courants
    */
-  private generateTableContent(): string {
+  private generateTableContent({ bulkActions, dataTransfer }: CRUDTableOptions): string {
     const entityName = this.config.entity.name;
     const entityNameLower = entityName.toLowerCase();
+    const exportMenu = dataTransfer && this.config.features.includes('export');
+    const importDialog = dataTransfer && this.config.features.includes('import');
+    const { forms } = this.config;
+    const deleteAction = this.config.table.actions.find(action => action.name === 'delete');
+    const confirmation = deleteAction?.confirmation ?? 'Supprimer cet élément ?';
 
     return `"use client";
 
 import { useState, useMemo } from "react";
+import { useRouter } from "next/navigation";
 import {
   ColumnDef,
   flexRender,
@@ -340,17 +473,22 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { MoreHorizontal, Plus, Edit, Trash } from "lucide-react";
+import { MoreHorizontal, Plus, Edit, Trash${forms.viewForm ? ', Eye' : ''} } from "lucide-react";
 
 import type { ${entityName} } from "@/shared/types/${entityNameLower}";
-import { delete${entityName} } from "@/services/${entityNameLower}/actions";
+import { delete${entityName} } from "@/services/${entityNameLower}/actions";${bulkActions ? `
+import type { Bulk${entityName}Result } from "@/shared/types/${entityNameLower}-actions";
+import { ${entityName}BulkToolbar } from "./${entityNameLower}-bulk-toolbar";` : ''}${exportMenu ? `
+import { ${entityName}ExportMenu } from "./${entityNameLower}-export-menu";` : ''}${importDialog ? `
+import { ${entityName}ImportDialog } from "./${entityNameLower}-import-dialog";` : ''}
 
 interface ${entityName}TableProps {
   data: ${entityName}[];
   loading?: boolean;
   onEdit?: (item: ${entityName}) => void;
   onCreate?: () => void;
-  onDelete?: (id: string) => void;
+  onDelete?: (id: string) => void;${bulkActions ? `
+  onBulkComplete?: (result: Bulk${entityName}Result) => void;` : ''}
   className?: string;
 }
 
@@ -359,14 +497,30 @@ export function ${entityName}Table({
   loading = false,
   onEdit,
   onCreate,
-  onDelete,
+  onDelete,${bulkActions ? `
+  onBulkComplete,` : ''}
   className,
 }: ${entityName}TableProps) {
+  const router = useRouter();
   const [sorting, setSorting] = useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
   const [globalFilter, setGlobalFilter] = useState<string>("");
   const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
 
+  // Sans gestionnaire fourni, navigation vers les pages générées
+  const handleCreate = onCreate${forms.createForm ? ` ?? (() => router.push("/${entityNameLower}/new"))` : ''};
+  const handleEdit = onEdit${forms.editForm ? ` ?? ((item: ${entityName}) => router.push(\`/${entityNameLower}/\${item.id}/edit\`))` : ''};
+  const handleDelete = onDelete ?? (async (id: string) => {
+    if (!window.confirm(${JSON.stringify(confirmation)})) return;
+
+    const result = await delete${entityName}(id);
+    if (result.success) {
+      router.refresh();
+    } else {
+      window.alert(result.error ?? "Erreur lors de la suppression");
+    }
+  });
+
   const columns: ColumnDef<${entityName}>[] = useMemo(() => [
     {
       id: "select",
@@ -399,12 +553,16 @@ export function ${entityName}Table({
               <MoreHorizontal className="h-4 w-4" />
             </Button>
           </DropdownMenuTrigger>
-          <DropdownMenuContent align="end">
-            <DropdownMenuItem onClick={() => onEdit?.(row.original)}>
+          <DropdownMenuContent align="end">${forms.viewForm ? `
+            <DropdownMenuItem onClick={() => router.push(\`/${entityNameLower}/\${row.original.id}\`)}>
+              <Eye className="mr-2 h-4 w-4" />
+              Voir
+            </DropdownMenuItem>` : ''}
+            <DropdownMenuItem onClick={() => handleEdit?.(row.original)}>
               <Edit className="mr-2 h-4 w-4" />
               Modifier
             </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => onDelete?.(row.original.id)}>
+            <DropdownMenuItem onClick={() => handleDelete(row.original.id)}>
               <Trash className="mr-2 h-4 w-4" />
               Supprimer
             </DropdownMenuItem>
@@ -414,12 +572,14 @@ export function ${entityName}Table({
       enableSorting: false,
       enableHiding: false,
     },
-  ], [onEdit, onDelete]);
+  ], [router, handleEdit, handleDelete]);
 
   const table = useReactTable({
     data,
     columns,
-    getCoreRowModel: getCoreRowModel(),
+    getCoreRowModel: getCoreRowModel(),${bulkActions ? `
+    // Sélection indexée par identifiant : conservée entre les pages
+    getRowId: (row) => row.id,` : ''}
     getPaginationRowModel: getPaginationRowModel(),
     getSortedRowModel: getSortedRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
@@ -448,14 +608,22 @@ export function ${entityName}Table({
             className="max-w-sm"
           />
         </div>
-        <div className="flex items-center space-x-2">
-          <Button onClick={onCreate}>
+        <div className="flex items-center space-x-2">${exportMenu ? `
+          <${entityName}ExportMenu
+            search={globalFilter}
+            sort={sorting.map((entry) => ({ field: entry.id, direction: entry.desc ? "desc" : "asc" }))}
+          />` : ''}${importDialog ? `
+          <${entityName}ImportDialog />` : ''}
+          <Button onClick={handleCreate}>
             <Plus className="mr-2 h-4 w-4" />
             Créer
           </Button>
         </div>
       </div>
-
+${bulkActions ? `
+      {/* Actions en lot */}
+      <${entityName}BulkToolbar table={table} onComplete={onBulkComplete} />
+` : ''}
       {/* Table */}
       <div className="rounded-md border">
         <Table>
@@ -581,29 +749,416 @@ export function ${entityName}Table({
    * Génère les composants de formulaires
    */
   private generateFormComponents(): FileTemplate[] {
-    // Utilise le générateur de formulaires existant
-    return [];
+    // Utilise le générateur de composants du template forms
+    return [generateCRUDForm(this.config)];
+  }
+
+  /**
+   * Vrai si le formulaire de création ou de modification est généré
+   */
+  private hasForm(): boolean {
+    return this.config.forms.createForm || this.config.forms.editForm;
   }
 
   /**
-   * Génère les actions en lot
+   * Génère les actions en lot et la barre d'outils de sélection
    */
   private generateBulkActions(): FileTemplate[] {
-    return [];
+    const entityNameLower = this.config.entity.name.toLowerCase();
+
+    return [
+      {
+        path: `src/services/${entityNameLower}/bulk-actions.ts`,
+        content: this.generateBulkActionsContent(),
+      },
+      {
+        path: `src/components/${entityNameLower}/${entityNameLower}-bulk-toolbar.tsx`,
+        content: this.generateBulkToolbarContent(),
+      },
+    ];
+  }
+
+  /**
+   * Champs enum modifiables en lot (changement de statut)
+   */
+  private getBulkStatusFields(): {
+    name: string;
+    functionName: string;
+    enumName: string;
+    prismaEnumName: string;
+  }[] {
+    return this.config.entity.fields
+      .filter(field => field.type === 'enum')
+      .map(field => {
+        const fieldName = field.name.charAt(0).toUpperCase() + field.name.slice(1);
+        return {
+          name: field.name,
+          functionName: `bulkSet${this.config.entity.name}${fieldName}`,
+          enumName: `${fieldName}Enum`,
+          // Enum du client Prisma, attendu par update ; les valeurs de l'enum TypeScript y sont assignables
+          prismaEnumName: getEnumTypeName(this.config.entity.name, field),
+        };
+      });
+  }
+
+  /**
+   * Génère le contenu des Server Actions en lot
+   */
+  private generateBulkActionsContent(): string {
+    const entityName = this.config.entity.name;
+    const entityNameLower = entityName.toLowerCase();
+    const model = `db.${getModelDelegateName(entityName)}`;
+    const softDelete = this.config.features.includes('soft-delete');
+    const permissions = this.config.permissions.enabled;
+    const deleteRules = hasSoftDeleteRules(this.config);
+    const statusFields = this.getBulkStatusFields();
+    const enumImports = statusFields.map(field => `, type ${field.prismaEnumName}`).join('');
+
+    const statusActions = statusFields.map(field => `
+/**
+ * Change le champ ${field.name} des ${entityName} sélectionnés
+ */
+export async function ${field.functionName}(
+  ids: string[],
+  value: ${field.prismaEnumName}
+): Promise<Bulk${entityName}Result> {
+  return runBulkAction(ids, 'update', (item) => ${model}.update({
+    where: { id: item.id },
+    data: { ${field.name}: value },
+  }));
+}
+`).join('');
+
+    return `"use server";
+
+import { revalidatePath, revalidateTag } from "next/cache";
+import { Prisma${enumImports} } from "@prisma/client";
+import { db } from "@/lib/db";
+import { validate${entityName}Permission } from "@/lib/${entityNameLower}-utils";
+import { ${entityNameLower}BulkDeleteSchema, ${entityNameLower}BulkUpdateSchema } from "@/shared/validation/${entityNameLower}";
+import type { ${entityName}, ${entityName}Update } from "@/shared/types/${entityNameLower}";
+import type { Bulk${entityName}Result } from "@/shared/types/${entityNameLower}-actions";
+${permissions ? `import { getUserRoles } from "@/lib/permissions";` : ''}${deleteRules ? `
+import { RelationRestrictError } from "@/lib/crud-relations";
+import { softDelete${entityName} } from "@/lib/${entityNameLower}-relations";` : ''}
+
+/**
+ * Applique une opération à chaque élément sélectionné
+ * Chaque ligne est traitée indépendamment : les échecs sont rapportés par identifiant
+ */
+async function runBulkAction(
+  ids: string[],
+  action: 'update' | 'delete',
+  operation: (item: ${entityName}) => Promise<unknown>${softDelete ? `,
+  deleted = false` : ''}
+): Promise<Bulk${entityName}Result> {
+  const validation = ${entityNameLower}BulkDeleteSchema.safeParse({ ids });
+
+  if (!validation.success) {
+    return {
+      success: false,
+      errors: validation.error.flatten().fieldErrors,
+      message: "Sélection invalide",
+    };
+  }
+
+  const roles: string[] = ${permissions ? 'await getUserRoles()' : '[]'};
+  const items = await ${model}.findMany({
+    where: { id: { in: ids }${softDelete ? ', deletedAt: deleted ? { not: null } : null' : ''} },
+  }) as ${entityName}[];
+
+  let processed = 0;
+  const errors: { id: string; error: string }[] = [];
+
+  for (const id of ids) {
+    const item = items.find(entry => entry.id === id);
+
+    if (!item) {
+      errors.push({ id, error: "${entityName} introuvable" });
+      continue;
+    }
+    if (!validate${entityName}Permission(action, roles, item)) {
+      errors.push({ id, error: "Permission refusée" });
+      continue;
+    }
+
+    try {
+      await operation(item);
+      processed++;
+    } catch (error) {
+      console.error(\`Erreur sur l'élément \${id}:\`, error);
+      errors.push({ id, error: toErrorMessage(error) });
+    }
+  }
+
+  if (processed > 0) {
+    revalidateTag("${entityNameLower}");
+    revalidatePath("/${entityNameLower}");
+  }
+
+  return {
+    success: errors.length === 0,
+    data: { processed, errors },
+    message: errors.length === 0
+      ? \`\${processed} élément(s) traité(s)\`
+      : \`\${processed} élément(s) traité(s), \${errors.length} en erreur\`,
+  };
+}
+
+/**
+ * Supprime les ${entityName} sélectionnés${softDelete ? ' (suppression logique)' : ''}
+ */
+export async function bulkDelete${entityName}(ids: string[]): Promise<Bulk${entityName}Result> {
+  return runBulkAction(ids, 'delete', (item) => ${deleteRules
+    ? `db.$transaction((tx) => softDelete${entityName}(tx, [item.id]))`
+    : softDelete ? `${model}.update({
+    where: { id: item.id },
+    data: { deletedAt: new Date() },
+  })` : `${model}.delete({ where: { id: item.id } })`});
+}
+${softDelete ? `
+/**
+ * Restaure les ${entityName} supprimés logiquement
+ */
+export async function bulkRestore${entityName}(ids: string[]): Promise<Bulk${entityName}Result> {
+  return runBulkAction(ids, 'update', (item) => ${model}.update({
+    where: { id: item.id },
+    data: { deletedAt: null },
+  }), true);
+}
+` : ''}
+/**
+ * Met à jour les ${entityName} sélectionnés avec les mêmes valeurs
+ */
+export async function bulkUpdate${entityName}(
+  ids: string[],
+  data: ${entityName}Update
+): Promise<Bulk${entityName}Result> {
+  const validation = ${entityNameLower}BulkUpdateSchema.safeParse({ ids, data });
+
+  if (!validation.success) {
+    return {
+      success: false,
+      errors: validation.error.flatten().fieldErrors,
+      message: "Données invalides",
+    };
+  }
+
+  return runBulkAction(ids, 'update', (item) => ${model}.update({
+    where: { id: item.id },
+    data: validation.data.data as Prisma.${entityName}UncheckedUpdateInput,
+  }));
+}
+${statusActions}
+function toErrorMessage(error: unknown): string {${deleteRules ? `
+  if (error instanceof RelationRestrictError) {
+    return error.message;
+  }
+` : ''}
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2002') {
+      return "Cette valeur existe déjà";
+    }
+    if (error.code === 'P2003') {
+      return "L'élément est référencé par d'autres données";
+    }
+  }
+
+  return "Erreur lors du traitement";
+}`;
+  }
+
+  /**
+   * Génère la barre d'outils des actions en lot, liée à la sélection TanStack
+   */
+  private generateBulkToolbarContent(): string {
+    const entityName = this.config.entity.name;
+    const entityNameLower = entityName.toLowerCase();
+    const statusFields = this.getBulkStatusFields();
+    const softDelete = this.config.features.includes('soft-delete');
+    const bulkDelete = this.config.table.actions.find(action => action.name === 'bulkDelete');
+    const confirmation = bulkDelete?.confirmation ?? 'Supprimer les éléments sélectionnés ?';
+    const deleteEffects = getInverseRelations(this.config).length > 0;
+    const actionImports = [`bulkDelete${entityName}`, ...statusFields.map(field => field.functionName)];
+    const enumImports = statusFields.flatMap(field => [field.enumName, `${field.enumName}Labels`]);
+
+    const statusMenus = statusFields.map(field => `
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isPending}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Changer ${this.config.entity.fields.find(entry => entry.name === field.name)?.displayName ?? field.name}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {Object.values(${field.enumName}).map((value) => (
+              <DropdownMenuItem
+                key={value}
+                onClick={() => setPending({
+                  title: \`Passer \${selectedIds.length} élément(s) à « \${${field.enumName}Labels[value]} » ?\`,
+                  run: () => ${field.functionName}(selectedIds, value),
+                })}
+              >
+                {${field.enumName}Labels[value]}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>`).join('');
+
+    return `"use client";
+
+import { useState, useTransition } from "react";
+import type { Table } from "@tanstack/react-table";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";${statusFields.length > 0 ? `
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";` : ''}
+import { ${statusFields.length > 0 ? 'RefreshCw, ' : ''}Trash, X } from "lucide-react";
+
+import type { ${entityName} } from "@/shared/types/${entityNameLower}";${enumImports.length > 0 ? `
+import { ${enumImports.join(', ')} } from "@/shared/types/${entityNameLower}";` : ''}
+import type { Bulk${entityName}Result } from "@/shared/types/${entityNameLower}-actions";
+import { ${actionImports.join(', ')} } from "@/services/${entityNameLower}/bulk-actions";${deleteEffects ? `
+import { ${entityNameLower}DeleteEffects } from "@/lib/${entityNameLower}-relations";` : ''}
+
+interface Pending${entityName}BulkAction {
+  title: string;
+  destructive?: boolean;
+  // Conséquences sur les éléments liés, affichées avant confirmation
+  effects?: string[];
+  run: () => Promise<Bulk${entityName}Result>;
+}
+
+interface ${entityName}BulkToolbarProps {
+  table: Table<${entityName}>;
+  onComplete?: (result: Bulk${entityName}Result) => void;
+}
+
+export function ${entityName}BulkToolbar({ table, onComplete }: ${entityName}BulkToolbarProps) {
+  const [isPending, startTransition] = useTransition();
+  const [pending, setPending] = useState<Pending${entityName}BulkAction | null>(null);
+  const [result, setResult] = useState<Bulk${entityName}Result | null>(null);
+
+  const selectedIds = table.getSelectedRowModel().rows.map((row) => row.original.id);
+
+  const confirm = () => {
+    if (!pending) return;
+
+    const action = pending;
+    setPending(null);
+    startTransition(async () => {
+      const outcome = await action.run();
+      setResult(outcome);
+
+      // Les lignes en erreur restent sélectionnées pour pouvoir relancer l'action
+      const failed = outcome.data?.errors.map((error) => error.id) ?? [];
+      table.setRowSelection(Object.fromEntries(failed.map((id) => [id, true])));
+      onComplete?.(outcome);
+    });
+  };
+
+  if (selectedIds.length === 0 && !result) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 rounded-md border bg-muted/50 px-3 py-2">
+        <span className="text-sm font-medium">
+          {selectedIds.length} élément(s) sélectionné(s)
+        </span>
+${statusMenus ? `${statusMenus}\n` : ''}
+        <Button
+          variant="destructive"
+          size="sm"
+          disabled={isPending || selectedIds.length === 0}
+          onClick={() => setPending({
+            title: ${JSON.stringify(confirmation)},
+            destructive: ${!softDelete},${deleteEffects ? `
+            effects: ${entityNameLower}DeleteEffects,` : ''}
+            run: () => bulkDelete${entityName}(selectedIds),
+          })}
+        >
+          <Trash className="mr-2 h-4 w-4" />
+          Supprimer
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto"
+          onClick={() => {
+            table.resetRowSelection();
+            setResult(null);
+          }}
+        >
+          <X className="h-4 w-4" />
+          <span className="sr-only">Effacer la sélection</span>
+        </Button>
+      </div>
+
+      {result && (
+        <div className={result.success ? "text-sm text-muted-foreground" : "text-sm text-destructive"}>
+          <p>{result.message ?? result.error}</p>
+          {result.data?.errors.length ? (
+            <ul className="list-disc pl-5">
+              {result.data.errors.map((error) => (
+                <li key={error.id}>{error.id} : {error.error}</li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      )}
+
+      <AlertDialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pending?.title}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {selectedIds.length} élément(s) concerné(s).{pending?.destructive ? " Cette action est irréversible." : ""}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pending?.effects?.length ? (
+            <ul className="list-disc pl-5 text-sm text-muted-foreground">
+              {pending.effects.map((effect) => <li key={effect}>{effect}</li>)}
+            </ul>
+          ) : null}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Annuler</AlertDialogCancel>
+            <AlertDialogAction onClick={confirm}>Confirmer</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}`;
   }
 
   /**
    * Génère les actions d'export/import
    */
   private generateDataActions(): FileTemplate[] {
-    return [];
+    return generateCRUDDataTransfer(this.config);
   }
 
   /**
    * Génère les API Routes
    */
   private generateAPIRoutes(): FileTemplate[] {
-    return [];
+    return generateCRUDAPIRoutes(this.config);
   }
 
   /**
@@ -653,10 +1208,12 @@ export function ${entityName}Table({
   /**
    * Retourne les dépendances nécessaires
    */
-  private getDependencies(): Record<string, string> {
+  private getDependencies(dataTransfer: boolean): Record<string, string> {
     return {
       "@tanstack/react-table": "^8.10.7",
       "lucide-react": "^0.294.0",
+      ...(this.hasForm() ? { "react-hook-form": "^7.53.0", "@hookform/resolvers": "^3.9.0" } : {}),
+      ...(dataTransfer ? { exceljs: "^4.4.0" } : {}),
     };
   }
 
@@ -671,12 +1228,168 @@ export function ${entityName}Table({
    * Retourne les instructions d'installation
    */
   private getInstructions(): string[] {
-    return [
-      "1. Installer les dépendances: pnpm add @tanstack/react-table lucide-react",
-      "2. Installer les composants shadcn/ui: npx shadcn@latest add table checkbox button input select dropdown-menu",
-      "3. Configurer les types dans shared/types/",
-      "4. Implémenter les Server Actions dans src/services/",
-      "5. Utiliser les composants générés dans vos pages",
+    const { api } = this.config;
+    const textarea = getCRUDEntities(this.config).some(entity => entity.fields
+      .some(field => field.display.showInForm && getFormFieldType(field) === 'textarea'));
+    const components = [
+      'table', 'checkbox', 'button', 'input', 'select', 'dropdown-menu', 'alert-dialog', 'dialog',
+      ...(this.hasForm() ? ['form', ...(textarea ? ['textarea'] : [])] : []),
+      ...getRelationComponents(this.config),
+    ];
+    const steps = [
+      `Installer les composants shadcn/ui: npx shadcn@latest add ${components.join(' ')}`,
+      "Configurer les types dans shared/types/",
+      `Server Actions générées dans ${getCRUDEntities(this.config)
+        .map(entity => `src/services/${entity.name.toLowerCase()}/`).join(', ')}`,
+      "Les pages sont générées sous app/(dashboard)/ (layout du template navigation)",
     ];
+
+    if (api.generateRoutes && api.authentication) {
+      steps.push("Les routes API exigent une session via @/lib/auth (template auth)");
+    }
+    if (api.generateRoutes && api.documentation) {
+      steps.push("Consulter la documentation de l'API sur /api/docs");
+    }
+
+    return steps.map((step, index) => `${index + 1}. ${step}`);
   }
 }
+
+/**
+ * Valide la configuration CRUD
+ */
+export function validateCRUDConfig(config: Partial<CRUDConfig>): string[] {
+  const { entity } = config;
+
+  if (!entity) {
+    return ["Une entité est requise"];
+  }
+
+  const domain = getCRUDEntities({ ...config, entity });
+  const errors = domain.flatMap(validateEntity);
+
+  const names = domain.map(entry => entry.name);
+  [...new Set(names.filter((name, index) => names.indexOf(name) !== index))]
+    .forEach(name => errors.push(`L'entité ${name} est définie plusieurs fois`));
+
+  // Les sélecteurs de relation affichent un champ de l'entité cible
+  domain.forEach(source => source.relations.forEach(relation => {
+    const target = domain.find(entry => entry.name === relation.target);
+    const { displayField } = relation.display;
+    if (target && displayField !== 'id' && !target.fields.some(field => field.name === displayField)) {
+      errors.push(
+        `La relation ${source.name}.${relation.name} affiche un champ inconnu de ${target.name} : ${displayField}`
+      );
+    }
+  }));
+
+  return errors;
+}
+
+/**
+ * Valide une entité du domaine
+ */
+function validateEntity(entity: EntityDefinition): string[] {
+  const errors: string[] = [];
+
+  if (!/^[A-Z][A-Za-z0-9]*$/.test(entity.name)) {
+    errors.push(`Le nom de l'entité "${entity.name}" doit être en PascalCase`);
+  }
+
+  if (entity.fields.length === 0) {
+    errors.push(`L'entité ${entity.name} doit avoir au moins un champ`);
+  }
+
+  // Les index Prisma ne peuvent porter que sur des colonnes du modèle
+  const columns = [
+    'id', 'createdAt', 'updatedAt',
+    ...entity.fields.map(field => field.name),
+    ...entity.relations
+      .filter(relation => relation.type !== 'many-to-many')
+      .map(relation => relation.foreignKey ?? `${relation.name}Id`),
+  ];
+  entity.indexes.forEach(index => {
+    index.fields
+      .filter(field => !columns.includes(field))
+      .forEach(field => errors.push(`L'index ${index.name} référence un champ inconnu : ${field}`));
+  });
+
+  // Les valeurs d'un enum deviennent des identifiants Prisma et bornent sa valeur par défaut
+  entity.fields.filter(field => field.type === 'enum').forEach(field => {
+    const values = getEnumValues(field);
+    if (values.length === 0) {
+      errors.push(`Le champ enum ${entity.name}.${field.name} doit définir ses valeurs`);
+    }
+    values
+      .filter(value => !/^[A-Za-z][A-Za-z0-9_]*$/.test(value))
+      .forEach(value => errors.push(`Valeur d'enum invalide pour ${entity.name}.${field.name} : "${value}"`));
+    if (field.defaultValue !== undefined && !values.includes(field.defaultValue)) {
+      errors.push(
+        `La valeur par défaut de ${entity.name}.${field.name} ne fait pas partie de l'enum : "${field.defaultValue}"`
+      );
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Génère chaque entité du domaine avec la configuration commune
+ * Les fichiers partagés identiques (documentation de l'API, erreurs de relation) ne sont émis qu'une fois ;
+ * les fragments de schema.prisma et d'openapi.json sont fusionnés à la composition du projet
+ */
+export function generateCRUDDomain(
+  config: CRUDConfig,
+  options: CRUDGenerationOptions = {}
+): ReturnType<CRUDGenerator['generate']> {
+  const results = getCRUDEntities(config)
+    .map(entity => new CRUDGenerator({ ...config, entity }).generate(options));
+
+  const files: FileTemplate[] = [];
+  results.flatMap(result => result.files).forEach(file => {
+    const duplicate = files.some(entry => entry.path === file.path && entry.content === file.content);
+    if (!duplicate) {
+      files.push(file);
+    }
+  });
+
+  return {
+    files,
+    dependencies: Object.assign({}, ...results.map(result => result.dependencies)),
+    devDependencies: Object.assign({}, ...results.map(result => result.devDependencies)),
+    instructions: [...new Set(results.flatMap(result => result.instructions))],
+  };
+}
+
+/**
+ * Générateur CRUD enregistré dans le registre des templates
+ */
+export const crudTemplateGenerator: TemplateGenerator<CRUDConfig> = {
+  name: "crud",
+  description: "CRUD complet pour une entité (actions, table, formulaires)",
+  metadata: createTemplateMetadata({
+    name: "crud",
+    description: "CRUD complet pour une entité (actions, table, formulaires)",
+    dependencies: ["@tanstack/react-table@^8.10.7", "lucide-react@^0.294.0"],
+    tags: ["crud", "tanstack-table", "server-actions"],
+  }),
+  dependencies: ["database"],
+  constraints: (config) => ({
+    dependencies: [
+      ...(config.entity && getCRUDEntities({ ...config, entity: config.entity })
+        .some(entity => entity.relations.length > 0)
+        ? ["sql-relations"]
+        : []),
+      ...(config.permissions?.enabled ? ["permissions"] : []),
+    ],
+  }),
+  validate: (config) => toValidationResult(validateCRUDConfig(config)),
+  generate: async (config) => {
+    const errors = validateCRUDConfig(config);
+    return toGenerationResult(
+      errors.length > 0
+        ? { errors }
+        : generateCRUDDomain(config, { includeAPI: true, includeBulkActions: true, includeExportImport: true })
+    );
+  },
+};
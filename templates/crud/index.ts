@@ -3,13 +3,16 @@
  * Génère des opérations CRUD complètes avec TanStack Table, shadcn/ui et Server Actions
  */
 
-import { ProjectConfig, FileTemplate } from '../types';
+import { ProjectConfig, FileTemplate } from '../types.js';
 
 /**
  * Configuration pour la génération CRUD
  */
 export interface CRUDConfig extends ProjectConfig {
   entity: EntityDefinition;
+  // Modèle de domaine complet : chaque entité est générée avec la même configuration
+  // et les relations entre elles sont résolues (sélecteurs, onglets, suppression)
+  entities?: EntityDefinition[];
   features: CRUDFeature[];
   table: TableConfig;
   forms: FormIntegration;
@@ -42,6 +45,8 @@ export interface EntityDefinition {
   name: string;
   displayName: string;
   description?: string;
+  // Nom de la table en base, le nom de l'entité au pluriel par défaut (OrderItem → order_items)
+  tableName?: string;
   fields: EntityField[];
   relations: EntityRelation[];
   indexes: EntityIndex[];
@@ -59,6 +64,8 @@ export interface EntityField {
   required: boolean;
   unique?: boolean;
   defaultValue?: any;
+  // Valeurs d'un champ enum, identifiants Prisma (draft, published...)
+  values?: string[];
   validation?: FieldValidation;
   display: FieldDisplay;
   searchable?: boolean;
@@ -276,7 +283,7 @@ export interface Permission {
 }
 
 // Export du générateur principal
-export { CRUDGenerator } from './generator';
+export { CRUDGenerator } from './generator.js';
 
 /**
  * Fonction utilitaire pour créer une configuration CRUD
@@ -353,3 +360,28 @@ export function createCRUDConfig(
     ...options,
   };
 }
+
+/**
+ * Configuration CRUD pour un modèle de domaine (plusieurs entités liées)
+ */
+export function createCRUDDomainConfig(
+  entities: EntityDefinition[],
+  options: Partial<CRUDConfig> = {}
+): CRUDConfig {
+  const [entity] = entities;
+  if (!entity) {
+    throw new Error("Le modèle de domaine doit contenir au moins une entité");
+  }
+
+  return {
+    ...createCRUDConfig(entity, options),
+    entities,
+  };
+}
+
+/**
+ * Entités générées : le modèle de domaine, ou l'entité seule
+ */
+export function getCRUDEntities(config: Pick<CRUDConfig, 'entity' | 'entities'>): EntityDefinition[] {
+  return config.entities?.length ? config.entities : [config.entity];
+}
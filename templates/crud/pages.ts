@@ -0,0 +1,386 @@
+/**
+ * Pages App Router du template CRUD (liste, détail, création, modification)
+ * Le formulaire est produit par le générateur de composants du template forms
+ * à partir des champs de l'entité
+ */
+
+import { CRUDConfig, EntityField, EntityRelation } from "./index.js";
+import { FileTemplate } from "../types.js";
+import { ComponentGenerator, FieldType, FormField } from "../forms/component-generator.js";
+import { getEnumValues } from "./prisma.js";
+import { getEntityDisplayField, getForeignKey, getInverseRelations, getRelationPickers } from "./relations.js";
+
+/**
+ * Sélecteur de relation qui édite le champ (clé étrangère vers une entité du domaine)
+ */
+function findPicker(config: CRUDConfig, field: EntityField): EntityRelation | undefined {
+  return field.type === 'relation'
+    ? getRelationPickers(config).find(relation => getForeignKey(relation) === field.name)
+    : undefined;
+}
+
+/**
+ * Type de champ du formulaire : formType s'il est renseigné, sinon déduit du type de l'entité
+ * Une liste de choix n'est possible que pour un champ enum (les seules valeurs connues)
+ */
+export function getFormFieldType(field: EntityField): FieldType {
+  const type = getDefaultFieldType(field);
+
+  switch (field.display.formType) {
+    case 'textarea':
+    case 'checkbox':
+    case 'file':
+      return field.display.formType;
+    case 'date':
+      return field.type === 'datetime' ? 'datetime' : 'date';
+    case 'select':
+      return field.type === 'enum' ? 'select' : type;
+    case 'input':
+      return type === 'textarea' || type === 'select' ? 'text' : type;
+    default:
+      return type;
+  }
+}
+
+function getDefaultFieldType(field: EntityField): FieldType {
+  switch (field.type) {
+    case 'text':
+    case 'json':
+      return 'textarea';
+    case 'email':
+    case 'number':
+    case 'date':
+    case 'datetime':
+      return field.type;
+    case 'boolean':
+      return 'checkbox';
+    case 'enum':
+      return 'select';
+    default:
+      return 'text';
+  }
+}
+
+/**
+ * Champ du générateur de formulaires correspondant au champ de l'entité
+ */
+export function toFormField(config: CRUDConfig, field: EntityField): FormField {
+  const picker = findPicker(config, field);
+  const { placeholder, helpText } = field.display;
+  const formField: FormField = {
+    name: field.name,
+    type: getFormFieldType(field),
+    label: field.displayName,
+    required: field.required,
+    ...(placeholder ? { placeholder } : {}),
+    ...(helpText ? { description: helpText } : {}),
+    ...(field.defaultValue !== undefined ? { defaultValue: field.defaultValue } : {}),
+  };
+
+  if (picker) {
+    const target = picker.target.toLowerCase();
+    return {
+      ...formField,
+      type: 'combobox',
+      component: { name: `${picker.target}Combobox`, module: `@/components/${target}/${target}-combobox` },
+    };
+  }
+  if (formField.type === 'select') {
+    return { ...formField, options: getEnumValues(field).map(value => ({ label: value, value })) };
+  }
+  if (formField.type === 'number' && field.validation) {
+    const { min, max } = field.validation;
+    return {
+      ...formField,
+      validation: { ...(min !== undefined ? { min } : {}), ...(max !== undefined ? { max } : {}) },
+    };
+  }
+  return formField;
+}
+
+/**
+ * Génère le formulaire de création et de modification de l'entité
+ * La création est l'action par défaut ; la page de modification lui passe l'action de mise à jour
+ */
+export function generateCRUDForm(config: CRUDConfig): FileTemplate {
+  const { entity } = config;
+  const entityNameLower = entity.name.toLowerCase();
+
+  const form = new ComponentGenerator({
+    name: entity.name,
+    description: entity.description ?? `Formulaire ${entity.displayName}`,
+    fields: entity.fields
+      .filter(field => field.display.showInForm)
+      .map(field => toFormField(config, field)),
+    styling: {
+      variant: 'default',
+      submitButton: {
+        text: 'Enregistrer',
+        loadingText: 'Enregistrement...',
+        variant: 'default',
+        size: 'default',
+      },
+    },
+    features: [],
+    action: `create${entity.name}`,
+    redirectAfterSubmit: `/${entityNameLower}`,
+  }).generate();
+
+  return { ...form, path: `src/components/${entityNameLower}/${entityNameLower}-form.tsx` };
+}
+
+/**
+ * Génère les pages de l'entité dans le groupe de routes (dashboard)
+ * Détail, création et modification suivent les options forms de la configuration
+ */
+export function generateCRUDPages(config: CRUDConfig): FileTemplate[] {
+  const entityNameLower = config.entity.name.toLowerCase();
+  const base = `app/(dashboard)/${entityNameLower}`;
+  const { forms } = config;
+
+  return [
+    { path: `${base}/page.tsx`, content: generateListPage(config) },
+    ...(forms.viewForm ? [{ path: `${base}/[id]/page.tsx`, content: generateDetailPage(config) }] : []),
+    ...(forms.createForm ? [{ path: `${base}/new/page.tsx`, content: generateNewPage(config) }] : []),
+    ...(forms.editForm ? [{ path: `${base}/[id]/edit/page.tsx`, content: generateEditPage(config) }] : []),
+  ];
+}
+
+/**
+ * Page de liste : table de l'entité, paginée côté serveur par le paramètre page
+ */
+function generateListPage(config: CRUDConfig): string {
+  const { entity } = config;
+  const entityName = entity.name;
+  const entityNameLower = entityName.toLowerCase();
+
+  return `import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import { ${entityName}Table } from "@/components/${entityNameLower}/${entityNameLower}-table";
+import { get${entityName}List } from "@/services/${entityNameLower}/actions";
+
+const PAGE_SIZE = ${config.table.pagination.defaultPageSize};
+
+export default async function ${entityName}ListPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ page?: string; search?: string }>;
+}) {
+  const { page, search } = await searchParams;
+  const result = await get${entityName}List(Math.max(Number(page) || 1, 1), PAGE_SIZE, search);
+  const list = result.success ? result.data : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight">${entity.displayName}</h1>${entity.description ? `
+        <p className="text-muted-foreground">${entity.description}</p>` : ''}
+      </div>
+
+      {!result.success && <p className="text-sm text-destructive">{result.error}</p>}
+
+      <${entityName}Table data={list?.items ?? []} />
+
+      {list && list.totalPages > 1 && (
+        <div className="flex items-center justify-end space-x-2">
+          <span className="text-sm text-muted-foreground">
+            Page {list.page} sur {list.totalPages}
+          </span>
+          {list.hasPrev && (
+            <Button variant="outline" size="sm" asChild>
+              <Link href={{ query: { ...(search ? { search } : {}), page: list.page - 1 } }}>Précédent</Link>
+            </Button>
+          )}
+          {list.hasNext && (
+            <Button variant="outline" size="sm" asChild>
+              <Link href={{ query: { ...(search ? { search } : {}), page: list.page + 1 } }}>Suivant</Link>
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+`;
+}
+
+/**
+ * Valeur d'un champ sur la page de détail, formatée selon son type
+ */
+function generateDetailValue(config: CRUDConfig, field: EntityField): string {
+  const value = `item.${field.name}`;
+  const picker = findPicker(config, field);
+
+  if (picker) {
+    const option = `${picker.name}Option`;
+    return `{${option} ? (
+              <Link href={\`/${picker.target.toLowerCase()}/\${${option}.value}\`} className="text-blue-600 hover:underline">
+                {${option}.label}
+              </Link>
+            ) : "—"}`;
+  }
+
+  switch (field.type) {
+    case 'boolean':
+      return `{${value} ? "Oui" : "Non"}`;
+    case 'date':
+      return `{${value} ? ${value}.toLocaleDateString("fr-FR") : "—"}`;
+    case 'datetime':
+      return `{${value} ? ${value}.toLocaleString("fr-FR") : "—"}`;
+    case 'email':
+      return `{${value} ? <a href={\`mailto:\${${value}}\`} className="text-blue-600 hover:underline">{${value}}</a> : "—"}`;
+    case 'url':
+    case 'file':
+    case 'image':
+      return `{${value} ? <a href={${value}} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">{${value}}</a> : "—"}`;
+    case 'json':
+      return `<pre className="text-sm">{JSON.stringify(${value}, null, 2)}</pre>`;
+    default:
+      return `{${value} ?? "—"}`;
+  }
+}
+
+/**
+ * Page de détail : champs showInDetail, libellés des relations et onglets des éléments liés
+ */
+function generateDetailPage(config: CRUDConfig): string {
+  const { entity } = config;
+  const entityName = entity.name;
+  const entityNameLower = entityName.toLowerCase();
+  const fields = entity.fields.filter(field => field.display.showInDetail);
+  const pickers = fields
+    .map(field => findPicker(config, field))
+    .filter((relation): relation is EntityRelation => relation !== undefined);
+  const relatedTabs = getInverseRelations(config).length > 0;
+  const displayField = getEntityDisplayField(config, entity);
+  const title = displayField === 'id' ? 'item.id' : `item.${displayField} ?? item.id`;
+
+  const optionImports = [...new Set(pickers.map(relation => relation.target))].map(target => (
+    `import { get${target}Option } from "@/services/${target.toLowerCase()}/relation-actions";`
+  ));
+  const options = pickers.map(relation => {
+    const foreignKey = `item.${getForeignKey(relation)}`;
+    return `  const ${relation.name}Option = ${foreignKey} ? await get${relation.target}Option(${foreignKey}) : null;`;
+  });
+  const entries = fields.map(field => `        <div>
+          <dt className="text-sm font-medium text-muted-foreground">${field.displayName}</dt>
+          <dd className="mt-1">
+            ${generateDetailValue(config, field)}
+          </dd>
+        </div>`).join('\n');
+
+  return `import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { Button } from "@/components/ui/button";${relatedTabs ? `
+import { ${entityName}RelatedTabs } from "@/components/${entityNameLower}/${entityNameLower}-related-tabs";` : ''}
+import { get${entityName}ById } from "@/services/${entityNameLower}/actions";${optionImports.map(line => `
+${line}`).join('')}
+
+export default async function ${entityName}DetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const result = await get${entityName}ById(id);
+  const item = result.success ? result.data : undefined;
+
+  if (!item) {
+    notFound();
+  }
+${options.length > 0 ? `
+${options.join('\n')}
+` : ''}
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm text-muted-foreground">${entity.displayName}</p>
+          <h1 className="text-2xl font-semibold tracking-tight">{${title}}</h1>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" asChild>
+            <Link href="/${entityNameLower}">Retour à la liste</Link>
+          </Button>${config.forms.editForm ? `
+          <Button asChild>
+            <Link href={\`/${entityNameLower}/\${item.id}/edit\`}>Modifier</Link>
+          </Button>` : ''}
+        </div>
+      </div>
+
+      <dl className="grid gap-4 rounded-md border p-6 sm:grid-cols-2">
+${entries}
+      </dl>${relatedTabs ? `
+
+      <${entityName}RelatedTabs id={item.id} />` : ''}
+    </div>
+  );
+}
+`;
+}
+
+/**
+ * Page de création
+ */
+function generateNewPage(config: CRUDConfig): string {
+  const { entity } = config;
+  const entityName = entity.name;
+  const entityNameLower = entityName.toLowerCase();
+
+  return `import { ${entityName}Form } from "@/components/${entityNameLower}/${entityNameLower}-form";
+
+export default function New${entityName}Page() {
+  return (
+    <div className="max-w-2xl space-y-6">
+      <h1 className="text-2xl font-semibold tracking-tight">${entity.displayName} : création</h1>
+      <${entityName}Form />
+    </div>
+  );
+}
+`;
+}
+
+/**
+ * Page de modification : formulaire prérempli, action de mise à jour liée à l'identifiant
+ */
+function generateEditPage(config: CRUDConfig): string {
+  const { entity } = config;
+  const entityName = entity.name;
+  const entityNameLower = entityName.toLowerCase();
+  const redirect = config.forms.viewForm
+    ? `{\`/${entityNameLower}/\${item.id}\`}`
+    : `"/${entityNameLower}"`;
+
+  return `import { notFound } from "next/navigation";
+
+import { ${entityName}Form } from "@/components/${entityNameLower}/${entityNameLower}-form";
+import { get${entityName}ById, update${entityName} } from "@/services/${entityNameLower}/actions";
+
+export default async function Edit${entityName}Page({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const result = await get${entityName}ById(id);
+  const item = result.success ? result.data : undefined;
+
+  if (!item) {
+    notFound();
+  }
+
+  return (
+    <div className="max-w-2xl space-y-6">
+      <h1 className="text-2xl font-semibold tracking-tight">${entity.displayName} : modification</h1>
+      <${entityName}Form
+        defaultValues={item}
+        action={update${entityName}.bind(null, item.id)}
+        redirectTo=${redirect}
+      />
+    </div>
+  );
+}
+`;
+}
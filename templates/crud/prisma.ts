@@ -0,0 +1,418 @@
+/**
+ * Générateur du modèle Prisma d'une entité CRUD
+ * Produit un fragment de prisma/schema.prisma fusionné avec le schéma du projet :
+ * modèle de l'entité, enums, tables de jointure et relations inverses des entités cibles
+ */
+
+import { FileTemplate } from '../types.js';
+import { PRISMA_EXTEND_COMMENT } from '../generation.js';
+import { CRUDConfig, EntityField, EntityRelation, FieldType, getCRUDEntities } from './index.js';
+
+const PRISMA_TYPES: Record<Exclude<FieldType, 'enum'>, string> = {
+  string: 'String',
+  email: 'String',
+  url: 'String',
+  text: 'String',
+  number: 'Float',
+  boolean: 'Boolean',
+  date: 'DateTime',
+  datetime: 'DateTime',
+  json: 'Json',
+  file: 'String',
+  image: 'String',
+  relation: 'String',
+};
+
+const ON_DELETE_ACTIONS: Record<NonNullable<EntityRelation['onDelete']>, string> = {
+  cascade: 'Cascade',
+  restrict: 'Restrict',
+  'set-null': 'SetNull',
+};
+
+const INDEX_TYPES = { btree: 'BTree', hash: 'Hash', gin: 'Gin', gist: 'Gist' } as const;
+
+interface PrismaBlock {
+  name: string;
+  comments: string[];
+  // Colonnes d'un membre : nom, type, attributs
+  members: { comments: string[]; cells: string[] }[];
+  attributes: string[];
+}
+
+function lowerFirst(value: string): string {
+  return value.charAt(0).toLowerCase() + value.slice(1);
+}
+
+function upperFirst(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Pluriel anglais : product → products, category → categories, address → addresses
+ */
+export function pluralize(word: string): string {
+  if (/[^aeiou]y$/i.test(word)) {
+    return `${word.slice(0, -1)}ies`;
+  }
+  return /(s|x|z|ch|sh)$/i.test(word) ? `${word}es` : `${word}s`;
+}
+
+/**
+ * Nom de table : tableName de l'entité, sinon Product → products, OrderItem → order_items
+ */
+export function getTableName(entityName: string, tableName?: string): string {
+  return tableName ?? pluralize(entityName.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase());
+}
+
+/**
+ * Valeurs d'un champ enum, partagées par le modèle Prisma, les schémas Zod, l'OpenAPI et les formulaires
+ */
+export function getEnumValues(field: EntityField): string[] {
+  return field.values ?? [];
+}
+
+export function getEnumTypeName(entityName: string, field: EntityField): string {
+  return `${entityName}${upperFirst(field.name)}`;
+}
+
+/**
+ * Nom de la table de jointure d'une relation many-to-many : ProductTag
+ */
+export function getJoinModelName(entityName: string, relation: EntityRelation): string {
+  return `${entityName}${upperFirst(relation.target)}`;
+}
+
+/**
+ * Propriété du client Prisma pour le modèle : OrderItem → db.orderItem
+ */
+export function getModelDelegateName(entityName: string): string {
+  return lowerFirst(entityName);
+}
+
+/**
+ * Contraintes d'unicité du modèle, indexées par leur nom en base
+ * (Prisma renvoie le nom de la contrainte au lieu des champs sur certains SGBD)
+ */
+export function getUniqueConstraints(config: CRUDConfig): Record<string, string[]> {
+  const { entity } = config;
+  const table = getTableName(entity.name, entity.tableName);
+  const oneToOneKeys = entity.relations
+    .filter(relation => relation.type === 'one-to-one')
+    .map(getForeignKey);
+  const uniqueFields = [
+    ...entity.fields.filter(field => field.unique).map(field => field.name),
+    ...oneToOneKeys.filter(key => !entity.fields.some(field => field.name === key && field.unique)),
+  ];
+
+  return Object.fromEntries([
+    ...uniqueFields.map(field => [`${table}_${field}_key`, [field]]),
+    ...entity.indexes.filter(index => index.unique).map(index => [index.name, index.fields]),
+    ...entity.constraints
+      .filter(constraint => constraint.type === 'unique')
+      .map(constraint => [constraint.name, constraint.fields]),
+  ]);
+}
+
+/**
+ * Type Prisma d'un champ : String, Float, Json, enum de l'entité…
+ */
+export function getPrismaType(entityName: string, field: EntityField): string {
+  return field.type === 'enum' ? getEnumTypeName(entityName, field) : PRISMA_TYPES[field.type];
+}
+
+function getDefaultAttribute(field: EntityField): string | undefined {
+  const value = field.defaultValue;
+  if (value === undefined || value === null || field.type === 'json') {
+    return undefined;
+  }
+  if (field.type === 'enum') {
+    return `@default(${value})`;
+  }
+  if ((field.type === 'date' || field.type === 'datetime') && value === 'now') {
+    return '@default(now())';
+  }
+  return typeof value === 'string' ? `@default(${JSON.stringify(value)})` : `@default(${value})`;
+}
+
+/**
+ * Clé étrangère portée par l'entité (relations one-to-one et one-to-many)
+ */
+function getForeignKey(relation: EntityRelation): string {
+  return relation.foreignKey ?? `${relation.name}Id`;
+}
+
+/**
+ * Les relations vers un même modèle (ou vers l'entité elle-même) doivent être nommées
+ */
+function getRelationName(config: CRUDConfig, relation: EntityRelation): string | undefined {
+  const { entity } = config;
+  const sameTarget = entity.relations.filter(entry => entry.target === relation.target);
+  return relation.target === entity.name || sameTarget.length > 1
+    ? `${entity.name}${upperFirst(relation.name)}`
+    : undefined;
+}
+
+function relationAttribute(parts: string[], relationName?: string): string {
+  const args = [...(relationName ? [JSON.stringify(relationName)] : []), ...parts];
+  return args.length > 0 ? `@relation(${args.join(', ')})` : '';
+}
+
+function fieldComments(field: { description?: string }): string[] {
+  return field.description ? [`/// ${field.description}`] : [];
+}
+
+/**
+ * Modèle principal de l'entité
+ */
+function generateEntityModel(config: CRUDConfig): PrismaBlock {
+  const { entity, features } = config;
+  const oneToOneKeys = entity.relations
+    .filter(relation => relation.type === 'one-to-one')
+    .map(getForeignKey);
+  const members: PrismaBlock['members'] = [
+    { comments: [], cells: ['id', 'String', '@id @default(uuid())'] },
+  ];
+
+  entity.fields.forEach(field => {
+    const optional = field.required ? '' : '?';
+    const defaultValue = getDefaultAttribute(field);
+    const attributes = [
+      ...(field.unique || oneToOneKeys.includes(field.name) ? ['@unique'] : []),
+      ...(defaultValue ? [defaultValue] : []),
+    ];
+    members.push({
+      comments: fieldComments(field),
+      cells: [field.name, `${getPrismaType(entity.name, field)}${optional}`, attributes.join(' ')],
+    });
+  });
+
+  // Clés étrangères non déclarées comme champs de l'entité
+  entity.relations
+    .filter(relation => relation.type !== 'many-to-many')
+    .filter(relation => !entity.fields.some(field => field.name === getForeignKey(relation)))
+    .forEach(relation => {
+      const unique = relation.type === 'one-to-one' ? '@unique' : '';
+      members.push({ comments: [], cells: [getForeignKey(relation), 'String?', unique] });
+    });
+
+  members.push(
+    { comments: [], cells: ['createdAt', 'DateTime', '@default(now())'] },
+    { comments: [], cells: ['updatedAt', 'DateTime', '@updatedAt'] },
+  );
+  if (features.includes('soft-delete')) {
+    members.push({ comments: ['// Suppression logique'], cells: ['deletedAt', 'DateTime?', ''] });
+  }
+  if (features.includes('audit-trail')) {
+    members.push(
+      { comments: ['// Audit'], cells: ['createdBy', 'String?', ''] },
+      { comments: [], cells: ['updatedBy', 'String?', ''] },
+    );
+  }
+
+  entity.relations.forEach((relation, index) => {
+    const relationName = getRelationName(config, relation);
+    const comments = index === 0 ? ['// Relations'] : [];
+    if (relation.type === 'many-to-many') {
+      const join = getJoinModelName(entity.name, relation);
+      members.push({ comments, cells: [relation.name, `${join}[]`, relationAttribute([], relationName)] });
+      return;
+    }
+
+    const foreignKey = getForeignKey(relation);
+    const required = entity.fields.find(field => field.name === foreignKey)?.required ?? false;
+    const onDelete = relation.onDelete ? [`onDelete: ${ON_DELETE_ACTIONS[relation.onDelete]}`] : [];
+    members.push({
+      comments,
+      cells: [
+        relation.name,
+        `${relation.target}${required ? '' : '?'}`,
+        relationAttribute(
+          [`fields: [${foreignKey}]`, 'references: [id]', ...onDelete],
+          relationName,
+        ),
+      ],
+    });
+  });
+
+  const attributes = [
+    ...entity.indexes.map(index => {
+      const options = [
+        `map: ${JSON.stringify(index.name)}`,
+        ...(index.type && !index.unique ? [`type: ${INDEX_TYPES[index.type]}`] : []),
+      ];
+      return `@@${index.unique ? 'unique' : 'index'}([${index.fields.join(', ')}], ${options.join(', ')})`;
+    }),
+    // Une contrainte unique déjà couverte par un index unique n'est pas dupliquée
+    ...entity.constraints
+      .filter(constraint => constraint.type === 'unique')
+      .filter(constraint => !entity.indexes.some(index => (
+        index.unique && index.fields.join() === constraint.fields.join()
+      )))
+      .map(constraint => (
+        `@@unique([${constraint.fields.join(', ')}], map: ${JSON.stringify(constraint.name)})`
+      )),
+    ...(features.includes('soft-delete') ? ['@@index([deletedAt])'] : []),
+    `@@map(${JSON.stringify(getTableName(entity.name, entity.tableName))})`,
+  ];
+
+  // Prisma ne gère pas les contraintes CHECK : elles sont à ajouter dans une migration
+  const checks = entity.constraints
+    .filter(constraint => constraint.type === 'check')
+    .map(constraint => `// CHECK ${constraint.name} : ${constraint.condition ?? constraint.fields.join(', ')}`);
+
+  return {
+    name: entity.name,
+    comments: [...fieldComments(entity), ...checks],
+    members,
+    attributes,
+  };
+}
+
+/**
+ * Tables de jointure explicites des relations many-to-many
+ */
+function generateJoinModels(config: CRUDConfig): PrismaBlock[] {
+  const { entity } = config;
+  const entityKey = `${lowerFirst(entity.name)}Id`;
+
+  return entity.relations
+    .filter(relation => relation.type === 'many-to-many')
+    .map(relation => {
+      const targetKey = relation.target === entity.name
+        ? `${lowerFirst(relation.name)}Id`
+        : `${lowerFirst(relation.target)}Id`;
+      const relationName = getRelationName(config, relation);
+      const inverseName = relationName ? `${relationName}Inverse` : undefined;
+      const onDelete = `onDelete: ${ON_DELETE_ACTIONS[relation.onDelete ?? 'cascade']}`;
+
+      return {
+        name: getJoinModelName(entity.name, relation),
+        comments: [`// Jointure ${entity.name} ↔ ${relation.target}`],
+        members: [
+          { comments: [], cells: [entityKey, 'String', ''] },
+          { comments: [], cells: [targetKey, 'String', ''] },
+          { comments: [], cells: ['createdAt', 'DateTime', '@default(now())'] },
+          {
+            comments: [],
+            cells: [
+              lowerFirst(entity.name),
+              entity.name,
+              relationAttribute([`fields: [${entityKey}]`, 'references: [id]', onDelete], relationName),
+            ],
+          },
+          {
+            comments: [],
+            cells: [
+              relation.target === entity.name ? lowerFirst(relation.name) : lowerFirst(relation.target),
+              relation.target,
+              relationAttribute([`fields: [${targetKey}]`, 'references: [id]', onDelete], inverseName),
+            ],
+          },
+        ],
+        attributes: [
+          `@@id([${entityKey}, ${targetKey}])`,
+          `@@index([${targetKey}])`,
+          `@@map(${JSON.stringify(getTableName(getJoinModelName(entity.name, relation)))})`,
+        ],
+      };
+    });
+}
+
+/**
+ * Relations inverses ajoutées aux entités cibles
+ * Une cible hors du domaine (User d'auth…) doit déjà exister dans le schéma du projet :
+ * son bloc est marqué pour n'être fusionné que dans le modèle existant
+ */
+function generateInverseRelations(config: CRUDConfig): PrismaBlock[] {
+  const { entity } = config;
+  const domain = getCRUDEntities(config).map(entry => entry.name);
+  const byTarget = new Map<string, PrismaBlock['members']>();
+
+  entity.relations.forEach(relation => {
+    const relationName = getRelationName(config, relation);
+    const members = byTarget.get(relation.target) ?? [];
+    const plural = pluralize(lowerFirst(entity.name));
+
+    if (relation.type === 'many-to-many') {
+      const join = getJoinModelName(entity.name, relation);
+      const inverse = relationName ? `${relationName}Inverse` : undefined;
+      const name = relationName ? `${lowerFirst(relation.name)}Of` : plural;
+      members.push({ comments: [], cells: [name, `${join}[]`, relationAttribute([], inverse)] });
+    } else if (relation.target === entity.name || relationName) {
+      const name = `${lowerFirst(relation.name)}Of`;
+      const type = relation.type === 'one-to-one' ? `${entity.name}?` : `${entity.name}[]`;
+      members.push({ comments: [], cells: [name, type, relationAttribute([], relationName)] });
+    } else {
+      const name = relation.type === 'one-to-one' ? lowerFirst(entity.name) : plural;
+      const type = relation.type === 'one-to-one' ? `${entity.name}?` : `${entity.name}[]`;
+      members.push({ comments: [], cells: [name, type, ''] });
+    }
+    byTarget.set(relation.target, members);
+  });
+
+  return [...byTarget.entries()].map(([name, members]) => ({
+    name,
+    comments: domain.includes(name) ? [] : [PRISMA_EXTEND_COMMENT],
+    members,
+    attributes: [],
+  }));
+}
+
+function generateEnums(config: CRUDConfig): string[] {
+  return config.entity.fields
+    .filter(field => field.type === 'enum')
+    .map(field => [
+      `enum ${getEnumTypeName(config.entity.name, field)} {`,
+      ...getEnumValues(field).map(value => `  ${value}`),
+      '}',
+    ].join('\n'));
+}
+
+/**
+ * Aligne les colonnes des membres comme prisma format
+ */
+function printBlock(block: PrismaBlock): string {
+  const widths = block.members.reduce<number[]>((max, { cells }) => (
+    cells.map((cell, column) => Math.max(max[column] ?? 0, cell.length))
+  ), []);
+  const lines = block.members.flatMap(({ comments, cells }, index) => {
+    const row = cells
+      .map((cell, column) => (column < cells.length - 1 ? cell.padEnd(widths[column] ?? 0) : cell))
+      .join(' ')
+      .trimEnd();
+    const grouped = index > 0 && comments.some(comment => !comment.startsWith('///'));
+    return [...(grouped ? [''] : []), ...comments.map(comment => `  ${comment}`), `  ${row}`];
+  });
+  const attributes = block.attributes.length > 0
+    ? ['', ...block.attributes.map(attribute => `  ${attribute}`)]
+    : [];
+
+  return [...block.comments, `model ${block.name} {`, ...lines, ...attributes, '}'].join('\n');
+}
+
+/**
+ * Génère le fragment Prisma de l'entité (prisma/schema.prisma)
+ */
+export function generateCRUDPrismaSchema(config: CRUDConfig): FileTemplate {
+  const { entity } = config;
+  const model = generateEntityModel(config);
+  const inverse = generateInverseRelations(config);
+
+  // Relations de l'entité vers elle-même : ajoutées au modèle principal
+  const self = inverse.find(block => block.name === entity.name);
+  if (self) {
+    model.members.push(...self.members);
+  }
+
+  const blocks = [
+    ...generateEnums(config),
+    printBlock(model),
+    ...generateJoinModels(config).map(printBlock),
+    ...inverse.filter(block => block.name !== entity.name).map(printBlock),
+  ];
+
+  return {
+    path: 'prisma/schema.prisma',
+    content: `${blocks.join('\n\n')}\n`,
+  };
+}
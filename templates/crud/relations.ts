@@ -0,0 +1,590 @@
+/**
+ * Interfaces liées aux relations entre entités du modèle de domaine
+ * Sélecteurs de relation (combobox asynchrone), onglets des éléments liés
+ * et suppression cohérente avec les règles onDelete
+ */
+
+import { CRUDConfig, EntityDefinition, EntityRelation, getCRUDEntities } from "./index.js";
+import { FileTemplate } from "../types.js";
+import { getModelDelegateName, pluralize } from "./prisma.js";
+
+/**
+ * Relation d'une autre entité du domaine pointant vers l'entité générée
+ */
+export interface InverseRelation {
+  source: EntityDefinition;
+  relation: EntityRelation;
+  foreignKey: string;
+  onDelete: NonNullable<EntityRelation['onDelete']>;
+}
+
+const RESTRICT_ERROR_FILE = 'src/lib/crud-relations.ts';
+
+function lowerFirst(value: string): string {
+  return value.charAt(0).toLowerCase() + value.slice(1);
+}
+
+function upperFirst(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function findEntity(config: CRUDConfig, name: string): EntityDefinition | undefined {
+  return getCRUDEntities(config).find(entity => entity.name === name);
+}
+
+// Sélection Prisma de l'identifiant et du champ affiché
+function selectLabel(field: string): string {
+  return field === 'id' ? '{ id: true }' : `{ id: true, ${field}: true }`;
+}
+
+/**
+ * Clé étrangère portée par l'entité source de la relation
+ */
+export function getForeignKey(relation: EntityRelation): string {
+  return relation.foreignKey ?? `${relation.name}Id`;
+}
+
+/**
+ * Champ affiché pour désigner un élément : displayField des relations qui ciblent l'entité,
+ * sinon son premier champ texte
+ */
+export function getEntityDisplayField(config: CRUDConfig, entity: EntityDefinition): string {
+  const declared = getCRUDEntities(config)
+    .flatMap(source => source.relations)
+    .find(relation => relation.target === entity.name)?.display.displayField;
+  const text = entity.fields.find(field => ['string', 'email', 'text'].includes(field.type));
+  return declared ?? text?.name ?? 'id';
+}
+
+/**
+ * Relations de l'entité éditées par un sélecteur (clé étrangère vers une entité du domaine)
+ */
+export function getRelationPickers(config: CRUDConfig, entity = config.entity): EntityRelation[] {
+  return entity.relations.filter(relation => (
+    relation.type !== 'many-to-many'
+    && relation.display.showInForm
+    && findEntity(config, relation.target) !== undefined
+  ));
+}
+
+/**
+ * Relations des entités du domaine qui référencent l'entité par une clé étrangère
+ * Sans onDelete, la règle par défaut de Prisma s'applique : restrict si la clé est requise
+ */
+export function getInverseRelations(config: CRUDConfig, entity = config.entity): InverseRelation[] {
+  return getCRUDEntities(config).flatMap(source => source.relations
+    .filter(relation => relation.target === entity.name && relation.type !== 'many-to-many')
+    .map(relation => {
+      const foreignKey = getForeignKey(relation);
+      const required = source.fields.find(field => field.name === foreignKey)?.required ?? false;
+      return {
+        source,
+        relation,
+        foreignKey,
+        onDelete: relation.onDelete ?? (required ? 'restrict' : 'set-null'),
+      };
+    }));
+}
+
+/**
+ * Vrai si l'entité est la cible d'un sélecteur de relation
+ */
+function isPickerTarget(config: CRUDConfig, entity: EntityDefinition): boolean {
+  return getCRUDEntities(config).some(source => getRelationPickers(config, source)
+    .some(relation => relation.target === entity.name));
+}
+
+/**
+ * Vrai si la suppression de l'entité doit appliquer les règles onDelete elle-même
+ * (suppression logique : Prisma ne les applique qu'aux suppressions réelles)
+ */
+export function hasSoftDeleteRules(config: CRUDConfig, entity = config.entity): boolean {
+  return config.features.includes('soft-delete') && getInverseRelations(config, entity).length > 0;
+}
+
+/**
+ * Composants shadcn/ui requis par les interfaces de relation du domaine
+ */
+export function getRelationComponents(config: CRUDConfig): string[] {
+  const entities = getCRUDEntities(config);
+  return [
+    ...(entities.some(entity => isPickerTarget(config, entity)) ? ['popover', 'command'] : []),
+    ...(entities.some(entity => getInverseRelations(config, entity).length > 0) ? ['tabs'] : []),
+  ];
+}
+
+/**
+ * Génère les fichiers de relation de l'entité
+ */
+export function generateCRUDRelations(config: CRUDConfig): FileTemplate[] {
+  const { entity } = config;
+  const entityNameLower = entity.name.toLowerCase();
+  const picker = isPickerTarget(config, entity);
+  const inverse = getInverseRelations(config, entity);
+  const files: FileTemplate[] = [];
+
+  if (picker || inverse.length > 0) {
+    files.push({
+      path: `src/services/${entityNameLower}/relation-actions.ts`,
+      content: generateRelationActions(config, picker, inverse),
+    });
+  }
+  if (picker) {
+    files.push({
+      path: `src/components/${entityNameLower}/${entityNameLower}-combobox.tsx`,
+      content: generateCombobox(config),
+    });
+  }
+  if (inverse.length > 0) {
+    files.push(
+      {
+        path: `src/components/${entityNameLower}/${entityNameLower}-related-tabs.tsx`,
+        content: generateRelatedTabs(config, inverse),
+      },
+      {
+        path: `src/lib/${entityNameLower}-relations.ts`,
+        content: generateDeleteRules(config, inverse),
+      },
+    );
+  }
+  if (hasSoftDeleteRules(config)) {
+    files.push({ path: RESTRICT_ERROR_FILE, content: generateRestrictError() });
+  }
+
+  return files;
+}
+
+/**
+ * Clé des éléments liés : products, ou productsByParent si la source a plusieurs relations vers l'entité
+ */
+function getRelatedKey(inverse: InverseRelation, all: InverseRelation[]): string {
+  const plural = pluralize(lowerFirst(inverse.source.name));
+  const ambiguous = all.filter(entry => entry.source.name === inverse.source.name).length > 1
+    || inverse.source.name === inverse.relation.target;
+  return ambiguous ? `${plural}By${upperFirst(inverse.relation.name)}` : plural;
+}
+
+function getRelatedLabel(inverse: InverseRelation, all: InverseRelation[]): string {
+  const ambiguous = all.filter(entry => entry.source.name === inverse.source.name).length > 1
+    || inverse.source.name === inverse.relation.target;
+  return ambiguous ? `${inverse.source.displayName} (${inverse.relation.name})` : inverse.source.displayName;
+}
+
+/**
+ * Server Actions de recherche des options et de lecture des éléments liés
+ */
+function generateRelationActions(config: CRUDConfig, picker: boolean, inverse: InverseRelation[]): string {
+  const entityName = config.entity.name;
+  const entityNameLower = entityName.toLowerCase();
+  const softDelete = config.features.includes('soft-delete');
+  const displayField = getEntityDisplayField(config, config.entity);
+  const permission = config.permissions.enabled
+    ? `\n  await checkPermission('${entityNameLower}', 'read');\n`
+    : '';
+  const notDeleted = softDelete ? ', deletedAt: null' : '';
+
+  const pickerActions = picker ? `
+/**
+ * Recherche les ${entityName} par ${displayField} pour les sélecteurs de relation
+ */
+export async function search${entityName}Options(query: string, limit = 20): Promise<${entityName}Option[]> {${permission}
+  const items = await db.${getModelDelegateName(entityName)}.findMany({
+    where: {
+      ${displayField}: { contains: query.trim(), mode: "insensitive" },${softDelete ? `
+      deletedAt: null,` : ''}
+    },
+    select: ${selectLabel(displayField)},
+    orderBy: { ${displayField}: "asc" },
+    take: limit,
+  });
+
+  return items.map(toOption);
+}
+
+/**
+ * Libellé d'un ${entityName} déjà sélectionné
+ */
+export async function get${entityName}Option(id: string): Promise<${entityName}Option | null> {${permission}
+  const item = await db.${getModelDelegateName(entityName)}.findFirst({
+    where: { id${notDeleted} },
+    select: ${selectLabel(displayField)},
+  });
+
+  return item ? toOption(item) : null;
+}
+
+function toOption(item: { id: string; [field: string]: unknown }): ${entityName}Option {
+  return { value: item.id, label: String(item.${displayField} ?? item.id) };
+}
+` : '';
+
+  const loaders = inverse.map(entry => {
+    const key = getRelatedKey(entry, inverse);
+    const label = getEntityDisplayField(config, entry.source);
+    return `
+async function find${upperFirst(key)}(id: string): Promise<${entityName}RelatedRecords["${key}"]> {
+  const where = { ${entry.foreignKey}: id${notDeleted} };
+  const [items, total] = await db.$transaction([
+    db.${getModelDelegateName(entry.source.name)}.findMany({
+      where,
+      select: ${selectLabel(label)},
+      orderBy: { createdAt: "desc" },
+      take: RELATED_LIMIT,
+    }),
+    db.${getModelDelegateName(entry.source.name)}.count({ where }),
+  ]);
+
+  return { total, items: items.map((item) => ({ value: item.id, label: String(item.${label} ?? item.id) })) };
+}`;
+  }).join('\n');
+
+  const relatedActions = inverse.length > 0 ? `
+/**
+ * Éléments liés à un ${entityName}, par relation (onglets de la page de détail)
+ */
+export async function get${entityName}RelatedRecords(id: string): Promise<${entityName}RelatedRecords> {${permission}
+  const [${inverse.map(entry => getRelatedKey(entry, inverse)).join(', ')}] = await Promise.all([
+${inverse.map(entry => `    find${upperFirst(getRelatedKey(entry, inverse))}(id),`).join('\n')}
+  ]);
+
+  return { ${inverse.map(entry => getRelatedKey(entry, inverse)).join(', ')} };
+}
+${loaders}
+` : '';
+
+  return `"use server";
+
+import { db } from "@/lib/db";
+${config.permissions.enabled ? `import { checkPermission } from "@/lib/permissions";\n` : ''}
+export interface ${entityName}Option {
+  value: string;
+  label: string;
+}
+${inverse.length > 0 ? `
+export interface ${entityName}RelatedRecords {
+${inverse.map(entry => `  ${getRelatedKey(entry, inverse)}: { total: number; items: ${entityName}Option[] };`).join('\n')}
+}
+
+// Nombre d'éléments affichés par onglet
+const RELATED_LIMIT = 20;
+` : ''}${pickerActions}${relatedActions}`;
+}
+
+/**
+ * Combobox asynchrone : recherche côté serveur sur le champ affiché de l'entité
+ */
+function generateCombobox(config: CRUDConfig): string {
+  const entityName = config.entity.name;
+  const entityNameLower = entityName.toLowerCase();
+
+  return `"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { Check, ChevronsUpDown, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { get${entityName}Option, search${entityName}Options } from "@/services/${entityNameLower}/relation-actions";
+import type { ${entityName}Option } from "@/services/${entityNameLower}/relation-actions";
+
+interface ${entityName}ComboboxProps {
+  // Nom du champ caché envoyé avec le formulaire (clé étrangère)
+  name?: string;
+  value?: string | null;
+  onChange?: (value: string | null) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  // Élément exclu des résultats (un élément ne peut pas être son propre parent)
+  excludeId?: string;
+}
+
+export function ${entityName}Combobox({
+  name,
+  value = null,
+  onChange,
+  placeholder = "Sélectionner ${config.entity.displayName.toLowerCase()}...",
+  disabled = false,
+  excludeId,
+}: ${entityName}ComboboxProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [current, setCurrent] = useState<string | null>(value);
+  const [selected, setSelected] = useState<${entityName}Option | null>(null);
+  const [options, setOptions] = useState<${entityName}Option[]>([]);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => setCurrent(value), [value]);
+
+  // Libellé de la valeur initiale
+  useEffect(() => {
+    if (!current || selected?.value === current) return;
+    get${entityName}Option(current).then(setSelected);
+  }, [current, selected?.value]);
+
+  // Recherche différée pendant la saisie
+  useEffect(() => {
+    if (!open) return;
+
+    const timeout = setTimeout(() => {
+      startTransition(async () => {
+        setOptions(await search${entityName}Options(query));
+      });
+    }, 250);
+    return () => clearTimeout(timeout);
+  }, [open, query]);
+
+  const select = (option: ${entityName}Option | null) => {
+    setCurrent(option?.value ?? null);
+    setSelected(option);
+    onChange?.(option?.value ?? null);
+    setOpen(false);
+  };
+
+  return (
+    <>
+      {name && <input type="hidden" name={name} value={current ?? ""} />}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            disabled={disabled}
+            className="w-full justify-between font-normal"
+          >
+            <span className={cn("truncate", !current && "text-muted-foreground")}>
+              {current ? selected?.label ?? "..." : placeholder}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput placeholder="Rechercher..." value={query} onValueChange={setQuery} />
+            <CommandList>
+              <CommandEmpty>{isPending ? "Recherche..." : "Aucun résultat"}</CommandEmpty>
+              <CommandGroup>
+                {current && (
+                  <CommandItem value="__clear" onSelect={() => select(null)}>
+                    <X className="mr-2 h-4 w-4" />
+                    Retirer la sélection
+                  </CommandItem>
+                )}
+                {options
+                  .filter((option) => option.value !== excludeId)
+                  .map((option) => (
+                    <CommandItem key={option.value} value={option.value} onSelect={() => select(option)}>
+                      <Check className={cn("mr-2 h-4 w-4", option.value === current ? "opacity-100" : "opacity-0")} />
+                      {option.label}
+                    </CommandItem>
+                  ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </>
+  );
+}
+`;
+}
+
+/**
+ * Onglets des éléments liés, affichés sur la page de détail
+ */
+function generateRelatedTabs(config: CRUDConfig, inverse: InverseRelation[]): string {
+  const entityName = config.entity.name;
+  const entityNameLower = entityName.toLowerCase();
+  const [first] = inverse;
+
+  const triggers = inverse.map(entry => {
+    const key = getRelatedKey(entry, inverse);
+    return `        <TabsTrigger value="${key}">
+          ${getRelatedLabel(entry, inverse)} ({related.${key}.total})
+        </TabsTrigger>`;
+  }).join('\n');
+
+  const contents = inverse.map(entry => {
+    const key = getRelatedKey(entry, inverse);
+    return `      <TabsContent value="${key}">
+        <RelatedList
+          records={related.${key}}
+          href="/${entry.source.name.toLowerCase()}"
+          empty="Aucun élément ${entry.source.displayName} lié"
+        />
+      </TabsContent>`;
+  }).join('\n');
+
+  return `import Link from "next/link";
+
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { get${entityName}RelatedRecords } from "@/services/${entityNameLower}/relation-actions";
+import type { ${entityName}RelatedRecords } from "@/services/${entityNameLower}/relation-actions";
+
+interface RelatedListProps {
+  records: ${entityName}RelatedRecords[keyof ${entityName}RelatedRecords];
+  href: string;
+  empty: string;
+}
+
+function RelatedList({ records, href, empty }: RelatedListProps) {
+  if (records.items.length === 0) {
+    return <p className="py-4 text-sm text-muted-foreground">{empty}</p>;
+  }
+
+  return (
+    <ul className="divide-y rounded-md border">
+      {records.items.map((item) => (
+        <li key={item.value}>
+          <Link href={\`\${href}/\${item.value}\`} className="block px-4 py-2 text-sm hover:bg-muted/50">
+            {item.label}
+          </Link>
+        </li>
+      ))}
+      {records.total > records.items.length && (
+        <li className="px-4 py-2 text-sm text-muted-foreground">
+          {records.total - records.items.length} autre(s) élément(s)
+        </li>
+      )}
+    </ul>
+  );
+}
+
+/**
+ * Éléments liés à un ${entityName}, un onglet par relation
+ */
+export async function ${entityName}RelatedTabs({ id }: { id: string }) {
+  const related = await get${entityName}RelatedRecords(id);
+
+  return (
+    <Tabs defaultValue="${first ? getRelatedKey(first, inverse) : ''}">
+      <TabsList>
+${triggers}
+      </TabsList>
+${contents}
+    </Tabs>
+  );
+}
+`;
+}
+
+function describeDeleteRule(entry: InverseRelation): string {
+  const name = entry.source.displayName;
+  switch (entry.onDelete) {
+  case 'cascade':
+    return `Les éléments ${name} liés seront également supprimés`;
+  case 'set-null':
+    return `Les éléments ${name} liés seront détachés`;
+  default:
+    return `Suppression impossible tant que des éléments ${name} sont liés`;
+  }
+}
+
+/**
+ * Conséquences d'une suppression sur les éléments liés et, en suppression logique,
+ * application des règles onDelete que Prisma n'applique qu'aux suppressions réelles
+ */
+function generateDeleteRules(config: CRUDConfig, inverse: InverseRelation[]): string {
+  const entityName = config.entity.name;
+  const entityNameLower = entityName.toLowerCase();
+  const effects = `/**
+ * Conséquences de la suppression d'un ${entityName} sur les éléments liés (règles onDelete)
+ */
+export const ${entityNameLower}DeleteEffects: string[] = [
+${[...new Set(inverse.map(describeDeleteRule))].map(effect => `  ${JSON.stringify(effect)},`).join('\n')}
+];
+`;
+
+  if (!hasSoftDeleteRules(config)) {
+    return effects;
+  }
+
+  const model = (name: string) => `tx.${getModelDelegateName(name)}`;
+  const variable = (entry: InverseRelation) => `${lowerFirst(entry.source.name)}By${upperFirst(entry.relation.name)}`;
+  const restricts = inverse.filter(entry => entry.onDelete === 'restrict');
+  const cascades = inverse.filter(entry => entry.onDelete === 'cascade');
+  // Les éléments liés qui ont leurs propres règles sont supprimés récursivement
+  const recursive = (entry: InverseRelation) => hasSoftDeleteRules(config, entry.source);
+  const cascadeImports = [...new Set(cascades
+    .filter(entry => entry.source.name !== entityName && recursive(entry))
+    .map(entry => entry.source.name))];
+
+  const steps = [
+    ...restricts.map(entry => `  const ${variable(entry)} = await ${model(entry.source.name)}.count({
+    where: { ${entry.foreignKey}: { in: ids }, deletedAt: null },
+  });
+  if (${variable(entry)} > 0) {
+    throw new RelationRestrictError(
+      \`Suppression impossible : \${${variable(entry)}} élément(s) ${entry.source.displayName} lié(s)\`
+    );
+  }`),
+    `${cascades.length > 0
+      ? '  // Marqués avant les cascades : une relation cyclique ne repasse pas sur les mêmes éléments\n'
+      : ''}  const { count } = await ${model(entityName)}.updateMany({
+    where: { id: { in: ids }, deletedAt: null },
+    data: { deletedAt: new Date() },
+  });`,
+    ...inverse.filter(entry => entry.onDelete === 'set-null').map(entry => `  await ${model(entry.source.name)}.updateMany({
+    where: { ${entry.foreignKey}: { in: ids } },
+    data: { ${entry.foreignKey}: null },
+  });`),
+    ...cascades.map(entry => (recursive(entry)
+      ? `  const ${variable(entry)} = await ${model(entry.source.name)}.findMany({
+    where: { ${entry.foreignKey}: { in: ids }, deletedAt: null },
+    select: { id: true },
+  });
+  if (${variable(entry)}.length > 0) {
+    await softDelete${entry.source.name}(tx, ${variable(entry)}.map((child) => child.id));
+  }`
+      : `  await ${model(entry.source.name)}.updateMany({
+    where: { ${entry.foreignKey}: { in: ids }, deletedAt: null },
+    data: { deletedAt: new Date() },
+  });`)),
+    '  return count;',
+  ];
+
+  const imports = [
+    'import type { Prisma } from "@prisma/client";',
+    ...(restricts.length > 0 ? ['import { RelationRestrictError } from "@/lib/crud-relations";'] : []),
+    ...cascadeImports.map(name => `import { softDelete${name} } from "@/lib/${name.toLowerCase()}-relations";`),
+  ];
+
+  return `${imports.join('\n')}
+
+${effects}
+/**
+ * Supprime logiquement des ${entityName} en appliquant les règles onDelete des relations :
+ * restrict bloque la suppression, set-null détache, cascade supprime logiquement les éléments liés
+ * À appeler dans une transaction : une restriction annule toutes les écritures
+ */
+export async function softDelete${entityName}(tx: Prisma.TransactionClient, ids: string[]): Promise<number> {
+${steps.join('\n\n')}
+}
+`;
+}
+
+/**
+ * Erreur partagée par les entités du domaine : suppression bloquée par une relation restrict
+ */
+function generateRestrictError(): string {
+  return `/**
+ * Suppression bloquée par une relation onDelete: restrict
+ */
+export class RelationRestrictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RelationRestrictError";
+  }
+}
+`;
+}
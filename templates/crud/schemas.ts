@@ -3,8 +3,9 @@
  * Crée des schémas de validation cohérents pour les entités
  */
 
-import { CRUDConfig, EntityField } from "./index";
-import { FileTemplate } from "../types";
+import { CRUDConfig, EntityField } from "./index.js";
+import { FileTemplate } from "../types.js";
+import { getEnumValues } from "./prisma.js";
 
 /**
  * Génère les schémas Zod pour une entité CRUD
@@ -90,7 +91,7 @@ export const ${entityNameLower}BulkUpdateSchema = z.object({
 
 // Schémas pour l'export
 export const ${entityNameLower}ExportSchema = z.object({
-  format: z.enum(["csv", "excel", "json"]).default("csv"),
+  format: z.enum(["csv", "json", "xlsx"]).default("csv"),
   fields: z.array(z.string()).optional(),
   filters: z.record(z.any()).optional(),
 });
@@ -112,8 +113,7 @@ function generateFieldSchemas(fields: EntityField[]): string {
 
   return enumFields.map(field => {
     const enumName = `${field.name}Enum`;
-    // TODO: Les valeurs d'enum devraient être configurables
-    const enumValues = ['active', 'inactive'];
+    const enumValues = getEnumValues(field);
 
     return `// Enum pour ${field.displayName}
 export const ${enumName} = z.enum([${enumValues.map(v => `"${v}"`).join(', ')}]);`;
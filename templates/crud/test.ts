@@ -3,8 +3,8 @@
  * Valide la génération correcte des composants CRUD
  */
 
-import { CRUDGenerator, createCRUDConfig } from './index';
-import type { EntityDefinition, CRUDConfig } from './index';
+import { CRUDGenerator, createCRUDConfig } from './index.js';
+import type { EntityDefinition, CRUDConfig } from './index.js';
 
 /**
  * Interface pour les résultats de test
@@ -281,6 +281,7 @@ export class CRUDTestSuite {
             type: 'enum',
             displayName: 'Statut',
             required: true,
+            values: ['active', 'inactive'],
             display: {
               showInTable: true,
               showInForm: true,
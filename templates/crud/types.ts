@@ -3,8 +3,9 @@
  * Génère tous les types nécessaires pour les entités CRUD
  */
 
-import { CRUDConfig, EntityField } from "./index";
-import { FileTemplate } from "../types";
+import { CRUDConfig, EntityField } from "./index.js";
+import { FileTemplate } from "../types.js";
+import { getEnumValues } from "./prisma.js";
 
 /**
  * Génère les types TypeScript pour une entité CRUD
@@ -30,6 +31,7 @@ export function generateCRUDTypes(config: CRUDConfig): FileTemplate[] {
 function generateEntityTypes(config: CRUDConfig): FileTemplate {
   const entityName = config.entity.name;
   const entityNameLower = entityName.toLowerCase();
+  const softDelete = config.features.includes('soft-delete');
 
   return {
     path: `shared/types/${entityNameLower}.ts`,
@@ -42,14 +44,15 @@ function generateEntityTypes(config: CRUDConfig): FileTemplate {
 export interface ${entityName} {
   id: string;
   createdAt: Date;
-  updatedAt: Date;
+  updatedAt: Date;${softDelete ? `
+  deletedAt: Date | null;` : ''}
 ${generateFieldTypes(config.entity.fields)}
 }
 
 ${generateFieldEnums(config)}
 
 // Types pour les opérations CRUD
-export type ${entityName}Create = Omit<${entityName}, 'id' | 'createdAt' | 'updatedAt'>;
+export type ${entityName}Create = Omit<${entityName}, 'id' | 'createdAt' | 'updatedAt'${softDelete ? " | 'deletedAt'" : ''}>;
 export type ${entityName}Update = Partial<${entityName}Create>;
 export type ${entityName}Keys = keyof ${entityName};
 export type ${entityName}Values = ${entityName}[${entityName}Keys];
@@ -170,20 +173,18 @@ function generateFieldEnums(config: CRUDConfig): string {
   return enumFields.map(field => {
     const enumName = `${field.name.charAt(0).toUpperCase() + field.name.slice(1)}Enum`;
     
-    // TODO: Les valeurs d'enum devraient être configurables
-    const enumValues = [
-      'ACTIVE = "active"',
-      'INACTIVE = "inactive"',
-    ];
+    const members = getEnumValues(field).map(value => ({
+      key: value.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase(),
+      value,
+    }));
 
     return `
 export enum ${enumName} {
-  ${enumValues.join(',\n  ')}
+  ${members.map(({ key, value }) => `${key} = "${value}"`).join(',\n  ')}
 }
 
 export const ${enumName}Labels = {
-  [${enumName}.ACTIVE]: "Actif",
-  [${enumName}.INACTIVE]: "Inactif",
+${members.map(({ key, value }) => `  [${enumName}.${key}]: "${value}",`).join('\n')}
 } as const;`;
   }).join('\n');
 }
@@ -321,7 +322,7 @@ export type Bulk${entityName}Result = ActionResult<{
 
 // Types pour l'export/import
 export interface ${entityName}ExportOptions {
-  format: 'csv' | 'excel' | 'json';
+  format: 'csv' | 'json' | 'xlsx';
   fields?: (keyof ${entityName})[];
   filters?: Record<string, any>;
 }
@@ -334,6 +335,10 @@ export type ${entityName}ExportResult = ActionResult<{
 
 export interface ${entityName}ImportResult {
   imported: number;
+  total: number;
+  // Prévisualisation : lignes validées sans enregistrement
+  dryRun: boolean;
+  preview: Array<Partial<${entityName}Create>>;
   errors: Array<{
     row: number;
     field?: string;
@@ -3,8 +3,8 @@
  * Fonctions helper et utilitaires réutilisables
  */
 
-import { CRUDConfig, EntityField } from "./index";
-import { FileTemplate } from "../types";
+import { CRUDConfig, EntityField } from "./index.js";
+import { FileTemplate } from "../types.js";
 
 /**
  * Génère les utilitaires pour une entité CRUD
@@ -3,8 +3,8 @@
  * Démontre comment configurer et utiliser le template
  */
 
-import { generateCompleteDatabase, DatabaseGenerationOptions } from "./generator";
-import { DatabaseConfig } from "./index";
+import { generateCompleteDatabase, DatabaseGenerationOptions } from "./generator.js";
+import { DatabaseConfig } from "./index.js";
 
 /**
  * Exemple 1: Configuration PostgreSQL complète avec toutes les fonctionnalités
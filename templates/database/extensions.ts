@@ -3,8 +3,8 @@
  * Soft delete, audit trail, pagination, etc.
  */
 
-import { FileTemplate } from "../types";
-import { DatabaseConfig } from "./index";
+import { FileTemplate } from "../types.js";
+import { DatabaseConfig } from "./index.js";
 
 /**
  * Génère les fichiers d'extensions Prisma
@@ -3,8 +3,14 @@
  * Orchestre la génération de tous les fichiers Prisma
  */
 
-import { FileTemplate, ProjectConfig } from "../types";
-import { DatabaseConfig, generateDatabaseTemplate } from "./index";
+import { EnvVariable, FileTemplate, TemplateGenerator } from "../types.js";
+import {
+  createTemplateMetadata,
+  formatDependencySpecs,
+  toGenerationResult,
+  toValidationResult,
+} from "../generation.js";
+import { DatabaseConfig, defaultDatabaseConfig, generateDatabaseTemplate } from "./index.js";
 
 /**
  * Interface pour les options de génération
@@ -29,6 +35,7 @@ export function generateCompleteDatabase(
   devDependencies: Record<string, string>;
   instructions: string[];
   postInstallSteps: string[];
+  env: EnvVariable[];
 } {
   // Générer le template de base
   const template = generateDatabaseTemplate(config);
@@ -67,6 +74,7 @@ export function generateCompleteDatabase(
     devDependencies,
     instructions: template.instructions,
     postInstallSteps,
+    env: template.env,
   };
 }
 
@@ -496,3 +504,53 @@ function generatePostInstallSteps(config: DatabaseConfig): string[] {
 
   return steps;
 }
+
+export const DATABASE_PROVIDERS = ["postgresql", "mysql", "sqlite", "mongodb"] as const;
+
+/**
+ * Valide la configuration de base de données
+ */
+export function validateDatabaseConfig(config: Partial<DatabaseConfig>): string[] {
+  const errors: string[] = [];
+
+  if (config.database && !DATABASE_PROVIDERS.includes(config.database)) {
+    errors.push(
+      `Base de données inconnue "${config.database}". Choix: ${DATABASE_PROVIDERS.join(", ")}`
+    );
+  }
+
+  if (config.orm && config.orm !== "prisma") {
+    errors.push("Seul l'ORM prisma est supporté");
+  }
+
+  return errors;
+}
+
+/**
+ * Générateur de base de données enregistré dans le registre des templates
+ */
+export const databaseTemplateGenerator: TemplateGenerator<DatabaseConfig> = {
+  name: "database",
+  description: "Base de données Prisma (schéma, client, migrations, seed)",
+  // Calculées à la demande : index.ts et generator.ts s'importent mutuellement
+  get metadata() {
+    return createTemplateMetadata({
+      name: "database",
+      description: "Base de données Prisma (schéma, client, migrations, seed)",
+      dependencies: formatDependencySpecs(generateDependencies(defaultDatabaseConfig)),
+      devDependencies: formatDependencySpecs(generateDevDependencies(defaultDatabaseConfig)),
+      tags: ["database", "prisma", "orm"],
+    });
+  },
+  provides: ["prisma"],
+  // MongoDB ne fournit pas de relations SQL : la fonctionnalité "relations" l'exclut
+  constraints: (config) => ({
+    dependencies: config.features?.includes("relations") ? ["sql-relations"] : [],
+    provides: config.database === "mongodb" ? [] : ["sql-relations"],
+  }),
+  validate: (config) => toValidationResult(validateDatabaseConfig(config)),
+  generate: async (config) => {
+    const errors = validateDatabaseConfig(config);
+    return toGenerationResult(errors.length > 0 ? { errors } : generateCompleteDatabase(config));
+  },
+};
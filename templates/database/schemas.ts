@@ -3,8 +3,8 @@
  * Basé sur les patterns d'analyse et les meilleures pratiques
  */
 
-import { FileTemplate } from "../types";
-import { DatabaseConfig } from "./index";
+import { FileTemplate } from "../types.js";
+import { DatabaseConfig } from "./index.js";
 
 /**
  * Génère les fichiers Prisma (schema.prisma, seed.ts, etc.)
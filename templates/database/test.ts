@@ -3,8 +3,8 @@
  * Valide la génération et la cohérence des fichiers
  */
 
-import { generateCompleteDatabase } from "./generator";
-import { examples } from "./example";
+import { generateCompleteDatabase } from "./generator.js";
+import { examples } from "./example.js";
 
 /**
  * Test de génération basique
@@ -3,8 +3,8 @@
  * Types étendus et utilitaires
  */
 
-import { FileTemplate } from "../types";
-import { DatabaseConfig } from "./index";
+import { FileTemplate } from "../types.js";
+import { DatabaseConfig } from "./index.js";
 
 /**
  * Génère les fichiers de types TypeScript
@@ -3,8 +3,8 @@
  * Client Prisma configuré et helpers
  */
 
-import { FileTemplate } from "../types";
-import { DatabaseConfig } from "./index";
+import { FileTemplate } from "../types.js";
+import { DatabaseConfig } from "./index.js";
 
 /**
  * Génère les utilitaires de base de données
@@ -3,8 +3,8 @@
  * Génération de schémas de validation automatiques
  */
 
-import { FileTemplate } from "../types";
-import { DatabaseConfig } from "./index";
+import { FileTemplate } from "../types.js";
+import { DatabaseConfig } from "./index.js";
 
 /**
  * Génère les fichiers de validation Zod
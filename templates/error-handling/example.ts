@@ -2,8 +2,8 @@
  * Exemples d'utilisation et presets pour le template de gestion d'erreurs
  */
 
-import { ErrorHandlingConfig, errorHandlingPresets } from './index';
-import { generateErrorHandlingTemplate } from './generator';
+import { ErrorHandlingConfig, errorHandlingPresets } from './index.js';
+import { generateErrorHandlingTemplate } from './generator.js';
 
 // Exemple de configuration basique
 export const basicErrorHandlingExample: ErrorHandlingConfig = {
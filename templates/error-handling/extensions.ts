@@ -2,8 +2,8 @@
  * Extensions et plugins pour la gestion d'erreurs
  */
 
-import { ErrorHandlingConfig } from './index';
-import { FileTemplate } from '../types';
+import { ErrorHandlingConfig } from './index.js';
+import { FileTemplate } from '../types.js';
 
 /**
  * Extension pour la gestion d'erreurs
@@ -2,13 +2,15 @@
  * Générateur principal pour le template de gestion d'erreurs
  */
 
-import { ErrorHandlingConfig, defaultErrorHandlingConfig } from './index';
-import { FileTemplate, GenerationResult } from '../types';
+import { ErrorHandlingConfig, defaultErrorHandlingConfig } from './index.js';
+import { EnvVariable, FileTemplate, GenerationResult, TemplateGenerator } from '../types.js';
+import { createTemplateMetadata, toGenerationResult, toValidationResult } from '../generation.js';
+import { validateErrorHandlingConfig as validateErrorHandlingSchema } from './schemas.js';
 import { 
   generateGlobalErrorBoundary, 
   generateRouteErrorBoundary, 
   generateComponentErrorBoundary 
-} from './error-boundaries';
+} from './utilities.js';
 
 /**
  * Génère tous les fichiers pour la gestion d'erreurs
@@ -84,6 +86,7 @@ export function generateErrorHandlingTemplate(config: ErrorHandlingConfig): Gene
       success: true,
       files,
       summary: generateErrorSummary(fullConfig, files),
+      env: getErrorHandlingEnvVariables(fullConfig),
     };
 
   } catch (error) {
@@ -131,6 +134,59 @@ function validateErrorHandlingConfig(config: ErrorHandlingConfig): { isValid: bo
   };
 }
 
+/**
+ * Variables d'environnement des services de monitoring et du logging externe
+ */
+export function getErrorHandlingEnvVariables(config: ErrorHandlingConfig): EnvVariable[] {
+  const variables: EnvVariable[] = [];
+  const template = 'error-handling';
+
+  if (config.monitoring.enabled && config.monitoring.services.includes('sentry')) {
+    const dsn = config.monitoring.sentry?.dsn ?? '';
+    variables.push(
+      {
+        name: 'SENTRY_DSN',
+        description: 'DSN Sentry utilisé côté serveur',
+        required: true,
+        secret: false,
+        example: dsn,
+        template,
+      },
+      {
+        name: 'NEXT_PUBLIC_SENTRY_DSN',
+        description: 'DSN Sentry exposé au navigateur',
+        required: false,
+        secret: false,
+        example: dsn,
+        template,
+      },
+    );
+  }
+
+  if (config.logging.enabled && config.logging.destinations.includes('external')) {
+    variables.push(
+      {
+        name: 'LOG_ENDPOINT',
+        description: 'Endpoint recevant les logs externes',
+        required: true,
+        secret: false,
+        example: 'https://logs.example.com/ingest',
+        template,
+      },
+      {
+        name: 'LOG_API_KEY',
+        description: 'Clé API du service de logs externe',
+        required: false,
+        secret: true,
+        example: '',
+        template,
+      },
+    );
+  }
+
+  return variables;
+}
+
 /**
  * Génère les composants de fallback pour les erreurs
  */
@@ -268,11 +324,12 @@ export function RouteErrorFallback({
               </p>
             </div>
             
-            ${isDevelopment ? `
-            <div className="rounded-md bg-red-50 p-3">
-              <p className="text-sm text-red-800">{error.message}</p>
-              <p className="text-xs text-red-600 mt-1">ID: {errorId}</p>
-            </div>` : ''}
+            {isDevelopment && (
+              <div className="rounded-md bg-red-50 p-3">
+                <p className="text-sm text-red-800">{error.message}</p>
+                <p className="text-xs text-red-600 mt-1">ID: {errorId}</p>
+              </div>
+            )}
             
             <div className="flex space-x-2">
               {canRetry && (
@@ -598,6 +655,7 @@ export default function Error({ error, reset }: ErrorProps) {
     </div>
   );
 }`;
+}
 
 /**
  * Génère le système de logging d'erreurs
@@ -792,6 +850,8 @@ export class ErrorLogger implements Logger {
       console.error('Failed to log to external service:', error);
     }
   }
+}`,
+  };
 }
 
 /**
@@ -1290,3 +1350,21 @@ Prochaines étapes:
 2. Configurer les services de monitoring si activés
 3. Tester les mécanismes de récupération d'erreurs`;
 }
+
+/**
+ * Générateur de gestion d'erreurs enregistré dans le registre des templates
+ */
+export const errorHandlingTemplateGenerator: TemplateGenerator<ErrorHandlingConfig> = {
+  name: 'error-handling',
+  description: 'Gestion d\'erreurs (error boundaries, pages d\'erreur, logging)',
+  metadata: createTemplateMetadata({
+    name: 'error-handling',
+    description: 'Gestion d\'erreurs (error boundaries, pages d\'erreur, logging)',
+    tags: ['errors', 'error-boundaries', 'logging', 'monitoring'],
+  }),
+  validate: (config) => {
+    const validation = validateErrorHandlingSchema({ ...defaultErrorHandlingConfig, ...config });
+    return toValidationResult(validation.errors ?? []);
+  },
+  generate: async (config) => toGenerationResult(generateErrorHandlingTemplate(config)),
+};
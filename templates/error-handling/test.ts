@@ -2,10 +2,10 @@
  * Tests pour le template de gestion d'erreurs
  */
 
-import { generateErrorHandlingTemplate } from './generator';
-import { errorHandlingPresets, ErrorHandlingConfig } from './index';
-import { validateErrorHandlingConfig } from './schemas';
-import { testExamples } from './example';
+import { generateErrorHandlingTemplate } from './generator.js';
+import { errorHandlingPresets, ErrorHandlingConfig } from './index.js';
+import { validateErrorHandlingConfig } from './schemas.js';
+import { testExamples } from './example.js';
 
 /**
  * Test de génération basique
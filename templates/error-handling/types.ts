@@ -325,5 +325,5 @@ export interface ErrorReportSummary {
 }
 
 // Export des types utilitaires
-export type ErrorHandlingConfigKey = keyof import('./index').ErrorHandlingConfig;
-export type ErrorHandlingPreset = keyof typeof import('./index').errorHandlingPresets;
+export type ErrorHandlingConfigKey = keyof import('./index.js').ErrorHandlingConfig;
+export type ErrorHandlingPreset = keyof typeof import('./index.js').errorHandlingPresets;
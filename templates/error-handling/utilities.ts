@@ -2,8 +2,8 @@
  * Utilitaires et helpers pour la gestion d'erreurs
  */
 
-import { ErrorHandlingConfig } from './index';
-import { FileTemplate } from '../types';
+import { ErrorHandlingConfig } from './index.js';
+import { FileTemplate } from '../types.js';
 
 /**
  * Génère l'Error Boundary global
@@ -3,8 +3,8 @@
  * Crée des actions serveur avec validation Zod et gestion d'erreurs
  */
 
-import { FormConfig, FormAction, ActionResult, FormState } from './index';
-import { FileTemplate } from '../types';
+import { FormConfig, FormAction, ActionResult, FormState } from './index.js';
+import { FileTemplate } from '../types.js';
 
 /**
  * Générateur de Server Actions
@@ -3,8 +3,80 @@
  * Crée des composants React avec react-hook-form et intégration Server Actions
  */
 
-import { FormConfig, FormField, FieldType, FormStyling } from './index';
-import { FileTemplate } from '../types';
+import { FileTemplate } from '../types.js';
+
+/**
+ * Types de champs rendus par le générateur de composants
+ */
+export type FieldType =
+  | 'text'
+  | 'email'
+  | 'password'
+  | 'number'
+  | 'textarea'
+  | 'select'
+  | 'checkbox'
+  | 'switch'
+  | 'slider'
+  | 'date'
+  | 'datetime'
+  | 'combobox'
+  | 'multiselect'
+  | 'file';
+
+/**
+ * Composant de saisie fourni par le projet (ex. sélecteur de relation)
+ * Il reçoit les props value, onChange et disabled
+ */
+export interface FieldComponent {
+  name: string;
+  module: string;
+}
+
+/**
+ * Champ d'un composant de formulaire
+ */
+export interface FormField {
+  name: string;
+  type: FieldType;
+  label: string;
+  placeholder?: string;
+  description?: string;
+  required?: boolean;
+  defaultValue?: unknown;
+  validation?: { min?: number; max?: number };
+  options?: Array<{ label: string; value: string; disabled?: boolean }>;
+  component?: FieldComponent;
+}
+
+/**
+ * Style du composant de formulaire
+ */
+export interface FormStyling {
+  variant: 'default' | 'card' | 'modal';
+  submitButton: {
+    text: string;
+    loadingText: string;
+    variant: 'default' | 'destructive' | 'outline' | 'secondary' | 'ghost' | 'link';
+    size: 'default' | 'sm' | 'lg';
+    fullWidth?: boolean;
+  };
+}
+
+/**
+ * Configuration du générateur de composants
+ */
+export interface FormConfig {
+  name: string;
+  description?: string;
+  fields: FormField[];
+  styling: FormStyling;
+  features: Array<'toast-notifications' | 'file-upload' | 'optimistic-ui'>;
+  // Server Action utilisée par défaut (${name}Action sinon), remplaçable par la prop action
+  action?: string;
+  // Page ouverte après une soumission réussie, remplaçable par la prop redirectTo
+  redirectAfterSubmit?: string;
+}
 
 /**
  * Générateur de composants de formulaires
@@ -38,15 +110,17 @@ ${component}`;
    * Génère les imports nécessaires
    */
   private generateImports(): string {
+    const nameLower = this.config.name.toLowerCase();
     const baseImports = [
       '"use client";',
       '',
-      'import { useActionState } from "react";',
+      `import { ${this.getReactImports().join(', ')} } from "react";`,
+      ...(this.config.redirectAfterSubmit !== undefined ? ['import { useRouter } from "next/navigation";'] : []),
       'import { useForm } from "react-hook-form";',
       'import { zodResolver } from "@hookform/resolvers/zod";',
-      `import { ${this.config.name.toLowerCase()}Schema } from "@/shared/validation/${this.config.name.toLowerCase()}";`,
-      `import type { ${this.config.name}FormData } from "@/shared/validation/${this.config.name.toLowerCase()}";`,
-      `import { ${this.config.name.toLowerCase()}Action } from "@/services/${this.config.name.toLowerCase()}/actions";`,
+      `import { ${nameLower}Schema } from "@/shared/validation/${nameLower}";`,
+      `import type { ${this.config.name}FormData } from "@/shared/validation/${nameLower}";`,
+      `import { ${this.getActionName()} } from "@/services/${nameLower}/actions";`,
     ];
 
     // Imports shadcn/ui
@@ -59,71 +133,89 @@ ${component}`;
   }
 
   /**
-   * Génère les imports des composants shadcn/ui
+   * Hooks React utilisés par le composant
+   */
+  private getReactImports(): string[] {
+    const hooks = ['startTransition', 'useActionState'];
+
+    if (this.config.redirectAfterSubmit !== undefined || this.config.features.includes('toast-notifications')) {
+      hooks.push('useEffect');
+    }
+    if (this.config.features.includes('optimistic-ui')) {
+      hooks.push('useOptimistic');
+    }
+    if (this.config.features.includes('file-upload')) {
+      hooks.push('useState');
+    }
+
+    return hooks;
+  }
+
+  /**
+   * Server Action appelée par défaut à la soumission
+   */
+  private getActionName(): string {
+    return this.config.action ?? `${this.config.name.toLowerCase()}Action`;
+  }
+
+  /**
+   * Génère les imports des composants shadcn/ui, un import par module
    */
   private generateUIImports(): string[] {
-    const components = new Set(['Form', 'FormControl', 'FormField', 'FormItem', 'FormLabel', 'FormMessage']);
-    
+    const formComponents = ['Form', 'FormControl', 'FormField', 'FormItem', 'FormLabel', 'FormMessage'];
+    const modules = new Map<string, Set<string>>();
+    const use = (module: string, ...components: string[]) => {
+      const entries = modules.get(module) ?? new Set<string>();
+      components.forEach(component => entries.add(component));
+      modules.set(module, entries);
+    };
+
+    if (this.config.fields.some(field => field.description)) {
+      formComponents.push('FormDescription');
+    }
+
     // Ajouter les composants selon les types de champs
-    this.config.fields.forEach(field => {
+    this.config.fields.filter(field => !field.component).forEach(field => {
       switch (field.type) {
-        case 'text':
-        case 'email':
-        case 'password':
-        case 'number':
-          components.add('Input');
-          break;
         case 'textarea':
-          components.add('Textarea');
+          use('textarea', 'Textarea');
           break;
         case 'select':
-          components.add('Select');
-          components.add('SelectContent');
-          components.add('SelectItem');
-          components.add('SelectTrigger');
-          components.add('SelectValue');
+          use('select', 'Select', 'SelectContent', 'SelectItem', 'SelectTrigger', 'SelectValue');
           break;
         case 'checkbox':
-          components.add('Checkbox');
+          use('checkbox', 'Checkbox');
           break;
         case 'switch':
-          components.add('Switch');
+          use('switch', 'Switch');
           break;
         case 'slider':
-          components.add('Slider');
-          break;
-        case 'date':
-        case 'datetime':
-          components.add('Calendar');
-          components.add('Popover');
-          components.add('PopoverContent');
-          components.add('PopoverTrigger');
+          use('slider', 'Slider');
           break;
         case 'combobox':
-          components.add('Command');
-          components.add('CommandEmpty');
-          components.add('CommandGroup');
-          components.add('CommandInput');
-          components.add('CommandItem');
+          use('command', 'Command', 'CommandEmpty', 'CommandGroup', 'CommandInput', 'CommandItem');
           break;
+        default:
+          use('input', 'Input');
       }
     });
 
-    components.add('Button');
+    use('button', 'Button');
     if (this.config.styling.variant === 'card') {
-      components.add('Card');
-      components.add('CardContent');
-      components.add('CardDescription');
-      components.add('CardHeader');
-      components.add('CardTitle');
+      use('card', 'Card', 'CardContent', 'CardDescription', 'CardHeader', 'CardTitle');
     }
 
-    const formComponents = Array.from(components).filter(c => c.startsWith('Form'));
-    const otherComponents = Array.from(components).filter(c => !c.startsWith('Form'));
+    const fieldComponents = new Map(this.config.fields
+      .filter((field): field is FormField & { component: FieldComponent } => field.component !== undefined)
+      .map(field => [field.component.name, field.component.module]));
 
     return [
       `import { ${formComponents.join(', ')} } from "@/components/ui/form";`,
-      `import { ${otherComponents.join(', ')} } from "@/components/ui";`,
+      ...Array.from(modules, ([module, components]) => (
+        `import { ${Array.from(components).join(', ')} } from "@/components/ui/${module}";`
+      )),
+      ...(this.config.styling.variant === 'default' ? ['import { cn } from "@/lib/utils";'] : []),
+      ...Array.from(fieldComponents, ([name, module]) => `import { ${name} } from "${module}";`),
     ];
   }
 
@@ -137,14 +229,6 @@ ${component}`;
       imports.push('import { toast } from "sonner";');
     }
 
-    if (this.config.features.includes('file-upload')) {
-      imports.push('import { useState } from "react";');
-    }
-
-    if (this.config.features.includes('optimistic-ui')) {
-      imports.push('import { useOptimistic } from "react";');
-    }
-
     return imports;
   }
 
@@ -162,6 +246,8 @@ ${component}`;
 
 export function ${componentName}({ 
   defaultValues,
+  action = ${this.getActionName()},${this.config.redirectAfterSubmit !== undefined ? `
+  redirectTo = "${this.config.redirectAfterSubmit}",` : ''}
   onSuccess,
   onError,
   className,
@@ -181,6 +267,9 @@ ${render}
   private generatePropsInterface(): string {
     return `interface ${this.config.name}FormProps {
   defaultValues?: Partial<${this.config.name}FormData>;
+  // Server Action liée, par exemple à l'identifiant de l'élément modifié
+  action?: typeof ${this.getActionName()};${this.config.redirectAfterSubmit !== undefined ? `
+  redirectTo?: string;` : ''}
   onSuccess?: (data: ${this.config.name}FormData) => void;
   onError?: (error: string) => void;
   className?: string;
@@ -193,7 +282,7 @@ ${render}
   private generateHooks(): string {
     const hooks = [
       `  // État du formulaire avec Server Action
-  const [state, formAction, isPending] = useActionState(${this.config.name.toLowerCase()}Action, {
+  const [state, formAction, isPending] = useActionState(action, {
     success: false,
   });`,
       '',
@@ -201,13 +290,24 @@ ${render}
   const form = useForm<${this.config.name}FormData>({
     resolver: zodResolver(${this.config.name.toLowerCase()}Schema),
     defaultValues: {
-      ${this.generateDefaultValues()}
+${this.generateDefaultValues()}
       ...defaultValues,
     },
     mode: "onChange",
   });`,
     ];
 
+    if (this.config.redirectAfterSubmit !== undefined) {
+      hooks.push('', `  const router = useRouter();
+
+  // Redirection après une soumission réussie
+  useEffect(() => {
+    if (state.success) {
+      router.push(redirectTo);
+    }
+  }, [state, router, redirectTo]);`);
+    }
+
     // Hooks pour fonctionnalités spéciales
     if (this.config.features.includes('file-upload')) {
       hooks.push('', '  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});');
@@ -227,7 +327,10 @@ ${render}
     return this.config.fields.map(field => {
       let defaultValue = field.defaultValue;
       
-      if (defaultValue === undefined) {
+      if (defaultValue === undefined && field.component) {
+        // Composant du projet : la valeur vide est undefined
+        defaultValue = 'undefined';
+      } else if (defaultValue === undefined) {
         switch (field.type) {
           case 'text':
           case 'email':
@@ -278,6 +381,8 @@ ${render}
         if (value !== undefined && value !== null) {
           if (value instanceof File) {
             formData.append(key, value);
+          } else if (value instanceof Date) {
+            formData.append(key, value.toISOString());
           } else if (Array.isArray(value)) {
             formData.append(key, value.join(','));
           } else {
@@ -286,12 +391,12 @@ ${render}
         }
       });
 
-      // Exécuter l'action serveur
-      await formAction(formData);
+      // Exécuter l'action serveur dans une transition (état isPending)
+      startTransition(() => formAction(formData));
       
     } catch (error) {
       console.error('Erreur lors de la soumission:', error);
-      onError?.('Une erreur inattendue s\'est produite');
+      onError?.("Une erreur inattendue s'est produite");
     }
   };`,
     ];
@@ -299,7 +404,7 @@ ${render}
     // Gestionnaires pour fonctionnalités spéciales
     if (this.config.features.includes('toast-notifications')) {
       handlers.push('', `  // Gestion des notifications
-  React.useEffect(() => {
+  useEffect(() => {
     if (state.success && state.message) {
       toast.success(state.message);
       onSuccess?.(state.data);
@@ -336,6 +441,10 @@ ${wrapper}
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
 ${fields}
 
+            {!state.success && (state.error || state.message) && (
+              <p className="text-sm font-medium text-destructive">{state.error || state.message}</p>
+            )}
+
 ${submitButton}
           </form>
         </Form>`;
@@ -370,16 +479,44 @@ ${fieldComponent}
     const placeholder = field.placeholder ? ` placeholder="${field.placeholder}"` : '';
     const disabled = 'disabled={isPending}';
 
+    if (field.component) {
+      return `                    <${field.component.name}
+                      value={fieldProps.value}
+                      onChange={(value) => fieldProps.onChange(value ?? undefined)}${placeholder}
+                      ${disabled}
+                    />`;
+    }
+
     switch (field.type) {
       case 'text':
       case 'email':
-      case 'number':
         return `                    <Input
                       type="${field.type}"${placeholder}
                       {...fieldProps}
                       ${disabled}
                     />`;
 
+      case 'number':
+        return `                    <Input
+                      type="number"${placeholder}
+                      {...fieldProps}
+                      onChange={(e) => fieldProps.onChange(e.target.valueAsNumber)}
+                      ${disabled}
+                    />`;
+
+      case 'date':
+      case 'datetime': {
+        // Date ↔ valeur des champs natifs (AAAA-MM-JJ ou AAAA-MM-JJTHH:MM)
+        const length = field.type === 'date' ? 10 : 16;
+        return `                    <Input
+                      type="${field.type === 'date' ? 'date' : 'datetime-local'}"
+                      value={fieldProps.value instanceof Date ? fieldProps.value.toISOString().slice(0, ${length}) : ""}
+                      onChange={(e) => fieldProps.onChange(e.target.value ? new Date(e.target.value) : undefined)}
+                      onBlur={fieldProps.onBlur}
+                      ${disabled}
+                    />`;
+      }
+
       case 'password':
         return `                    <Input
                       type="password"${placeholder}
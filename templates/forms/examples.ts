@@ -3,8 +3,8 @@
  * Démontre les différents cas d'usage et configurations
  */
 
-import { FormGenerator, createFormConfig, FORM_PRESETS } from './index';
-import type { FormConfig, FormField } from './index';
+import { FormGenerator, createFormConfig, FORM_PRESETS } from './index.js';
+import type { FormConfig, FormField } from './index.js';
 
 /**
  * Exemple 1: Formulaire de contact simple
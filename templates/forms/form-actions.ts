@@ -2,8 +2,8 @@
  * Générateurs de Server Actions pour les formulaires
  */
 
-import { FormConfig } from './index';
-import { FileTemplate } from '../types';
+import { FormConfig } from './index.js';
+import { FileTemplate } from '../types.js';
 
 /**
  * Génère une Server Action pour un formulaire simple
@@ -2,8 +2,8 @@
  * Générateurs de composants shadcn/ui pour les formulaires
  */
 
-import { FormConfig, FormField } from './index';
-import { FileTemplate } from '../types';
+import { FormConfig, FormField } from './index.js';
+import { FileTemplate } from '../types.js';
 
 /**
  * Génère le composant principal du formulaire
@@ -3,8 +3,8 @@
  * Utilise z.email(), z.string(), z.number(), etc.
  */
 
-import { FormField, FormConfig, FormStep } from './index';
-import { FileTemplate } from '../types';
+import { FormField, FormConfig, FormStep } from './index.js';
+import { FileTemplate } from '../types.js';
 
 /**
  * Génère un schéma Zod pour un champ de formulaire
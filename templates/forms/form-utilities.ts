@@ -2,8 +2,8 @@
  * Utilitaires et hooks pour les formulaires
  */
 
-import { FormConfig } from './index';
-import { FileTemplate } from '../types';
+import { FormConfig } from './index.js';
+import { FileTemplate } from '../types.js';
 
 /**
  * Génère les hooks personnalisés pour les formulaires
@@ -2,12 +2,13 @@
  * Générateur principal pour les templates de formulaires
  */
 
-import { FormConfig, defaultFormConfig } from './index';
-import { FileTemplate, GenerationResult } from '../types';
-import { generateFormSchema, generateSpecialSchemas } from './form-schemas';
-import { generateFormAction, generateMultiStepActions, generateAdvancedActions } from './form-actions';
-import { generateFormComponent } from './form-components';
-import { generateFormHooks, generateValidationUtils } from './form-utilities';
+import { FormConfig, defaultFormConfig } from './index.js';
+import { FileTemplate, GenerationResult, TemplateGenerator } from '../types.js';
+import { createTemplateMetadata, toGenerationResult, toValidationResult } from '../generation.js';
+import { generateFormSchema, generateSpecialSchemas } from './form-schemas.js';
+import { generateFormAction, generateMultiStepActions, generateAdvancedActions } from './form-actions.js';
+import { generateFormComponent } from './form-components.js';
+import { generateFormHooks, generateValidationUtils } from './form-utilities.js';
 
 /**
  * Génère tous les fichiers pour un formulaire
@@ -87,7 +88,7 @@ export function generateFormTemplate(config: FormConfig): GenerationResult {
 /**
  * Valide la configuration du formulaire
  */
-function validateFormConfig(config: FormConfig): { isValid: boolean; errors: string[] } {
+export function validateFormConfig(config: FormConfig): { isValid: boolean; errors: string[] } {
   const errors: string[] = [];
 
   // Validation du nom
@@ -403,3 +404,24 @@ Prochaines étapes:
 3. Personnaliser le style du composant si nécessaire
 4. Exécuter les tests générés`;
 }
+
+/**
+ * Générateur de formulaires enregistré dans le registre des templates
+ */
+export const formTemplateGenerator: TemplateGenerator<FormConfig> = {
+  name: 'forms',
+  description: 'Formulaires React Hook Form + Zod avec Server Actions',
+  metadata: createTemplateMetadata({
+    name: 'forms',
+    description: 'Formulaires React Hook Form + Zod avec Server Actions',
+    dependencies: ['react-hook-form@^7.53.0', '@hookform/resolvers@^3.9.0', 'zod@^3.24.0'],
+    tags: ['forms', 'react-hook-form', 'zod', 'server-actions'],
+  }),
+  // Les Server Actions générées importent @/lib/auth et @/lib/db
+  dependencies: ['auth', 'database'],
+  validate: (config) => {
+    const { errors } = validateFormConfig({ ...defaultFormConfig, ...config } as FormConfig);
+    return toValidationResult(errors);
+  },
+  generate: async (config) => toGenerationResult(generateFormTemplate(config)),
+};
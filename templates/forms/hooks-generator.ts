@@ -3,8 +3,8 @@
  * Crée des hooks React pour fonctionnalités avancées
  */
 
-import { FormConfig, FormFeature } from './index';
-import { FileTemplate } from '../types';
+import { FormConfig, FormFeature } from './index.js';
+import { FileTemplate } from '../types.js';
 
 /**
  * Générateur de hooks personnalisés
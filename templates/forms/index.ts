@@ -3,7 +3,7 @@
  * Intègre shadcn/ui, Zod validation et Server Actions
  */
 
-import { ProjectConfig } from '../types';
+import { ProjectConfig } from '../types.js';
 
 export interface FormField {
   name: string;
@@ -241,5 +241,5 @@ export const formPresets = {
   },
 };
 
-export * from './types';
-export * from './generator';
+export * from './types.js';
+export * from './generator.js';
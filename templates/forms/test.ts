@@ -2,8 +2,8 @@
  * Tests pour les templates de formulaires
  */
 
-import { generateFormTemplate } from './generator';
-import { FormConfig, formPresets } from './index';
+import { generateFormTemplate } from './generator.js';
+import { FormConfig, formPresets } from './index.js';
 
 /**
  * Test de génération d'un formulaire simple
@@ -3,13 +3,13 @@
  * Valide la génération correcte des différents composants
  */
 
-import { FormGenerator, createFormConfig, FORM_PRESETS } from './index';
-import { ValidationGenerator } from './validation-generator';
-import { ComponentGenerator } from './component-generator';
-import { ActionsGenerator } from './actions-generator';
-import { TypesGenerator } from './types-generator';
-import { HooksGenerator } from './hooks-generator';
-import type { FormField } from './index';
+import { FormGenerator, createFormConfig, FORM_PRESETS } from './index.js';
+import { ValidationGenerator } from './validation-generator.js';
+import { ComponentGenerator } from './component-generator.js';
+import { ActionsGenerator } from './actions-generator.js';
+import { TypesGenerator } from './types-generator.js';
+import { HooksGenerator } from './hooks-generator.js';
+import type { FormField } from './index.js';
 
 /**
  * Tests de base pour la génération
@@ -200,7 +200,7 @@ function testComponentGeneration() {
     throw new Error('Directive "use client" manquante');
   }
 
-  if (!content.includes('import { useActionState }')) {
+  if (!content.includes('useActionState } from "react"')) {
     throw new Error('Import useActionState manquant');
   }
 
@@ -3,8 +3,8 @@
  * Crée des types cohérents pour les formulaires, actions et états
  */
 
-import { FormConfig, FormField, FieldType } from './index';
-import { FileTemplate } from '../types';
+import { FormConfig, FormField, FieldType } from './index.js';
+import { FileTemplate } from '../types.js';
 
 /**
  * Générateur de types TypeScript
@@ -153,7 +153,7 @@ export interface FormTemplate {
   name: string;
   description: string;
   category: 'basic' | 'advanced' | 'specialized';
-  config: Partial<import('./index').FormConfig>;
+  config: Partial<import('./index.js').FormConfig>;
   preview?: string;
   tags: string[];
 }
@@ -3,8 +3,8 @@
  * Crée des schémas de validation robustes basés sur la configuration des champs
  */
 
-import { FormConfig, FormField, FieldValidation, FieldType } from './index';
-import { FileTemplate } from '../types';
+import { FormConfig, FormField, FieldValidation, FieldType } from './index.js';
+import { FileTemplate } from '../types.js';
 
 /**
  * Générateur de schémas de validation Zod
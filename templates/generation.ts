@@ -0,0 +1,115 @@
+/**
+ * Utilitaires partagés par les générateurs de templates
+ * Normalisent les différents formats de retour vers GenerationResult et ValidationResult
+ */
+
+import {
+  CodeModification,
+  EnvVariable,
+  FileTemplate,
+  GenerationResult,
+  MiddlewareSegment,
+  TemplateMetadata,
+  ValidationResult,
+} from "./types.js";
+
+export const TEMPLATE_VERSION = "1.0.0";
+export const TEMPLATE_AUTHOR = "Next CLI Templates";
+
+/**
+ * Commentaire d'un modèle Prisma qui complète le modèle d'un autre template (relations inverses) :
+ * fusionné dans le modèle existant à la composition, jamais créé
+ */
+export const PRISMA_EXTEND_COMMENT = "// next-cli:extend";
+
+/**
+ * Sortie brute des générateurs historiques de chaque module
+ */
+export interface RawGenerationOutput {
+  files?: FileTemplate[];
+  instructions?: string[];
+  errors?: string[];
+  warnings?: string[];
+  success?: boolean;
+  middleware?: MiddlewareSegment[];
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  packageScripts?: Record<string, string>;
+  env?: EnvVariable[];
+  modifications?: CodeModification[];
+}
+
+/**
+ * Normalise les différents formats de retour des générateurs
+ */
+export function toGenerationResult(result: RawGenerationOutput): GenerationResult {
+  if (result.errors && result.errors.length > 0) {
+    return { success: false, files: [], directories: [], instructions: [], errors: result.errors };
+  }
+
+  const files = result.files ?? [];
+  const directories = [
+    ...new Set(
+      files
+        .map((file) => file.path.split("/").slice(0, -1).join("/"))
+        .filter((dir) => dir.length > 0)
+    ),
+  ];
+
+  return {
+    success: result.success ?? true,
+    files,
+    directories,
+    instructions: result.instructions ?? [],
+    ...(result.warnings && result.warnings.length > 0 ? { warnings: result.warnings } : {}),
+    ...(result.middleware ? { middleware: result.middleware } : {}),
+    ...(result.env ? { env: result.env } : {}),
+    ...(result.modifications?.length ? { modifications: result.modifications } : {}),
+    packageJson: {
+      ...(result.dependencies ? { dependencies: result.dependencies } : {}),
+      ...(result.devDependencies ? { devDependencies: result.devDependencies } : {}),
+      ...(result.packageScripts ? { scripts: result.packageScripts } : {}),
+    },
+  };
+}
+
+/**
+ * Convertit des spécifications "nom@plage" en enregistrement
+ */
+export function parseDependencySpecs(specs: string[]): Record<string, string> {
+  return Object.fromEntries(
+    specs.map((spec) => {
+      const separator = spec.lastIndexOf("@");
+      return separator > 0
+        ? [spec.slice(0, separator), spec.slice(separator + 1)]
+        : [spec, "latest"];
+    })
+  );
+}
+
+/**
+ * Convertit un enregistrement de dépendances en spécifications "nom@plage"
+ */
+export function formatDependencySpecs(dependencies: Record<string, string>): string[] {
+  return Object.entries(dependencies).map(([name, range]) => `${name}@${range}`);
+}
+
+export function toValidationResult(errors: string[], warnings: string[] = []): ValidationResult {
+  return { isValid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Métadonnées d'un template intégré à la CLI
+ */
+export function createTemplateMetadata(
+  metadata: Pick<TemplateMetadata, "name" | "description"> & Partial<TemplateMetadata>
+): TemplateMetadata {
+  return {
+    version: TEMPLATE_VERSION,
+    author: TEMPLATE_AUTHOR,
+    dependencies: [],
+    devDependencies: [],
+    tags: [],
+    ...metadata,
+  };
+}
@@ -3,8 +3,8 @@
  * Démontre les différents cas d'usage et configurations
  */
 
-import { NavigationGenerator, createNavigationConfig, NAVIGATION_PRESETS } from './index';
-import type { NavigationStructure, NavigationItem } from './index';
+import { NavigationGenerator, createNavigationConfig, NAVIGATION_PRESETS } from './index.js';
+import type { NavigationStructure, NavigationItem } from './index.js';
 
 /**
  * Exemple 1: Navigation simple pour site vitrine
@@ -3,11 +3,12 @@
  * Orchestre la génération de tous les fichiers de navigation
  */
 
-import { FileTemplate } from "../types";
-import { NavigationConfig } from "./index";
-import { generateNavigationTypes } from "./types";
-import { generateNavigationSchemas } from "./schemas";
-import { generateNavigationUtilities } from "./utilities";
+import { CodeModification, FileTemplate, MiddlewareSegment, TemplateGenerator } from "../types.js";
+import { createTemplateMetadata, toGenerationResult, toValidationResult } from "../generation.js";
+import { NavigationConfig } from "./index.js";
+import { generateNavigationTypes } from "./types.js";
+import { generateNavigationSchemas } from "./schemas.js";
+import { generateNavigationUtilities } from "./utilities.js";
 
 /**
  * Interface pour les options de génération Navigation
@@ -34,8 +35,11 @@ export class NavigationGenerator {
     dependencies: Record<string, string>;
     devDependencies: Record<string, string>;
     instructions: string[];
+    middleware: MiddlewareSegment[];
+    modifications: CodeModification[];
   } {
     const files: FileTemplate[] = [];
+    const middleware: MiddlewareSegment[] = [];
 
     // 1. Types TypeScript
     files.push(...generateNavigationTypes(this.config));
@@ -52,6 +56,7 @@ export class NavigationGenerator {
     // 5. Middleware de sécurité (optionnel)
     if (options.includeMiddleware && this.config.security.middleware.enabled) {
       files.push(this.generateMiddleware());
+      middleware.push(...this.generateMiddlewareSegments());
     }
 
     // 6. Pages d'erreur (optionnel)
@@ -75,6 +80,8 @@ export class NavigationGenerator {
       dependencies: this.getDependencies(),
       devDependencies: this.getDevDependencies(),
       instructions: this.getInstructions(),
+      middleware,
+      modifications: this.getRootLayoutModifications(),
     };
   }
 
@@ -84,9 +91,6 @@ export class NavigationGenerator {
   private generateLayouts(): FileTemplate[] {
     const files: FileTemplate[] = [];
 
-    // Layout racine
-    files.push(this.generateRootLayout());
-
     // Layout principal selon le type
     switch (this.config.layout.type) {
       case 'sidebar':
@@ -105,54 +109,32 @@ export class NavigationGenerator {
   }
 
   /**
-   * Génère le layout racine
-   */
-  private generateRootLayout(): FileTemplate {
-    return {
-      path: 'app/layout.tsx',
-      content: this.generateRootLayoutContent(),
-    };
-  }
-
-  /**
-   * Génère le contenu du layout racine
+   * Providers du layout racine : le layout du projet est modifié, pas remplacé
    */
-  private generateRootLayoutContent(): string {
-    return `import type { Metadata } from "next";
-import { Inter } from "next/font/google";
-import "./globals.css";
-${this.config.features.includes('theme-switcher') ? 'import { ThemeProvider } from "@/components/theme-provider";' : ''}
-${this.config.features.includes('notifications') ? 'import { Toaster } from "sonner";' : ''}
-
-const inter = Inter({ subsets: ["latin"] });
-
-export const metadata: Metadata = {
-  title: "${this.config.name}",
-  description: "${this.config.description}",
-};
+  private getRootLayoutModifications(): CodeModification[] {
+    const theme = this.config.features.includes('theme-switcher');
+    const notifications = this.config.features.includes('notifications');
+    const operations: CodeModification['operations'] = [];
+
+    if (theme) {
+      operations.push(
+        { type: 'add-import', module: '@/components/theme-provider', named: ['ThemeProvider'] },
+        {
+          type: 'wrap-jsx-children',
+          parent: 'body',
+          component: 'ThemeProvider',
+          props: 'attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange',
+        },
+      );
+    }
+    if (notifications) {
+      operations.push(
+        { type: 'add-import', module: 'sonner', named: ['Toaster'] },
+        { type: 'append-jsx-child', parent: theme ? 'ThemeProvider' : 'body', element: '<Toaster />' },
+      );
+    }
 
-export default function RootLayout({
-  children,
-}: {
-  children: React.ReactNode;
-}) {
-  return (
-    <html lang="fr" suppressHydrationWarning>
-      <body className={inter.className}>
-        ${this.config.features.includes('theme-switcher') ? `<ThemeProvider
-          attribute="class"
-          defaultTheme="system"
-          enableSystem
-          disableTransitionOnChange
-        >
-          {children}
-          ${this.config.features.includes('notifications') ? '<Toaster />' : ''}
-        </ThemeProvider>` : `{children}
-        ${this.config.features.includes('notifications') ? '<Toaster />' : ''}`}
-      </body>
-    </html>
-  );
-}`;
+    return operations.length > 0 ? [{ path: 'app/layout.tsx', operations }] : [];
   }
 
   /**
@@ -558,6 +540,48 @@ export const config = {
 };`;
   }
 
+  /**
+   * Segments composables du middleware (garde d'authentification par cookie)
+   */
+  private generateMiddlewareSegments(): MiddlewareSegment[] {
+    if (!this.config.security.authentication) {
+      return [];
+    }
+
+    return [{
+      name: 'auth-guard',
+      template: 'navigation',
+      order: 40,
+      feature: 'auth',
+      matcher: ['/((?!api|_next/static|_next/image|favicon.ico|public/).*)'],
+      imports: [
+        'import { NextResponse } from "next/server";',
+        'import { getSessionCookie } from "better-auth/cookies";',
+      ],
+      body: `  const { pathname } = context;
+
+  // Ignorer les fichiers statiques
+  if (pathname.startsWith('/api/auth/') || pathname.includes('.')) {
+    return;
+  }
+
+  // Routes publiques
+  const publicRoutes = ${JSON.stringify(this.config.security.middleware.publicRoutes)};
+  if (publicRoutes.some(route => pathname === route || pathname.startsWith(route + '/'))) {
+    return;
+  }
+
+  // Vérification de l'authentification
+  const sessionCookie = getSessionCookie(request);
+
+  if (!sessionCookie) {
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('callbackUrl', pathname);
+    return NextResponse.redirect(loginUrl);
+  }`,
+    }];
+  }
+
   /**
    * Génère les pages d'erreur
    */
@@ -687,11 +711,59 @@ export function useNavigation() {
    */
   private getInstructions(): string[] {
     return [
-      "1. Installer les dépendances: pnpm add lucide-react",
-      "2. Installer les composants shadcn/ui: npx shadcn@latest add sidebar breadcrumb button sheet command",
-      "3. Configurer Better Auth si l'authentification est activée",
-      "4. Personnaliser les composants de navigation selon vos besoins",
-      "5. Configurer le middleware de sécurité",
+      "1. Installer les composants shadcn/ui: npx shadcn@latest add sidebar breadcrumb button sheet command",
+      "2. Configurer Better Auth si l'authentification est activée",
+      "3. Personnaliser les composants de navigation selon vos besoins",
+      "4. Configurer le middleware de sécurité",
     ];
   }
-}
\ No newline at end of file
+}
+
+const LAYOUT_TYPES = ["sidebar", "header", "hybrid", "dashboard"];
+
+/**
+ * Valide la configuration de navigation
+ */
+export function validateNavigationConfig(config: Partial<NavigationConfig>): string[] {
+  const errors: string[] = [];
+
+  if (config.layout && !LAYOUT_TYPES.includes(config.layout.type)) {
+    errors.push(
+      `Layout inconnu "${config.layout.type}". Choix: ${LAYOUT_TYPES.join(", ")}`
+    );
+  }
+
+  const ids = (config.navigation?.items ?? []).map((item) => item.id);
+  const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+  if (duplicates.length > 0) {
+    errors.push(`Identifiants de navigation en double: ${[...new Set(duplicates)].join(", ")}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Générateur de navigation enregistré dans le registre des templates
+ */
+export const navigationTemplateGenerator: TemplateGenerator<NavigationConfig> = {
+  name: "navigation",
+  description: "Layouts et navigation (sidebar, header, breadcrumbs)",
+  metadata: createTemplateMetadata({
+    name: "navigation",
+    description: "Layouts et navigation (sidebar, header, breadcrumbs)",
+    dependencies: ["lucide-react@^0.294.0"],
+    tags: ["navigation", "layout", "sidebar", "breadcrumbs"],
+  }),
+  constraints: (config) => ({
+    dependencies: config.security?.authentication ? ["auth"] : [],
+  }),
+  validate: (config) => toValidationResult(validateNavigationConfig(config)),
+  generate: async (config) => {
+    const errors = validateNavigationConfig(config);
+    return toGenerationResult(
+      errors.length > 0
+        ? { errors }
+        : new NavigationGenerator(config).generate({ includeMiddleware: true })
+    );
+  },
+};
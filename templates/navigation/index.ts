@@ -3,7 +3,7 @@
  * Génère une navigation complète avec App Router, middleware de sécurité et composants shadcn/ui
  */
 
-import { ProjectConfig, FileTemplate } from '../types';
+import { ProjectConfig, FileTemplate } from '../types.js';
 
 /**
  * Configuration pour la génération de navigation
@@ -175,7 +175,7 @@ export interface NavigationColors {
 }
 
 // Export du générateur principal
-export { NavigationGenerator } from './generator';
+export { NavigationGenerator } from './generator.js';
 
 /**
  * Fonction utilitaire pour créer une configuration de navigation
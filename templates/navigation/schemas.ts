@@ -3,8 +3,8 @@
  * Crée des schémas de validation pour la navigation et les permissions
  */
 
-import { NavigationConfig } from "./index";
-import { FileTemplate } from "../types";
+import { NavigationConfig } from "./index.js";
+import { FileTemplate } from "../types.js";
 
 /**
  * Génère les schémas Zod pour la navigation
@@ -3,8 +3,8 @@
  * Valide la génération correcte des composants de navigation
  */
 
-import { NavigationGenerator, createNavigationConfig, NAVIGATION_PRESETS } from './index';
-import type { NavigationConfig, NavigationStructure } from './index';
+import { NavigationGenerator, createNavigationConfig, NAVIGATION_PRESETS } from './index.js';
+import type { NavigationConfig, NavigationStructure } from './index.js';
 
 /**
  * Interface pour les résultats de test
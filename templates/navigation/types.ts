@@ -3,8 +3,8 @@
  * Génère tous les types nécessaires pour la navigation
  */
 
-import { NavigationConfig } from "./index";
-import { FileTemplate } from "../types";
+import { NavigationConfig } from "./index.js";
+import { FileTemplate } from "../types.js";
 
 /**
  * Génère les types TypeScript pour la navigation
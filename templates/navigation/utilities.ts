@@ -3,8 +3,8 @@
  * Fonctions helper et utilitaires réutilisables pour la navigation
  */
 
-import { NavigationConfig, NavigationItem } from "./index";
-import { FileTemplate } from "../types";
+import { NavigationConfig, NavigationItem } from "./index.js";
+import { FileTemplate } from "../types.js";
 
 /**
  * Génère les utilitaires pour la navigation
@@ -0,0 +1,105 @@
+/**
+ * Registre central des templates
+ * Chaque module de templates/ y enregistre son TemplateGenerator ;
+ * la CLI, les tests et les plugins énumèrent les templates depuis ce registre
+ */
+
+import {
+  GenerationContext,
+  GenerationResult,
+  TemplateConstraints,
+  TemplateGenerator,
+  ValidationResult,
+} from "./types.js";
+import { authTemplateGenerator } from "./authentication/generator.js";
+import { baseProjectTemplateGenerator } from "./base-project-structure/generator.js";
+import { cacheOptimizationTemplateGenerator } from "./cache-optimization/generator.js";
+import { crudTemplateGenerator } from "./crud/generator.js";
+import { databaseTemplateGenerator } from "./database/generator.js";
+import { errorHandlingTemplateGenerator } from "./error-handling/generator.js";
+import { formTemplateGenerator } from "./forms/generator.js";
+import { navigationTemplateGenerator } from "./navigation/generator.js";
+import { securityTemplateGenerator } from "./security/generator.js";
+import { testingTemplateGenerator } from "./testing/generator.js";
+
+/**
+ * Générateur vu depuis le registre : le type de configuration est propre à chaque template,
+ * il est effacé en object comme dans le manifeste.
+ * Les méthodes (paramètres bivariants) acceptent tout TemplateGenerator<T>
+ */
+export interface AnyTemplateGenerator
+  extends Omit<TemplateGenerator, "validate" | "generate" | "constraints"> {
+  validate(config: object): ValidationResult;
+  generate(config: object, context: GenerationContext): Promise<GenerationResult>;
+  constraints?(config: object): TemplateConstraints;
+}
+
+export class TemplateRegistry {
+  private readonly generators = new Map<string, AnyTemplateGenerator>();
+
+  constructor(generators: AnyTemplateGenerator[] = []) {
+    generators.forEach((generator) => this.register(generator));
+  }
+
+  /**
+   * Enregistre un générateur, refuse les noms déjà utilisés
+   */
+  register(generator: AnyTemplateGenerator): this {
+    if (this.generators.has(generator.name)) {
+      throw new Error(`Template "${generator.name}" déjà enregistré`);
+    }
+    this.generators.set(generator.name, generator);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.generators.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.generators.has(name);
+  }
+
+  get(name: string): AnyTemplateGenerator | undefined {
+    return this.generators.get(name);
+  }
+
+  /**
+   * Retourne le générateur, échoue si aucun template ne porte ce nom
+   */
+  resolve(name: string): AnyTemplateGenerator {
+    const generator = this.generators.get(name);
+    if (!generator) {
+      throw new Error(`Template inconnu "${name}". Templates disponibles: ${this.names().join(", ")}`);
+    }
+    return generator;
+  }
+
+  /**
+   * Générateurs dans l'ordre d'enregistrement
+   */
+  list(): AnyTemplateGenerator[] {
+    return [...this.generators.values()];
+  }
+
+  names(): string[] {
+    return [...this.generators.keys()];
+  }
+}
+
+export const BASE_TEMPLATE = baseProjectTemplateGenerator.name;
+
+export const builtinTemplates: AnyTemplateGenerator[] = [
+  baseProjectTemplateGenerator,
+  authTemplateGenerator,
+  databaseTemplateGenerator,
+  crudTemplateGenerator,
+  formTemplateGenerator,
+  navigationTemplateGenerator,
+  securityTemplateGenerator,
+  errorHandlingTemplateGenerator,
+  cacheOptimizationTemplateGenerator,
+  testingTemplateGenerator,
+];
+
+export const templateRegistry = new TemplateRegistry(builtinTemplates);
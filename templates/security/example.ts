@@ -2,8 +2,8 @@
  * Exemples d'utilisation et presets pour le template de sécurité
  */
 
-import { SecurityConfig, securityPresets } from './index';
-import { generateSecurityTemplate } from './generator';
+import { SecurityConfig, securityPresets } from './index.js';
+import { generateSecurityTemplate } from './generator.js';
 
 // Exemple de configuration basique
 export const basicSecurityExample: SecurityConfig = {
@@ -2,8 +2,8 @@
  * Extensions et plugins pour le middleware de sécurité
  */
 
-import { SecurityConfig } from './index';
-import { FileTemplate } from '../types';
+import { SecurityConfig } from './index.js';
+import { FileTemplate } from '../types.js';
 
 /**
  * Extension pour l'intégration avec des services tiers
@@ -2,8 +2,113 @@
  * Générateur principal pour le template de middleware de sécurité
  */
 
-import { SecurityConfig } from './index';
-import { FileTemplate } from '../types';
+import { SecurityConfig, defaultSecurityConfig } from './index.js';
+import { FileTemplate, GenerationResult, MiddlewareSegment, TemplateGenerator } from '../types.js';
+import { createTemplateMetadata, toValidationResult } from '../generation.js';
+import { validateSecurityConfig } from './schemas.js';
+import {
+  generateInjectionProtection as generateInjectionProtectionUtility,
+  generateRateLimitUtility,
+  generateSecurityLogger,
+} from './utilities.js';
+
+/**
+ * Génère tous les fichiers du template de sécurité
+ */
+export function generateSecurityTemplate(config: SecurityConfig): GenerationResult {
+  try {
+    // Fusionner avec la configuration par défaut
+    const fullConfig = { ...defaultSecurityConfig, ...config } as SecurityConfig;
+
+    // Validation de la configuration
+    const validation = validateSecurityConfig(fullConfig);
+    if (!validation.success) {
+      return {
+        success: false,
+        files: [],
+        directories: [],
+        instructions: [],
+        errors: validation.errors ?? [],
+      };
+    }
+
+    const files: FileTemplate[] = [];
+
+    // 1. Middleware principal
+    files.push(generateSecurityMiddleware(fullConfig));
+
+    // 2. Rate limiting
+    if (fullConfig.rateLimit.enabled) {
+      files.push(generateRateLimitUtility(fullConfig));
+    }
+
+    // 3. Logging de sécurité
+    if (fullConfig.logging.enabled) {
+      files.push(generateSecurityLogger(fullConfig));
+    }
+
+    // 4. Protection contre les injections
+    if (fullConfig.advanced.injectionProtection.enabled) {
+      files.push(generateInjectionProtectionUtility(fullConfig));
+    }
+
+    // 5. Configuration
+    files.push(generateSecurityConfigFile(fullConfig));
+
+    return {
+      success: true,
+      files,
+      directories: ['src/lib', 'src/config'],
+      instructions: generateSecurityInstructions(fullConfig),
+      middleware: generateSecurityMiddlewareSegments(fullConfig),
+    };
+
+  } catch (error) {
+    return {
+      success: false,
+      files: [],
+      directories: [],
+      instructions: [],
+      errors: [`Erreur lors de la génération: ${error instanceof Error ? error.message : 'Erreur inconnue'}`],
+    };
+  }
+}
+
+/**
+ * Génère le fichier de configuration de sécurité
+ */
+function generateSecurityConfigFile(config: SecurityConfig): FileTemplate {
+  return {
+    path: 'src/config/security.ts',
+    content: `/**
+ * Configuration de sécurité de l'application
+ */
+
+export const securityConfig = ${JSON.stringify(config, null, 2)};
+
+export default securityConfig;`,
+  };
+}
+
+/**
+ * Génère les instructions d'installation
+ */
+function generateSecurityInstructions(config: SecurityConfig): string[] {
+  const instructions = [
+    'Vérifier les routes publiques dans src/config/security.ts',
+    'Adapter les règles de rate limiting à votre trafic',
+  ];
+
+  if (config.rateLimit.enabled && config.rateLimit.provider !== 'memory') {
+    instructions.push('Configurer UPSTASH_REDIS_REST_URL et UPSTASH_REDIS_REST_TOKEN');
+  }
+
+  if (config.authentication.enabled) {
+    instructions.push(`Vérifier que @/lib/auth exporte la configuration ${config.authentication.provider}`);
+  }
+
+  return instructions;
+}
 
 /**
  * Génère le fichier middleware.ts principal
@@ -41,6 +146,146 @@ ${middlewareConfig}`;
   };
 }
 
+const SECURITY_MATCHER = '/((?!_next/static|_next/image|favicon.ico).*)';
+
+/**
+ * Découpe le middleware de sécurité en segments composables
+ */
+export function generateSecurityMiddlewareSegments(config: SecurityConfig): MiddlewareSegment[] {
+  const { advanced, logging } = config;
+  const loggerImports = logging.enabled
+    ? ['import { SecurityLogger } from "@/lib/security-logger";']
+    : [];
+  const base = { template: 'security', priority: 10, matcher: [SECURITY_MATCHER] };
+  const segments: MiddlewareSegment[] = [
+    {
+      ...base,
+      name: 'security-headers',
+      order: 10,
+      body: `${generateSegmentPreamble(config, ['response'], false)}${generateOtherSecurityHeaders(config)}`,
+    },
+  ];
+
+  if (config.securityHeaders.csp.enabled) {
+    segments.push({
+      ...base,
+      name: 'content-security-policy',
+      order: 11,
+      feature: 'csp',
+      body: `${generateSegmentPreamble(config, ['response'], false)}${generateCSPHeader(config)}`,
+    });
+  }
+
+  if (config.cors.enabled) {
+    segments.push({
+      ...base,
+      name: 'cors',
+      order: 20,
+      feature: 'cors',
+      body: `${generateSegmentPreamble(config, ['response'], false)}${generateCORSHeaders(config)}`,
+    });
+  }
+
+  const threatChecks = [
+    generateIpBlacklist(config),
+    generateInjectionProtection(config),
+    generateGeoBlocking(config),
+    generateBotDetection(config),
+  ].join('');
+  if (threatChecks.trim()) {
+    segments.push({
+      ...base,
+      name: 'threat-protection',
+      order: 25,
+      imports: [
+        ...(advanced.injectionProtection.enabled
+          ? ['import { scanForInjections } from "@/lib/injection-protection";'] : []),
+        ...(advanced.geoBlocking.enabled
+          ? ['import { getGeoLocation, isGeoBlocked } from "@/lib/geo-blocking";'] : []),
+        ...(advanced.botProtection.enabled
+          ? ['import { detectBot } from "@/lib/bot-detection";'] : []),
+        ...loggerImports,
+      ],
+      body: `${generateSegmentPreamble(config, ['pathname', 'ip', 'userAgent'])}${threatChecks}`,
+    });
+  }
+
+  if (config.rateLimit.enabled) {
+    segments.push({
+      ...base,
+      name: 'rate-limit',
+      order: 30,
+      feature: 'rate-limiting',
+      imports: ['import { createRateLimiter } from "@/lib/rate-limit";', ...loggerImports],
+      helpers: generateRateLimitHelpers(config),
+      body: `${generateSegmentPreamble(config, ['pathname', 'ip'])}${generatePublicRouteChecks(config)}
+${generateRateLimit(config)}`,
+    });
+  }
+
+  if (config.authentication.enabled) {
+    segments.push({
+      ...base,
+      name: 'auth-guard',
+      order: 40,
+      feature: 'auth',
+      imports: [
+        'import { NextResponse } from "next/server";',
+        'import { auth } from "@/lib/auth";',
+        ...loggerImports,
+      ],
+      body: `${generateSegmentPreamble(config, ['pathname'])}${generatePublicRouteChecks(config)}
+${generateAuthentication(config)}
+
+    context.session = session;`,
+    });
+  }
+
+  if (config.authorization.enabled) {
+    segments.push({
+      ...base,
+      name: 'role-redirects',
+      order: 50,
+      feature: 'auth',
+      imports: ['import { NextResponse } from "next/server";', ...loggerImports],
+      helpers: generateAuthorizationHelpers(config),
+      body: `${generateSegmentPreamble(config, ['pathname', 'session'])}${generateAuthorization(config)}`,
+    });
+  }
+
+  if (config.csrf.enabled) {
+    segments.push({
+      ...base,
+      name: 'csrf',
+      order: 60,
+      feature: 'csrf',
+      imports: ['import { validateCSRFToken } from "@/lib/csrf";', ...loggerImports],
+      body: `${generateSegmentPreamble(config, ['pathname', 'session'])}${generatePublicRouteChecks(config)}
+${generateCSRFProtection(config)}`,
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Génère les variables lues depuis le contexte du middleware composé
+ */
+function generateSegmentPreamble(
+  config: SecurityConfig,
+  variables: string[],
+  withLogger: boolean = true,
+): string {
+  const logger = withLogger && config.logging.enabled;
+  const names = logger ? [...new Set([...variables, 'ip', 'userAgent'])] : variables;
+  const lines = [`  const { ${names.join(', ')} } = context;`];
+
+  if (logger) {
+    lines.push('  const logger = SecurityLogger.getInstance();');
+  }
+  return lines.join('\n');
+}
+
 /**
  * Génère les imports nécessaires
  */
@@ -147,6 +392,13 @@ function generateMiddlewareFunction(config: SecurityConfig): string {
  * Génère les vérifications préliminaires
  */
 function generatePreChecks(config: SecurityConfig): string {
+  return generateIpBlacklist(config) + generatePublicRouteChecks(config);
+}
+
+/**
+ * Génère le blocage des IP blacklistées
+ */
+function generateIpBlacklist(config: SecurityConfig): string {
   let checks = '';
 
   // Vérification des IP blacklistées
@@ -168,8 +420,14 @@ function generatePreChecks(config: SecurityConfig): string {
     }`;
   }
 
-  // Vérification des routes publiques
-  checks += `
+  return checks;
+}
+
+/**
+ * Génère la détection des routes publiques
+ */
+function generatePublicRouteChecks(config: SecurityConfig): string {
+  return `
     // Vérification des routes publiques
     const publicRoutes = ${JSON.stringify(config.publicRoutes)};
     const publicApiRoutes = ${JSON.stringify(config.publicApiRoutes)};
@@ -181,8 +439,6 @@ function generatePreChecks(config: SecurityConfig): string {
     const isPublicApiRoute = publicApiRoutes.some(route => 
       pathname.startsWith(route)
     );`;
-
-  return checks;
 }
 
 /**
@@ -620,7 +876,15 @@ function getClientIP(request: NextRequest): string {
   
   return cfConnectingIP || realIP || (forwarded ? forwarded.split(',')[0].trim() : 'unknown');
 }
+${generateRateLimitHelpers(config)}
+${config.authorization.enabled ? generateAuthorizationHelpers(config) : ''}`;
+}
 
+/**
+ * Génère les fonctions de sélection des règles de rate limiting
+ */
+function generateRateLimitHelpers(config: SecurityConfig): string {
+  return `
 function getRateLimitKey(pathname: string, ip: string): string {
   return \`rate_limit:\${ip}:\${pathname}\`;
 }
@@ -635,9 +899,14 @@ function getRateLimitConfig(pathname: string) {
   }
   
   return ${JSON.stringify(config.rateLimit.defaultRule)};
+}`;
 }
 
-${config.authorization.enabled ? `
+/**
+ * Génère les fonctions de vérification des rôles et permissions
+ */
+function generateAuthorizationHelpers(config: SecurityConfig): string {
+  return `
 function getRouteConfig(pathname: string) {
   const routeProtection = ${JSON.stringify(config.authorization.routeProtection)};
   
@@ -666,7 +935,7 @@ function isAuthorized(user: any, routeConfig: any): boolean {
   }
   
   return true;
-}` : ''}`;
+}`;
 }
 
 /**
@@ -687,3 +956,32 @@ export const config = {
   ],
 };`;
 }
+
+/**
+ * Générateur de sécurité enregistré dans le registre des templates
+ */
+export const securityTemplateGenerator: TemplateGenerator<SecurityConfig> = {
+  name: 'security',
+  description: 'Middleware de sécurité (CSP, rate limiting, protection des routes)',
+  metadata: createTemplateMetadata({
+    name: 'security',
+    description: 'Middleware de sécurité (CSP, rate limiting, protection des routes)',
+    tags: ['security', 'middleware', 'csp', 'rate-limiting', 'csrf'],
+  }),
+  // La protection des routes s'appuie sur @/lib/auth de better-auth
+  constraints: (config) => {
+    const authentication = config.authentication;
+    if (!authentication?.enabled) {
+      return {};
+    }
+    if (authentication.provider === 'better-auth') {
+      return { dependencies: ['auth'] };
+    }
+    return authentication.provider === 'next-auth' ? { conflicts: ['better-auth'] } : {};
+  },
+  validate: (config) => {
+    const validation = validateSecurityConfig({ ...defaultSecurityConfig, ...config });
+    return toValidationResult(validation.errors ?? []);
+  },
+  generate: async (config) => generateSecurityTemplate(config),
+};
@@ -3,14 +3,14 @@
  * Point d'entrée principal avec exports et configuration
  */
 
-import { ProjectConfig } from '../types';
+import { ProjectConfig } from '../types.js';
 
 // Re-exports des modules principaux
-export * from './types';
-export * from './generator';
-export * from './schemas';
-export * from './utilities';
-export * from './extensions';
+export * from './types.js';
+export * from './generator.js';
+export * from './schemas.js';
+export * from './utilities.js';
+export * from './extensions.js';
 
 export interface SecurityConfig extends ProjectConfig {
   // Configuration d'authentification
@@ -385,8 +385,8 @@ export const securityPresets = {
   },
 };
 
-export * from './types';
-export * from './generator';
-export * from './schemas';
-export * from './utilities';
-export * from './extensions';
+export * from './types.js';
+export * from './generator.js';
+export * from './schemas.js';
+export * from './utilities.js';
+export * from './extensions.js';
@@ -10,9 +10,9 @@ export const authenticationConfigSchema = z.object({
   provider: z.enum(['better-auth', 'next-auth', 'custom']),
   sessionStrategy: z.enum(['jwt', 'database']),
   redirects: z.object({
-    login: z.string().url(),
-    logout: z.string().url(),
-    unauthorized: z.string().url(),
+    login: z.string().startsWith('/'),
+    logout: z.string().startsWith('/'),
+    unauthorized: z.string().startsWith('/'),
   }),
 });
 
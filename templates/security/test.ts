@@ -2,10 +2,10 @@
  * Tests pour le template de middleware de sécurité
  */
 
-import { generateSecurityTemplate } from './generator';
-import { securityPresets, SecurityConfig } from './index';
-import { validateSecurityConfig } from './schemas';
-import { testExamples } from './example';
+import { generateSecurityTemplate } from './generator.js';
+import { securityPresets, SecurityConfig } from './index.js';
+import { validateSecurityConfig } from './schemas.js';
+import { testExamples } from './example.js';
 
 /**
  * Test de génération basique
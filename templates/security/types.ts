@@ -354,5 +354,5 @@ export interface SecurityReport {
 }
 
 // Export des types utilitaires
-export type SecurityConfigKey = keyof import('./index').SecurityConfig;
-export type SecurityPreset = keyof typeof import('./index').securityPresets;
+export type SecurityConfigKey = keyof import('./index.js').SecurityConfig;
+export type SecurityPreset = keyof typeof import('./index.js').securityPresets;
@@ -2,8 +2,8 @@
  * Utilitaires et helpers pour le middleware de sécurité
  */
 
-import { SecurityConfig } from './index';
-import { FileTemplate } from '../types';
+import { SecurityConfig } from './index.js';
+import { FileTemplate } from '../types.js';
 
 /**
  * Génère le système de rate limiting
@@ -429,7 +429,7 @@ const PATH_TRAVERSAL_PATTERNS = [
 ];
 
 const COMMAND_INJECTION_PATTERNS = [
-  /[;&|`$(){}\\[\\]]/,
+  /[;&|\`$(){}\\[\\]]/,
   /(cat|ls|pwd|whoami|id|uname|ps|netstat|ifconfig)/i,
   /(rm|mv|cp|chmod|chown|kill|sudo)/i,
 ];
@@ -3,8 +3,8 @@
  * Usage examples showing different configuration presets and implementation patterns
  */
 
-import { generateCompleteTesting, TestingGenerationOptions } from "./generator";
-import { TestingConfig } from "./index";
+import { generateCompleteTesting, TestingGenerationOptions } from "./generator.js";
+import { TestingConfig } from "./index.js";
 
 /**
  * Example 1: Complete testing setup with all features
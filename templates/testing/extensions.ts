@@ -3,8 +3,8 @@
  * Advanced features and extensions for testing setup
  */
 
-import { TestingConfig } from "./index";
-import { FileTemplate } from "../types";
+import { TestingConfig } from "./index.js";
+import { FileTemplate } from "../types.js";
 
 /**
  * Visual testing extension
@@ -3,15 +3,22 @@
  * Main generator logic that orchestrates file creation and dependency management
  */
 
-import { FileTemplate } from "../types";
-import { TestingConfig, TestingTemplate, defaultTestingConfig } from "./index";
+import { FileTemplate, TemplateGenerator } from "../types.js";
+import { createTemplateMetadata, toGenerationResult, toValidationResult } from "../generation.js";
+import {
+  TestingConfig,
+  TestingTemplate,
+  defaultTestingConfig,
+  generateTestingTemplate,
+} from "./index.js";
+import { validateTestingConfig } from "./schemas.js";
 import { 
   generateTestConfigFiles, 
   generateTestUtilFiles, 
   generateMockFiles, 
   generateExampleTestFiles 
-} from "./utilities";
-import { generateAllExtensions } from "./extensions";
+} from "./utilities.js";
+import { generateAllExtensions } from "./extensions.js";
 
 export interface TestingGenerationOptions {
   includeExamples?: boolean;
@@ -334,3 +341,31 @@ function generateInstructions(
 
   return instructions;
 }
+
+/**
+ * Testing generator registered in the template registry
+ */
+export const testingTemplateGenerator: TemplateGenerator<TestingConfig> = {
+  name: "testing",
+  description: "Configuration de tests (unitaires, intégration, E2E)",
+  metadata: createTemplateMetadata({
+    name: "testing",
+    description: "Configuration de tests (unitaires, intégration, E2E)",
+    devDependencies: [
+      "vitest@^1.0.0",
+      "@testing-library/react@^14.1.0",
+      "@testing-library/jest-dom@^6.1.0",
+    ],
+    tags: ["testing", "vitest", "jest", "playwright"],
+  }),
+  validate: (config) => {
+    const { errors, warnings } = validateTestingConfig({ ...defaultTestingConfig, ...config });
+    return toValidationResult(errors, warnings);
+  },
+  generate: async (config) => {
+    const { errors, warnings } = validateTestingConfig(config);
+    return toGenerationResult(
+      errors.length > 0 ? { errors } : { ...generateTestingTemplate(config), warnings }
+    );
+  },
+};
@@ -3,7 +3,13 @@
  * Comprehensive testing setup for Next.js applications with multiple frameworks and strategies
  */
 
-import { DirectoryStructure, FileTemplate, ProjectConfig } from "../types";
+import { DirectoryStructure, FileTemplate, ProjectConfig } from "../types.js";
+import {
+  generateExampleTestFiles,
+  generateMockFiles,
+  generateTestConfigFiles,
+  generateTestUtilFiles,
+} from "./utilities.js";
 
 export interface TestingConfig extends ProjectConfig {
   framework: "jest" | "vitest";
@@ -153,27 +159,6 @@ export function generateTestingTemplate(
   };
 }
 
-// Helper functions (implemented in utilities.ts)
-function generateTestConfigFiles(config: TestingConfig): FileTemplate[] {
-  // Implementation moved to utilities.ts
-  return [];
-}
-
-function generateTestUtilFiles(config: TestingConfig): FileTemplate[] {
-  // Implementation moved to utilities.ts
-  return [];
-}
-
-function generateMockFiles(config: TestingConfig): FileTemplate[] {
-  // Implementation moved to utilities.ts
-  return [];
-}
-
-function generateExampleTestFiles(config: TestingConfig): FileTemplate[] {
-  // Implementation moved to utilities.ts
-  return [];
-}
-
 function generatePackageScripts(config: TestingConfig): Record<string, string> {
   const scripts: Record<string, string> = {
     "test": config.framework === "jest" ? "jest" : "vitest",
@@ -263,6 +248,6 @@ function generateInstructions(config: TestingConfig): string[] {
   return instructions;
 }
 
-export * from "./types";
-export * from "./utilities";
-export * from "./extensions";
+export * from "./types.js";
+export * from "./utilities.js";
+export * from "./extensions.js";
@@ -3,8 +3,8 @@
  * Core testing configurations and framework schemas
  */
 
-import { TestingConfig } from "./index";
-import { TEST_FRAMEWORKS, E2E_FRAMEWORKS, DEFAULT_COVERAGE_CONFIG } from "./types";
+import { TestingConfig } from "./index.js";
+import { TEST_FRAMEWORKS, E2E_FRAMEWORKS, DEFAULT_COVERAGE_CONFIG } from "./types.js";
 
 /**
  * Jest configuration schema
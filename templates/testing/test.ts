@@ -4,16 +4,16 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { generateCompleteTesting } from './generator';
-import { defaultTestingConfig, TestingConfig } from './index';
-import { validateTestingConfig, getRecommendedTestConfig } from './schemas';
+import { generateCompleteTesting } from './generator.js';
+import { defaultTestingConfig, TestingConfig } from './index.js';
+import { validateTestingConfig, getRecommendedTestConfig } from './schemas.js';
 import { 
   exampleCompleteTesting, 
   exampleVitestModern, 
   exampleBasicTesting,
   exampleCypressE2E,
   exampleLibraryTesting 
-} from './example';
+} from './example.js';
 
 describe('Testing Template', () => {
   describe('Template Generation', () => {
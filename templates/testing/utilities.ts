@@ -3,9 +3,9 @@
  * Helper functions and utility classes for testing setup
  */
 
-import { FileTemplate } from "../types";
-import { TestingConfig } from "./index";
-import { TEST_FRAMEWORKS, E2E_FRAMEWORKS } from "./types";
+import { FileTemplate } from "../types.js";
+import { TestingConfig } from "./index.js";
+import { TEST_FRAMEWORKS, E2E_FRAMEWORKS } from "./types.js";
 
 /**
  * Generate test configuration files
@@ -395,7 +395,8 @@ export const createMockRouter = (router: Partial<any> = {}) => ({
 });
 
 export const waitForLoadingToFinish = () =>
-  new Promise(resolve => setTimeout(resolve, 0));
+  new Promise(resolve => setTimeout(resolve, 0));`;
+}
 
 // Placeholder implementations for remaining functions
 function generateCustomMatchers(config: TestingConfig): string {
@@ -444,5 +445,4 @@ function generatePlaywrightTest(config: TestingConfig): string {
 
 function generateCypressTest(config: TestingConfig): string {
   return `// Cypress test example`;
-}`;
 }
@@ -36,12 +36,30 @@ export interface TemplateMetadata {
   tags: string[];
 }
 
+/**
+ * Système de fichiers du projet, chemins relatifs à sa racine
+ * Implémenté sur disque et en mémoire (src/core/file-system.ts)
+ */
+export interface FileSystem {
+  // Racine du projet : chemin sur disque ou libellé pour un projet en mémoire
+  readonly root: string;
+  readFile(path: string): Promise<string | undefined>;
+  exists(path: string): Promise<boolean>;
+  writeFile(path: string, content: string, options?: { executable?: boolean }): Promise<void>;
+  // Écrit un ensemble de fichiers, sans écriture partielle en cas d'erreur
+  writeFiles(files: FileTemplate[]): Promise<void>;
+  remove(path: string): Promise<void>;
+  glob(patterns: string | string[], ignore?: string[]): Promise<string[]>;
+}
+
 export interface GenerationContext {
   projectRoot: string;
   config: ProjectConfig;
   existingFiles: string[];
   skipExisting: boolean;
   dryRun: boolean;
+  // Système de fichiers du projet, le disque sous projectRoot par défaut
+  fs?: FileSystem;
 }
 
 export interface ValidationResult {
@@ -50,12 +68,32 @@ export interface ValidationResult {
   warnings: string[];
 }
 
-export interface TemplateGenerator<T extends ProjectConfig = ProjectConfig> {
+/**
+ * Relations d'un template avec les autres, par nom de template ou par capacité
+ * Un template fournit implicitement une capacité portant son nom
+ */
+export interface TemplateConstraints {
+  // Templates ou capacités requis, ajoutés automatiquement s'ils manquent
+  dependencies?: string[];
+  // Templates ou capacités incompatibles
+  conflicts?: string[];
+  // Capacités fournies au reste du projet (ex: 'sql-relations')
+  provides?: string[];
+}
+
+/**
+ * Contrat commun implémenté par chaque module de templates/
+ * Les générateurs sont enregistrés dans le registre (templates/registry.ts)
+ */
+export interface TemplateGenerator<T extends ProjectConfig = ProjectConfig>
+  extends TemplateConstraints {
   name: string;
   description: string;
+  metadata: TemplateMetadata;
   validate: (config: Partial<T>) => ValidationResult;
   generate: (config: T, context: GenerationContext) => Promise<GenerationResult>;
-  dependencies?: string[];
+  // Contraintes dépendant de la configuration, ajoutées aux contraintes statiques
+  constraints?: (config: Partial<T>) => TemplateConstraints;
 }
 
 export interface GenerationResult {
@@ -65,6 +103,57 @@ export interface GenerationResult {
   instructions: string[];
   errors?: string[];
   warnings?: string[];
+  middleware?: MiddlewareSegment[];
+  packageJson?: PackageContribution;
+  env?: EnvVariable[];
+  // Modifications ciblées de fichiers existants, appliquées sans les réécrire
+  modifications?: CodeModification[];
+}
+
+/**
+ * Opération de codemod, idempotente : sans effet si elle a déjà été appliquée
+ */
+export type CodemodOperation =
+  // .ts/.tsx : import nommé, par défaut ou de type
+  | { type: 'add-import'; module: string; named?: string[]; default?: string; typeOnly?: boolean }
+  // .tsx : enveloppe les enfants du premier élément parent (ex. body) dans un provider
+  | { type: 'wrap-jsx-children'; parent: string; component: string; props?: string }
+  // .tsx : ajoute un élément à la fin des enfants du premier élément parent
+  | { type: 'append-jsx-child'; parent: string; element: string }
+  // .ts/.tsx : ajoute une entrée au tableau d'une propriété (ex. plugins de betterAuth)
+  | { type: 'append-array-entry'; variable?: string; property: string; entry: string }
+  // .prisma : ajoute un bloc model, enum, generator… absent du schéma
+  | { type: 'add-prisma-block'; block: string }
+  // .json : ajoute les clés absentes et les entrées de tableau manquantes
+  | { type: 'merge-json'; value: Record<string, unknown> };
+
+export interface CodeModification {
+  path: string;
+  operations: CodemodOperation[];
+}
+
+/**
+ * Contribution d'un template au package.json du projet (plages semver)
+ */
+export interface PackageContribution {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  scripts?: Record<string, string>;
+}
+
+/**
+ * Variable d'environnement déclarée par un template
+ * Les déclarations de tous les templates produisent .env.example et src/lib/env.ts
+ */
+export interface EnvVariable {
+  name: string;
+  description: string;
+  required: boolean;
+  // Valeur sensible : jamais exposée côté client ni commitée
+  secret: boolean;
+  example: string;
+  // Template propriétaire, utilisé comme section de .env.example
+  template: string;
 }
 
 // Types spécifiques pour les différents templates
@@ -156,6 +245,31 @@ export interface MiddlewareConfig extends ProjectConfig {
   };
 }
 
+export type MiddlewareFeature = MiddlewareConfig['features'][number] | 'csp' | 'csrf';
+
+/**
+ * Segment de middleware fourni par un template
+ * Chaque segment devient src/lib/middleware/<name>.ts, appelé par ordre croissant depuis middleware.ts
+ * Ordres usuels : headers 10, CORS 20, protections 25, rate limit 30, auth 40, rôles 50, CSRF 60
+ */
+export interface MiddlewareSegment {
+  // Nom kebab-case, unique dans le projet (ex: 'rate-limit')
+  name: string;
+  template: string;
+  order: number;
+  // Entre deux segments homonymes, la priorité la plus haute l'emporte
+  priority?: number;
+  // Segment retiré si la fonctionnalité est désactivée dans la MiddlewareConfig
+  feature?: MiddlewareFeature;
+  // Motifs Next.js sur lesquels le segment s'applique
+  matcher: string[];
+  imports?: string[];
+  helpers?: string;
+  // Corps de la fonction (request: NextRequest, context: MiddlewareContext)
+  // Retourner une Response interrompt la chaîne
+  body: string;
+}
+
 export interface CacheConfig extends ProjectConfig {
   strategy: 'isr' | 'ssg' | 'ssr' | 'spa';
   revalidation: {
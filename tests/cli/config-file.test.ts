@@ -0,0 +1,87 @@
+/**
+ * Tests pour le fichier de configuration de projet (next-cli create --config)
+ */
+
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+
+import { CONFIG_SCHEMA, parseProjectFile, planFromProjectFile } from "../../src/cli/config-file.js";
+import { validateJsonSchema } from "../../src/core/json-schema.js";
+import {
+  CONFIG_SCHEMA_FILE,
+  generateConfigSchema,
+  renderConfigSchema,
+} from "../../scripts/generate-config-schema.js";
+
+const field = (name: string, type: string) => ({
+  name,
+  type,
+  displayName: name,
+  required: true,
+  display: { showInTable: true, showInForm: true, showInDetail: true },
+});
+
+describe("Project config file", () => {
+  it("should keep the committed schema in sync with the config interfaces", async () => {
+    const committed = await readFile(join(process.cwd(), CONFIG_SCHEMA_FILE), "utf-8");
+
+    expect(renderConfigSchema(generateConfigSchema())).toBe(committed);
+  }, 60000);
+
+  it("should report schema errors with their path", () => {
+    const errors = validateJsonSchema(CONFIG_SCHEMA, {
+      project: { packageManager: "pip" },
+      templates: {
+        crud: { entity: { fields: [field("title", "string"), { ...field("price", "money"), display: undefined }] } },
+        forms: { unknown: true },
+      },
+    });
+
+    expect(errors.map(({ path }) => path)).toEqual([
+      "project.packageManager",
+      "templates.crud.entity.fields[1].display",
+      "templates.crud.entity.fields[1].type",
+      "templates.forms.unknown",
+    ]);
+  });
+
+  it("should build the plan from presets and overrides", () => {
+    const data = parseProjectFile(
+      [
+        "project:",
+        "  projectName: shop",
+        "  packageManager: npm",
+        "templates:",
+        "  database:",
+        "    preset: postgresql",
+        "  crud:",
+        "    entity:",
+        "      name: Product",
+        "      fields:",
+        "        - { name: title, type: string, displayName: Titre, required: true,",
+        "            display: { showInTable: true, showInForm: true, showInDetail: true } }",
+        "    features: [pagination]",
+      ].join("\n"),
+      "project.yaml"
+    );
+
+    const plan = planFromProjectFile(data, "project.yaml", { projectName: "store" });
+
+    expect(plan.project).toEqual({ projectName: "store", useTypeScript: true, packageManager: "npm" });
+    expect(plan.base).toMatchObject({ projectName: "store", useSrcDirectory: true });
+    expect(plan.templates.map(({ template }) => template.name)).toEqual(["database", "crud"]);
+
+    const crud = plan.templates[1]?.config;
+    expect(crud.entity.name).toBe("Product");
+    expect(crud.entity.fields.map((item: { name: string }) => item.name)).toEqual(["title"]);
+    expect(crud.features).toEqual(["pagination"]);
+    expect(crud.table).toBeDefined();
+  });
+
+  it("should refuse a file without a project name", () => {
+    expect(() => planFromProjectFile({ templates: {} }, "project.json")).toThrow(
+      "project.projectName : champ requis manquant"
+    );
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests pour la CLI
+ * Valide la construction du programme commander et le catalogue de templates
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { testUtils } from "../setup.js";
+
+import { commands } from "../../src/cli/commands/index.js";
+import { createProgram, toCommanderOption } from "../../src/cli/program.js";
+import { findTemplate, generateTemplate, templateCatalog } from "../../src/cli/templates.js";
+
+describe("CLI", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await testUtils.createTempDir("cli-");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  describe("Program", () => {
+    it("should register every command", () => {
+      const program = createProgram(commands);
+      const names = program.commands.map((command) => command.name());
+
+      expect(names).toEqual(["create", "add", "remove", "upgrade", "doctor", "list", "info"]);
+    });
+
+    it("should map CLIOption types to commander flags", () => {
+      expect(toCommanderOption({ name: "force", description: "", type: "boolean" }).flags)
+        .toBe("--force");
+      expect(toCommanderOption({ name: "templates", description: "", type: "array" }).flags)
+        .toBe("--templates <values...>");
+      expect(
+        toCommanderOption({ name: "pm", description: "", type: "string", choices: ["npm", "pnpm"] })
+          .argChoices
+      ).toEqual(["npm", "pnpm"]);
+    });
+
+    it("should create a project with templates", async () => {
+      const program = createProgram(commands);
+      await program.parseAsync(
+        ["create", "demo-app", "--templates", "security:basic", "--directory", tempDir],
+        { from: "user" }
+      );
+
+      const projectRoot = join(tempDir, "demo-app");
+      expect(existsSync(join(projectRoot, "package.json"))).toBe(true);
+      expect(existsSync(join(projectRoot, "src/config/security.ts"))).toBe(true);
+    });
+
+    it("should let the database template replace base files without sidecars", async () => {
+      const program = createProgram(commands);
+      await program.parseAsync(
+        ["create", "demo-app", "--templates", "database:postgresql", "--directory", tempDir],
+        { from: "user" }
+      );
+
+      const projectRoot = join(tempDir, "demo-app");
+      expect(existsSync(join(projectRoot, "prisma/seed.ts.new"))).toBe(false);
+      expect(existsSync(join(projectRoot, "src/lib/db.ts.new"))).toBe(false);
+      expect(readFileSync(join(projectRoot, "src/lib/db.ts"), "utf-8")).toContain("PrismaClient");
+    });
+
+    it("should strip the Prisma models of a removed template", async () => {
+      const program = createProgram(commands);
+      await program.parseAsync(
+        ["create", "demo-app", "--templates", "database:postgresql", "crud", "--directory", tempDir],
+        { from: "user" }
+      );
+      const projectRoot = join(tempDir, "demo-app");
+      expect(readFileSync(join(projectRoot, "prisma/schema.prisma"), "utf-8")).toContain("model Item {");
+
+      await createProgram(commands).parseAsync(["remove", "crud", "--directory", projectRoot], {
+        from: "user",
+      });
+
+      const schema = readFileSync(join(projectRoot, "prisma/schema.prisma"), "utf-8");
+      expect(schema).not.toContain("model Item {");
+      expect(schema).toContain("model User {");
+    });
+  });
+
+  describe("Template catalog", () => {
+    it("should expose every template module", () => {
+      expect(templateCatalog.map((template) => template.name)).toEqual([
+        "auth",
+        "database",
+        "crud",
+        "forms",
+        "navigation",
+        "security",
+        "error-handling",
+        "cache-optimization",
+        "testing",
+      ]);
+    });
+
+    it.each(templateCatalog.map((template) => template.name))(
+      "should generate files for %s",
+      async (name) => {
+        const result = await generateTemplate(findTemplate(name)!, {
+          project: { projectName: "my-app", useTypeScript: true, packageManager: "pnpm" },
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.files.length).toBeGreaterThan(0);
+      }
+    );
+
+    it("should reject unknown presets", async () => {
+      await expect(async () =>
+        generateTemplate(findTemplate("forms")!, {
+          project: { projectName: "my-app", useTypeScript: true, packageManager: "pnpm" },
+          preset: "unknown",
+        })
+      ).rejects.toThrow(/Preset inconnu/);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests pour l'assistant interactif
+ * Valide la dérivation des questions depuis les configurations et les schémas Zod
+ */
+
+import type { DistinctQuestion } from "inquirer";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+
+import { deriveConfigSections } from "../../src/cli/prompts.js";
+import { findTemplate } from "../../src/cli/templates.js";
+import { configure, runWizard } from "../../src/cli/wizard.js";
+import type { PromptFunction } from "../../src/cli/wizard.js";
+
+const silentLogger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  success: () => {},
+  debug: () => {},
+};
+
+/**
+ * Simule inquirer en répondant aux questions par leur valeur par défaut,
+ * sauf pour celles dont le message est fourni
+ */
+function scriptedPrompt(answers: Record<string, unknown> = {}): PromptFunction {
+  return async (questions: DistinctQuestion[]) => {
+    const [question] = questions;
+    const message = String(question?.message);
+    const value = message in answers ? answers[message] : question?.default;
+    return { value: question?.filter ? await question.filter(value, {}) : value };
+  };
+}
+
+describe("CLI Wizard", () => {
+  describe("Question derivation", () => {
+    it("should derive question types from values and schema", () => {
+      const schema = z.object({
+        mode: z.enum(["fast", "safe"]),
+        retries: z.number().optional(),
+      });
+      const sections = deriveConfigSections(
+        { enabled: true, mode: "safe", tags: ["a", "b"], nested: { size: 3 } },
+        { schema }
+      );
+
+      const questions = sections.flatMap((section) => section.questions);
+      const types = Object.fromEntries(
+        questions.map(({ path, question }) => [path.join("."), question.type])
+      );
+
+      expect(types).toEqual({
+        enabled: "confirm",
+        mode: "list",
+        tags: "input",
+        "nested.size": "number",
+        retries: "number",
+      });
+      expect(sections.map((section) => section.name)).toEqual(["", "nested"]);
+    });
+
+    it("should expose new schema options without extra code", () => {
+      const security = findTemplate("security")!;
+      const config = security.createConfig({
+        project: { projectName: "demo", useTypeScript: true, packageManager: "pnpm" },
+      });
+      const sections = deriveConfigSections(config, { schema: security.schema });
+      const paths = sections.flatMap((section) =>
+        section.questions.map((question) => question.path.join("."))
+      );
+
+      expect(paths).toContain("rateLimit.provider");
+      expect(paths).toContain("authentication.sessionStrategy");
+    });
+  });
+
+  describe("Configuration", () => {
+    it("should apply answers of customized sections", async () => {
+      const config = await configure(
+        scriptedPrompt({
+          "Personnaliser « limits » ?": true,
+          "limits › max": 42,
+          "tags (séparés par des virgules)": "x, y",
+        }),
+        { tags: ["a"], limits: { max: 10 } }
+      );
+
+      expect(config).toEqual({ tags: ["x", "y"], limits: { max: 42 } });
+    });
+
+    it("should reject answers refused by the template validation", async () => {
+      await expect(
+        configure(scriptedPrompt({ "database": "oracle" }), { database: "postgresql" }, {
+          validate: (config) => (config.database === "oracle" ? ["Base non supportée"] : []),
+        })
+      ).rejects.toThrow(/Base non supportée/);
+    });
+  });
+
+  it("should build a project plan from presets", async () => {
+    const plan = await runWizard(
+      silentLogger,
+      {},
+      scriptedPrompt({
+        "Nom du projet": "wizard-app",
+        "Templates à inclure": ["security", "testing"],
+        "Point de départ": "enterprise",
+      })
+    );
+
+    expect(plan.project.projectName).toBe("wizard-app");
+    expect(plan.templates.map(({ template }) => template.name)).toEqual(["security", "testing"]);
+
+    for (const { template, config } of plan.templates) {
+      expect((await template.generate(config)).success).toBe(true);
+    }
+  });
+});
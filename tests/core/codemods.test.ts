@@ -0,0 +1,129 @@
+/**
+ * Tests pour les codemods (TypeScript, JSX, Prisma, JSON)
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { applyCodemods, applyModifications } from "../../src/core/codemods/index.js";
+import { MemoryFileSystem } from "../../src/core/file-system.js";
+import type { CodemodOperation } from "../../templates/types.js";
+
+const logger = { info: () => {}, warn: () => {}, error: () => {}, success: () => {}, debug: () => {} };
+
+const layout = `import type { Metadata } from 'next';
+import './globals.css';
+
+export default function RootLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <html lang="fr">
+      <body>
+        {/* Contenu de l'utilisateur */}
+        {children}
+      </body>
+    </html>
+  );
+}
+`;
+
+// Applique les opérations deux fois : la seconde passe ne doit rien changer
+const applyTwice = (path: string, content: string, operations: CodemodOperation[]) => {
+  const first = applyCodemods(path, content, operations).content;
+  expect(applyCodemods(path, first, operations).content).toBe(first);
+  return first;
+};
+
+describe("Codemods", () => {
+  it("should add providers and imports to a layout without losing user code", () => {
+    const result = applyTwice("app/layout.tsx", layout, [
+      { type: "add-import", module: "@/components/theme-provider", named: ["ThemeProvider"] },
+      { type: "add-import", module: "next", named: ["Viewport"], typeOnly: true },
+      { type: "wrap-jsx-children", parent: "body", component: "ThemeProvider", props: "attribute=\"class\"" },
+      { type: "add-import", module: "sonner", named: ["Toaster"] },
+      { type: "append-jsx-child", parent: "ThemeProvider", element: "<Toaster />" },
+    ]);
+
+    expect(result).toContain("import type { Metadata, Viewport } from 'next';");
+    expect(result).toContain("import './globals.css';\nimport { ThemeProvider } from '@/components/theme-provider';");
+    expect(result).toContain([
+      "      <body>",
+      "        <ThemeProvider attribute=\"class\">",
+      "          {/* Contenu de l'utilisateur */}",
+      "          {children}",
+      "          <Toaster />",
+      "        </ThemeProvider>",
+      "      </body>",
+    ].join("\n"));
+  });
+
+  it("should append array entries and create missing properties", () => {
+    const auth = [
+      "export const auth = betterAuth({",
+      "  database: prismaAdapter(prisma),",
+      "  plugins: [",
+      "    twoFactor(),",
+      "  ],",
+      "});",
+      "",
+    ].join("\n");
+
+    const result = applyTwice("lib/auth.ts", auth, [
+      { type: "append-array-entry", variable: "auth", property: "plugins", entry: "admin()" },
+      { type: "append-array-entry", variable: "auth", property: "trustedOrigins", entry: "'http://localhost:3000'" },
+    ]);
+
+    expect(result).toContain("  plugins: [\n    twoFactor(),\n    admin(),\n  ],");
+    expect(result).toContain("  trustedOrigins: ['http://localhost:3000']");
+    expect(applyCodemods("a.ts", "const a = { list: [] };", [
+      { type: "append-array-entry", property: "list", entry: "1" },
+      { type: "append-array-entry", property: "list", entry: "2" },
+    ]).content).toBe("const a = { list: [1, 2] };");
+  });
+
+  it("should add Prisma blocks and merge JSON idempotently", () => {
+    const schema = applyTwice("prisma/schema.prisma", "model User {\n  id String @id\n}\n", [
+      { type: "add-prisma-block", block: "model User {\n  id Int @id\n}" },
+      { type: "add-prisma-block", block: "enum Role {\n  USER\n  ADMIN\n}" },
+    ]);
+    expect(schema).toBe("model User {\n  id String @id\n}\n\nenum Role {\n  USER\n  ADMIN\n}\n");
+
+    const json = applyTwice("components.json", "{\n    \"style\": \"default\",\n    \"aliases\": [\"@/ui\"]\n}\n", [
+      { type: "merge-json", value: { style: "new-york", tailwind: { css: "app/globals.css" }, aliases: ["@/lib"] } },
+    ]);
+    expect(JSON.parse(json)).toEqual({
+      style: "default",
+      aliases: ["@/ui", "@/lib"],
+      tailwind: { css: "app/globals.css" },
+    });
+    expect(json).toContain("\n    \"style\"");
+  });
+
+  it("should report missing targets and reject mismatched files", () => {
+    const { content, missing } = applyCodemods("app/page.tsx", "export default function Page() {}\n", [
+      { type: "wrap-jsx-children", parent: "body", component: "ThemeProvider" },
+    ]);
+    expect(content).toBe("export default function Page() {}\n");
+    expect(missing).toHaveLength(1);
+
+    expect(() => applyCodemods("package.json", "{}", [
+      { type: "add-prisma-block", block: "model User {}" },
+    ])).toThrow("ne s'applique pas");
+  });
+
+  it("should modify generated files first, then project files", async () => {
+    const fs = new MemoryFileSystem("demo", { "app/layout.tsx": layout });
+    const { files, modified } = await applyModifications(
+      [{ path: "prisma/schema.prisma", content: "" }],
+      [
+        { path: "prisma/schema.prisma", operations: [{ type: "add-prisma-block", block: "model Post {\n}" }] },
+        { path: "app/layout.tsx", operations: [{ type: "add-import", module: "sonner", named: ["Toaster"] }] },
+        { path: "app/missing.tsx", operations: [{ type: "add-import", module: "sonner" }] },
+      ],
+      fs,
+      logger
+    );
+
+    expect(files.map((file) => file.path)).toEqual(["prisma/schema.prisma", "app/layout.tsx"]);
+    expect(files[0]?.content).toBe("model Post {\n}\n");
+    expect(modified).toEqual(["app/layout.tsx"]);
+  });
+});
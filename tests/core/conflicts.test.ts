@@ -0,0 +1,115 @@
+/**
+ * Tests pour le diff unifié et la résolution des conflits de fichiers
+ */
+
+import { existsSync } from "fs";
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { testUtils } from "../setup.js";
+
+import { formatUnifiedDiff } from "../../src/core/diff.js";
+import { createGenerationContext, writeGeneratedFiles } from "../../src/core/file-writer.js";
+import type { ConflictResolution } from "../../src/core/file-writer.js";
+import { CONFLICT_MARKERS, mergeEnvFiles, mergeLines } from "../../src/core/merge.js";
+
+const project = { projectName: "demo", useTypeScript: true, packageManager: "pnpm" as const };
+const silentLogger = { info: () => {}, warn: () => {}, error: () => {}, success: () => {}, debug: () => {} };
+
+describe("File conflicts", () => {
+  describe("Unified diff", () => {
+    it("should render hunks with line ranges", () => {
+      const diff = formatUnifiedDiff("a.ts", "one\ntwo\nthree\n", "one\n2\nthree\nfour\n");
+
+      expect(diff).toBe(
+        ["--- a/a.ts", "+++ b/a.ts", "@@ -1,3 +1,4 @@", " one", "-two", "+2", " three", "+four"].join("\n")
+      );
+    });
+
+    it("should return an empty diff for identical files", () => {
+      expect(formatUnifiedDiff("a.ts", "same\n", "same\n")).toBe("");
+    });
+  });
+
+  describe("Merge", () => {
+    it("should keep additions from both sides and mark replaced blocks", () => {
+      const result = mergeLines("a\ncustom\nb\nold\n", "a\nb\nnew\nextra\n");
+
+      expect(result.conflicts).toBe(1);
+      expect(result.content).toBe(
+        ["a", "custom", "b", CONFLICT_MARKERS.start, "old", CONFLICT_MARKERS.separator, "new", "extra", CONFLICT_MARKERS.end, ""].join("\n")
+      );
+    });
+
+    it("should append missing variables to .env files", () => {
+      const result = mergeEnvFiles("A=1\n", "A=2\n# Auth\nB=3\n");
+
+      expect(result.content).toBe("A=1\n\n# Auth\nB=3\n");
+      expect(result.conflicts).toBe(0);
+    });
+  });
+
+  describe("Resolution", () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await testUtils.createTempDir("conflicts-");
+      await writeFile(join(tempDir, "middleware.ts"), "// existing\n", "utf-8");
+    });
+
+    const write = async (resolution: ConflictResolution) => {
+      const context = await createGenerationContext(tempDir, project);
+      return writeGeneratedFiles(
+        [{ path: "middleware.ts", content: "// generated\n" }],
+        context,
+        silentLogger,
+        { resolveConflict: async () => resolution }
+      );
+    };
+
+    it("should keep the file on disk", async () => {
+      const changes = await write("keep");
+
+      expect(changes[0]?.status).toBe("skipped");
+      expect(await readFile(join(tempDir, "middleware.ts"), "utf-8")).toBe("// existing\n");
+    });
+
+    it("should write a .new sidecar", async () => {
+      await write("sidecar");
+
+      expect(await readFile(join(tempDir, "middleware.ts"), "utf-8")).toBe("// existing\n");
+      expect(await readFile(join(tempDir, "middleware.ts.new"), "utf-8")).toBe("// generated\n");
+    });
+
+    it("should merge both versions", async () => {
+      const changes = await write("merge");
+
+      expect(changes[0]?.status).toBe("merged");
+      expect(await readFile(join(tempDir, "middleware.ts"), "utf-8")).toContain(CONFLICT_MARKERS.start);
+    });
+
+    it("should keep the last template's version of files generated by several templates", async () => {
+      const context = await createGenerationContext(join(tempDir, "new"), project);
+      const conflicts: string[] = [];
+
+      await writeGeneratedFiles(
+        [
+          { path: "middleware.ts", content: "// base\n" },
+          { path: "middleware.ts", content: "// security\n" },
+        ],
+        context,
+        silentLogger,
+        {
+          resolveConflict: async (conflict) => {
+            conflicts.push(conflict.path);
+            return "sidecar";
+          },
+        }
+      );
+
+      expect(conflicts).toEqual([]);
+      expect(await readFile(join(tempDir, "new/middleware.ts"), "utf-8")).toBe("// security\n");
+      expect(existsSync(join(tempDir, "new/middleware.ts.new"))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests pour le diagnostic de projet (next-cli doctor)
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { testUtils } from "../setup.js";
+
+import {
+  checkDependencies,
+  checkEnv,
+  checkPathAliases,
+  checkTailwind,
+  detectTemplates,
+  diagnoseProject,
+  stripJsonComments,
+} from "../../src/core/doctor.js";
+
+describe("Project doctor", () => {
+  let tempDir: string;
+
+  const write = async (path: string, content: string) => {
+    await mkdir(dirname(join(tempDir, path)), { recursive: true });
+    await writeFile(join(tempDir, path), content, "utf-8");
+  };
+
+  beforeEach(async () => {
+    tempDir = await testUtils.createTempDir("doctor-");
+  });
+
+  it("should detect templates from files, dependencies and middleware segments", () => {
+    const templates = detectTemplates(
+      {
+        files: ["prisma/schema.prisma", "src/components/forms/contact-form.tsx"],
+        contents: {
+          "src/lib/middleware/rate-limit.ts": "/**\n * Segment de middleware « rate-limit » (template security)\n * @order 20\n * @matcher []\n */",
+        },
+        packageJson: { dependencies: { "better-auth": "^1.0.0" } },
+      },
+      ["auth"]
+    );
+
+    expect(templates.map(({ name, evidence, recorded }) => [name, evidence, recorded])).toEqual([
+      ["auth", ["better-auth"], true],
+      ["database", ["prisma/schema.prisma"], false],
+      ["forms", ["src/components/forms/contact-form.tsx"], false],
+      ["security", ["src/lib/middleware/rate-limit.ts"], false],
+    ]);
+  });
+
+  it("should report missing and redirected path aliases from a commented tsconfig", () => {
+    const tsconfig = `{
+      // Alias
+      "compilerOptions": {
+        "paths": { "@/*": ["./src/*"], /* ui */ "@/components/*": ["./components/*"], },
+      },
+    }`;
+
+    expect(JSON.parse(stripJsonComments(tsconfig)).compilerOptions.paths["@/*"]).toEqual(["./src/*"]);
+    expect(checkPathAliases(tsconfig, {
+      "@/*": "./src/*",
+      "@/app/*": "./app/*",
+      "@/shared/*": "./shared/*",
+      "@/components/*": "./src/components/*",
+      "@/lib/*": "src/lib/*",
+      "@/hooks/*": "./src/hooks/*",
+      "@/services/*": "./src/services/*",
+    }).map(({ alias, actual }) => [alias, actual])).toEqual([
+      ["@/app/*", undefined],
+      ["@/shared/*", undefined],
+      ["@/components/*", "./components/*"],
+      ["@/lib/*", undefined],
+      ["@/hooks/*", undefined],
+      ["@/services/*", undefined],
+    ]);
+  });
+
+  it("should list required variables without a value", () => {
+    const example = [
+      "# ==== auth ====",
+      "# Secret [requise, secrète]",
+      "AUTH_SECRET=\"\"",
+      "# URL [requise]",
+      "AUTH_URL=\"\"",
+      "# Analytics [optionnelle]",
+      "ANALYTICS_ID=\"\"",
+    ].join("\n");
+
+    expect(checkEnv(example, ["AUTH_SECRET=abc", "AUTH_URL="])).toEqual(["AUTH_URL"]);
+    expect(checkEnv(undefined, [])).toEqual([]);
+  });
+
+  it("should tell Tailwind v3 from v4 and report mixed setups", () => {
+    expect(checkTailwind({
+      files: [],
+      contents: { "app/globals.css": "@import \"tailwindcss\";" },
+      packageJson: { dependencies: { tailwindcss: "latest", "@tailwindcss/postcss": "latest" } },
+    })).toEqual({ version: 4, issues: [] });
+
+    expect(checkTailwind({
+      files: ["tailwind.config.ts"],
+      contents: { "app/globals.css": "@tailwind base;\n@tailwind utilities;" },
+      packageJson: { devDependencies: { tailwindcss: "^3.4.0" } },
+    })).toEqual({ version: 3, issues: [] });
+
+    expect(checkTailwind({
+      files: ["tailwind.config.js"],
+      contents: { "app/globals.css": "@tailwind base;" },
+      packageJson: { dependencies: { tailwindcss: "^4.0.0" } },
+    }).issues).toHaveLength(3);
+  });
+
+  it("should compare dependencies with the pinned base versions", () => {
+    expect(checkDependencies(
+      { dependencies: { next: "^14.2.0", react: "^19.0.0", zod: "latest" } },
+      { core: ["next@^15.1.0", "react@^19.0.0"], dev: [], ui: [], validation: ["zod@^3.24.0"], database: [], auth: [] }
+    )).toEqual([{ name: "next", current: "^14.2.0", expected: "^15.1.0" }]);
+  });
+
+  it("should diagnose a project on disk", async () => {
+    await write("package.json", JSON.stringify({ dependencies: { next: "^15.1.0" } }));
+    await write("app/page.tsx", "export default function Page() {}");
+    await write("tsconfig.json", "{ \"compilerOptions\": {} }");
+
+    const report = await diagnoseProject(tempDir);
+
+    expect(report.nextVersion).toBe("^15.1.0");
+    expect(report.appDirectory).toBe("app");
+    expect(report.middleware).toBe(false);
+    expect(report.aliases).toHaveLength(7);
+    expect(report.drift).toBeUndefined();
+  });
+});
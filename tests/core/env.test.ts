@@ -0,0 +1,125 @@
+/**
+ * Tests pour le registre des variables d'environnement
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  ENV_EXAMPLE_FILE,
+  ENV_MODULE_FILE,
+  INSTRUMENTATION_FILE,
+  composeProjectEnv,
+  mergeEnvVariables,
+  parseEnvExample,
+  renderEnvExample,
+  renderEnvModule,
+} from "../../src/core/env.js";
+import type { EnvVariable } from "../../templates/types.js";
+
+const warnings: string[] = [];
+const logger = {
+  info: () => {},
+  warn: (message: string) => warnings.push(message),
+  error: () => {},
+  success: () => {},
+  debug: () => {},
+};
+
+const variable = (overrides: Partial<EnvVariable> & { name: string }): EnvVariable => ({
+  description: `Description de ${overrides.name}`,
+  required: false,
+  secret: false,
+  example: "",
+  template: "base-project-structure",
+  ...overrides,
+});
+
+describe("Environment registry", () => {
+  it("should merge declarations by name", () => {
+    const { variables } = mergeEnvVariables([
+      variable({ name: "DATABASE_URL", example: "postgresql://localhost/base" }),
+      variable({
+        name: "DATABASE_URL",
+        template: "database",
+        required: true,
+        secret: true,
+        example: "mysql://localhost/app",
+      }),
+    ]);
+
+    expect(variables).toHaveLength(1);
+    expect(variables[0]).toMatchObject({
+      template: "base-project-structure",
+      required: true,
+      secret: true,
+      example: "mysql://localhost/app",
+    });
+  });
+
+  it("should warn about secrets exposed to the browser", () => {
+    const { warnings: merged } = mergeEnvVariables([
+      variable({ name: "NEXT_PUBLIC_API_KEY", secret: true }),
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toContain("NEXT_PUBLIC_API_KEY");
+  });
+
+  it("should render one section per template and parse it back", () => {
+    const declared = [
+      variable({ name: "NEXT_PUBLIC_APP_URL", required: true, example: "http://localhost:3000" }),
+      variable({ name: "BETTER_AUTH_SECRET", template: "auth", required: true, secret: true }),
+    ];
+    const content = renderEnvExample(declared);
+
+    expect(content).toContain("# ==== base-project-structure ====");
+    expect(content).toContain("# ==== auth ====");
+    expect(content).toContain("[requise, secrète]");
+    expect(content).toContain('NEXT_PUBLIC_APP_URL="http://localhost:3000"');
+    expect(parseEnvExample(content)).toEqual(declared);
+  });
+
+  it("should keep variables from a hand-written .env.example", () => {
+    const parsed = parseEnvExample("# Application\nAPI_URL=http://localhost\nSECRET='abc'\n");
+
+    expect(parsed.map(entry => [entry.name, entry.example, entry.required])).toEqual([
+      ["API_URL", "http://localhost", false],
+      ["SECRET", "abc", false],
+    ]);
+  });
+
+  it("should validate server variables only on the server", () => {
+    const content = renderEnvModule([
+      variable({ name: "DATABASE_URL", required: true }),
+      variable({ name: "NEXT_PUBLIC_APP_URL" }),
+    ]);
+
+    expect(content).toContain("DATABASE_URL: z.string().min(1),");
+    expect(content).toContain("NEXT_PUBLIC_APP_URL: z.string().optional(),");
+    expect(content).toContain("NEXT_PUBLIC_APP_URL: process.env.NEXT_PUBLIC_APP_URL,");
+    expect(content).toContain("isServer ? server.merge(client) : client");
+  });
+
+  it("should replace generated .env.example files with the registry output", () => {
+    const files = composeProjectEnv(
+      [
+        { path: ENV_EXAMPLE_FILE, content: "OLD=1" },
+        { path: "src/app/page.tsx", content: "" },
+      ],
+      [variable({ name: "REDIS_URL", template: "cache-optimization", required: true })],
+      logger,
+      "# ==== base-project-structure ====\nAPP=1\n",
+    );
+
+    expect(files.map(file => file.path)).toEqual([
+      "src/app/page.tsx",
+      ENV_EXAMPLE_FILE,
+      ENV_MODULE_FILE,
+      INSTRUMENTATION_FILE,
+    ]);
+    const example = files.find(file => file.path === ENV_EXAMPLE_FILE)!.content;
+    expect(example).toContain("APP=");
+    expect(example).toContain("REDIS_URL=");
+    expect(example).not.toContain("OLD=");
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests pour le système de fichiers du projet (disque et mémoire)
+ */
+
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { testUtils } from "../setup.js";
+
+import { DiskFileSystem, MemoryFileSystem, globToRegExp } from "../../src/core/file-system.js";
+import { createGenerationContext, writeGeneratedFiles } from "../../src/core/file-writer.js";
+import { readManifest, saveGeneration, createManifest } from "../../src/core/manifest.js";
+
+const logger = { info: () => {}, warn: () => {}, error: () => {}, success: () => {}, debug: () => {} };
+
+describe("Project file system", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await testUtils.createTempDir("fs-");
+  });
+
+  it("should match glob patterns", () => {
+    expect(globToRegExp("**/*.ts").test("src/lib/db.ts")).toBe(true);
+    expect(globToRegExp("**/*.ts").test("db.ts")).toBe(true);
+    expect(globToRegExp("src/*.ts").test("src/lib/db.ts")).toBe(false);
+    expect(globToRegExp("app/**").test("app/page.tsx")).toBe(true);
+    expect(globToRegExp("*.{json,yaml}").test("package.json")).toBe(true);
+    expect(globToRegExp("file?.md").test("file1.md")).toBe(true);
+  });
+
+  it("should read, glob, list and snapshot files in memory", async () => {
+    const fs = new MemoryFileSystem("demo", { "package.json": "{}" });
+    await fs.writeFiles([
+      { path: "app/page.tsx", content: "page" },
+      { path: "./src/lib/db.ts", content: "db" },
+      { path: "node_modules/next/index.js", content: "" },
+    ]);
+    await fs.remove("package.json");
+
+    expect(await fs.readFile("src/lib/db.ts")).toBe("db");
+    expect(await fs.exists("package.json")).toBe(false);
+    expect(await fs.glob("**/*", ["node_modules/**"])).toEqual(["app/page.tsx", "src/lib/db.ts"]);
+    expect(fs.snapshot()).toMatchObject({ "app/page.tsx": "page", "src/lib/db.ts": "db" });
+    expect(fs.tree()).toBe([
+      "demo/",
+      "├── app/",
+      "│   └── page.tsx",
+      "├── node_modules/",
+      "│   └── next/",
+      "│       └── index.js",
+      "└── src/",
+      "    └── lib/",
+      "        └── db.ts",
+    ].join("\n"));
+  });
+
+  it("should generate and record a project without touching the disk", async () => {
+    const fs = new MemoryFileSystem(join(tempDir, "demo"), { "app/page.tsx": "old" });
+    const context = await createGenerationContext(fs.root, {
+      projectName: "demo",
+      useTypeScript: true,
+      packageManager: "pnpm",
+    }, { fs });
+
+    expect(context.existingFiles).toEqual(["app/page.tsx"]);
+    const changes = await writeGeneratedFiles(
+      [{ path: "app/page.tsx", content: "new" }, { path: "app/layout.tsx", content: "layout" }],
+      context,
+      logger,
+      { resolveConflict: async () => "overwrite" }
+    );
+    await saveGeneration(fs, createManifest(), [], changes);
+
+    expect(changes.map(({ path, status }) => [path, status])).toEqual([
+      ["app/page.tsx", "modified"],
+      ["app/layout.tsx", "created"],
+    ]);
+    expect(await fs.readFile("app/page.tsx")).toBe("new");
+    expect(Object.keys((await readManifest(fs))?.files ?? {})).toEqual(["app/layout.tsx", "app/page.tsx"]);
+    expect(existsSync(join(tempDir, "demo"))).toBe(false);
+  });
+
+  it("should write atomically and prune empty directories on disk", async () => {
+    const fs = new DiskFileSystem(tempDir);
+    await fs.writeFiles([
+      { path: "scripts/setup.sh", content: "#!/bin/sh", executable: true },
+      { path: "src/lib/db.ts", content: "db" },
+    ]);
+
+    expect(await readFile(join(tempDir, "src/lib/db.ts"), "utf-8")).toBe("db");
+    expect(await fs.glob("**/*.ts")).toEqual(["src/lib/db.ts"]);
+
+    await fs.remove("src/lib/db.ts");
+    expect(existsSync(join(tempDir, "src"))).toBe(false);
+    expect(await fs.exists("scripts/setup.sh")).toBe(true);
+  });
+});
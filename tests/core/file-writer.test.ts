@@ -0,0 +1,96 @@
+/**
+ * Tests pour l'écriture partagée des fichiers générés
+ * Valide le respect de dryRun, skipExisting et existingFiles
+ */
+
+import { existsSync, readdirSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { testUtils } from "../setup.js";
+
+import {
+  createGenerationContext,
+  formatBytes,
+  renderChangeTree,
+  writeGeneratedFiles,
+} from "../../src/core/file-writer.js";
+import type { FileTemplate, Logger } from "../../templates/types.js";
+
+const project = { projectName: "demo", useTypeScript: true, packageManager: "pnpm" as const };
+
+function createMemoryLogger(): Logger & { lines: string[] } {
+  const lines: string[] = [];
+  const push = (message: string) => lines.push(message);
+  return { lines, info: push, warn: push, error: push, success: push, debug: push };
+}
+
+describe("File writer", () => {
+  let tempDir: string;
+  const files: FileTemplate[] = [
+    { path: "middleware.ts", content: "export const middleware = 1;" },
+    { path: "src/lib/utils.ts", content: "export {};" },
+    { path: "scripts/setup.sh", content: "#!/bin/sh", executable: true },
+  ];
+
+  beforeEach(async () => {
+    tempDir = await testUtils.createTempDir("writer-");
+    await writeFile(join(tempDir, "middleware.ts"), "// existing", "utf-8");
+  });
+
+  it("should list existing files in the generation context", async () => {
+    await mkdir(join(tempDir, "node_modules/pkg"), { recursive: true });
+    await writeFile(join(tempDir, "node_modules/pkg/index.js"), "", "utf-8");
+
+    const context = await createGenerationContext(tempDir, project);
+
+    expect(context.existingFiles).toEqual(["middleware.ts"]);
+    expect(context.dryRun).toBe(false);
+    expect(context.skipExisting).toBe(false);
+  });
+
+  it("should not touch the disk in dry-run mode", async () => {
+    const logger = createMemoryLogger();
+    const context = await createGenerationContext(tempDir, project, { dryRun: true });
+
+    const changes = await writeGeneratedFiles(files, context, logger);
+
+    expect(changes.map((change) => change.status)).toEqual(["modified", "created", "created"]);
+    expect(readdirSync(tempDir)).toEqual(["middleware.ts"]);
+    expect(logger.lines.join("\n")).toContain("middleware.ts");
+  });
+
+  it("should keep existing files when skipExisting is set", async () => {
+    const context = await createGenerationContext(tempDir, project, { skipExisting: true });
+
+    const changes = await writeGeneratedFiles(files, context, createMemoryLogger());
+
+    expect(changes[0]?.status).toBe("skipped");
+    expect(await readFile(join(tempDir, "middleware.ts"), "utf-8")).toBe("// existing");
+    expect(existsSync(join(tempDir, "src/lib/utils.ts"))).toBe(true);
+  });
+
+  it("should write files without leaving temporary files", async () => {
+    const context = await createGenerationContext(tempDir, project);
+
+    await writeGeneratedFiles(files, context, createMemoryLogger());
+
+    expect(await readFile(join(tempDir, "middleware.ts"), "utf-8")).toBe(files[0]!.content);
+    expect(readdirSync(join(tempDir, "src/lib"))).toEqual(["utils.ts"]);
+  });
+
+  it("should render a tree with sizes and statuses", () => {
+    const tree = renderChangeTree(
+      [
+        { path: "src/a.ts", status: "created", size: 2048, file: files[1]! },
+        { path: "b.ts", status: "skipped", size: 10, file: files[0]! },
+      ],
+      "demo"
+    );
+
+    expect(tree).toContain("├── b.ts");
+    expect(tree).toContain("└── src/");
+    expect(tree).toContain("a.ts");
+    expect(formatBytes(2048)).toBe("2.0 KB");
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests pour le manifeste du projet (next-cli.json)
+ */
+
+import { writeFile } from "fs/promises";
+import { join } from "path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { testUtils } from "../setup.js";
+
+import type { FileChange } from "../../src/core/file-writer.js";
+import {
+  MANIFEST_FILE,
+  createManifest,
+  detectDrift,
+  hashContent,
+  readManifest,
+  recordGeneration,
+  withPristineOverwrite,
+  writeManifest,
+} from "../../src/core/manifest.js";
+
+const change = (path: string, content: string, status: FileChange["status"] = "created") => ({
+  path,
+  status,
+  size: content.length,
+  file: { path, content },
+});
+
+describe("Project manifest", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await testUtils.createTempDir("manifest-");
+  });
+
+  it("should record templates and hash every generated file", () => {
+    const manifest = recordGeneration(
+      createManifest(),
+      [{ name: "auth", version: "1.0.0", config: { providers: ["github"] }, files: ["src/lib/auth.ts"] }],
+      [
+        change("src/lib/auth.ts", "export const auth = {};"),
+        change("package.json", "{}", "merged"),
+        change("src/lib/db.ts", "generated", "skipped"),
+        change("src/lib/db.ts.new", "generated"),
+      ],
+      new Date("2025-01-01T00:00:00Z")
+    );
+
+    expect(manifest.templates).toEqual([
+      {
+        name: "auth",
+        version: "1.0.0",
+        config: { providers: ["github"] },
+        appliedAt: "2025-01-01T00:00:00.000Z",
+        files: ["src/lib/auth.ts"],
+      },
+    ]);
+    expect(Object.keys(manifest.files)).toEqual(["package.json", "src/lib/auth.ts", "src/lib/db.ts"]);
+    expect(manifest.files["src/lib/db.ts"]).toBe(hashContent("generated"));
+  });
+
+  it("should replace a template applied again", () => {
+    const first = recordGeneration(
+      createManifest(),
+      [
+        { name: "auth", version: "1.0.0", config: {}, files: [] },
+        { name: "crud", version: "1.0.0", config: {}, files: [] },
+      ],
+      []
+    );
+    const second = recordGeneration(
+      first,
+      [{ name: "auth", version: "1.1.0", config: { features: ["2fa"] }, files: [] }],
+      []
+    );
+
+    expect(second.templates.map(({ name, version }) => `${name}@${version}`)).toEqual([
+      "auth@1.1.0",
+      "crud@1.0.0",
+    ]);
+  });
+
+  it("should round-trip through next-cli.json and report drift", async () => {
+    const manifest = recordGeneration(
+      createManifest(),
+      [],
+      [change("a.ts", "pristine"), change("b.ts", "original"), change("c.ts", "deleted")]
+    );
+    await writeManifest(tempDir, manifest);
+    await writeFile(join(tempDir, "a.ts"), "pristine", "utf-8");
+    await writeFile(join(tempDir, "b.ts"), "edited by hand", "utf-8");
+
+    const read = await readManifest(tempDir);
+    expect(read).toEqual(manifest);
+    expect(await detectDrift(tempDir, read!)).toEqual({ modified: ["b.ts"], missing: ["c.ts"] });
+  });
+
+  it("should reject invalid manifests", async () => {
+    expect(await readManifest(tempDir)).toBeUndefined();
+
+    await writeFile(join(tempDir, MANIFEST_FILE), "{ \"version\": 1 }", "utf-8");
+    await expect(readManifest(tempDir)).rejects.toThrow(/next-cli.json invalide/);
+
+    await writeFile(join(tempDir, MANIFEST_FILE), "{ \"version\": 99, \"templates\": [], \"files\": {} }");
+    await expect(readManifest(tempDir)).rejects.toThrow(/version plus récente/);
+  });
+
+  it("should overwrite pristine files without asking", async () => {
+    const manifest = recordGeneration(createManifest(), [], [change("a.ts", "v1")]);
+    const asked: string[] = [];
+    const resolve = withPristineOverwrite(manifest, async (conflict) => {
+      asked.push(conflict.path);
+      return "keep";
+    });
+
+    expect(await resolve({ path: "a.ts", current: "v1", incoming: "v2" })).toBe(
+      "overwrite"
+    );
+    expect(await resolve({ path: "a.ts", current: "edited", incoming: "v2" })).toBe(
+      "keep"
+    );
+    expect(asked).toEqual(["a.ts"]);
+  });
+});
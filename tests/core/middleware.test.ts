@@ -0,0 +1,101 @@
+/**
+ * Tests pour la composition des segments de middleware
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  composeMiddleware,
+  composeProjectMiddleware,
+  createMiddlewareConfig,
+  mergeMatchers,
+  parseSegmentFile,
+  renderSegment,
+} from "../../src/core/middleware.js";
+import type { MiddlewareSegment } from "../../templates/types.js";
+
+const project = { projectName: "demo", useTypeScript: true, packageManager: "pnpm" as const };
+
+const segment = (overrides: Partial<MiddlewareSegment> = {}): MiddlewareSegment => ({
+  name: "security-headers",
+  template: "base-project-structure",
+  order: 10,
+  matcher: ["/((?!api|_next/static|favicon.ico).*)"],
+  body: "  context.response.headers.set('X-Frame-Options', 'DENY');",
+  ...overrides,
+});
+
+describe("Middleware composition", () => {
+  describe("Matcher", () => {
+    it("should keep only exclusions shared by every segment", () => {
+      const matcher = mergeMatchers([
+        ["/((?!api|_next/static|favicon.ico).*)"],
+        ["/((?!api/auth|_next/static).*)"],
+      ]);
+
+      expect(matcher).toEqual(["/((?!_next/static|api/auth).*)"]);
+    });
+
+    it("should keep targeted patterns that the catch-all excludes", () => {
+      const matcher = mergeMatchers([
+        ["/((?!api|_next/static).*)"],
+        ["/api/:path*", "/dashboard/:path*"],
+      ]);
+
+      expect(matcher).toEqual(["/((?!api|_next/static).*)", "/api/:path*"]);
+    });
+  });
+
+  describe("Segments", () => {
+    it("should keep the highest priority segment for a given name", () => {
+      const files = composeMiddleware(
+        [segment(), segment({ template: "security", priority: 10, body: "  // security" })],
+        createMiddlewareConfig(project, []),
+      );
+
+      const headers = files.find(file => file.path === "src/lib/middleware/security-headers.ts");
+      expect(headers?.content).toContain("template security");
+      expect(files.filter(file => file.path === "middleware.ts")).toHaveLength(1);
+    });
+
+    it("should drop segments whose feature is disabled", () => {
+      const config = { ...createMiddlewareConfig(project, []), security: { csp: false } };
+      const files = composeMiddleware(
+        [segment(), segment({ name: "content-security-policy", feature: "csp" })],
+        config,
+      );
+
+      expect(files.map(file => file.path)).not.toContain("src/lib/middleware/content-security-policy.ts");
+    });
+
+    it("should read back rendered segments", () => {
+      const rendered = renderSegment(segment({ name: "rate-limit", priority: 5, feature: "rate-limiting" }));
+      const parsed = parseSegmentFile(rendered.content);
+
+      expect(parsed).toEqual(rendered);
+      expect(rendered.content).toContain("export async function rateLimit(");
+    });
+  });
+
+  describe("Project", () => {
+    it("should replace standalone middleware files by the composition", () => {
+      const files = composeProjectMiddleware(
+        [
+          { files: [{ path: "middleware.ts", content: "// base" }], middleware: [segment()] },
+          {
+            files: [{ path: "middleware.ts", content: "// auth" }],
+            middleware: [segment({ name: "auth-guard", template: "auth", order: 40, feature: "auth" })],
+          },
+        ],
+        project,
+      );
+
+      const middleware = files.filter(file => file.path === "middleware.ts");
+      expect(middleware).toHaveLength(1);
+      expect(middleware[0]?.content).toContain("{ name: 'auth-guard', handler: authGuard }");
+      expect(middleware[0]?.content.indexOf("securityHeaders }")).toBeLessThan(
+        middleware[0]?.content.indexOf("authGuard }") ?? 0
+      );
+    });
+  });
+});
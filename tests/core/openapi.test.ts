@@ -0,0 +1,71 @@
+/**
+ * Tests pour la fusion des spécifications OpenAPI
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { composeProjectOpenAPI, mergeOpenAPIDocuments, printOpenAPIDocument } from "../../src/core/openapi.js";
+
+const product = {
+  openapi: "3.1.0",
+  info: { title: "Boutique", version: "1.0.0" },
+  tags: [{ name: "Product" }],
+  paths: { "/api/product": { get: { operationId: "listProduct" } } },
+  components: {
+    schemas: { Product: { type: "object" }, ApiError: { type: "object" } },
+    securitySchemes: { sessionCookie: { type: "apiKey", in: "cookie", name: "session" } },
+  },
+};
+
+const category = {
+  openapi: "3.1.0",
+  info: { title: "API REST", version: "1.0.0" },
+  tags: [{ name: "Category", description: "Catégories" }],
+  paths: { "/api/category": { get: { operationId: "listCategory" } } },
+  components: { schemas: { Category: { type: "object" }, ApiError: { type: "object", required: ["error"] } } },
+};
+
+describe("OpenAPI", () => {
+  it("should merge paths, tags and components and keep the base header", () => {
+    const merged = mergeOpenAPIDocuments(product, category);
+
+    expect(merged.info).toEqual(product.info);
+    expect(merged.tags).toEqual([{ name: "Product" }, { name: "Category", description: "Catégories" }]);
+    expect(Object.keys(merged.paths ?? {})).toEqual(["/api/product", "/api/category"]);
+    expect(merged.components?.schemas).toEqual({
+      Product: { type: "object" },
+      ApiError: { type: "object", required: ["error"] },
+      Category: { type: "object" },
+    });
+    expect(merged.components?.securitySchemes).toEqual(product.components.securitySchemes);
+  });
+
+  it("should compose generated documents and complete the project document on additions", () => {
+    const warnings: string[] = [];
+    const logger = {
+      info: () => {},
+      warn: (message: string) => warnings.push(message),
+      error: () => {},
+      success: () => {},
+      debug: () => {},
+    };
+    const files = [
+      { path: "public/openapi.json", content: printOpenAPIDocument(product) },
+      { path: "app/api/docs/route.ts", content: "" },
+      { path: "public/openapi.json", content: printOpenAPIDocument(category) },
+    ];
+
+    const created = composeProjectOpenAPI(files, logger);
+    expect(created.map((file) => file.path)).toEqual(["app/api/docs/route.ts", "public/openapi.json"]);
+    expect(Object.keys(JSON.parse(created[1]?.content ?? "{}").paths)).toEqual(["/api/product", "/api/category"]);
+
+    const current = created[1]?.content ?? "";
+    const unchanged = composeProjectOpenAPI([{ path: "public/openapi.json", content: printOpenAPIDocument(category) }], logger, current);
+    expect(unchanged[0]?.content).toBe(current);
+
+    const unreadable = composeProjectOpenAPI(files, logger, "{");
+    expect(unreadable.map((file) => file.path)).toEqual(["app/api/docs/route.ts"]);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatch(/^public\/openapi\.json non mis à jour : public\/openapi\.json invalide/);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests pour la fusion du package.json
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  composeProjectPackageJson,
+  describeConflict,
+  mergePackageJson,
+  parseDependencySpecs,
+  resolveVersionRange,
+} from "../../src/core/package-json.js";
+
+const warnings: string[] = [];
+const logger = {
+  info: () => {},
+  warn: (message: string) => warnings.push(message),
+  error: () => {},
+  success: () => {},
+  debug: () => {},
+};
+
+describe("package.json merge", () => {
+  describe("Version ranges", () => {
+    it("should pick the highest compatible range", () => {
+      expect(resolveVersionRange(["^8.0.0", "^8.11.0", ">=8.5.0"])).toEqual({
+        range: "^8.11.0",
+        compatible: true,
+      });
+    });
+
+    it("should report incompatible ranges", () => {
+      expect(resolveVersionRange(["^3.0.0", "^4.1.0"])).toEqual({ range: "^4.1.0", compatible: false });
+    });
+
+    it("should prefer semver ranges over tags", () => {
+      expect(resolveVersionRange(["latest", "^2.0.0"]).range).toBe("^2.0.0");
+    });
+
+    it("should parse scoped dependency specs", () => {
+      expect(parseDependencySpecs(["@types/pg@^8.11.0", "better-auth@^1.0.0", "tsx"])).toEqual({
+        "@types/pg": "^8.11.0",
+        "better-auth": "^1.0.0",
+        tsx: "latest",
+      });
+    });
+  });
+
+  describe("Merge", () => {
+    it("should promote development dependencies required at runtime", () => {
+      const { packageJson, conflicts } = mergePackageJson(
+        { name: "demo", devDependencies: { zod: "^3.22.0", tsx: "^4.0.0" } },
+        [{ source: "database", dependencies: { zod: "^3.24.0" } }],
+      );
+
+      expect(packageJson).toEqual({
+        name: "demo",
+        dependencies: { zod: "^3.24.0" },
+        devDependencies: { tsx: "^4.0.0" },
+      });
+      expect(conflicts).toEqual([]);
+    });
+
+    it("should keep existing scripts and warn on conflicts", () => {
+      const { packageJson, warnings: messages } = mergePackageJson(
+        { scripts: { test: "vitest run", dev: "next dev" } },
+        [{ source: "testing", scripts: { test: "jest", dev: "next dev", "test:ci": "jest --ci" } }],
+      );
+
+      expect(packageJson.scripts).toEqual({ test: "vitest run", dev: "next dev", "test:ci": "jest --ci" });
+      expect(messages).toHaveLength(1);
+      expect(messages[0]).toContain("« test »");
+    });
+
+    it("should let the last template win when creating a project", () => {
+      const { packageJson } = mergePackageJson(
+        { scripts: { test: "jest" } },
+        [{ source: "testing", scripts: { test: "vitest" } }],
+        { overrideScripts: true },
+      );
+
+      expect(packageJson.scripts).toEqual({ test: "vitest" });
+    });
+  });
+
+  describe("Project", () => {
+    it("should fold contributions into a single package.json", () => {
+      warnings.length = 0;
+      const files = composeProjectPackageJson(
+        [
+          { path: "package.json", content: JSON.stringify({ name: "demo", dependencies: { pg: "^7.0.0" } }) },
+          { path: "src/index.ts", content: "" },
+        ],
+        [{ source: "database", dependencies: { pg: "^8.11.0", prisma: "^6.0.0" } }],
+        logger,
+      );
+
+      const packageFiles = files.filter(file => file.path === "package.json");
+      expect(packageFiles).toHaveLength(1);
+      expect(JSON.parse(packageFiles[0]?.content ?? "{}").dependencies).toEqual({
+        pg: "^8.11.0",
+        prisma: "^6.0.0",
+      });
+      expect(warnings[0]).toContain("Versions incompatibles pour pg");
+    });
+
+    it("should list each requested range and source once", () => {
+      const { conflicts } = mergePackageJson(
+        { dependencies: { "lucide-react": "^0.460.0" } },
+        [
+          { source: "package.json", dependencies: { "lucide-react": "^0.460.0" } },
+          { source: "navigation", dependencies: { "lucide-react": "^0.294.0" } },
+        ],
+      );
+
+      expect(conflicts.map(describeConflict)).toEqual([
+        "Versions incompatibles pour lucide-react : ^0.460.0 (package.json), ^0.294.0 (navigation), ^0.460.0 retenue",
+      ]);
+    });
+  });
+});
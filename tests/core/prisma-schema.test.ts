@@ -0,0 +1,202 @@
+/**
+ * Tests pour l'analyse et la fusion des schémas Prisma
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  composeProjectPrismaSchema,
+  mergePrismaSchemas,
+  parsePrismaSchema,
+  printPrismaSchema,
+} from "../../src/core/prisma-schema.js";
+import { PRISMA_EXTEND_COMMENT } from "../../templates/generation.js";
+
+const base = `// This is your Prisma schema file
+
+generator client {
+  provider = "prisma-client-js"
+}
+
+datasource db {
+  provider = "postgresql"
+  url      = env("DATABASE_URL")
+}
+
+enum Role {
+  USER
+  ADMIN
+
+  @@map("roles")
+}
+
+model User {
+  id    String  @id @default(cuid())
+  /// @zod.string.email()
+  email String  @unique
+  name  String? @db.VarChar(255) // nom affiché
+
+  // Relations
+  posts Post[]
+
+  @@index([email, name])
+  @@map("users")
+}
+`;
+
+describe("Prisma schema", () => {
+  it("should parse blocks, fields and attributes", () => {
+    const schema = parsePrismaSchema(base);
+    const user = schema.models.find((model) => model.name === "User");
+
+    expect(schema.comments).toEqual(["// This is your Prisma schema file"]);
+    expect(schema.datasources[0]?.properties).toEqual([
+      { key: "provider", value: "\"postgresql\"" },
+      { key: "url", value: "env(\"DATABASE_URL\")" },
+    ]);
+    expect(schema.enums[0]?.values.map((value) => value.name)).toEqual(["USER", "ADMIN"]);
+    expect(user?.fields.map((field) => field.name)).toEqual(["id", "email", "name", "posts"]);
+    expect(user?.fields[0]?.attributes).toEqual([{ name: "id" }, { name: "default", args: "cuid()" }]);
+    expect(user?.fields[1]?.comments).toEqual(["/// @zod.string.email()"]);
+    expect(user?.fields[2]).toMatchObject({ optional: true, attributes: [{ name: "db.VarChar", args: "255" }] });
+    expect(user?.fields[3]).toMatchObject({ type: "Post", list: true, comments: ["// Relations"] });
+    expect(user?.attributes).toEqual([{ name: "index", args: "[email, name]" }, { name: "map", args: "\"users\"" }]);
+  });
+
+  it("should print a parsed schema unchanged", () => {
+    const printed = printPrismaSchema(parsePrismaSchema(base));
+    expect(printed).toBe(base);
+    expect(printPrismaSchema(parsePrismaSchema(printed))).toBe(printed);
+  });
+
+  it("should keep trailing comments and block order when merging", () => {
+    const commented = `datasource db {
+  provider = "postgresql"
+  url      = env("DATABASE_URL")
+}
+
+model Post {
+  id     String @id // identifiant
+  status Status // brouillon par défaut
+}
+
+enum Status {
+  DRAFT     // non publié
+  PUBLISHED @map("published") // visible
+}
+
+generator client {
+  provider = "prisma-client-js"
+}
+`;
+    expect(printPrismaSchema(parsePrismaSchema(commented))).toBe(commented);
+
+    const fragment = parsePrismaSchema(`
+enum Visibility {
+  PUBLIC
+}
+
+model Post {
+  title String
+}
+
+enum Status {
+  ARCHIVED
+}
+`);
+    const printed = printPrismaSchema(mergePrismaSchemas(parsePrismaSchema(commented), fragment).schema);
+
+    expect(printed).toContain("  id     String @id // identifiant\n");
+    expect(printed).toContain("  DRAFT     // non publié\n");
+    expect(printed).toContain("  PUBLISHED @map(\"published\") // visible\n");
+    expect(printed).toContain("  title  String\n");
+    expect([...printed.matchAll(/^(\w+) (\w+) \{$/gm)].map((match) => `${match[1]} ${match[2]}`)).toEqual([
+      "datasource db",
+      "model Post",
+      "enum Status",
+      "generator client",
+      "enum Visibility",
+    ]);
+  });
+
+  it("should extend models, enums and attributes and report conflicting field types", () => {
+    const fragment = parsePrismaSchema(`
+enum Role {
+  MODERATOR
+}
+
+model User {
+  id        Int       @id @default(autoincrement())
+  email     String    @unique @db.VarChar(320)
+  deletedAt DateTime?
+
+  @@index([deletedAt])
+}
+
+model Post {
+  id String @id
+}
+`);
+
+    const { schema, conflicts } = mergePrismaSchemas(parsePrismaSchema(base), fragment);
+    const user = schema.models.find((model) => model.name === "User");
+
+    expect(conflicts).toEqual([{ model: "User", field: "id", current: "String", incoming: "Int" }]);
+    expect(user?.fields.find((field) => field.name === "id")?.type).toBe("Int");
+    expect(user?.fields.map((field) => field.name)).toEqual(["id", "email", "name", "posts", "deletedAt"]);
+    expect(user?.fields[1]?.attributes.map((attribute) => attribute.name)).toEqual(["unique", "db.VarChar"]);
+    expect(user?.attributes.map((attribute) => attribute.args)).toEqual([
+      "[email, name]",
+      "\"users\"",
+      "[deletedAt]",
+    ]);
+    expect(schema.enums[0]?.values.map((value) => value.name)).toEqual(["USER", "ADMIN", "MODERATOR"]);
+    expect(schema.models.map((model) => model.name)).toEqual(["User", "Post"]);
+
+    const kept = mergePrismaSchemas(parsePrismaSchema(base), fragment, { override: false }).schema;
+    expect(kept.models[0]?.fields[0]?.type).toBe("String");
+  });
+
+  it("should merge extension models into existing models only", () => {
+    const extension = parsePrismaSchema(`${PRISMA_EXTEND_COMMENT}\nmodel User {\n  items Item[]\n}\n`);
+
+    const { schema } = mergePrismaSchemas(parsePrismaSchema(base), extension);
+    const user = schema.models.find((model) => model.name === "User");
+    expect(user?.fields.map((field) => field.name)).toContain("items");
+    expect(printPrismaSchema(schema)).not.toContain(PRISMA_EXTEND_COMMENT);
+
+    expect(() => mergePrismaSchemas(parsePrismaSchema("model Post {\n  id String @id\n}\n"), extension))
+      .toThrow("Modèle User absent du schéma Prisma : impossible d'y ajouter items");
+  });
+
+  it("should compose generated schemas and keep the project schema on additions", () => {
+    const warnings: string[] = [];
+    const logger = {
+      info: () => {},
+      warn: (message: string) => warnings.push(message),
+      error: () => {},
+      success: () => {},
+      debug: () => {},
+    };
+    const files = [
+      { path: "prisma/schema.prisma", content: base },
+      { path: "src/lib/db.ts", content: "" },
+      { path: "prisma/schema.prisma", content: "model Account {\n  id String @id\n}\n" },
+    ];
+
+    const created = composeProjectPrismaSchema(files, logger);
+    expect(created.map((file) => file.path)).toEqual(["src/lib/db.ts", "prisma/schema.prisma"]);
+    expect(created[1]?.content).toContain("model Account {\n  id String @id\n}\n");
+
+    const added = composeProjectPrismaSchema(
+      [{ path: "prisma/schema.prisma", content: "model User {\n  id Int @id\n}\n" }],
+      logger,
+      base
+    );
+    expect(added[0]?.content).toBe(base);
+    expect(warnings).toEqual(["Types incompatibles pour User.id : String et Int, String retenu"]);
+
+    const unreadable = composeProjectPrismaSchema(files, logger, "model {");
+    expect(unreadable.map((file) => file.path)).toEqual(["src/lib/db.ts"]);
+  });
+});
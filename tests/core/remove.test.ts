@@ -0,0 +1,222 @@
+/**
+ * Tests pour le retrait d'un template
+ */
+
+import { existsSync } from "fs";
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { testUtils } from "../setup.js";
+
+import type { EnvVariable } from "../../templates/types.js";
+import { stripEnvVariables } from "../../src/core/env.js";
+import { createManifest, recordGeneration } from "../../src/core/manifest.js";
+import { stripOpenAPIDocument } from "../../src/core/openapi.js";
+import { stripPackageJson } from "../../src/core/package-json.js";
+import { parsePrismaSchema, printPrismaSchema, stripPrismaSchema } from "../../src/core/prisma-schema.js";
+import { getOwnedFiles, planRemoval, removeFiles } from "../../src/core/remove.js";
+
+const variable = (name: string, template: string): EnvVariable => ({
+  name,
+  description: name,
+  required: true,
+  secret: false,
+  example: "",
+  template,
+});
+
+describe("Template removal", () => {
+  let tempDir: string;
+
+  const write = async (path: string, content: string) => {
+    await mkdir(dirname(join(tempDir, path)), { recursive: true });
+    await writeFile(join(tempDir, path), content, "utf-8");
+  };
+
+  beforeEach(async () => {
+    tempDir = await testUtils.createTempDir("remove-");
+  });
+
+  it("should strip dependencies and scripts no other template needs", () => {
+    const packageJson = stripPackageJson(
+      {
+        name: "demo",
+        scripts: { dev: "next dev", "db:push": "prisma db push", "db:seed": "tsx custom-seed.ts" },
+        dependencies: { next: "^15.0.0", "@prisma/client": "^5.0.0", zod: "^3.22.0" },
+        devDependencies: { prisma: "^5.0.0" },
+      },
+      [
+        {
+          scripts: { "db:push": "prisma db push", "db:seed": "tsx prisma/seed.ts" },
+          dependencies: { "@prisma/client": "^5.0.0", zod: "^3.22.0" },
+          devDependencies: { prisma: "^5.0.0" },
+        },
+      ],
+      [{ dependencies: { next: "^15.0.0", zod: "^3.23.0" }, scripts: { dev: "next dev" } }]
+    );
+
+    expect(packageJson).toEqual({
+      name: "demo",
+      scripts: { dev: "next dev", "db:seed": "tsx custom-seed.ts" },
+      dependencies: { next: "^15.0.0", zod: "^3.22.0" },
+    });
+  });
+
+  it("should strip env variables and move shared ones to another section", () => {
+    const variables = stripEnvVariables(
+      [
+        variable("DATABASE_URL", "database"),
+        variable("SHADOW_DATABASE_URL", "database"),
+        variable("CUSTOM", "database"),
+        variable("AUTH_SECRET", "auth"),
+      ],
+      [variable("DATABASE_URL", "database"), variable("SHADOW_DATABASE_URL", "database")],
+      [variable("AUTH_SECRET", "auth"), variable("DATABASE_URL", "auth")]
+    );
+
+    expect(variables.map(({ name, template }) => `${template}:${name}`)).toEqual([
+      "auth:DATABASE_URL",
+      "database:CUSTOM",
+      "auth:AUTH_SECRET",
+    ]);
+  });
+
+  it("should strip the Prisma models, fields and enums of a removed template", () => {
+    const schema = stripPrismaSchema(
+      parsePrismaSchema(`datasource db {
+  provider = "postgresql"
+  url      = env("DATABASE_URL")
+}
+
+model User {
+  id       String    @id
+  email    String
+  items    Item[]
+  projects Project[]
+}
+
+enum ItemStatus {
+  DRAFT
+  PUBLISHED
+}
+
+model Item {
+  id     String     @id
+  status ItemStatus
+  user   User       @relation(fields: [userId], references: [id])
+  userId String
+
+  @@map("items")
+}
+
+model Project {
+  id    String @id
+  owner User   @relation(fields: [ownerId], references: [id])
+  ownerId String
+  items Item[]
+}
+`),
+      parsePrismaSchema(`model User {
+  id    String @id
+  items Item[]
+}
+
+enum ItemStatus {
+  DRAFT
+  PUBLISHED
+}
+
+model Item {
+  id     String @id
+  userId String
+
+  @@map("items")
+}
+`),
+      parsePrismaSchema(`datasource db {
+  provider = "postgresql"
+  url      = env("DATABASE_URL")
+}
+
+model User {
+  id    String @id
+  email String
+}
+`)
+    );
+
+    const printed = printPrismaSchema(schema);
+    expect(printed).not.toContain("model Item {");
+    expect(printed).not.toContain("enum ItemStatus");
+    expect(printed).not.toContain("items");
+    expect(printed).toContain("projects Project[]");
+    expect(printed).toContain("model Project {");
+    expect(printed).toContain("datasource db {");
+  });
+
+  it("should strip the OpenAPI paths, schemas and tags of a removed template", () => {
+    const document = stripOpenAPIDocument(
+      {
+        openapi: "3.1.0",
+        info: { title: "demo", version: "1.0.0" },
+        tags: [{ name: "Item" }, { name: "Order" }],
+        paths: { "/api/item": {}, "/api/item/{id}": {}, "/api/order": {} },
+        components: { schemas: { Item: {}, Order: {}, Error: {} } },
+      },
+      [
+        {
+          openapi: "3.1.0",
+          info: {},
+          tags: [{ name: "Item" }],
+          paths: { "/api/item": {}, "/api/item/{id}": {} },
+          components: { schemas: { Item: {}, Error: {} } },
+        },
+      ],
+      [
+        {
+          openapi: "3.1.0",
+          info: {},
+          tags: [{ name: "Order" }],
+          paths: { "/api/order": {} },
+          components: { schemas: { Order: {}, Error: {} } },
+        },
+      ]
+    );
+
+    expect(document.tags).toEqual([{ name: "Order" }]);
+    expect(Object.keys(document.paths ?? {})).toEqual(["/api/order"]);
+    expect(Object.keys(document.components?.schemas ?? {})).toEqual(["Order", "Error"]);
+  });
+
+  it("should delete unmodified files only and keep files shared with other templates", async () => {
+    const manifest = recordGeneration(
+      createManifest(),
+      [
+        { name: "base", version: "1.0.0", config: {}, files: ["src/lib/db.ts"] },
+        {
+          name: "database",
+          version: "1.0.0",
+          config: {},
+          files: ["src/lib/db.ts", "prisma/schema.prisma", "prisma/seed.ts", "prisma/gone.ts"],
+        },
+      ],
+      ["src/lib/db.ts", "prisma/schema.prisma", "prisma/seed.ts", "prisma/gone.ts"].map((path) => ({
+        path,
+        file: { path, content: "generated" },
+      }))
+    );
+    await write("src/lib/db.ts", "generated");
+    await write("prisma/schema.prisma", "generated");
+    await write("prisma/seed.ts", "edited");
+
+    const owned = getOwnedFiles(manifest, "database");
+    expect(owned).toEqual(["prisma/schema.prisma", "prisma/seed.ts", "prisma/gone.ts"]);
+
+    const plan = await planRemoval(tempDir, manifest, owned);
+    expect(plan).toEqual({ deleted: ["prisma/schema.prisma"], kept: ["prisma/seed.ts"] });
+
+    await removeFiles(tempDir, plan.deleted);
+    expect(existsSync(join(tempDir, "prisma/schema.prisma"))).toBe(false);
+    expect(existsSync(join(tempDir, "prisma/seed.ts"))).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests pour le graphe de dépendances entre templates
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { getTemplateConstraints, resolveTemplateGraph } from "../../src/core/template-graph.js";
+import { TemplateRegistry, templateRegistry } from "../../templates/registry.js";
+import type { TemplateConstraints, TemplateGenerator } from "../../templates/types.js";
+import { createCRUDConfig } from "../../templates/crud/index.js";
+import type { EntityRelation } from "../../templates/crud/index.js";
+import { defaultDatabaseConfig } from "../../templates/database/index.js";
+import { createDefaultEntity } from "../../src/cli/templates.js";
+
+const generator = (name: string, constraints: TemplateConstraints = {}): TemplateGenerator => ({
+  name,
+  description: name,
+  metadata: {
+    name,
+    description: name,
+    version: "1.0.0",
+    author: "tests",
+    dependencies: [],
+    devDependencies: [],
+    tags: [],
+  },
+  validate: () => ({ isValid: true, errors: [], warnings: [] }),
+  generate: async () => ({ success: true, files: [], directories: [], instructions: [] }),
+  ...constraints,
+});
+
+const names = (requests: string[], registry: TemplateRegistry) =>
+  resolveTemplateGraph(
+    requests.map((name) => ({ name, config: {} })),
+    { registry }
+  ).templates.map((template) => template.generator.name);
+
+describe("Template dependency graph", () => {
+  it("should order dependencies before the templates requiring them", () => {
+    const registry = new TemplateRegistry([
+      generator("pages", { dependencies: ["auth"] }),
+      generator("auth", { dependencies: ["orm"] }),
+      generator("database", { provides: ["orm"] }),
+    ]);
+
+    expect(names(["pages", "database", "auth"], registry)).toEqual(["database", "auth", "pages"]);
+  });
+
+  it("should auto-include required templates and record who required them", () => {
+    const registry = new TemplateRegistry([
+      generator("pages", { dependencies: ["auth"] }),
+      generator("auth", { dependencies: ["orm"] }),
+      generator("database", { provides: ["orm"] }),
+    ]);
+
+    const { templates } = resolveTemplateGraph([{ name: "pages", config: {} }], { registry });
+
+    expect(templates.map(({ generator, requiredBy }) => [generator.name, requiredBy])).toEqual([
+      ["database", "auth"],
+      ["auth", "pages"],
+      ["pages", undefined],
+    ]);
+  });
+
+  it("should report missing dependencies without including them on demand", () => {
+    const registry = new TemplateRegistry([
+      generator("pages", { dependencies: ["auth"] }),
+      generator("auth"),
+    ]);
+
+    const resolution = resolveTemplateGraph([{ name: "pages", config: {} }], {
+      registry,
+      autoInclude: false,
+    });
+
+    expect(resolution.templates).toHaveLength(1);
+    expect(resolution.missing).toEqual([{ template: "pages", dependency: "auth" }]);
+  });
+
+  it("should refuse conflicting templates and dependency cycles", () => {
+    const registry = new TemplateRegistry([
+      generator("auth", { provides: ["better-auth"] }),
+      generator("legacy-auth", { conflicts: ["better-auth"] }),
+      generator("a", { dependencies: ["b"] }),
+      generator("b", { dependencies: ["a"] }),
+    ]);
+
+    expect(() => names(["auth", "legacy-auth"], registry)).toThrow(/incompatible avec auth/);
+    expect(() => names(["a"], registry)).toThrow(/Dépendance circulaire : a -> b -> a/);
+  });
+
+  it("should derive constraints from the template configuration", () => {
+    const database = templateRegistry.resolve("database");
+
+    expect(getTemplateConstraints(database, defaultDatabaseConfig).provides).toContain(
+      "sql-relations"
+    );
+    expect(
+      getTemplateConstraints(database, { ...defaultDatabaseConfig, database: "mongodb" }).provides
+    ).not.toContain("sql-relations");
+  });
+
+  it("should auto-include auth when CRUD permissions are enabled", () => {
+    const crud = createCRUDConfig(createDefaultEntity("post"), {
+      permissions: {
+        enabled: true,
+        roles: ["admin"],
+        permissions: [],
+        fieldLevelSecurity: false,
+        rowLevelSecurity: false,
+      },
+    });
+
+    const { templates } = resolveTemplateGraph([{ name: "crud", config: crud }]);
+
+    expect(getTemplateConstraints(templateRegistry.resolve("crud"), crud).dependencies).toContain(
+      "permissions"
+    );
+    expect(templates.map(({ generator, requiredBy }) => [generator.name, requiredBy])).toContainEqual(
+      ["auth", "crud"]
+    );
+  });
+
+  it("should refuse MongoDB with entities that need SQL relations", () => {
+    const relation: EntityRelation = {
+      name: "comments",
+      type: "one-to-many",
+      target: "Comment",
+      display: { showInTable: false, showInForm: false, displayField: "id" },
+    };
+    const crud = createCRUDConfig({ ...createDefaultEntity("post"), relations: [relation] });
+
+    expect(() =>
+      resolveTemplateGraph([
+        { name: "database", config: { ...defaultDatabaseConfig, database: "mongodb", features: [] } },
+        { name: "crud", config: crud },
+      ])
+    ).toThrow(/crud requiert "sql-relations", non fourni par database/);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests pour la mise à jour des templates (fusion à trois voies)
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { testUtils } from "../setup.js";
+
+import { createManifest, saveGeneration } from "../../src/core/manifest.js";
+import type { ProjectManifest } from "../../src/core/manifest.js";
+import { CONFLICT_MARKERS, mergeThreeWay } from "../../src/core/merge.js";
+import { planUpgrade } from "../../src/core/upgrade.js";
+
+const lines = (...values: string[]) => `${values.join("\n")}\n`;
+
+describe("Three-way merge", () => {
+  const base = lines("import a", "", "const x = 1;", "", "export default x;");
+
+  it("should combine edits made to different regions", () => {
+    const current = lines("import a", "import b", "", "const x = 1;", "", "export default x;");
+    const incoming = lines("import a", "", "const x = 1;", "", "export default x;", "export { x };");
+
+    expect(mergeThreeWay(base, current, incoming)).toEqual({
+      content: lines("import a", "import b", "", "const x = 1;", "", "export default x;", "export { x };"),
+      conflicts: 0,
+    });
+  });
+
+  it("should mark conflicts only where both sides edited the same region", () => {
+    const current = lines("import a", "import b", "", "const x = 2;", "", "export default x;");
+    const incoming = lines("import a", "", "const x = 3;", "", "export default x;");
+
+    const { content, conflicts } = mergeThreeWay(base, current, incoming);
+
+    expect(conflicts).toBe(1);
+    expect(content).toBe(
+      lines(
+        "import a",
+        "import b",
+        "",
+        CONFLICT_MARKERS.start,
+        "const x = 2;",
+        CONFLICT_MARKERS.separator,
+        "const x = 3;",
+        CONFLICT_MARKERS.end,
+        "",
+        "export default x;"
+      )
+    );
+  });
+});
+
+describe("Upgrade plan", () => {
+  let tempDir: string;
+  let manifest: ProjectManifest;
+
+  const write = async (path: string, content: string) => {
+    await mkdir(dirname(join(tempDir, path)), { recursive: true });
+    await writeFile(join(tempDir, path), content, "utf-8");
+  };
+
+  beforeEach(async () => {
+    tempDir = await testUtils.createTempDir("upgrade-");
+    const generated = ["pristine.ts", "edited.ts", "deleted.ts"].map((path) => ({
+      path,
+      file: { path, content: lines("one", "two", "three") },
+    }));
+    manifest = await saveGeneration(tempDir, createManifest(), [], generated);
+
+    await write("pristine.ts", lines("one", "two", "three"));
+    await write("edited.ts", lines("one", "two", "three", "four"));
+  });
+
+  it("should replace pristine files, merge edited ones and skip deleted ones", async () => {
+    const next = lines("zero", "one", "two", "three");
+    const plan = await planUpgrade(
+      ["pristine.ts", "edited.ts", "deleted.ts", "added.ts"].map((path) => ({ path, content: next })),
+      tempDir,
+      manifest
+    );
+
+    expect(plan.files.map(({ path, content }) => [path, content])).toEqual([
+      ["pristine.ts", next],
+      ["edited.ts", lines("zero", "one", "two", "three", "four")],
+      ["added.ts", next],
+    ]);
+    expect(plan.merged).toEqual(["edited.ts"]);
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.deleted).toEqual(["deleted.ts"]);
+  });
+
+  it("should write a sidecar when the original generated content is unknown", async () => {
+    await write(".next-cli/generated/edited.ts", "lost");
+
+    const plan = await planUpgrade([{ path: "edited.ts", content: "next" }], tempDir, manifest);
+
+    expect(plan.files.map(({ path }) => path)).toEqual(["edited.ts", "edited.ts.new"]);
+    expect(plan.files[0]?.content).toBe(lines("one", "two", "three", "four"));
+    expect(plan.sidecars).toEqual(["edited.ts"]);
+  });
+});
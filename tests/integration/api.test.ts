@@ -0,0 +1,110 @@
+/**
+ * Tests pour l'API programmatique (createProject, addTemplate, listTemplates)
+ */
+
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { testUtils } from "../setup.js";
+
+import { MemoryFileSystem, addTemplate, createProject, listTemplates } from "../../index.js";
+
+describe("Programmatic API", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await testUtils.createTempDir("api-");
+  });
+
+  it("should list the catalog with presets and dependencies", () => {
+    const templates = listTemplates();
+    const crud = templates.find((template) => template.name === "crud");
+
+    expect(templates.map((template) => template.name)).toContain("security");
+    expect(crud?.dependencies).toContain("database");
+    expect(crud?.version).toMatch(/^\d+\.\d+\.\d+/);
+  });
+
+  it("should generate a project in memory", async () => {
+    const { files, changes, projectRoot } = await createProject({
+      projectName: "demo",
+      templates: ["database:postgresql", { name: "security", preset: "basic" }],
+    });
+
+    const paths = files.map((file) => file.path);
+    expect(projectRoot).toBeUndefined();
+    expect(changes).toEqual([]);
+    expect(paths).toContain("prisma/schema.prisma");
+    expect(paths).toContain("middleware.ts");
+    expect(existsSync(join(tempDir, "demo"))).toBe(false);
+
+    const packageJson = JSON.parse(files.find((file) => file.path === "package.json")?.content ?? "{}");
+    expect(packageJson.name).toBe("demo");
+    expect(packageJson.dependencies["@prisma/client"]).toBeDefined();
+  });
+
+  it("should compose the middleware of security, auth and cache-optimization", async () => {
+    const { changes } = await createProject({
+      projectName: "demo",
+      directory: tempDir,
+      templates: ["security", "auth", "cache-optimization"],
+    });
+
+    expect(changes.map((change) => change.path)).not.toContain("middleware.ts.new");
+    expect(existsSync(join(tempDir, "demo", "middleware.ts.new"))).toBe(false);
+
+    const middleware = await readFile(join(tempDir, "demo", "middleware.ts"), "utf-8");
+    expect(middleware).not.toContain("// Middleware implementation");
+    expect(middleware).toContain("handler: securityHeaders,");
+    expect(middleware).toContain("handler: cacheHeaders,");
+    expect(middleware).toContain("handler: authGuard,");
+    expect(existsSync(join(tempDir, "demo", "src/lib/middleware/cache-headers.ts"))).toBe(true);
+  });
+
+  it("should reject invalid configurations before generating", async () => {
+    await expect(createProject({ projectName: "Demo App" })).rejects.toThrow("Configuration invalide");
+    await expect(createProject({ projectName: "demo", templates: ["unknown"] })).rejects.toThrow(
+      "Template inconnu"
+    );
+  });
+
+  it("should write a project and add a template to it", async () => {
+    const created = await createProject({ projectName: "demo", directory: tempDir });
+    expect(created.projectRoot).toBe(join(tempDir, "demo"));
+    expect(existsSync(join(tempDir, "demo", "package.json"))).toBe(true);
+
+    const { result, changes } = await addTemplate({
+      projectRoot: join(tempDir, "demo"),
+      name: "database",
+      preset: "postgresql",
+    });
+    expect(result.success).toBe(true);
+    expect(changes.some((change) => change.path === "prisma/schema.prisma")).toBe(true);
+
+    const manifest = JSON.parse(await readFile(join(tempDir, "demo", "next-cli.json"), "utf-8"));
+    expect(manifest.templates.map((template: { name: string }) => template.name)).toContain("database");
+  });
+
+  it("should generate a template in memory with config overrides", async () => {
+    const { result } = await addTemplate({
+      name: "crud",
+      entity: "product",
+      config: { features: ["pagination"] },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.files.some((file) => file.path.includes("product"))).toBe(true);
+  });
+
+  it("should write to an in-memory file system", async () => {
+    const fs = new MemoryFileSystem("demo");
+    await createProject({ projectName: "demo", fs });
+    await addTemplate({ name: "database", preset: "postgresql", fs });
+
+    expect(await fs.exists("prisma/schema.prisma")).toBe(true);
+    expect(await fs.exists("next-cli.json")).toBe(true);
+    expect(await fs.glob(".next-cli/generated/**")).toContain(".next-cli/generated/prisma/schema.prisma");
+    expect(existsSync(join(process.cwd(), "demo"))).toBe(false);
+  });
+});
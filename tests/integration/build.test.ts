@@ -0,0 +1,49 @@
+/**
+ * Tests de fumée sur la sortie compilée (tsc) : la CLI doit démarrer sous Node
+ */
+
+import { spawnSync } from "child_process";
+import { existsSync, readFileSync } from "fs";
+import { join, resolve } from "path";
+import { pathToFileURL } from "url";
+import { beforeAll, describe, expect, it } from "vitest";
+
+const ROOT = resolve(__dirname, "../..");
+const PACKAGE = JSON.parse(readFileSync(join(ROOT, "package.json"), "utf8")) as { main: string; types: string };
+const TSC = join(ROOT, "node_modules", "typescript", "bin", "tsc");
+// Même sortie que `npm run build` : les dépendances se résolvent depuis node_modules
+const OUT_DIR = join(ROOT, "dist");
+
+describe("Compiled output", () => {
+  beforeAll(() => {
+    // Le typage de certains templates n'est pas encore propre : tsc sort en erreur
+    // mais émet tout de même les fichiers, seule la sortie est vérifiée ici
+    spawnSync(process.execPath, [TSC, "-p", ROOT], { cwd: ROOT, encoding: "utf8" });
+  }, 120_000);
+
+  it("should start the CLI binary", () => {
+    const entry = join(OUT_DIR, "src", "index.js");
+    expect(existsSync(entry)).toBe(true);
+
+    const result = spawnSync(process.execPath, [entry, "--help"], { encoding: "utf8" });
+
+    expect(result.stderr).toBe("");
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain("Usage: next-cli");
+    expect(result.stdout).toContain("create");
+  });
+
+  it("should import the built package entry", () => {
+    expect(existsSync(join(ROOT, PACKAGE.types))).toBe(true);
+
+    // import() dans un vrai processus Node : le chargeur de vitest tolère les spécificateurs sans extension
+    const entryUrl = pathToFileURL(join(ROOT, PACKAGE.main)).href;
+    const script = `const api = await import(${JSON.stringify(entryUrl)}); console.log(Object.keys(api).join(","));`;
+    const result = spawnSync(process.execPath, ["--input-type=module", "-e", script], { encoding: "utf8" });
+
+    expect(result.stderr).toBe("");
+    expect(result.stdout.trim().split(",")).toEqual(
+      expect.arrayContaining(["addTemplate", "createProject", "listTemplates", "MemoryFileSystem"])
+    );
+  });
+});
@@ -3,19 +3,11 @@
  * Tests the complete workflow from configuration to file generation
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
-import { join } from 'path';
-import { writeFile, readFile, mkdir, access } from 'fs/promises';
-import { testUtils } from '../setup';
-import { generateValidatedBaseProject } from '../../templates/base-project-structure/generator';
+import { describe, it, expect } from 'vitest';
+import { MemoryFileSystem } from '../../src/core/file-system.js';
+import { generateValidatedBaseProject } from '../../templates/base-project-structure/generator.js';
 
 describe('Template Generation Integration', () => {
-  let tempDir: string;
-
-  beforeEach(async () => {
-    tempDir = await testUtils.createTempDir('integration-');
-  });
-
   describe('Complete Project Generation', () => {
     it('should generate a complete Next.js project with Tailwind v4', async () => {
       const config = {
@@ -32,18 +24,9 @@ describe('Template Generation Integration', () => {
         throw new Error(`Generation failed: ${result.errors.join(', ')}`);
       }
 
-      // Create project directory
-      const projectDir = join(tempDir, config.projectName);
-      await mkdir(projectDir, { recursive: true });
-
       // Write all generated files
-      for (const file of result.files) {
-        const filePath = join(projectDir, file.path);
-        const fileDir = join(filePath, '..');
-        
-        await mkdir(fileDir, { recursive: true });
-        await writeFile(filePath, file.content, 'utf-8');
-      }
+      const fs = new MemoryFileSystem(config.projectName);
+      await fs.writeFiles(result.files);
 
       // Verify essential files exist
       const essentialFiles = [
@@ -57,14 +40,11 @@ describe('Template Generation Integration', () => {
       ];
 
       for (const file of essentialFiles) {
-        const filePath = join(projectDir, file);
-        await expect(access(filePath)).resolves.not.toThrow();
+        await expect(fs.exists(file)).resolves.toBe(true);
       }
 
       // Verify package.json content
-      const packageJsonPath = join(projectDir, 'package.json');
-      const packageJsonContent = await readFile(packageJsonPath, 'utf-8');
-      const packageJson = JSON.parse(packageJsonContent);
+      const packageJson = JSON.parse((await fs.readFile('package.json')) ?? '{}');
 
       expect(packageJson.name).toBe(config.projectName);
       expect(packageJson.dependencies.next).toContain('^15.1.0');
@@ -72,13 +52,11 @@ describe('Template Generation Integration', () => {
       expect(packageJson.dependencies.tailwindcss).toBe('latest');
 
       // Verify Tailwind v4 configuration
-      const postcssConfigPath = join(projectDir, 'postcss.config.ts');
-      const postcssConfig = await readFile(postcssConfigPath, 'utf-8');
+      const postcssConfig = await fs.readFile('postcss.config.ts');
       expect(postcssConfig).toContain('@tailwindcss/postcss');
 
       // Verify globals.css uses v4 syntax
-      const globalsCssPath = join(projectDir, 'app/globals.css');
-      const globalsCss = await readFile(globalsCssPath, 'utf-8');
+      const globalsCss = await fs.readFile('app/globals.css');
       expect(globalsCss).toContain('@import "tailwindcss"');
       expect(globalsCss).toContain('@theme {');
     });
@@ -4,14 +4,14 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { testUtils } from '../setup';
+import { testUtils } from '../setup.js';
 
 // Import the template functions
 import { 
   generateValidatedAuthProject, 
   validateAuthConfig 
-} from '../../templates/authentication/generator';
-import type { AuthConfig } from '../../templates/authentication/index';
+} from '../../templates/authentication/generator.js';
+import type { AuthConfig } from '../../templates/authentication/index.js';
 
 describe('Authentication Template', () => {
   let tempDir: string;
@@ -113,6 +113,7 @@ describe('Authentication Template', () => {
       const essentialFiles = [
         'src/lib/auth.ts',
         'src/lib/auth-client.ts',
+        'src/lib/permissions.ts',
         'middleware.ts',
         'app/api/auth/[...all]/route.ts',
         'app/(auth)/login/page.tsx',
@@ -204,6 +205,20 @@ describe('Authentication Template', () => {
       expect(content).toContain('X-Frame-Options');
       expect(content).toContain('matcher');
     });
+
+    it('should generate the permissions module used by other templates', () => {
+      const result = generateValidatedAuthProject();
+
+      if ('errors' in result) {
+        throw new Error(`Generation failed: ${result.errors.join(', ')}`);
+      }
+
+      const permissions = result.files.find(f => f.path === 'src/lib/permissions.ts');
+      expect(permissions).toBeDefined();
+      expect(permissions!.content).toContain('export async function checkPermission(');
+      expect(permissions!.content).toContain('export async function getUserRoles(');
+      expect(permissions!.content).toContain('auth.api.getSession');
+    });
   });
 
   describe('Database Support', () => {
@@ -6,15 +6,15 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { join } from 'path';
 import { writeFile, mkdir } from 'fs/promises';
-import { testUtils } from '../setup';
+import { testUtils } from '../setup.js';
 
 // Import the template functions
 import { 
   generateValidatedBaseProject, 
   validateProjectConfig,
   defaultBaseProjectConfig 
-} from '../../templates/base-project-structure/generator';
-import type { BaseProjectConfig } from '../../templates/base-project-structure/index';
+} from '../../templates/base-project-structure/generator.js';
+import type { BaseProjectConfig } from '../../templates/base-project-structure/index.js';
 
 describe('Base Project Structure Template', () => {
   let tempDir: string;
@@ -109,6 +109,19 @@ describe('Base Project Structure Template', () => {
         expect(found, `Essential file missing: ${file}`).toBeDefined();
       }
     });
+
+    it('should keep the next-cli snapshots out of the compiled and linted sources', () => {
+      const result = generateValidatedBaseProject();
+
+      if ('errors' in result) {
+        throw new Error(`Generation failed: ${result.errors.join(', ')}`);
+      }
+
+      const content = (path: string) => result.files.find(f => f.path === path)?.content ?? '';
+      expect(JSON.parse(content('tsconfig.json')).exclude).toContain('.next-cli');
+      expect(JSON.parse(content('.eslintrc.json')).ignorePatterns).toContain('.next-cli/');
+      expect(content('.gitignore')).toContain('/.next-cli/');
+    });
   });
 
   describe('Tailwind CSS v4 Integration', () => {
@@ -0,0 +1,603 @@
+/**
+ * Tests pour le template CRUD
+ * Valide le modèle Prisma, les Server Actions, les routes API et les relations générés à partir des entités
+ */
+
+import { writeFile } from "fs/promises";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import { describe, expect, it } from "vitest";
+import { testUtils } from "../setup.js";
+
+import { composeProjectOpenAPI } from "../../src/core/openapi.js";
+import { composeProjectPrismaSchema, parsePrismaSchema } from "../../src/core/prisma-schema.js";
+import { CRUDGenerator, generateCRUDDomain, validateCRUDConfig } from "../../templates/crud/generator.js";
+import {
+  createCRUDConfig,
+  createCRUDDomainConfig,
+  CRUDConfig,
+  EntityDefinition,
+  EntityField,
+} from "../../templates/crud/index.js";
+import { PRISMA_EXTEND_COMMENT } from "../../templates/generation.js";
+import { generateCRUDPrismaSchema } from "../../templates/crud/prisma.js";
+
+const display = { showInTable: true, showInForm: true, showInDetail: true, formType: "input" } as const;
+const relationDisplay = { showInTable: true, showInForm: true, displayField: "name", searchable: false };
+
+const field = (name: string, type: EntityField["type"], extra: Partial<EntityField> = {}): EntityField => ({
+  name,
+  type,
+  displayName: name,
+  required: true,
+  display,
+  ...extra,
+});
+
+const product: EntityDefinition = {
+  name: "Product",
+  displayName: "Produit",
+  fields: [
+    field("name", "string", { description: "Nom commercial" }),
+    field("sku", "string", { unique: true }),
+    field("price", "number"),
+    field("isActive", "boolean", { defaultValue: true }),
+    field("status", "enum", { defaultValue: "active", values: ["active", "inactive", "discontinued"] }),
+    field("images", "json", { required: false }),
+    field("releasedAt", "date", { required: false }),
+    field("categoryId", "relation"),
+  ],
+  relations: [
+    { name: "category", type: "one-to-many", target: "Category", foreignKey: "categoryId", onDelete: "restrict", display: relationDisplay },
+    { name: "manual", type: "one-to-one", target: "Document", display: relationDisplay },
+    { name: "tags", type: "many-to-many", target: "Tag", display: relationDisplay },
+    { name: "parent", type: "one-to-many", target: "Product", onDelete: "set-null", display: relationDisplay },
+  ],
+  indexes: [
+    { name: "idx_product_category", fields: ["categoryId"] },
+    { name: "idx_product_name", fields: ["name"], type: "gin" },
+    { name: "idx_product_sku", fields: ["sku", "categoryId"], unique: true },
+  ],
+  constraints: [
+    { name: "unique_sku_category", type: "unique", fields: ["sku", "categoryId"] },
+    { name: "positive_price", type: "check", fields: ["price"], condition: "price > 0" },
+  ],
+};
+
+const parsePrismaSchemaOf = (entity: EntityDefinition) => {
+  const file = generateCRUDPrismaSchema(createCRUDConfig(entity));
+  return { file, schema: parsePrismaSchema(file.content) };
+};
+
+const generate = (features = createCRUDConfig(product).features) => {
+  const file = generateCRUDPrismaSchema(createCRUDConfig(product, { features }));
+  return { file, schema: parsePrismaSchema(file.content) };
+};
+
+describe("CRUD Template", () => {
+  describe("Prisma model", () => {
+    it("should map entity fields to Prisma types and attributes", () => {
+      const { file, schema } = generate();
+      const model = schema.models.find((entry) => entry.name === "Product");
+      const fieldOf = (name: string) => model?.fields.find((entry) => entry.name === name);
+
+      expect(file.path).toBe("prisma/schema.prisma");
+      expect(schema.enums.map((entry) => [entry.name, entry.values.map((value) => value.name)])).toEqual([
+        ["ProductStatus", ["active", "inactive", "discontinued"]],
+      ]);
+      expect(fieldOf("id")?.attributes).toEqual([{ name: "id" }, { name: "default", args: "uuid()" }]);
+      expect(fieldOf("name")?.comments).toEqual(["/// Nom commercial"]);
+      expect(fieldOf("sku")?.attributes).toEqual([{ name: "unique" }]);
+      expect(fieldOf("price")?.type).toBe("Float");
+      expect(fieldOf("isActive")?.attributes).toEqual([{ name: "default", args: "true" }]);
+      expect(fieldOf("status")).toMatchObject({ type: "ProductStatus", attributes: [{ name: "default", args: "active" }] });
+      expect(fieldOf("images")).toMatchObject({ type: "Json", optional: true, attributes: [] });
+      expect(fieldOf("releasedAt")).toMatchObject({ type: "DateTime", optional: true });
+      expect(fieldOf("updatedAt")?.attributes).toEqual([{ name: "updatedAt" }]);
+      expect(fieldOf("deletedAt")).toBeUndefined();
+    });
+
+    it("should generate indexes, constraints and the table mapping", () => {
+      const { file, schema } = generate();
+      const model = schema.models.find((entry) => entry.name === "Product");
+
+      expect(model?.attributes).toEqual([
+        { name: "index", args: "[categoryId], map: \"idx_product_category\"" },
+        { name: "index", args: "[name], map: \"idx_product_name\", type: Gin" },
+        { name: "unique", args: "[sku, categoryId], map: \"idx_product_sku\"" },
+        { name: "map", args: "\"products\"" },
+      ]);
+      expect(file.content).toContain("// CHECK positive_price : price > 0\nmodel Product {");
+    });
+
+    it("should pluralize table names unless the entity sets one", () => {
+      const tableOf = (entity: EntityDefinition) => {
+        const { schema } = parsePrismaSchemaOf(entity);
+        return schema.models.find((entry) => entry.name === entity.name)?.attributes.find((attribute) => attribute.name === "map")?.args;
+      };
+      const simple = { ...product, relations: [], indexes: [], constraints: [] };
+
+      expect(tableOf({ ...simple, name: "Category" })).toBe("\"categories\"");
+      expect(tableOf({ ...simple, name: "OrderItem" })).toBe("\"order_items\"");
+      expect(tableOf({ ...simple, name: "Address" })).toBe("\"addresses\"");
+      expect(tableOf({ ...simple, name: "Key" })).toBe("\"keys\"");
+      expect(tableOf({ ...simple, name: "Person", tableName: "people" })).toBe("\"people\"");
+    });
+
+    it("should generate relations with foreign keys and delete rules", () => {
+      const { schema } = generate();
+      const model = schema.models.find((entry) => entry.name === "Product");
+      const fieldOf = (name: string) => model?.fields.find((entry) => entry.name === name);
+
+      expect(fieldOf("category")).toMatchObject({
+        type: "Category",
+        optional: false,
+        attributes: [{ name: "relation", args: "fields: [categoryId], references: [id], onDelete: Restrict" }],
+      });
+      expect(fieldOf("manualId")).toMatchObject({ type: "String", optional: true, attributes: [{ name: "unique" }] });
+      expect(fieldOf("manual")?.attributes[0]?.args).toBe("fields: [manualId], references: [id]");
+      expect(fieldOf("parent")?.attributes[0]?.args).toBe(
+        "\"ProductParent\", fields: [parentId], references: [id], onDelete: SetNull"
+      );
+      expect(fieldOf("parentOf")).toMatchObject({ type: "Product", list: true });
+      expect(fieldOf("tags")).toMatchObject({ type: "ProductTag", list: true });
+    });
+
+    it("should generate join tables and inverse relations on target models", () => {
+      const { schema } = generate();
+      const join = schema.models.find((entry) => entry.name === "ProductTag");
+
+      expect(join?.fields.map((entry) => entry.name)).toEqual(["productId", "tagId", "createdAt", "product", "tag"]);
+      expect(join?.fields[4]?.attributes[0]?.args).toBe("fields: [tagId], references: [id], onDelete: Cascade");
+      expect(join?.attributes.map((attribute) => attribute.args)).toEqual([
+        "[productId, tagId]",
+        "[tagId]",
+        "\"product_tags\"",
+      ]);
+
+      const inverse = Object.fromEntries(
+        schema.models
+          .filter((entry) => ["Category", "Document", "Tag"].includes(entry.name))
+          .map((entry) => [entry.name, entry.fields.map((item) => `${item.name}:${item.type}${item.list ? "[]" : ""}`)])
+      );
+      expect(inverse).toEqual({
+        Category: ["products:Product[]"],
+        Document: ["product:Product"],
+        Tag: ["products:ProductTag[]"],
+      });
+      // Cibles hors du domaine : fusionnées dans le modèle existant, jamais créées
+      expect(
+        schema.models.filter((entry) => entry.comments.includes(PRISMA_EXTEND_COMMENT)).map((entry) => entry.name)
+      ).toEqual(["Category", "Document", "Tag"]);
+    });
+
+    it("should add soft delete and audit columns", () => {
+      const { schema } = generate(["pagination", "soft-delete", "audit-trail"]);
+      const model = schema.models.find((entry) => entry.name === "Product");
+
+      expect(model?.fields.map((entry) => entry.name)).toEqual(
+        expect.arrayContaining(["deletedAt", "createdBy", "updatedBy"])
+      );
+      expect(model?.attributes).toContainEqual({ name: "index", args: "[deletedAt]" });
+    });
+  });
+
+  describe("Server actions", () => {
+    const actionsOf = (features = createCRUDConfig(product).features) => {
+      const { files } = new CRUDGenerator(createCRUDConfig(product, { features })).generate();
+      return files.find((file) => file.path === "src/services/product/actions.ts")?.content ?? "";
+    };
+
+    it("should query Prisma with the generated where and order by clauses", () => {
+      const content = actionsOf();
+
+      expect(content).toContain("import { db } from \"@/lib/db\";");
+      expect(content).toContain("const where = buildProductWhereClause(search, filters as ProductFilter);");
+      expect(content).toContain("orderBy: buildProductOrderByClause(sort),");
+      expect(content).toContain("skip: (page - 1) * limit,");
+      expect(content).toContain("db.product.count({ where }),");
+      expect(content).toContain("await db.product.delete({ where: { id } });");
+      expect(content).not.toContain("TODO");
+    });
+
+    it("should map unique constraint names to form fields and revalidate caches", () => {
+      const content = actionsOf();
+
+      expect(content).toContain([
+        "const UNIQUE_CONSTRAINTS: Record<string, string[]> = {",
+        "  \"products_sku_key\": [\"sku\"],",
+        "  \"products_manualId_key\": [\"manualId\"],",
+        "  \"idx_product_sku\": [\"sku\", \"categoryId\"],",
+        "  \"unique_sku_category\": [\"sku\", \"categoryId\"],",
+        "};",
+      ].join("\n"));
+      expect(content).toContain("if (error.code === 'P2002') {");
+      expect(content).toContain("revalidateTag(\"product\");");
+      expect(content).toContain("revalidateTag(`product:${id}`);");
+    });
+
+    it("should soft delete when the feature is enabled", () => {
+      const content = actionsOf(["pagination", "soft-delete"]);
+
+      // La relation parent (set-null) est appliquée par la suppression logique
+      expect(content).toContain("const deleted = await db.$transaction((tx) => softDeleteProduct(tx, [id]));");
+      expect(content).toContain("where: { id, deletedAt: null },");
+      expect(content).not.toContain(".delete(");
+    });
+  });
+
+  describe("Bulk actions", () => {
+    const filesOf = (features: CRUDConfig["features"], includeBulkActions = true) => {
+      const { files } = new CRUDGenerator(createCRUDConfig(product, { features })).generate({ includeBulkActions });
+      return Object.fromEntries(files.map((file) => [file.path, file.content]));
+    };
+
+    it("should generate bulk server actions with per-row results and permission checks", () => {
+      const content = filesOf(["selection", "bulk-actions"])["src/services/product/bulk-actions.ts"] ?? "";
+
+      expect(content).toContain("export async function bulkDeleteProduct(ids: string[])");
+      expect(content).toContain("export async function bulkUpdateProduct(");
+      expect(content).toContain("export async function bulkSetProductStatus(");
+      expect(content).toContain("import { Prisma, type ProductStatus } from \"@prisma/client\";");
+      expect(content).toContain("  value: ProductStatus\n): Promise<BulkProductResult> {");
+      expect(content).toContain("if (!validateProductPermission(action, roles, item)) {");
+      expect(content).toContain("errors.push({ id, error: toErrorMessage(error) });");
+      expect(content).toContain("db.product.delete({ where: { id: item.id } })");
+      expect(content).not.toContain("bulkRestoreProduct");
+    });
+
+    it("should soft delete and restore in bulk when the feature is enabled", () => {
+      const files = filesOf(["bulk-actions", "soft-delete"]);
+      const content = files["src/services/product/bulk-actions.ts"] ?? "";
+      const types = files["shared/types/product.ts"] ?? "";
+
+      expect(types).toContain("  deletedAt: Date | null;");
+      expect(types).toContain("export type ProductCreate = Omit<Product, 'id' | 'createdAt' | 'updatedAt' | 'deletedAt'>;");
+
+      expect(content).toContain("db.$transaction((tx) => softDeleteProduct(tx, [item.id]))");
+      expect(content).toContain("export async function bulkRestoreProduct(ids: string[])");
+      expect(content).toContain("deletedAt: deleted ? { not: null } : null");
+    });
+
+    it("should wire the bulk toolbar to the table row selection", () => {
+      const files = filesOf(["selection", "bulk-actions"]);
+      const table = files["src/components/product/product-table.tsx"] ?? "";
+      const toolbar = files["src/components/product/product-bulk-toolbar.tsx"] ?? "";
+
+      expect(table).toContain("import { ProductBulkToolbar } from \"./product-bulk-toolbar\";");
+      expect(table).toContain("<ProductBulkToolbar table={table} onComplete={onBulkComplete} />");
+      expect(table).toContain("getRowId: (row) => row.id,");
+      expect(toolbar).toContain("table.getSelectedRowModel().rows.map((row) => row.original.id)");
+      expect(toolbar).toContain("import { bulkDeleteProduct, bulkSetProductStatus } from \"@/services/product/bulk-actions\";");
+      expect(toolbar).toContain("<AlertDialogAction onClick={confirm}>Confirmer</AlertDialogAction>");
+    });
+
+    it("should not generate bulk actions unless requested", () => {
+      const files = filesOf(["selection", "bulk-actions"], false);
+
+      expect(files["src/services/product/bulk-actions.ts"]).toBeUndefined();
+      expect(files["src/components/product/product-table.tsx"]).not.toContain("BulkToolbar");
+    });
+  });
+
+  describe("Export and import", () => {
+    const filesOf = (features: CRUDConfig["features"]) => {
+      const { files, dependencies } = new CRUDGenerator(createCRUDConfig(product, { features }))
+        .generate({ includeExportImport: true });
+      return { files: Object.fromEntries(files.map((file) => [file.path, file.content])), dependencies };
+    };
+
+    it("should stream the filtered and sorted query from the export route", () => {
+      const { files, dependencies } = filesOf(["export"]);
+      const route = files["app/api/product/export/route.ts"] ?? "";
+
+      expect(route).toContain("buildProductWhereClause(params.get(\"search\") ?? undefined, filters)");
+      expect(route).toContain("const batch = await db.product.findMany({ where, orderBy, skip, take: BATCH_SIZE });");
+      expect(route).toContain("new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false })");
+      expect(route).toContain("\"Content-Disposition\": `attachment; filename=\"${filename}\"`,");
+      expect(files["src/services/product/data-actions.ts"]).toBeUndefined();
+      expect(files["src/components/product/product-table.tsx"]).toContain("<ProductExportMenu");
+      expect(dependencies).toHaveProperty("exceljs");
+    });
+
+    it("should validate imported rows with the entity schema before committing in a transaction", () => {
+      const { files } = filesOf(["import"]);
+      const actions = files["src/services/product/data-actions.ts"] ?? "";
+
+      expect(actions).toContain("const validation = productSchema.safeParse(toProductImportRecord(record));");
+      expect(actions).toContain("if (dryRun || errors.length > 0) {");
+      expect(actions).toContain("await db.$transaction(");
+      expect(files["src/components/product/product-import-dialog.tsx"]).toContain("formData.append(\"dryRun\", String(dryRun));");
+      expect(files["app/api/product/export/route.ts"]).toBeUndefined();
+    });
+
+    it("should round-trip CSV rows through the generated data library", async () => {
+      const dir = await testUtils.createTempDir("crud-data-");
+      const path = join(dir, "product-data.ts");
+      await writeFile(path, filesOf(["export", "import"]).files["src/lib/product-data.ts"] ?? "");
+      const data = await import(pathToFileURL(path).href);
+
+      const csv = "\uFEFFNom;sku;PRICE;isActive\r\n\"Lampe; \"\"design\"\"\";L-1;12,5;Oui\r\n\r\nChaise;C-2;40;non\r\n";
+      const records = data.parseProductCsv(csv);
+      expect(records).toEqual([
+        { Nom: "Lampe; \"design\"", sku: "L-1", PRICE: "12,5", isActive: "Oui" },
+        { Nom: "Chaise", sku: "C-2", PRICE: "40", isActive: "non" },
+      ]);
+      expect(data.toProductImportRecord(records[0])).toEqual({ sku: "L-1", price: 12.5, isActive: true });
+      expect(data.formatProductCsvLine(["Lampe; \"design\"", "12.5"])).toBe("\"Lampe; \"\"design\"\"\",12.5\r\n");
+      expect(data.buildProductExportUrl({ format: "xlsx", search: "lampe", sort: [{ field: "price", direction: "desc" }] }))
+        .toBe("/api/product/export?format=xlsx&search=lampe&sort=price%3Adesc");
+    });
+  });
+
+  describe("REST API", () => {
+    const api = { generateRoutes: true, authentication: true, rateLimit: false, caching: false, documentation: true };
+    const catalog: EntityDefinition = {
+      ...product,
+      fields: product.fields.map((entry) => ({
+        ...entry,
+        sortable: ["name", "price"].includes(entry.name),
+        filterable: ["price", "isActive", "status"].includes(entry.name),
+      })),
+    };
+    const filesOf = (options: Partial<CRUDConfig> = {}) => {
+      const { files } = new CRUDGenerator(createCRUDConfig(catalog, { api, ...options })).generate({ includeAPI: true });
+      return Object.fromEntries(files.map((file) => [file.path, file.content]));
+    };
+
+    it("should validate request bodies with the entity schemas", () => {
+      const files = filesOf({ features: ["soft-delete"] });
+      const collection = files["app/api/product/route.ts"] ?? "";
+      const item = files["app/api/product/[id]/route.ts"] ?? "";
+
+      expect(collection).toContain("const pagination = productPaginationSchema.safeParse({ page, limit });");
+      expect(collection).toContain("const validation = productSchema.safeParse(body);");
+      expect(collection).toContain("return NextResponse.json(item, { status: 201 });");
+      expect(collection).toContain("const unauthorized = await requireProductSession(request);");
+      expect(item).toContain("params: Promise<{ id: string }>;");
+      expect(item).toContain("const validation = productUpdateSchema.safeParse(body);");
+      expect(item).toContain("const deleted = await db.$transaction((tx) => softDeleteProduct(tx, [id]));");
+      expect(files["src/lib/product-api.ts"]).toContain("const DATE_FIELDS: string[] = [\"releasedAt\"];");
+    });
+
+    it("should version the routes and skip authentication when disabled", () => {
+      const files = filesOf({ api: { ...api, authentication: false, documentation: false, versioning: "v1" } });
+
+      expect(files["app/api/v1/product/route.ts"]).not.toContain("requireProductSession");
+      expect(files["app/api/v1/product/[id]/route.ts"]).toContain("await db.product.delete({ where: { id } });");
+      expect(files["public/openapi.json"]).toBeUndefined();
+      expect(files["app/api/docs/route.ts"]).toBeUndefined();
+    });
+
+    it("should describe the routes and schemas in an OpenAPI 3.1 document", () => {
+      const files = filesOf();
+      const document = JSON.parse(files["public/openapi.json"] ?? "{}");
+
+      expect(document.openapi).toBe("3.1.0");
+      expect(Object.keys(document.paths)).toEqual(["/api/product", "/api/product/{id}"]);
+      expect(document.paths["/api/product"].get.parameters.map((parameter: { name: string }) => parameter.name))
+        .toEqual(["page", "limit", "sort", "price", "isActive", "status"]);
+      expect(document.paths["/api/product"].post.requestBody.content["application/json"].schema)
+        .toEqual({ $ref: "#/components/schemas/ProductCreate" });
+      expect(document.paths["/api/product/{id}"].delete.responses).toHaveProperty("401");
+      expect(document.components.schemas.ProductCreate.required).toEqual(["name", "sku", "price", "isActive", "status", "categoryId"]);
+      expect(document.components.schemas.ProductCreate.properties.status).toMatchObject({ type: "string", enum: ["active", "inactive", "discontinued"] });
+      expect(document.components.schemas.ProductCreate.properties.releasedAt).toMatchObject({ type: "string", format: "date-time" });
+      expect(document.components.securitySchemes).toHaveProperty("sessionCookie");
+      expect(files["app/api/docs/route.ts"]).toContain("url: \"/openapi.json\"");
+    });
+
+    it("should parse list query parameters with the generated helpers", async () => {
+      const dir = await testUtils.createTempDir("crud-api-");
+      const path = join(dir, "product-api.ts");
+      const helpers = filesOf({ api: { ...api, authentication: false } })["src/lib/product-api.ts"] ?? "";
+      // Seul le parseur de requête est exécuté : les imports Next.js et Prisma sont retirés
+      await writeFile(path, helpers.replace(/^import .*$/gm, ""));
+      const { parseProductListQuery } = await import(pathToFileURL(path).href);
+
+      const params = new URLSearchParams("page=2&limit=20&search=lampe&sort=price:desc,unknown:asc,name&price=12.5&isActive=false&status=");
+      expect(parseProductListQuery(params)).toEqual({
+        page: 2,
+        limit: 20,
+        search: "lampe",
+        sort: [{ field: "price", direction: "desc" }, { field: "name", direction: "asc" }],
+        filters: { price: 12.5, isActive: false },
+      });
+    });
+  });
+
+  describe("Domain model", () => {
+    const entity = (name: string, displayName: string, fields: EntityField[], relations: EntityDefinition["relations"] = []) => ({
+      name,
+      displayName,
+      fields,
+      relations,
+      indexes: [],
+      constraints: [],
+    });
+    const category = entity("Category", "Catégorie", [field("title", "string")]);
+    const article = entity("Article", "Article", [field("name", "string"), field("categoryId", "relation"), field("parentId", "relation", { required: false })], [
+      { name: "category", type: "one-to-many", target: "Category", foreignKey: "categoryId", display: { ...relationDisplay, displayField: "title" } },
+      { name: "parent", type: "one-to-many", target: "Article", onDelete: "cascade", display: relationDisplay },
+    ]);
+    const review = entity("Review", "Avis", [field("body", "text"), field("articleId", "relation")], [
+      { name: "article", type: "one-to-many", target: "Article", foreignKey: "articleId", onDelete: "cascade", display: relationDisplay },
+    ]);
+    const filesOf = (features: CRUDConfig["features"] = ["pagination"]) => {
+      const { files, instructions } = generateCRUDDomain(
+        createCRUDDomainConfig([category, article, review], { features }),
+        { includeBulkActions: true }
+      );
+      return { paths: files.map((file) => file.path), files: Object.fromEntries(files.map((file) => [file.path, file.content])), instructions };
+    };
+
+    it("should generate every entity with relation pickers and related record tabs", () => {
+      const { paths, files, instructions } = filesOf();
+
+      expect(paths).toContain("src/services/category/actions.ts");
+      expect(paths).toContain("src/services/article/actions.ts");
+      expect(paths).toContain("src/services/review/actions.ts");
+      expect(paths.filter((path) => path === "prisma/schema.prisma")).toHaveLength(3);
+      expect(files["prisma/schema.prisma"]).not.toContain(PRISMA_EXTEND_COMMENT);
+      expect(files["src/services/category/relation-actions.ts"]).toContain("title: { contains: query.trim(), mode: \"insensitive\" },");
+      expect(files["src/components/category/category-combobox.tsx"]).toContain("setOptions(await searchCategoryOptions(query));");
+      expect(files["src/components/review/review-combobox.tsx"]).toBeUndefined();
+      expect(files["src/services/article/relation-actions.ts"]).toContain("const [articlesByParent, reviews] = await Promise.all([");
+      expect(files["src/components/article/article-related-tabs.tsx"]).toContain("Article (parent) ({related.articlesByParent.total})");
+      expect(instructions).toContain(
+        "3. Server Actions générées dans src/services/category/, src/services/article/, src/services/review/"
+      );
+      expect(instructions.filter((instruction) => instruction.includes("shadcn"))).toEqual([
+        "1. Installer les composants shadcn/ui: npx shadcn@latest add table checkbox button input select dropdown-menu alert-dialog dialog form popover command tabs",
+      ]);
+    });
+
+    it("should emit per-entity Prisma and OpenAPI fragments merged by the project composition", () => {
+      const api = { generateRoutes: true, authentication: true, rateLimit: false, caching: false, documentation: true };
+      const { files } = generateCRUDDomain(createCRUDDomainConfig([category, article, review], { api }), { includeAPI: true });
+      const silentLogger = { info: () => {}, warn: () => {}, error: () => {}, success: () => {}, debug: () => {} };
+      const composed = composeProjectOpenAPI(composeProjectPrismaSchema(files, silentLogger), silentLogger);
+      const contentOf = (path: string) => composed.filter((file) => file.path === path).map((file) => file.content);
+
+      expect(files.filter((file) => file.path === "public/openapi.json")).toHaveLength(3);
+      expect(contentOf("prisma/schema.prisma")).toHaveLength(1);
+      expect(contentOf("prisma/schema.prisma")[0]).toContain("model Review {");
+      expect(contentOf("public/openapi.json")).toHaveLength(1);
+      expect(Object.keys(JSON.parse(contentOf("public/openapi.json")[0] ?? "{}").paths)).toEqual(
+        expect.arrayContaining(["/api/category", "/api/article", "/api/review"])
+      );
+    });
+
+    it("should apply onDelete rules when deleting softly", () => {
+      const { paths, files } = filesOf(["soft-delete", "bulk-actions"]);
+      const categoryRules = files["src/lib/category-relations.ts"] ?? "";
+      const articleRules = files["src/lib/article-relations.ts"] ?? "";
+
+      // Clé étrangère requise sans onDelete : restrict, comme Prisma
+      expect(categoryRules).toContain("throw new RelationRestrictError(");
+      expect(categoryRules).toContain("\"Suppression impossible tant que des éléments Article sont liés\",");
+      expect(articleRules).toContain("await softDeleteArticle(tx, articleByParent.map((child) => child.id));");
+      expect(articleRules).toContain("await tx.review.updateMany({\n    where: { articleId: { in: ids }, deletedAt: null },");
+      expect(files["src/services/category/actions.ts"]).toContain("if (error instanceof RelationRestrictError) {");
+      expect(files["src/components/article/article-bulk-toolbar.tsx"]).toContain("effects: articleDeleteEffects,");
+      expect(paths.filter((path) => path === "src/lib/crud-relations.ts")).toHaveLength(1);
+      expect(files["src/lib/review-relations.ts"]).toBeUndefined();
+    });
+
+    it("should reject duplicate entities and unknown display fields", () => {
+      const config = createCRUDDomainConfig([
+        category,
+        { ...article, relations: [{ ...article.relations[0]!, display: { ...relationDisplay, displayField: "label" } }] },
+        category,
+      ]);
+
+      expect(validateCRUDConfig(createCRUDDomainConfig([category, article, review]))).toEqual([]);
+      expect(validateCRUDConfig(config)).toEqual([
+        "L'entité Category est définie plusieurs fois",
+        "La relation Article.category affiche un champ inconnu de Category : label",
+      ]);
+    });
+  });
+
+  describe("Pages", () => {
+    const category = { ...product, name: "Category", displayName: "Catégorie", fields: [field("name", "string")], relations: [], indexes: [], constraints: [] };
+    const article: EntityDefinition = {
+      ...category,
+      name: "Article",
+      displayName: "Article",
+      fields: [
+        field("title", "string", { display: { ...display, placeholder: "Titre de l'article", helpText: "Affiché dans la liste" } }),
+        field("body", "text", { display: { ...display, formType: "textarea" } }),
+        field("status", "enum", { values: ["draft", "published"], display: { showInTable: true, showInForm: true, showInDetail: true } }),
+        field("publishedAt", "datetime", { required: false, display: { ...display, formType: "date" } }),
+        field("secret", "string", { display: { ...display, showInForm: false, showInDetail: false } }),
+        field("categoryId", "relation"),
+      ],
+      relations: [{ name: "category", type: "one-to-many", target: "Category", foreignKey: "categoryId", display: relationDisplay }],
+    };
+    const filesOf = (forms?: CRUDConfig["forms"]) => {
+      const { files } = generateCRUDDomain(createCRUDDomainConfig([category, article], forms ? { forms } : {}));
+      return Object.fromEntries(files.map((file) => [file.path, file.content]));
+    };
+
+    it("should build the entity form with the forms component generator", () => {
+      const form = filesOf()["src/components/article/article-form.tsx"] ?? "";
+
+      expect(form).toContain("export function ArticleForm({");
+      expect(form).toContain("import { createArticle } from \"@/services/article/actions\";");
+      expect(form).toContain("  action = createArticle,\n  redirectTo = \"/article\",");
+      expect(form).toContain("type=\"text\" placeholder=\"Titre de l'article\"");
+      expect(form).toContain("<FormDescription>Affiché dans la liste</FormDescription>");
+      expect(form).toContain("<Textarea\n");
+      expect(form).toContain("<SelectItem value=\"draft\">");
+      expect(form).toContain("type=\"datetime-local\"");
+      expect(filesOf()["shared/types/article.ts"]).toContain(
+        "export enum StatusEnum {\n  DRAFT = \"draft\",\n  PUBLISHED = \"published\"\n}"
+      );
+      expect(form).toContain("import { CategoryCombobox } from \"@/components/category/category-combobox\";");
+      expect(form).toContain("<CategoryCombobox\n");
+      expect(form).toContain("startTransition(() => formAction(formData));");
+      expect(form).not.toContain("name=\"secret\"");
+      expect(form).not.toContain("from \"@/components/ui\";");
+    });
+
+    it("should generate list, detail, create and edit pages", () => {
+      const files = filesOf();
+      const detail = files["app/(dashboard)/article/[id]/page.tsx"] ?? "";
+      const edit = files["app/(dashboard)/article/[id]/edit/page.tsx"] ?? "";
+
+      expect(files["app/(dashboard)/article/page.tsx"]).toContain("const result = await getArticleList(Math.max(Number(page) || 1, 1), PAGE_SIZE, search);");
+      expect(files["app/(dashboard)/article/new/page.tsx"]).toContain("<ArticleForm />");
+      expect(detail).toContain("const categoryOption = item.categoryId ? await getCategoryOption(item.categoryId) : null;");
+      expect(detail).toContain("{item.publishedAt ? item.publishedAt.toLocaleString(\"fr-FR\") : \"—\"}");
+      expect(detail).not.toContain("secret");
+      expect(files["app/(dashboard)/category/[id]/page.tsx"]).toContain("<CategoryRelatedTabs id={item.id} />");
+      expect(edit).toContain("action={updateArticle.bind(null, item.id)}");
+      expect(edit).toContain("redirectTo={`/article/${item.id}`}");
+      expect(files["src/components/article/article-table.tsx"]).toContain("const handleCreate = onCreate ?? (() => router.push(\"/article/new\"));");
+    });
+
+    it("should follow the forms options", () => {
+      const files = filesOf({ createForm: false, editForm: false, viewForm: true, inlineEdit: false, modalForms: false, formValidation: true });
+
+      expect(Object.keys(files).filter((path) => path.startsWith("app/(dashboard)/article/"))).toEqual([
+        "app/(dashboard)/article/page.tsx",
+        "app/(dashboard)/article/[id]/page.tsx",
+      ]);
+      expect(files["src/components/article/article-form.tsx"]).toBeUndefined();
+      expect(files["app/(dashboard)/article/[id]/page.tsx"]).not.toContain("/edit");
+      expect(files["src/components/article/article-table.tsx"]).toContain("const handleEdit = onEdit;");
+    });
+  });
+
+  describe("Configuration Validation", () => {
+    it("should reject indexes on unknown fields", () => {
+      const config = createCRUDConfig({
+        ...product,
+        indexes: [...product.indexes, { name: "idx_product_missing", fields: ["missing"] }],
+      });
+
+      expect(validateCRUDConfig(createCRUDConfig(product))).toEqual([]);
+      expect(validateCRUDConfig(config)).toEqual([
+        "L'index idx_product_missing référence un champ inconnu : missing",
+      ]);
+    });
+
+    it("should require enum values and a default value among them", () => {
+      const withStatus = (status: EntityField) => createCRUDConfig({
+        ...product,
+        fields: product.fields.map((entry) => (entry.name === "status" ? status : entry)),
+      });
+
+      expect(validateCRUDConfig(withStatus(field("status", "enum")))).toEqual([
+        "Le champ enum Product.status doit définir ses valeurs",
+      ]);
+      expect(validateCRUDConfig(withStatus(field("status", "enum", { values: ["active", "on-hold"] })))).toEqual([
+        "Valeur d'enum invalide pour Product.status : \"on-hold\"",
+      ]);
+      expect(validateCRUDConfig(withStatus(field("status", "enum", { values: ["active"], defaultValue: "archived" })))).toEqual([
+        "La valeur par défaut de Product.status ne fait pas partie de l'enum : \"archived\"",
+      ]);
+    });
+  });
+});
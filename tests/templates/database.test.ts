@@ -4,15 +4,15 @@
  */
 
 import { beforeEach, describe, expect, it } from "vitest";
-import { testUtils } from "../setup";
+import { testUtils } from "../setup.js";
 
 // Import the actual template functions
-import { examples } from "../../templates/database/example";
-import { generateCompleteDatabase } from "../../templates/database/generator";
+import { examples } from "../../templates/database/example.js";
+import { generateCompleteDatabase } from "../../templates/database/generator.js";
 import {
   defaultDatabaseConfig,
   generateDatabaseTemplate,
-} from "../../templates/database/index";
+} from "../../templates/database/index.js";
 
 describe("Database Template", () => {
   let tempDir: string;
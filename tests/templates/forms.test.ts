@@ -4,16 +4,16 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { testUtils } from '../setup';
+import { testUtils } from '../setup.js';
 
 // Import the actual template functions
-import { FormGenerator, createFormConfig, FORM_PRESETS } from '../../templates/forms/index';
-import { ValidationGenerator } from '../../templates/forms/validation-generator';
-import { ComponentGenerator } from '../../templates/forms/component-generator';
-import { ActionsGenerator } from '../../templates/forms/actions-generator';
-import { TypesGenerator } from '../../templates/forms/types-generator';
-import { HooksGenerator } from '../../templates/forms/hooks-generator';
-import type { FormField, FormConfig } from '../../templates/forms/index';
+import { FormGenerator, createFormConfig, FORM_PRESETS } from '../../templates/forms/index.js';
+import { ValidationGenerator } from '../../templates/forms/validation-generator.js';
+import { ComponentGenerator } from '../../templates/forms/component-generator.js';
+import { ActionsGenerator } from '../../templates/forms/actions-generator.js';
+import { TypesGenerator } from '../../templates/forms/types-generator.js';
+import { HooksGenerator } from '../../templates/forms/hooks-generator.js';
+import type { FormField, FormConfig } from '../../templates/forms/index.js';
 
 describe('Forms Template', () => {
   let tempDir: string;
@@ -0,0 +1,105 @@
+/**
+ * Tests pour le registre des templates
+ * Vérifie que chaque module expose un TemplateGenerator valide et générable
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { TemplateRegistry, builtinTemplates, templateRegistry } from "../../templates/registry.js";
+import type { GenerationContext, TemplateGenerator } from "../../templates/types.js";
+import { findTemplate, getTemplateNames } from "../../src/cli/templates.js";
+
+const project = { projectName: "my-app", useTypeScript: true, packageManager: "pnpm" as const };
+
+const context: GenerationContext = {
+  projectRoot: ".",
+  config: project,
+  existingFiles: [],
+  skipExisting: false,
+  dryRun: true,
+};
+
+const pluginGenerator: TemplateGenerator = {
+  name: "plugin-example",
+  description: "Template fourni par un plugin",
+  metadata: {
+    name: "plugin-example",
+    description: "Template fourni par un plugin",
+    version: "0.1.0",
+    author: "Plugin",
+    dependencies: [],
+    devDependencies: [],
+    tags: [],
+  },
+  validate: () => ({ isValid: true, errors: [], warnings: [] }),
+  generate: async () => ({
+    success: true,
+    files: [{ path: "src/plugin.ts", content: "export {};\n" }],
+    directories: ["src"],
+    instructions: [],
+  }),
+};
+
+describe("Template registry", () => {
+  it("should register every built-in template", () => {
+    expect(templateRegistry.names()).toEqual([
+      "base-project-structure",
+      "auth",
+      "database",
+      "crud",
+      "forms",
+      "navigation",
+      "security",
+      "error-handling",
+      "cache-optimization",
+      "testing",
+    ]);
+  });
+
+  it("should expose metadata consistent with each generator", () => {
+    for (const generator of templateRegistry.list()) {
+      expect(generator.metadata.name).toBe(generator.name);
+      expect(generator.metadata.version).toMatch(/^\d+\.\d+\.\d+$/);
+      expect(generator.description.length).toBeGreaterThan(0);
+    }
+  });
+
+  it("should reject duplicate names", () => {
+    const registry = new TemplateRegistry(builtinTemplates);
+
+    expect(() => registry.register(builtinTemplates[0]!)).toThrow(/déjà enregistré/);
+    expect(() => registry.resolve("unknown")).toThrow(/Template inconnu/);
+  });
+
+  it("should report validation errors without throwing", () => {
+    const database = templateRegistry.resolve("database");
+    const result = database.validate({ database: "oracle" });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors[0]).toContain("oracle");
+  });
+
+  it.each(getTemplateNames())("should validate and generate %s asynchronously", async (name) => {
+    const template = findTemplate(name)!;
+    const config = template.createConfig({ project });
+
+    expect(template.generator.validate(config).errors).toEqual([]);
+    const result = await template.generator.generate(config, context);
+    expect(result.success).toBe(true);
+    expect(result.files.length).toBeGreaterThan(0);
+  });
+
+  it("should list templates registered by plugins", async () => {
+    templateRegistry.register(pluginGenerator);
+    try {
+      const template = findTemplate("plugin-example");
+
+      expect(getTemplateNames()).toContain("plugin-example");
+      expect(getTemplateNames()).not.toContain("base-project-structure");
+      expect(template?.createConfig({ project })).toEqual(project);
+      expect((await template!.generate(project)).files[0]?.path).toBe("src/plugin.ts");
+    } finally {
+      templateRegistry.unregister("plugin-example");
+    }
+  });
+});
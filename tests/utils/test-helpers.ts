@@ -5,7 +5,7 @@
 import { join } from 'path';
 import { writeFile, mkdir, readFile, access } from 'fs/promises';
 import { constants } from 'fs';
-import type { FileTemplate } from '../../templates/types';
+import type { FileTemplate } from '../../templates/types.js';
 
 export interface TestProject {
   name: string;